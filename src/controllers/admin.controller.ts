@@ -4,6 +4,7 @@ import Joi from 'joi';
 import { notifyUserDeactivation, notifyUserReactivation } from '../routes/sse.routes';
 import { AuthRequest } from '../middleware/auth.middleware';
 import { syncAfterOperation, pullLatestFromLive } from '../utils/sync-helper';
+import { EXCLUDED_SALE_STATUSES } from '../models/sale.model';
 
 // Validation schemas
 const createAdminSchema = Joi.object({
@@ -75,7 +76,7 @@ export const getAdmins = async (req: Request, res: Response) => {
       admins.map(async (admin: any) => {
         // Get total sales for this admin
         const salesStats = await prisma.sale.aggregate({
-          where: { userId: admin.id },
+          where: { userId: admin.id, status: { notIn: EXCLUDED_SALE_STATUSES } },
           _sum: { totalAmount: true },
           _count: { id: true }
         });
@@ -170,7 +171,7 @@ export const getAdmin = async (req: Request, res: Response): Promise<void> => {
 
     // Get stats for this admin
     const salesStats = await prisma.sale.aggregate({
-      where: { userId: admin.id },
+      where: { userId: admin.id, status: { notIn: EXCLUDED_SALE_STATUSES } },
       _sum: { totalAmount: true },
       _count: { id: true }
     });
@@ -510,12 +511,51 @@ export const deleteAdmin = async (req: AuthRequest, res: Response): Promise<void
 
       // Delete in the correct order to avoid foreign key constraints
 
-      // 1. Delete refund items first
+      // 1. Delete loyalty points transactions (they reference customers, sales and refunds)
+      await tx.loyaltyTransaction.deleteMany({
+        where: {
+          OR: [
+            { createdBy: id },
+            { customer: { createdBy: id } },
+            { sale: { OR: [{ userId: id }, { createdBy: id }] } },
+            { refund: { OR: [{ refundedBy: id }, { createdBy: id }] } }
+          ]
+        }
+      });
+
+      // 2. Delete customer account payments, their allocations and ledger entries (they reference customers and sales)
+      await tx.customerPaymentAllocation.deleteMany({
+        where: {
+          OR: [
+            { createdBy: id },
+            { payment: { customer: { createdBy: id } } },
+            { sale: { OR: [{ userId: id }, { createdBy: id }] } }
+          ]
+        }
+      });
+      await tx.customerPayment.deleteMany({
+        where: {
+          OR: [
+            { createdBy: id },
+            { customer: { createdBy: id } }
+          ]
+        }
+      });
+      await tx.customerLedgerEntry.deleteMany({
+        where: {
+          OR: [
+            { createdBy: id },
+            { customer: { createdBy: id } }
+          ]
+        }
+      });
+
+      // 3. Delete refund items
       await tx.refundItem.deleteMany({
         where: { createdBy: id }
       });
 
-      // 2. Delete refunds
+      // 4. Delete refunds
       await tx.refund.deleteMany({
         where: {
           OR: [
@@ -525,12 +565,12 @@ export const deleteAdmin = async (req: AuthRequest, res: Response): Promise<void
         }
       });
 
-      // 3. Delete sale items
+      // 5. Delete sale items
       await tx.saleItem.deleteMany({
         where: { createdBy: id }
       });
 
-      // 4. Delete receipts
+      // 6. Delete receipts
       await tx.receipt.deleteMany({
         where: {
           OR: [
@@ -540,7 +580,7 @@ export const deleteAdmin = async (req: AuthRequest, res: Response): Promise<void
         }
       });
 
-      // 5. Delete sales
+      // 7. Delete sales
       await tx.sale.deleteMany({
         where: {
           OR: [
@@ -550,7 +590,7 @@ export const deleteAdmin = async (req: AuthRequest, res: Response): Promise<void
         }
       });
 
-      // 6. Delete stock movements that reference admin's products
+      // 8. Delete stock movements that reference admin's products
       if (productIds.length > 0) {
         await tx.stockMovement.deleteMany({
           where: {
@@ -566,37 +606,80 @@ export const deleteAdmin = async (req: AuthRequest, res: Response): Promise<void
         });
       }
 
-      // 7. Delete customers
+      // 9. Delete prescriptions (their items cascade) and customers
+      await tx.prescription.deleteMany({
+        where: { createdBy: id }
+      });
       await tx.customer.deleteMany({
         where: { createdBy: id }
       });
 
-      // 8. Delete products
+      // 10. Delete promotions, stock transfers, stock counts, expiry records, supplier payments and
+      // ledgers, purchase orders and products (their ingredient, promotion, transfer, count, return,
+      // allocation, order and receipt lines cascade), then interaction rules and ingredients
+      await tx.promotion.deleteMany({
+        where: { createdBy: id }
+      });
+      await tx.stockTransfer.deleteMany({
+        where: { createdBy: id }
+      });
+      await tx.stockCount.deleteMany({
+        where: { createdBy: id }
+      });
+      await tx.batchWriteOff.deleteMany({
+        where: { createdBy: id }
+      });
+      await tx.supplierReturn.deleteMany({
+        where: { createdBy: id }
+      });
+      await tx.supplierPayment.deleteMany({
+        where: { supplier: { createdBy: id } }
+      });
+      await tx.supplierLedgerEntry.deleteMany({
+        where: { supplier: { createdBy: id } }
+      });
+      await tx.purchaseOrder.deleteMany({
+        where: { createdBy: id }
+      });
       await tx.product.deleteMany({
         where: { createdBy: id }
       });
+      await tx.drugInteraction.deleteMany({
+        where: { createdBy: id }
+      });
+      await tx.activeIngredient.deleteMany({
+        where: { createdBy: id }
+      });
 
-      // 9. Delete suppliers
+      // 11. Delete suppliers
       await tx.supplier.deleteMany({
         where: { createdBy: id }
       });
 
-      // 10. Delete categories
+      // 12. Delete categories
       await tx.category.deleteMany({
         where: { createdBy: id }
       });
 
-      // 11. Delete branches
+      // 13. Delete numbering sequences (they reference branches)
+      await tx.sequenceReservation.deleteMany({
+        where: { sequence: { createdBy: id } }
+      });
+      await tx.documentSequence.deleteMany({
+        where: { createdBy: id }
+      });
+
+      // 14. Delete branches
       await tx.branch.deleteMany({
         where: { createdBy: id }
       });
 
-      // 12. Delete settings
+      // 15. Delete settings
       await tx.settings.deleteMany({
         where: { createdBy: id }
       });
 
-      // 13. Delete all users under this admin (managers, cashiers, etc.) including the admin itself
+      // 16. Delete all users under this admin (managers, cashiers, etc.) including the admin itself
       await tx.user.deleteMany({
         where: {
           OR: [
@@ -700,6 +783,7 @@ export const getSuperAdminStats = async (req: Request, res: Response): Promise<v
 
     // Get total sales
     const salesStats = await prisma.sale.aggregate({
+      where: { status: { notIn: EXCLUDED_SALE_STATUSES } },
       _sum: { totalAmount: true },
       _count: { id: true }
     });
@@ -734,7 +818,7 @@ export const getSuperAdminStats = async (req: Request, res: Response): Promise<v
     const recentAdminsWithStats = await Promise.all(
       recentAdmins.map(async (admin: any) => {
         const salesStats = await prisma.sale.aggregate({
-          where: { userId: admin.id },
+          where: { userId: admin.id, status: { notIn: EXCLUDED_SALE_STATUSES } },
           _sum: { totalAmount: true }
         });
 
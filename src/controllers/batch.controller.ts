@@ -1,8 +1,12 @@
 import { Request, Response } from 'express';
 import { getPrisma } from '../utils/db.util';
 import { syncAfterOperation, pullLatestFromLive } from '../utils/sync-helper';
+import { moveBatchStock, replayBatchLedger } from '../utils/stock-helper';
 import Joi from 'joi';
 
+// Ledger reason of the row a new batch's quantity is booked in with
+const OPENING_STOCK_REASON = 'Opening stock';
+
 // Helper function to serialize BigInt and Date values
 const serializeBigInt = (obj: any): any => {
   if (obj === null || obj === undefined) return obj;
@@ -624,24 +628,41 @@ export const createBatch = async (req: any, res: Response) => {
 
     console.log('🔍 Mapped data for database:', mappedData);
 
-    const batch = await prisma.batch.create({
-      data: mappedData,
-      include: {
-        product: {
-          select: {
-            id: true,
-            name: true,
-            sku: true,
-            barcode: true,
+    // The batch starts empty so that its opening stock is the first ledger row
+    const batch = await prisma.$transaction(async (tx) => {
+      const createdBatch = await tx.batch.create({
+        data: { ...mappedData, quantity: 0 }
+      });
+
+      await moveBatchStock(tx, {
+        batchId: createdBatch.id,
+        change: batchData.quantity,
+        type: 'IN',
+        sourceType: 'ADJUSTMENT',
+        sourceId: createdBatch.id,
+        reason: OPENING_STOCK_REASON,
+        createdBy: req.user?.createdBy || req.user?.id
+      });
+
+      return tx.batch.findUniqueOrThrow({
+        where: { id: createdBatch.id },
+        include: {
+          product: {
+            select: {
+              id: true,
+              name: true,
+              sku: true,
+              barcode: true,
+            },
           },
-        },
-        supplier: {
-          select: {
-            id: true,
-            name: true,
+          supplier: {
+            select: {
+              id: true,
+              name: true,
+            },
           },
         },
-      },
+      });
     });
 
     // 🔄 IMMEDIATE BIDIRECTIONAL SYNC
@@ -717,31 +738,46 @@ export const updateBatch = async (req: any, res: Response) => {
       }
     }
 
-    // Map frontend field names to database field names
-    const mappedData = {
-      ...batchData,
-      // Only update fields that are provided, don't override with defaults
-    };
+    // Map frontend field names to database field names; a new quantity goes through the ledger
+    const { quantity, ...mappedData } = batchData;
 
-    const batch = await prisma.batch.update({
-      where: { id },
-      data: mappedData,
-      include: {
-        product: {
-          select: {
-            id: true,
-            name: true,
-            sku: true,
-            barcode: true,
+    const batch = await prisma.$transaction(async (tx) => {
+      const updatedBatch = await tx.batch.update({
+        where: { id },
+        data: mappedData,
+      });
+
+      if (quantity !== undefined && quantity !== updatedBatch.quantity) {
+        await moveBatchStock(tx, {
+          batchId: id,
+          change: quantity - updatedBatch.quantity,
+          type: 'ADJUSTMENT',
+          sourceType: 'ADJUSTMENT',
+          sourceId: id,
+          reason: 'Batch quantity edited',
+          createdBy: req.user?.createdBy || req.user?.id
+        });
+      }
+
+      return tx.batch.findUniqueOrThrow({
+        where: { id },
+        include: {
+          product: {
+            select: {
+              id: true,
+              name: true,
+              sku: true,
+              barcode: true,
+            },
           },
-        },
-        supplier: {
-          select: {
-            id: true,
-            name: true,
+          supplier: {
+            select: {
+              id: true,
+              name: true,
+            },
           },
         },
-      },
+      });
     });
 
     // 🔄 IMMEDIATE BIDIRECTIONAL SYNC
@@ -790,33 +826,27 @@ export const restockBatch = async (req: any, res: Response) => {
       });
     }
 
-    // Update the batch stock quantity
-    const updatedBatch = await prisma.batch.update({
-      where: { id },
-      data: {
-        quantity: (existingBatch.quantity || 0) + quantity,
-        updatedAt: new Date(),
-      },
-      include: {
-        product: {
-          select: {
-            id: true,
-            name: true,
-            sku: true,
-            barcode: true,
-          },
-        },
-        supplier: {
-          select: {
-            id: true,
-            name: true,
-          },
-        },
-      },
+    // Update the batch stock quantity and record the restock in the ledger
+    const updatedBatch = await prisma.$transaction(async (tx) => {
+      await moveBatchStock(tx, {
+        batchId: id,
+        change: quantity,
+        type: 'IN',
+        sourceType: 'ADJUSTMENT',
+        sourceId: id,
+        reason: notes ? `Restock: ${notes}` : 'Restock',
+        createdBy: req.user?.createdBy || req.user?.id
+      });
+
+      return tx.batch.findUniqueOrThrow({
+        where: { id },
+      });
     });
 
-    // Log the restock activity (optional - you can add to an activity log table)
-    console.log(`Batch ${existingBatch.batchNo} restocked with ${quantity} units. Notes: ${notes || 'No notes'}`);
+    // 🔄 IMMEDIATE BIDIRECTIONAL SYNC
+    syncAfterOperation('batch', 'update', updatedBatch).catch(err => {
+      console.error('[Sync] Batch update sync failed:', err.message);
+    });
 
     return res.json({
       success: true,
@@ -845,6 +875,21 @@ export const deleteBatch = async (req: any, res: Response) => {
 
     const batch = await prisma.batch.findUnique({
       where: { id },
+      include: {
+        _count: {
+          select: {
+            purchaseItems: true,
+            saleItems: true,
+            saleItemBatches: true,
+            transferItemsOut: true,
+            transferItemsIn: true,
+            stockCountLines: true,
+            writeOffs: true,
+            supplierReturnItems: true,
+            goodsReceiptItems: true,
+          },
+        },
+      },
     });
 
     if (!batch) {
@@ -854,8 +899,26 @@ export const deleteBatch = async (req: any, res: Response) => {
       });
     }
 
-    await prisma.batch.delete({
-      where: { id },
+    // Stock that was received, sold, moved or counted keeps its history
+    const hasDocuments = Object.values(batch._count).some(count => count > 0);
+    const movements = await prisma.stockMovement.count({
+      where: { batchId: id, NOT: { sourceId: id, reason: OPENING_STOCK_REASON } },
+    });
+    if (hasDocuments || movements > 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'Cannot delete a batch with stock history; deactivate it instead',
+      });
+    }
+
+    // Only the opening stock is on the ledger, and it goes with the batch
+    await prisma.$transaction(async (tx) => {
+      await tx.stockMovement.deleteMany({
+        where: { batchId: id },
+      });
+      await tx.batch.delete({
+        where: { id },
+      });
     });
 
     // 🔄 IMMEDIATE BIDIRECTIONAL SYNC
@@ -876,6 +939,126 @@ export const deleteBatch = async (req: any, res: Response) => {
   }
 };
 
+// Get the stock ledger of a batch, with a replay of the ledger against its current quantity
+export const getBatchMovements = async (req: any, res: Response) => {
+  try {
+    const prisma = await getPrisma();
+    const { id } = req.params;
+    const { page = 1, limit = 50 } = req.query;
+    const skip = (parseInt(page as string) - 1) * parseInt(limit as string);
+
+    const batch = await prisma.batch.findUnique({
+      where: { id },
+      select: { id: true, batchNo: true, quantity: true, productId: true, branchId: true },
+    });
+
+    if (!batch) {
+      return res.status(404).json({
+        success: false,
+        message: 'Batch not found',
+      });
+    }
+
+    // Oldest first, as the ledger is replayed
+    const ledger = await prisma.stockMovement.findMany({
+      where: { batchId: id },
+      orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+    });
+
+    const movements = ledger
+      .slice()
+      .reverse()
+      .slice(skip, skip + parseInt(limit as string));
+
+    return res.json({
+      success: true,
+      data: {
+        batch,
+        movements,
+        reconciliation: replayBatchLedger(ledger, batch.quantity),
+        pagination: {
+          page: parseInt(page as string),
+          limit: parseInt(limit as string),
+          total: ledger.length,
+          pages: Math.ceil(ledger.length / parseInt(limit as string)),
+        },
+      },
+    });
+  } catch (error) {
+    console.error('Get batch movements error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+};
+
+// Replay the stock ledger of every batch in the branch and list the batches it does not explain
+export const getStockReconciliation = async (req: any, res: Response) => {
+  try {
+    const prisma = await getPrisma();
+    const branchId = req.user?.role === 'SUPERADMIN' && req.query.branchId
+      ? req.query.branchId as string
+      : req.user?.selectedBranchId || req.user?.branchId;
+
+    if (!branchId) {
+      return res.status(400).json({
+        success: false,
+        message: 'Branch ID is required',
+      });
+    }
+
+    const [batches, ledger] = await Promise.all([
+      prisma.batch.findMany({
+        where: { branchId },
+        select: {
+          id: true,
+          batchNo: true,
+          quantity: true,
+          product: { select: { id: true, name: true, sku: true } },
+        },
+      }),
+      prisma.stockMovement.findMany({
+        where: { branchId, batchId: { not: null } },
+        select: { id: true, batchId: true, quantityBefore: true, quantityAfter: true },
+        orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+      }),
+    ]);
+
+    const ledgerByBatch = new Map<string, typeof ledger>();
+    for (const movement of ledger) {
+      const movements = ledgerByBatch.get(movement.batchId!) || [];
+      movements.push(movement);
+      ledgerByBatch.set(movement.batchId!, movements);
+    }
+
+    const mismatches = batches
+      .map(batch => ({
+        batchId: batch.id,
+        batchNo: batch.batchNo,
+        product: batch.product,
+        ...replayBatchLedger(ledgerByBatch.get(batch.id) || [], batch.quantity),
+      }))
+      .filter(result => !result.balanced);
+
+    return res.json({
+      success: true,
+      data: {
+        branchId,
+        batchesChecked: batches.length,
+        batchesWithoutLedger: batches.filter(batch => !ledgerByBatch.has(batch.id)).length,
+        mismatches,
+      },
+    });
+  } catch (error) {
+    console.error('Get stock reconciliation error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+};
+
 // Get near expiry batches
 export const getNearExpiryBatches = async (req: any, res: Response) => {
   try {
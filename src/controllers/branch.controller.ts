@@ -2,25 +2,30 @@ import { Request, Response } from 'express';
 import { getPrisma } from '../utils/db.util';
 import { AuthRequest } from '../middleware/auth.middleware';
 import { syncAfterOperation, pullLatestFromLive } from '../utils/sync-helper';
+import { BATCH_ALLOCATION_POLICIES } from '../utils/stock-helper';
 import Joi from 'joi';
 
 // Validation schemas
 const createBranchSchema = Joi.object({
   name: Joi.string().required(),
+  code: Joi.string().pattern(/^[A-Za-z0-9]{1,10}$/).allow(null),
   address: Joi.string().required(),
   phone: Joi.string().required(),
   email: Joi.string().email().required(),
   companyId: Joi.string().required(),
-  managerId: Joi.string().allow(null)
+  managerId: Joi.string().allow(null),
+  batchAllocationPolicy: Joi.string().valid(...BATCH_ALLOCATION_POLICIES)
 });
 
 const updateBranchSchema = Joi.object({
   name: Joi.string(),
+  code: Joi.string().pattern(/^[A-Za-z0-9]{1,10}$/).allow(null),
   address: Joi.string(),
   phone: Joi.string(),
   email: Joi.string().email(),
   companyId: Joi.string(),
   managerId: Joi.string().allow(null),
+  batchAllocationPolicy: Joi.string().valid(...BATCH_ALLOCATION_POLICIES),
   isActive: Joi.boolean()
 });
 
@@ -260,7 +265,8 @@ export const createBranch = async (req: AuthRequest, res: Response) => {
       });
     }
 
-    const { name, address, phone, email, companyId, managerId } = req.body;
+    const { name, address, phone, email, companyId, managerId, batchAllocationPolicy } = req.body;
+    const code = req.body.code ? String(req.body.code).toUpperCase() : null;
 
     // Verify that the company exists
     const company = await prisma.company.findUnique({
@@ -291,14 +297,30 @@ export const createBranch = async (req: AuthRequest, res: Response) => {
       });
     }
 
+    // Branch codes appear on receipt numbers, so they must be unique within the company
+    if (code) {
+      const codeExists = await prisma.branch.findFirst({
+        where: { code, companyId }
+      });
+
+      if (codeExists) {
+        return res.status(400).json({
+          success: false,
+          message: 'Branch with this code already exists in this company'
+        });
+      }
+    }
+
     const branch = await prisma.branch.create({
       data: {
         name,
+        code,
         address,
         phone,
         email,
         companyId,
         managerId,
+        batchAllocationPolicy,
         createdBy: req.user?.id
       },
       include: {
@@ -374,6 +396,27 @@ export const updateBranch = async (req: AuthRequest, res: Response) => {
       }
     }
 
+    if (updateData.code) {
+      updateData.code = String(updateData.code).toUpperCase();
+
+      if (updateData.code !== existingBranch.code) {
+        const codeExists = await prisma.branch.findFirst({
+          where: {
+            code: updateData.code,
+            companyId: updateData.companyId || existingBranch.companyId,
+            id: { not: id }
+          }
+        });
+
+        if (codeExists) {
+          return res.status(400).json({
+            success: false,
+            message: 'Branch with this code already exists in this company'
+          });
+        }
+      }
+    }
+
     const branch = await prisma.branch.update({
       where: { id },
       data: updateData
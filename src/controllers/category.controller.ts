@@ -10,6 +10,7 @@ const createCategorySchema = Joi.object({
   description: Joi.string().allow('', null),
   type: Joi.string().valid('MEDICAL', 'NON_MEDICAL', 'GENERAL').default('GENERAL'),
   color: Joi.string().pattern(/^#[0-9A-Fa-f]{6}$/).default('#3B82F6'),
+  loyaltyEarnRate: Joi.number().min(0).allow(null).optional(), // Points per currency unit; the admin's rate when not set
   branchId: Joi.string().allow('', null).optional(), // Allow empty string and null
   companyId: Joi.string().allow('', null).optional() // Allow empty string and null
 });
@@ -18,7 +19,8 @@ const updateCategorySchema = Joi.object({
   name: Joi.string(),
   description: Joi.string().allow(''),
   type: Joi.string().valid('MEDICAL', 'NON_MEDICAL', 'GENERAL'),
-  color: Joi.string().pattern(/^#[0-9A-Fa-f]{6}$/)
+  color: Joi.string().pattern(/^#[0-9A-Fa-f]{6}$/),
+  loyaltyEarnRate: Joi.number().min(0).allow(null)
 });
 
 export const getCategories = async (req: AuthRequest, res: Response) => {
@@ -308,7 +310,7 @@ export const createCategory = async (req: AuthRequest, res: Response) => {
       });
     }
 
-    const { name, description, type, color, branchId, companyId } = req.body;
+    const { name, description, type, color, loyaltyEarnRate, branchId, companyId } = req.body;
 
     // Get user's branch and company info from headers or user context
     // Priority: Request body > Headers > User context
@@ -376,6 +378,7 @@ export const createCategory = async (req: AuthRequest, res: Response) => {
       description: description || null,
       type: type || 'GENERAL',
       color: color || '#3B82F6',
+      loyaltyEarnRate: loyaltyEarnRate ?? null,
       branchId: categoryBranchId, // Always required - ensures branch isolation
       createdBy: req.user?.createdBy || req.user?.id || 'default-admin-id'
     };
@@ -512,7 +515,8 @@ export const deleteCategory = async (req: Request, res: Response) => {
       include: {
         _count: {
           select: {
-            products: true
+            products: true,
+            promotions: true
           }
         }
       }
@@ -533,6 +537,14 @@ export const deleteCategory = async (req: Request, res: Response) => {
       });
     }
 
+    // Promotions are kept for reporting, so a category they point at stays too
+    if (category._count.promotions > 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'Cannot delete category used by promotions'
+      });
+    }
+
     await prisma.category.delete({
       where: { id }
     });
@@ -3,6 +3,7 @@ import Joi from 'joi';
 import { getPrisma } from '../utils/db.util';
 import { AuthRequest } from '../middleware/auth.middleware';
 import { syncAfterOperation, pullLatestFromLive } from '../utils/sync-helper';
+import { VALUATION_METHODS } from '../utils/costing-helper';
 
 // Validation schemas
 const createCompanySchema = Joi.object({
@@ -19,7 +20,8 @@ const updateCompanySchema = Joi.object({
   address: Joi.string().max(200).optional(),
   phone: Joi.string().max(20).optional(),
   email: Joi.string().email().optional(),
-  businessType: Joi.string().valid('PHARMACY', 'STORE', 'HOTEL', 'CLINIC').optional()
+  businessType: Joi.string().valid('PHARMACY', 'STORE', 'HOTEL', 'CLINIC').optional(),
+  valuationMethod: Joi.string().valid(...VALUATION_METHODS).optional() // How stock and cost of sales are valued
 });
 
 // Get all companies for the authenticated user
@@ -355,7 +357,7 @@ export const updateCompany = async (req: Request, res: Response): Promise<void>
     }
 
     const { id } = req.params;
-    const { name, description, address, phone, email, businessType } = req.body;
+    const { name, description, address, phone, email, businessType, valuationMethod } = req.body;
 
     // Check if company exists
     const existingCompany = await prisma.company.findUnique({
@@ -396,6 +398,7 @@ export const updateCompany = async (req: Request, res: Response): Promise<void>
         ...(phone !== undefined && { phone }),
         ...(email !== undefined && { email }),
         ...(businessType !== undefined && { businessType }),
+        ...(valuationMethod !== undefined && { valuationMethod }),
         updatedAt: new Date() // Ensure updatedAt is set for sync comparison
       },
       include: {
@@ -0,0 +1,401 @@
+import { Response } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { getPrisma } from '../utils/db.util';
+import { AuthRequest, buildBranchWhereClause } from '../middleware/auth.middleware';
+import { syncAfterOperation, pullLatestFromLive } from '../utils/sync-helper';
+import { createAppError } from '../middleware/error.middleware';
+import { allocateInOrder, buildAgingBuckets, buildStatementLines, sumAgingBuckets } from '../utils/supplier-ledger-helper';
+import {
+  CUSTOMER_PAYMENT_METHODS,
+  CustomerStatement,
+  allocateCustomerPayment,
+  availableCredit,
+  getReceivableSales,
+  recordCustomerLedgerEntry,
+  renderCustomerStatementHtml
+} from '../utils/customer-ledger-helper';
+import { getSettingValues } from '../utils/settings-helper';
+import Joi from 'joi';
+
+// Validation schemas
+const createPaymentSchema = Joi.object({
+  amount: Joi.number().positive().precision(2).required(),
+  method: Joi.string().valid(...CUSTOMER_PAYMENT_METHODS).required(),
+  reference: Joi.string().when('method', {
+    is: Joi.valid('CHEQUE', 'BANK_TRANSFER'),
+    then: Joi.required(),
+    otherwise: Joi.allow('', null).optional()
+  }),
+  paidAt: Joi.date().iso().optional(),
+  notes: Joi.string().allow('', null).optional(),
+  // Sales to pay; the oldest unpaid ones first when left out
+  allocations: Joi.array().items(Joi.object({
+    saleId: Joi.string().required(),
+    amount: Joi.number().positive().precision(2).required()
+  })).min(1).optional()
+});
+
+const statementQuerySchema = Joi.object({
+  from: Joi.date().iso().optional(),
+  to: Joi.date().iso().optional(),
+  format: Joi.string().valid('json', 'html').default('json')
+});
+
+/**
+ * Sync a customer payment with its allocations and ledger row, and the
+ * customer and sales it was set against
+ */
+const syncCustomerPayment = async (prisma: PrismaClient, paymentId: string) => {
+  const payment = await prisma.customerPayment.findUnique({
+    where: { id: paymentId },
+    include: { allocations: true }
+  });
+  if (!payment) {
+    return;
+  }
+
+  syncAfterOperation('customerPayment', 'create', payment).catch(err => {
+    console.error('[Sync] Customer payment sync failed:', err.message);
+  });
+  payment.allocations.forEach(allocation => {
+    syncAfterOperation('customerPaymentAllocation', 'create', allocation).catch(err => {
+      console.error('[Sync] Customer payment allocation sync failed:', err.message);
+    });
+  });
+
+  const [ledgerEntries, customer, sales] = await Promise.all([
+    prisma.customerLedgerEntry.findMany({ where: { sourceType: 'CUSTOMER_PAYMENT', sourceId: paymentId } }),
+    prisma.customer.findUnique({ where: { id: payment.customerId } }),
+    prisma.sale.findMany({ where: { id: { in: payment.allocations.map(a => a.saleId) } } })
+  ]);
+
+  ledgerEntries.forEach(entry => {
+    syncAfterOperation('customerLedgerEntry', 'create', entry).catch(err => {
+      console.error('[Sync] Customer ledger entry sync failed:', err.message);
+    });
+  });
+  if (customer) {
+    syncAfterOperation('customer', 'update', customer).catch(err => {
+      console.error('[Sync] Customer update sync failed:', err.message);
+    });
+  }
+  sales.forEach(sale => {
+    syncAfterOperation('sale', 'update', sale).catch(err => {
+      console.error('[Sync] Sale update sync failed:', err.message);
+    });
+  });
+};
+
+export const getCustomerPayments = async (req: AuthRequest, res: Response) => {
+  try {
+    // 🔄 PULL LATEST FROM LIVE DATABASE FIRST
+    await pullLatestFromLive('customerPayment').catch(err => console.log('[Sync] Pull customer payments:', err.message));
+
+    const prisma = await getPrisma();
+    const { id } = req.params;
+    const { page = 1, limit = 20 } = req.query;
+
+    const skip = (Number(page) - 1) * Number(limit);
+    const take = Number(limit);
+
+    const customer = await prisma.customer.findFirst({
+      where: buildBranchWhereClause(req, { id }),
+      select: { id: true }
+    });
+
+    if (!customer) {
+      return res.status(404).json({
+        success: false,
+        message: 'Customer not found'
+      });
+    }
+
+    const [payments, total] = await Promise.all([
+      prisma.customerPayment.findMany({
+        where: { customerId: id },
+        skip,
+        take,
+        include: {
+          allocations: {
+            include: {
+              sale: {
+                select: {
+                  id: true,
+                  createdAt: true,
+                  totalAmount: true,
+                  receipts: { select: { receiptNumber: true }, take: 1 }
+                }
+              }
+            }
+          }
+        },
+        orderBy: { paidAt: 'desc' }
+      }),
+      prisma.customerPayment.count({ where: { customerId: id } })
+    ]);
+
+    return res.json({
+      success: true,
+      data: {
+        payments,
+        pagination: {
+          page: Number(page),
+          limit: Number(limit),
+          total,
+          pages: Math.ceil(total / Number(limit))
+        }
+      }
+    });
+  } catch (error) {
+    console.error('Get customer payments error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+export const createCustomerPayment = async (req: AuthRequest, res: Response) => {
+  try {
+    const prisma = await getPrisma();
+    const { id } = req.params;
+    const { error, value } = createPaymentSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const customer = await prisma.customer.findFirst({
+      where: buildBranchWhereClause(req, { id })
+    });
+
+    if (!customer) {
+      return res.status(404).json({
+        success: false,
+        message: 'Customer not found'
+      });
+    }
+
+    const createdBy = req.user?.createdBy || req.user?.id;
+    let payment;
+    try {
+      payment = await prisma.$transaction(async (tx) => {
+        const sales = await getReceivableSales(tx, customer.id);
+
+        let plan: { id: string; amount: number }[];
+        if (value.allocations) {
+          plan = value.allocations.map((allocation: any) => {
+            if (!sales.some(sale => sale.id === allocation.saleId)) {
+              throw createAppError('One or more allocations are not unpaid sales of this customer');
+            }
+            return { id: allocation.saleId, amount: allocation.amount };
+          });
+        } else {
+          plan = allocateInOrder(sales, value.amount).allocations;
+        }
+
+        const allocatedAmount = Math.round(plan.reduce((sum, allocation) => sum + allocation.amount, 0) * 100) / 100;
+        if (allocatedAmount > value.amount) {
+          throw createAppError('Allocations add up to more than the payment');
+        }
+
+        const created = await tx.customerPayment.create({
+          data: {
+            customerId: customer.id,
+            branchId: req.user?.selectedBranchId || req.user?.branchId || customer.branchId,
+            amount: value.amount,
+            method: value.method,
+            reference: value.reference || null,
+            unallocatedAmount: Math.round((value.amount - allocatedAmount) * 100) / 100,
+            paidAt: value.paidAt || new Date(),
+            notes: value.notes || null,
+            createdBy
+          }
+        });
+
+        for (const allocation of plan) {
+          await allocateCustomerPayment(tx, {
+            paymentId: created.id,
+            saleId: allocation.id,
+            amount: allocation.amount,
+            createdBy
+          });
+        }
+
+        await recordCustomerLedgerEntry(tx, {
+          customerId: customer.id,
+          branchId: created.branchId,
+          type: 'PAYMENT',
+          amount: -value.amount,
+          sourceType: 'CUSTOMER_PAYMENT',
+          sourceId: created.id,
+          reference: created.reference,
+          description: `Payment (${value.method.replace('_', ' ').toLowerCase()})`,
+          entryDate: created.paidAt,
+          createdBy
+        });
+
+        return tx.customerPayment.findUniqueOrThrow({
+          where: { id: created.id },
+          include: { allocations: true }
+        });
+      }, {
+        timeout: 60000 // 60 seconds timeout for long-running transactions
+      });
+    } catch (paymentError: any) {
+      if (paymentError.statusCode) {
+        return res.status(paymentError.statusCode).json({
+          success: false,
+          message: paymentError.message
+        });
+      }
+      throw paymentError;
+    }
+
+    // 🔄 IMMEDIATE BIDIRECTIONAL SYNC
+    syncCustomerPayment(prisma, payment.id).catch(err => {
+      console.error('[Sync] Customer payment sync failed:', err.message);
+    });
+
+    return res.status(201).json({
+      success: true,
+      data: payment
+    });
+  } catch (error) {
+    console.error('Create customer payment error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+export const getCustomerStatement = async (req: AuthRequest, res: Response) => {
+  try {
+    // 🔄 PULL LATEST FROM LIVE DATABASE FIRST
+    await pullLatestFromLive('customerLedgerEntry').catch(err => console.log('[Sync] Pull customer ledger:', err.message));
+
+    const prisma = await getPrisma();
+    const { id } = req.params;
+    const { error, value } = statementQuerySchema.validate(req.query);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const customer = await prisma.customer.findFirst({
+      where: buildBranchWhereClause(req, { id }),
+      select: { id: true, name: true, phone: true, creditLimit: true, accountBalance: true }
+    });
+
+    if (!customer) {
+      return res.status(404).json({
+        success: false,
+        message: 'Customer not found'
+      });
+    }
+
+    const from: Date | null = value.from || null;
+    const to: Date = value.to || new Date();
+
+    const [opening, entries, sales, settings] = await Promise.all([
+      from
+        ? prisma.customerLedgerEntry.aggregate({
+          where: { customerId: id, entryDate: { lt: from } },
+          _sum: { amount: true }
+        })
+        : null,
+      prisma.customerLedgerEntry.findMany({
+        where: { customerId: id, entryDate: { ...(from && { gte: from }), lte: to } },
+        orderBy: { entryDate: 'asc' }
+      }),
+      getReceivableSales(prisma, id),
+      getSettingValues(prisma, req.user?.createdBy || req.user?.id, ['pharmacyName', 'pharmacyAddress', 'pharmacyPhone'])
+    ]);
+
+    const openingBalance = Math.round((opening?._sum.amount || 0) * 100) / 100;
+    const lines = buildStatementLines(entries, openingBalance);
+    const statement: CustomerStatement = {
+      pharmacy: {
+        name: settings.pharmacyName || '',
+        address: settings.pharmacyAddress,
+        phone: settings.pharmacyPhone
+      },
+      customer: { id: customer.id, name: customer.name, phone: customer.phone },
+      from,
+      to,
+      openingBalance,
+      lines,
+      closingBalance: lines.length > 0 ? lines[lines.length - 1].balance : openingBalance,
+      creditLimit: customer.creditLimit,
+      availableCredit: availableCredit(customer.creditLimit, customer.accountBalance),
+      aging: buildAgingBuckets(sales, to)
+    };
+
+    if (value.format === 'html') {
+      res.setHeader('Content-Type', 'text/html; charset=utf-8');
+      return res.send(renderCustomerStatementHtml(statement));
+    }
+
+    return res.json({
+      success: true,
+      data: {
+        ...statement,
+        unpaidSales: sales
+      }
+    });
+  } catch (error) {
+    console.error('Get customer statement error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+export const getCustomerAging = async (req: AuthRequest, res: Response) => {
+  try {
+    const prisma = await getPrisma();
+    const asOf = new Date();
+
+    // Only customers who owe something or have paid in advance
+    const customers = await prisma.customer.findMany({
+      where: buildBranchWhereClause(req, { accountBalance: { not: 0 } }),
+      select: { id: true, name: true, phone: true, creditLimit: true, accountBalance: true },
+      orderBy: { name: 'asc' }
+    });
+
+    const rows = await Promise.all(customers.map(async ({ creditLimit, accountBalance, ...customer }) => {
+      const sales = await getReceivableSales(prisma, customer.id);
+      return {
+        customer,
+        balance: Math.round(accountBalance * 100) / 100,
+        creditLimit,
+        availableCredit: availableCredit(creditLimit, accountBalance),
+        aging: buildAgingBuckets(sales, asOf)
+      };
+    }));
+
+    return res.json({
+      success: true,
+      data: {
+        asOf,
+        customers: rows,
+        totals: sumAgingBuckets(rows.map(row => row.aging)),
+        totalBalance: Math.round(rows.reduce((sum, row) => sum + row.balance, 0) * 100) / 100
+      }
+    });
+  } catch (error) {
+    console.error('Get customer aging error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
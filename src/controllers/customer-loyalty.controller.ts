@@ -0,0 +1,122 @@
+import { Response } from 'express';
+import { getPrisma } from '../utils/db.util';
+import { AuthRequest, buildBranchWhereClause } from '../middleware/auth.middleware';
+import { LOYALTY_TRANSACTION_TYPES, expireLoyaltyPoints, getLoyaltyRules, resolveLoyaltyTier } from '../utils/loyalty-helper';
+import Joi from 'joi';
+
+// Validation schemas
+const ledgerQuerySchema = Joi.object({
+  page: Joi.number().integer().min(1).default(1),
+  limit: Joi.number().integer().min(1).max(200).default(50),
+  type: Joi.string().valid(...LOYALTY_TRANSACTION_TYPES).optional()
+});
+
+// Points expiring within this many days are called out to the cashier
+const EXPIRING_SOON_DAYS = 30;
+
+// Get a customer's loyalty balance, tier and points ledger
+export const getCustomerLoyalty = async (req: AuthRequest, res: Response) => {
+  try {
+    const prisma = await getPrisma();
+
+    const { error, value } = ledgerQuerySchema.validate(req.query);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const customer = await prisma.customer.findFirst({
+      where: buildBranchWhereClause(req, { id: req.params.id }),
+      select: { id: true, name: true, phone: true }
+    });
+    if (!customer) {
+      return res.status(404).json({
+        success: false,
+        message: 'Customer not found'
+      });
+    }
+
+    const createdBy = req.user?.createdBy || req.user?.id;
+
+    // The balance shown is after anything past its expiry date has gone
+    await prisma.$transaction(async (tx) => {
+      await expireLoyaltyPoints(tx, customer.id, createdBy);
+    }, {
+      timeout: 60000 // 60 seconds timeout for long-running transactions
+    });
+
+    const soon = new Date(Date.now() + EXPIRING_SOON_DAYS * 24 * 60 * 60 * 1000);
+    const ledgerWhere = { customerId: customer.id, ...(value.type && { type: value.type }) };
+    const [account, rules, transactions, total, expiring] = await Promise.all([
+      prisma.customer.findUniqueOrThrow({
+        where: { id: customer.id },
+        select: { loyaltyPoints: true, loyaltyTier: true, isVIP: true, totalPurchases: true }
+      }),
+      getLoyaltyRules(prisma, createdBy),
+      prisma.loyaltyTransaction.findMany({
+        where: ledgerWhere,
+        include: {
+          sale: { select: { id: true, totalAmount: true, createdAt: true } },
+          refund: { select: { id: true, refundAmount: true } }
+        },
+        orderBy: { createdAt: 'desc' },
+        skip: (value.page - 1) * value.limit,
+        take: value.limit
+      }),
+      prisma.loyaltyTransaction.count({ where: ledgerWhere }),
+      prisma.loyaltyTransaction.aggregate({
+        where: { customerId: customer.id, remainingPoints: { gt: 0 }, expiresAt: { lte: soon } },
+        _sum: { remainingPoints: true },
+        _min: { expiresAt: true }
+      })
+    ]);
+
+    const tier = resolveLoyaltyTier(account.totalPurchases, rules.tiers);
+    const nextTier = rules.tiers.find(t => t.threshold > account.totalPurchases) || null;
+
+    return res.json({
+      success: true,
+      data: {
+        customer,
+        balance: account.loyaltyPoints,
+        balanceValue: Math.round(Math.max(0, account.loyaltyPoints) * rules.pointValue * 100) / 100,
+        tier: account.loyaltyTier || tier?.name || null,
+        isVIP: account.isVIP,
+        totalPurchases: account.totalPurchases,
+        nextTier: nextTier && {
+          name: nextTier.name,
+          threshold: nextTier.threshold,
+          amountToGo: Math.round((nextTier.threshold - account.totalPurchases) * 100) / 100
+        },
+        expiringSoon: {
+          points: expiring._sum.remainingPoints || 0,
+          firstExpiresAt: expiring._min.expiresAt,
+          withinDays: EXPIRING_SOON_DAYS
+        },
+        rules: {
+          earnRate: rules.earnRate,
+          pointValue: rules.pointValue,
+          expiryDays: rules.expiryDays,
+          tiers: rules.tiers,
+          vipTier: rules.vipTier
+        },
+        transactions,
+        pagination: {
+          page: value.page,
+          limit: value.limit,
+          total,
+          pages: Math.ceil(total / value.limit)
+        }
+      }
+    });
+  } catch (error) {
+    console.error('Get customer loyalty error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
@@ -0,0 +1,162 @@
+import { Response } from 'express';
+import { getPrisma } from '../utils/db.util';
+import { AuthRequest, buildBranchWhereClause } from '../middleware/auth.middleware';
+import { getNumericSetting } from '../utils/settings-helper';
+import { buildMedicationProfile, getDispensedLines, refillsDue } from '../utils/medication-helper';
+import Joi from 'joi';
+
+// Validation schemas
+const profileQuerySchema = Joi.object({
+  asOf: Joi.date().iso().optional()
+});
+
+const refillsDueQuerySchema = Joi.object({
+  branchId: Joi.string().optional(), // Defaults to the user's branch
+  date: Joi.date().iso().optional(),
+  withinDays: Joi.number().integer().min(0).max(60).optional(), // Defaults to the refillReminderDays setting
+  overdueDays: Joi.number().integer().min(0).max(365).default(30)
+});
+
+// Sales further back than this are not looked at for the refill list
+const REFILL_LOOKBACK_DAYS = 365;
+
+// Get a customer's medication profile: what they were dispensed, by whom it was prescribed and when refills are due
+export const getCustomerMedicationProfile = async (req: AuthRequest, res: Response) => {
+  try {
+    const prisma = await getPrisma();
+
+    const { error, value } = profileQuerySchema.validate(req.query);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const customer = await prisma.customer.findFirst({
+      where: buildBranchWhereClause(req, { id: req.params.id }),
+      select: { id: true, name: true, phone: true }
+    });
+    if (!customer) {
+      return res.status(404).json({
+        success: false,
+        message: 'Customer not found'
+      });
+    }
+
+    const asOf: Date = value.asOf || new Date();
+    const dueWithinDays = await getNumericSetting(prisma, req.user?.createdBy || req.user?.id, 'refillReminderDays', 3);
+    const [lines, prescriptions] = await Promise.all([
+      getDispensedLines(prisma, { customerId: customer.id }),
+      prisma.prescription.findMany({
+        where: { customerId: customer.id },
+        select: {
+          id: true,
+          prescriptionNumber: true,
+          doctorName: true,
+          doctorRegistrationNumber: true,
+          issueDate: true,
+          expiryDate: true,
+          status: true
+        },
+        orderBy: { issueDate: 'desc' }
+      })
+    ]);
+
+    const medications = buildMedicationProfile(lines, asOf, dueWithinDays);
+
+    return res.json({
+      success: true,
+      data: {
+        customer,
+        asOf,
+        dueWithinDays,
+        medications,
+        prescriptions,
+        refillsDue: medications.filter(medication => ['DUE', 'OVERDUE'].includes(medication.refillStatus)).length
+      }
+    });
+  } catch (error) {
+    console.error('Get customer medication profile error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+// Customers of a branch with a refill due or overdue on the day, for the front desk to call
+export const getRefillsDue = async (req: AuthRequest, res: Response) => {
+  try {
+    const prisma = await getPrisma();
+
+    const { error, value } = refillsDueQuerySchema.validate(req.query);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const asOf: Date = value.date || new Date();
+    const branchId = value.branchId || req.user?.selectedBranchId || req.user?.branchId;
+    const withinDays: number = value.withinDays ?? await getNumericSetting(prisma, req.user?.createdBy || req.user?.id, 'refillReminderDays', 3);
+    const since = new Date(asOf.getTime() - REFILL_LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+
+    const lines = await getDispensedLines(prisma, buildBranchWhereClause(req, {
+      ...(branchId && { branchId }),
+      createdAt: { gte: since, lte: asOf }
+    }));
+
+    const linesByCustomer = new Map<string, typeof lines>();
+    for (const line of lines) {
+      linesByCustomer.set(line.customerId, [...(linesByCustomer.get(line.customerId) || []), line]);
+    }
+
+    const due = Array.from(linesByCustomer.entries())
+      .map(([customerId, customerLines]) => ({
+        customerId,
+        medications: refillsDue(buildMedicationProfile(customerLines, asOf, withinDays), value.overdueDays)
+      }))
+      .filter(row => row.medications.length > 0);
+
+    const customers = await prisma.customer.findMany({
+      where: { id: { in: due.map(row => row.customerId) } },
+      select: { id: true, name: true, phone: true, email: true, isActive: true }
+    });
+
+    const rows = due
+      .map(row => ({
+        customer: customers.find(customer => customer.id === row.customerId),
+        medications: row.medications.map(({ dispenses, ...medication }) => ({
+          ...medication,
+          lastDispense: dispenses[0]
+        })),
+        nextRefillDueDate: row.medications
+          .map(medication => medication.refillDueDate as Date)
+          .reduce((earliest, date) => (date < earliest ? date : earliest))
+      }))
+      .filter(row => row.customer && row.customer.isActive)
+      .sort((a, b) => a.nextRefillDueDate.getTime() - b.nextRefillDueDate.getTime());
+
+    return res.json({
+      success: true,
+      data: {
+        date: asOf,
+        branchId: branchId || null,
+        withinDays,
+        overdueDays: value.overdueDays,
+        customers: rows,
+        total: rows.length
+      }
+    });
+  } catch (error) {
+    console.error('Get refills due error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
@@ -8,6 +8,7 @@ import { AuthRequest } from '../middleware/auth.middleware';
 import { notifyCustomerChange } from '../routes/sse.routes';
 import { syncAfterOperation, pullLatestFromLive } from '../utils/sync-helper';
 import Joi from 'joi';
+import { EXCLUDED_SALE_STATUSES } from '../models/sale.model';
 
 // Validation schemas
 const createCustomerSchema = Joi.object({
@@ -24,7 +25,8 @@ const updateCustomerSchema = Joi.object({
   email: Joi.string().email().allow(''),
   address: Joi.string().allow(''),
   isVIP: Joi.boolean(),
-  isActive: Joi.boolean()
+  isActive: Joi.boolean(),
+  creditLimit: Joi.number().min(0).precision(2) // Most the customer may owe on account (0 = no credit)
 });
 
 export const getCustomers = async (req: AuthRequest, res: Response) => {
@@ -641,10 +643,11 @@ export const getCustomerPurchaseHistory = async (req: Request, res: Response) =>
       });
     }
 
-    // Get customer's sales history
+    // Get customer's sales history (parked carts are not purchases yet)
+    const historyWhere = { customerId: id, status: { notIn: EXCLUDED_SALE_STATUSES } };
     const [sales, total] = await Promise.all([
       prisma.sale.findMany({
-        where: { customerId: id },
+        where: historyWhere,
         skip,
         take,
         include: {
@@ -672,12 +675,12 @@ export const getCustomerPurchaseHistory = async (req: Request, res: Response) =>
         },
         orderBy: { createdAt: 'desc' }
       }),
-      prisma.sale.count({ where: { customerId: id } })
+      prisma.sale.count({ where: historyWhere })
     ]);
 
     // Calculate customer stats
     const customerStats = await prisma.sale.aggregate({
-      where: { customerId: id },
+      where: historyWhere,
       _sum: {
         totalAmount: true,
         subtotal: true,
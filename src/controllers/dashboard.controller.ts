@@ -1,6 +1,8 @@
 import { Request, Response } from 'express';
 import { getPrisma } from '../utils/db.util';
 import { AuthRequest, buildAdminWhereClause, buildBranchWhereClause } from '../middleware/auth.middleware';
+import { getSalesByTender } from '../utils/payment-helper';
+import { EXCLUDED_SALE_STATUSES, NON_REVENUE_SALE_STATUSES } from '../models/sale.model';
 
 export const getDashboardStats = async (req: AuthRequest, res: Response) => {
   try {
@@ -21,7 +23,7 @@ export const getDashboardStats = async (req: AuthRequest, res: Response) => {
     const tomorrow = new Date(today);
     tomorrow.setDate(tomorrow.getDate() + 1);
 
-    // Get sales stats for today (excluding REFUNDED sales)
+    // Get sales stats for today (excluding refunded and held sales)
     const todaySales = await prisma.sale.aggregate({
       where: {
         ...where,
@@ -29,7 +31,7 @@ export const getDashboardStats = async (req: AuthRequest, res: Response) => {
           gte: today,
           lt: tomorrow
         },
-        status: { not: 'REFUNDED' } // Exclude refunded sales from totals
+        status: { notIn: NON_REVENUE_SALE_STATUSES } // Exclude refunded and voided sales and parked carts from totals
       },
       _sum: {
         totalAmount: true,
@@ -41,11 +43,11 @@ export const getDashboardStats = async (req: AuthRequest, res: Response) => {
       }
     });
 
-    // Get total sales stats (excluding REFUNDED sales)
+    // Get total sales stats (excluding refunded and held sales)
     const totalSales = await prisma.sale.aggregate({
       where: {
         ...where,
-        status: { not: 'REFUNDED' } // Exclude refunded sales from totals
+        status: { notIn: NON_REVENUE_SALE_STATUSES } // Exclude refunded and voided sales and parked carts from totals
       },
       _sum: {
         totalAmount: true,
@@ -103,7 +105,10 @@ export const getDashboardStats = async (req: AuthRequest, res: Response) => {
 
     // Get recent sales
     const recentSales = await prisma.sale.findMany({
-      where,
+      where: {
+        ...where,
+        status: { notIn: EXCLUDED_SALE_STATUSES }
+      },
       take: 5,
       orderBy: {
         createdAt: 'desc'
@@ -169,7 +174,7 @@ export const getSalesChart = async (req: Request, res: Response) => {
       groupBy = 'day' // day, week, month
     } = req.query;
 
-    const where: any = {};
+    const where: any = { status: { notIn: EXCLUDED_SALE_STATUSES } }; // Parked carts and voided sales are not counted
     if (branchId) {
       where.branchId = branchId;
     }
@@ -313,15 +318,19 @@ export const getSalesChart = async (req: Request, res: Response) => {
 export const getAdminDashboardStats = async (req: Request, res: Response) => {
   try {
     const prisma = await getPrisma();
+    // Parked carts and voided sales are not counted
+    const saleWhere = { status: { notIn: EXCLUDED_SALE_STATUSES } };
+
     // Get total revenue across all branches
     const totalRevenue = await prisma.sale.aggregate({
+      where: saleWhere,
       _sum: {
         totalAmount: true
       }
     });
 
     // Get total sales count across all branches
-    const totalSales = await prisma.sale.count();
+    const totalSales = await prisma.sale.count({ where: saleWhere });
 
     // Get total users across all branches
     const totalUsers = await prisma.user.count({
@@ -339,6 +348,7 @@ export const getAdminDashboardStats = async (req: Request, res: Response) => {
 
     // Get recent sales (last 10)
     const recentSales = await prisma.sale.findMany({
+      where: saleWhere,
       take: 10,
       orderBy: {
         createdAt: 'desc'
@@ -412,10 +422,11 @@ export const getAdminDashboardStats = async (req: Request, res: Response) => {
         _count: {
           select: {
             users: true,
-            sales: true
+            sales: { where: saleWhere }
           }
         },
         sales: {
+          where: saleWhere,
           select: {
             totalAmount: true
           }
@@ -436,7 +447,7 @@ export const getAdminDashboardStats = async (req: Request, res: Response) => {
       where: {
         isActive: true,
         sales: {
-          some: {}
+          some: saleWhere
         }
       },
       include: {
@@ -446,6 +457,7 @@ export const getAdminDashboardStats = async (req: Request, res: Response) => {
           }
         },
         sales: {
+          where: saleWhere,
           take: 1,
           orderBy: {
             createdAt: 'desc'
@@ -497,7 +509,7 @@ export const getTopSellingProducts = async (req: Request, res: Response) => {
     const prisma = await getPrisma();
     const { branchId = '', limit = 10 } = req.query;
 
-    const where: any = {};
+    const where: any = { status: { notIn: EXCLUDED_SALE_STATUSES } }; // Parked carts and voided sales are not counted
     if (branchId) {
       where.branchId = branchId;
     }
@@ -584,21 +596,13 @@ export const getSalesByPaymentMethod = async (req: Request, res: Response) => {
     const prisma = await getPrisma();
     const { branchId = '' } = req.query;
 
-    const where: any = {};
+    const where: any = { status: { notIn: EXCLUDED_SALE_STATUSES } }; // Parked carts and voided sales are not counted
     if (branchId) {
       where.branchId = branchId;
     }
 
-    const salesByPaymentMethod = await prisma.sale.groupBy({
-      by: ['paymentMethod'],
-      where,
-      _sum: {
-        totalAmount: true
-      },
-      _count: {
-        id: true
-      }
-    });
+    // Aggregate by tender so split payments count towards each method
+    const salesByPaymentMethod = await getSalesByTender(prisma, where);
 
     return res.json({
       success: true,
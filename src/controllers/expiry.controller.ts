@@ -0,0 +1,772 @@
+import { Response } from 'express';
+import { Prisma, SupplierLedgerEntry } from '@prisma/client';
+import { getPrisma } from '../utils/db.util';
+import { AuthRequest } from '../middleware/auth.middleware';
+import { syncAfterOperation, pullLatestFromLive } from '../utils/sync-helper';
+import { createAppError } from '../middleware/error.middleware';
+import { moveBatchStock } from '../utils/stock-helper';
+import { applySupplierCredit, removeBatchStock } from '../utils/expiry-helper';
+import { recordSupplierLedgerEntry } from '../utils/supplier-ledger-helper';
+import Joi from 'joi';
+
+// Validation schemas
+const quarantineSchema = Joi.object({
+  batchId: Joi.string().required(),
+  quantity: Joi.number().integer().min(1).optional(), // The whole sellable quantity by default
+  reason: Joi.string().required()
+});
+
+const releaseSchema = Joi.object({
+  quantity: Joi.number().integer().min(1).optional() // The whole quarantined quantity by default
+});
+
+const writeOffSchema = Joi.object({
+  batchId: Joi.string().required(),
+  quantity: Joi.number().integer().min(1).required(),
+  reason: Joi.string().required(),
+  fromQuarantine: Joi.boolean().default(true)
+});
+
+const supplierReturnSchema = Joi.object({
+  supplierId: Joi.string().required(),
+  referenceNo: Joi.string().allow('', null).optional(),
+  notes: Joi.string().allow('', null).optional(),
+  items: Joi.array().items(Joi.object({
+    batchId: Joi.string().required(),
+    quantity: Joi.number().integer().min(1).required(),
+    reason: Joi.string().allow('', null).optional(),
+    fromQuarantine: Joi.boolean().default(true)
+  })).min(1).required()
+});
+
+// Relations returned with a supplier return
+const supplierReturnInclude = Prisma.validator<Prisma.SupplierReturnInclude>()({
+  supplier: {
+    select: { id: true, name: true }
+  },
+  branch: {
+    select: { id: true, name: true }
+  },
+  items: {
+    include: {
+      product: {
+        select: { id: true, name: true, sku: true }
+      },
+      batch: {
+        select: { id: true, batchNo: true, expireDate: true }
+      }
+    }
+  }
+});
+
+/**
+ * Batches the user can act on: their company, and only their own branch for managers
+ */
+const buildBatchScope = (req: AuthRequest, baseWhere: any = {}) => {
+  const whereClause = { ...baseWhere };
+  const userRole = req.user?.role ? String(req.user.role).toUpperCase() : '';
+  const companyId = req.user?.selectedCompanyId || req.user?.companyId;
+
+  if (userRole !== 'SUPERADMIN' && companyId) {
+    whereClause.companyId = companyId;
+  }
+
+  if (userRole === 'MANAGER' && req.user?.branchId) {
+    whereClause.branchId = req.user.branchId;
+  }
+
+  return whereClause;
+};
+
+/**
+ * Write-offs and supplier returns belong to the admin group; managers only see their own branch
+ */
+const buildExpiryWhereClause = (req: AuthRequest, baseWhere: any = {}) => {
+  const whereClause = { ...baseWhere };
+  const userRole = req.user?.role ? String(req.user.role).toUpperCase() : '';
+
+  if (userRole !== 'SUPERADMIN') {
+    whereClause.createdBy = req.user?.createdBy || req.user?.id;
+  }
+
+  if (userRole === 'MANAGER' && req.user?.branchId) {
+    whereClause.branchId = req.user.branchId;
+  }
+
+  return whereClause;
+};
+
+/**
+ * Filter on createdAt from the startDate and endDate query parameters
+ */
+const buildDateFilter = (startDate: any, endDate: any) => {
+  if (!startDate && !endDate) {
+    return undefined;
+  }
+
+  const filter: any = {};
+  if (startDate) {
+    filter.gte = new Date(startDate as string);
+  }
+  if (endDate) {
+    const end = new Date(endDate as string);
+    end.setHours(23, 59, 59, 999);
+    filter.lte = end;
+  }
+  return filter;
+};
+
+const syncBatch = (batch: any) => {
+  syncAfterOperation('batch', 'update', batch).catch(err => {
+    console.error('[Sync] Batch update sync failed:', err.message);
+  });
+};
+
+export const getQuarantinedBatches = async (req: AuthRequest, res: Response) => {
+  try {
+    const prisma = await getPrisma();
+    const { branchId } = req.query;
+
+    const where: any = buildBatchScope(req, { quarantinedQuantity: { gt: 0 } });
+    if (branchId && !where.branchId) {
+      where.branchId = branchId as string;
+    }
+
+    const batches = await prisma.batch.findMany({
+      where,
+      include: {
+        product: {
+          select: { id: true, name: true, sku: true }
+        },
+        supplier: {
+          select: { id: true, name: true }
+        }
+      },
+      orderBy: { expireDate: 'asc' }
+    });
+
+    return res.json({
+      success: true,
+      data: {
+        batches: batches.map(batch => ({
+          ...batch,
+          quarantinedValue: Math.round(batch.quarantinedQuantity * batch.purchasePrice * 100) / 100
+        }))
+      }
+    });
+  } catch (error) {
+    console.error('Get quarantined batches error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+export const quarantineBatch = async (req: AuthRequest, res: Response) => {
+  try {
+    const prisma = await getPrisma();
+    const { error, value } = quarantineSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const batch = await prisma.batch.findFirst({
+      where: buildBatchScope(req, { id: value.batchId })
+    });
+
+    if (!batch) {
+      return res.status(404).json({
+        success: false,
+        message: 'Batch not found'
+      });
+    }
+
+    const quantity = value.quantity || batch.quantity;
+    if (quantity <= 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'Batch has no sellable stock to quarantine'
+      });
+    }
+
+    let updatedBatch;
+    try {
+      updatedBatch = await prisma.$transaction(async (tx) => {
+        // Quarantined stock leaves the sellable quantity
+        const moved = await moveBatchStock(tx, {
+          batchId: batch.id,
+          change: -quantity,
+          type: 'QUARANTINE',
+          sourceType: 'ADJUSTMENT',
+          sourceId: batch.id,
+          reason: `Quarantined: ${value.reason}`,
+          createdBy: req.user?.createdBy || req.user?.id
+        });
+
+        if (!moved) {
+          throw createAppError(`Batch ${batch.batchNo} has fewer than ${quantity} unit(s) in stock`);
+        }
+
+        return tx.batch.update({
+          where: { id: batch.id },
+          data: {
+            quarantinedQuantity: { increment: quantity },
+            quarantineReason: value.reason,
+            quarantinedAt: new Date(),
+            isReported: true
+          }
+        });
+      }, {
+        timeout: 60000 // 60 seconds timeout for long-running transactions
+      });
+    } catch (error: any) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          message: error.message
+        });
+      }
+      throw error;
+    }
+
+    // 🔄 IMMEDIATE BIDIRECTIONAL SYNC
+    syncBatch(updatedBatch);
+
+    return res.json({
+      success: true,
+      data: updatedBatch,
+      message: `${quantity} unit(s) of batch ${batch.batchNo} quarantined`
+    });
+  } catch (error) {
+    console.error('Quarantine batch error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+export const releaseQuarantine = async (req: AuthRequest, res: Response) => {
+  try {
+    const prisma = await getPrisma();
+    const { batchId } = req.params;
+
+    const { error, value } = releaseSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const batch = await prisma.batch.findFirst({
+      where: buildBatchScope(req, { id: batchId })
+    });
+
+    if (!batch) {
+      return res.status(404).json({
+        success: false,
+        message: 'Batch not found'
+      });
+    }
+
+    if (batch.expireDate && batch.expireDate.getTime() <= Date.now()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Expired stock cannot be released back to sale'
+      });
+    }
+
+    const quantity = value.quantity || batch.quarantinedQuantity;
+
+    let updatedBatch;
+    try {
+      updatedBatch = await prisma.$transaction(async (tx) => {
+        const released = await tx.batch.updateMany({
+          where: { id: batch.id, quarantinedQuantity: { gte: quantity } },
+          data: { quarantinedQuantity: { decrement: quantity } }
+        });
+
+        if (released.count === 0 || quantity <= 0) {
+          throw createAppError(`Batch ${batch.batchNo} has fewer than ${quantity} unit(s) in quarantine`);
+        }
+
+        await moveBatchStock(tx, {
+          batchId: batch.id,
+          change: quantity,
+          type: 'RELEASE',
+          sourceType: 'ADJUSTMENT',
+          sourceId: batch.id,
+          reason: 'Released from quarantine',
+          createdBy: req.user?.createdBy || req.user?.id
+        });
+
+        const releasedBatch = await tx.batch.findUniqueOrThrow({ where: { id: batch.id } });
+        if (releasedBatch.quarantinedQuantity > 0) {
+          return releasedBatch;
+        }
+
+        return tx.batch.update({
+          where: { id: batch.id },
+          data: { quarantineReason: null, quarantinedAt: null }
+        });
+      }, {
+        timeout: 60000 // 60 seconds timeout for long-running transactions
+      });
+    } catch (error: any) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          message: error.message
+        });
+      }
+      throw error;
+    }
+
+    // 🔄 IMMEDIATE BIDIRECTIONAL SYNC
+    syncBatch(updatedBatch);
+
+    return res.json({
+      success: true,
+      data: updatedBatch,
+      message: `${quantity} unit(s) of batch ${batch.batchNo} released back to sale`
+    });
+  } catch (error) {
+    console.error('Release quarantine error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+export const getWriteOffs = async (req: AuthRequest, res: Response) => {
+  try {
+    // 🔄 PULL LATEST FROM LIVE DATABASE FIRST
+    await pullLatestFromLive('batchWriteOff').catch(err => console.log('[Sync] Pull write-offs:', err.message));
+
+    const prisma = await getPrisma();
+    const { page = 1, limit = 10, branchId, supplierId, startDate, endDate } = req.query;
+
+    const skip = (Number(page) - 1) * Number(limit);
+    const take = Number(limit);
+
+    const where: any = buildExpiryWhereClause(req);
+    if (branchId && !where.branchId) {
+      where.branchId = branchId as string;
+    }
+    if (supplierId) {
+      where.supplierId = supplierId as string;
+    }
+    const createdAt = buildDateFilter(startDate, endDate);
+    if (createdAt) {
+      where.createdAt = createdAt;
+    }
+
+    const [writeOffs, total, totals] = await Promise.all([
+      prisma.batchWriteOff.findMany({
+        where,
+        skip,
+        take,
+        include: {
+          product: { select: { id: true, name: true, sku: true } },
+          batch: { select: { id: true, batchNo: true, expireDate: true } },
+          supplier: { select: { id: true, name: true } },
+          branch: { select: { id: true, name: true } }
+        },
+        orderBy: { createdAt: 'desc' }
+      }),
+      prisma.batchWriteOff.count({ where }),
+      prisma.batchWriteOff.aggregate({
+        where,
+        _sum: { quantity: true, totalValue: true }
+      })
+    ]);
+
+    return res.json({
+      success: true,
+      data: {
+        writeOffs,
+        totals: {
+          quantity: totals._sum.quantity || 0,
+          value: totals._sum.totalValue || 0
+        },
+        pagination: {
+          page: Number(page),
+          limit: Number(limit),
+          total,
+          pages: Math.ceil(total / Number(limit))
+        }
+      }
+    });
+  } catch (error) {
+    console.error('Get write-offs error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+export const createWriteOff = async (req: AuthRequest, res: Response) => {
+  try {
+    const prisma = await getPrisma();
+    const { error, value } = writeOffSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const batch = await prisma.batch.findFirst({
+      where: buildBatchScope(req, { id: value.batchId })
+    });
+
+    if (!batch) {
+      return res.status(404).json({
+        success: false,
+        message: 'Batch not found'
+      });
+    }
+
+    let result;
+    try {
+      result = await prisma.$transaction(async (tx) => {
+        // Valued at what the stock cost
+        const writeOff = await tx.batchWriteOff.create({
+          data: {
+            batchId: batch.id,
+            productId: batch.productId,
+            branchId: batch.branchId,
+            supplierId: batch.supplierId,
+            quantity: value.quantity,
+            unitCost: batch.purchasePrice,
+            totalValue: Math.round(value.quantity * batch.purchasePrice * 100) / 100,
+            reason: value.reason,
+            fromQuarantine: value.fromQuarantine,
+            createdBy: req.user?.createdBy || req.user?.id
+          }
+        });
+
+        await removeBatchStock(tx, batch, value.quantity, value.fromQuarantine, {
+          type: 'WRITE_OFF',
+          sourceType: 'WRITE_OFF',
+          sourceId: writeOff.id,
+          reason: `Written off: ${value.reason}`,
+          createdBy: req.user?.createdBy || req.user?.id
+        });
+
+        return {
+          writeOff,
+          batch: await tx.batch.findUniqueOrThrow({ where: { id: batch.id } })
+        };
+      }, {
+        timeout: 60000 // 60 seconds timeout for long-running transactions
+      });
+    } catch (error: any) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          message: error.message
+        });
+      }
+      throw error;
+    }
+
+    // 🔄 IMMEDIATE BIDIRECTIONAL SYNC
+    syncAfterOperation('batchWriteOff', 'create', result.writeOff).catch(err => {
+      console.error('[Sync] Write-off create sync failed:', err.message);
+    });
+    syncBatch(result.batch);
+
+    return res.status(201).json({
+      success: true,
+      data: result.writeOff,
+      message: `${value.quantity} unit(s) of batch ${batch.batchNo} written off`
+    });
+  } catch (error) {
+    console.error('Create write-off error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+export const getSupplierReturns = async (req: AuthRequest, res: Response) => {
+  try {
+    // 🔄 PULL LATEST FROM LIVE DATABASE FIRST
+    await pullLatestFromLive('supplierReturn').catch(err => console.log('[Sync] Pull supplier returns:', err.message));
+
+    const prisma = await getPrisma();
+    const { page = 1, limit = 10, branchId, supplierId, startDate, endDate } = req.query;
+
+    const skip = (Number(page) - 1) * Number(limit);
+    const take = Number(limit);
+
+    const where: any = buildExpiryWhereClause(req);
+    if (branchId && !where.branchId) {
+      where.branchId = branchId as string;
+    }
+    if (supplierId) {
+      where.supplierId = supplierId as string;
+    }
+    const createdAt = buildDateFilter(startDate, endDate);
+    if (createdAt) {
+      where.createdAt = createdAt;
+    }
+
+    const [supplierReturns, total] = await Promise.all([
+      prisma.supplierReturn.findMany({
+        where,
+        skip,
+        take,
+        include: {
+          supplier: { select: { id: true, name: true } },
+          branch: { select: { id: true, name: true } },
+          _count: { select: { items: true } }
+        },
+        orderBy: { createdAt: 'desc' }
+      }),
+      prisma.supplierReturn.count({ where })
+    ]);
+
+    return res.json({
+      success: true,
+      data: {
+        supplierReturns,
+        pagination: {
+          page: Number(page),
+          limit: Number(limit),
+          total,
+          pages: Math.ceil(total / Number(limit))
+        }
+      }
+    });
+  } catch (error) {
+    console.error('Get supplier returns error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+export const getSupplierReturn = async (req: AuthRequest, res: Response) => {
+  try {
+    const prisma = await getPrisma();
+    const { id } = req.params;
+
+    const supplierReturn = await prisma.supplierReturn.findFirst({
+      where: buildExpiryWhereClause(req, { id }),
+      include: supplierReturnInclude
+    });
+
+    if (!supplierReturn) {
+      return res.status(404).json({
+        success: false,
+        message: 'Supplier return not found'
+      });
+    }
+
+    return res.json({
+      success: true,
+      data: supplierReturn
+    });
+  } catch (error) {
+    console.error('Get supplier return error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+export const createSupplierReturn = async (req: AuthRequest, res: Response) => {
+  try {
+    const prisma = await getPrisma();
+    const { error, value } = supplierReturnSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const batchIds: string[] = Array.from(new Set(value.items.map((item: any) => item.batchId)));
+    const batches = await prisma.batch.findMany({
+      where: buildBatchScope(req, { id: { in: batchIds } })
+    });
+
+    if (batches.length !== batchIds.length) {
+      return res.status(404).json({
+        success: false,
+        message: 'One or more batches were not found'
+      });
+    }
+
+    // One document per supplier and branch
+    if (batches.some(batch => batch.supplierId !== value.supplierId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'All returned batches must have been bought from this supplier'
+      });
+    }
+
+    const branchIds = new Set(batches.map(batch => batch.branchId));
+    if (branchIds.size > 1) {
+      return res.status(400).json({
+        success: false,
+        message: 'All returned batches must be in the same branch'
+      });
+    }
+
+    const createdBy = req.user?.createdBy || req.user?.id;
+
+    const ledgerEntries: SupplierLedgerEntry[] = [];
+    let supplierReturnId: string;
+    try {
+      supplierReturnId = await prisma.$transaction(async (tx) => {
+        const supplierReturn = await tx.supplierReturn.create({
+          data: {
+            supplierId: value.supplierId,
+            branchId: batches[0].branchId,
+            referenceNo: value.referenceNo || null,
+            notes: value.notes || null,
+            createdBy
+          }
+        });
+
+        let totalValue = 0;
+        let outstandingReduced = 0;
+        let creditAmount = 0;
+
+        for (const item of value.items) {
+          const batch = batches.find(b => b.id === item.batchId)!;
+
+          await removeBatchStock(tx, batch, item.quantity, item.fromQuarantine, {
+            type: 'SUPPLIER_RETURN',
+            sourceType: 'SUPPLIER_RETURN',
+            sourceId: supplierReturn.id,
+            reason: item.reason ? `Returned to supplier: ${item.reason}` : 'Returned to supplier',
+            reference: value.referenceNo,
+            createdBy: req.user?.createdBy || req.user?.id
+          });
+
+          // The return first comes off what is still owed for the batch
+          const itemValue = Math.round(item.quantity * batch.purchasePrice * 100) / 100;
+          const current = await tx.batch.findUniqueOrThrow({
+            where: { id: batch.id },
+            select: { supplierOutstanding: true }
+          });
+          const credit = applySupplierCredit(current.supplierOutstanding, itemValue);
+
+          if (credit.outstandingReduced > 0) {
+            await tx.batch.update({
+              where: { id: batch.id },
+              data: { supplierOutstanding: { decrement: credit.outstandingReduced } }
+            });
+          }
+
+          await tx.supplierReturnItem.create({
+            data: {
+              returnId: supplierReturn.id,
+              batchId: batch.id,
+              productId: batch.productId,
+              quantity: item.quantity,
+              unitCost: batch.purchasePrice,
+              totalValue: itemValue,
+              outstandingReduced: credit.outstandingReduced,
+              fromQuarantine: item.fromQuarantine,
+              reason: item.reason || null,
+              createdBy
+            }
+          });
+
+          totalValue += itemValue;
+          outstandingReduced += credit.outstandingReduced;
+          creditAmount += credit.creditAmount;
+        }
+
+        await tx.supplierReturn.update({
+          where: { id: supplierReturn.id },
+          data: {
+            totalValue: Math.round(totalValue * 100) / 100,
+            outstandingReduced: Math.round(outstandingReduced * 100) / 100,
+            creditAmount: Math.round(creditAmount * 100) / 100
+          }
+        });
+
+        // The returned stock's value comes off the supplier's account, partly as credit
+        ledgerEntries.push(await recordSupplierLedgerEntry(tx, {
+          supplierId: value.supplierId,
+          branchId: supplierReturn.branchId,
+          type: 'RETURN',
+          amount: -totalValue,
+          sourceType: 'SUPPLIER_RETURN',
+          sourceId: supplierReturn.id,
+          reference: value.referenceNo,
+          description: 'Stock returned to supplier',
+          createdBy
+        }));
+
+        return supplierReturn.id;
+      }, {
+        timeout: 60000 // 60 seconds timeout for long-running transactions
+      });
+    } catch (error: any) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          message: error.message
+        });
+      }
+      throw error;
+    }
+
+    const supplierReturn = await prisma.supplierReturn.findUniqueOrThrow({
+      where: { id: supplierReturnId },
+      include: supplierReturnInclude
+    });
+
+    // 🔄 IMMEDIATE BIDIRECTIONAL SYNC
+    syncAfterOperation('supplierReturn', 'create', supplierReturn).catch(err => {
+      console.error('[Sync] Supplier return create sync failed:', err.message);
+    });
+    supplierReturn.items.forEach(item => {
+      syncAfterOperation('supplierReturnItem', 'create', item).catch(err => {
+        console.error('[Sync] Supplier return item create sync failed:', err.message);
+      });
+    });
+    ledgerEntries.forEach(entry => {
+      syncAfterOperation('supplierLedgerEntry', 'create', entry).catch(err => {
+        console.error('[Sync] Supplier ledger entry sync failed:', err.message);
+      });
+    });
+    const updatedBatches = await prisma.batch.findMany({
+      where: { id: { in: batchIds } }
+    });
+    updatedBatches.forEach(syncBatch);
+
+    return res.status(201).json({
+      success: true,
+      data: supplierReturn,
+      message: 'Supplier return recorded'
+    });
+  } catch (error) {
+    console.error('Create supplier return error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
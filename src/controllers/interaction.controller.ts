@@ -0,0 +1,422 @@
+import { Response } from 'express';
+import { Prisma } from '@prisma/client';
+import { getPrisma } from '../utils/db.util';
+import { AuthRequest } from '../middleware/auth.middleware';
+import { syncAfterOperation, pullLatestFromLive } from '../utils/sync-helper';
+import { INTERACTION_SEVERITIES, normalizeIngredientName } from '../utils/interaction-helper';
+import Joi from 'joi';
+
+// Validation schemas
+const ingredientSchema = Joi.object({
+  name: Joi.string().trim().min(1).max(200).required()
+});
+
+const productIngredientsSchema = Joi.object({
+  ingredients: Joi.array().items(Joi.object({
+    ingredientId: Joi.string().required(),
+    strength: Joi.string().allow('', null).optional()
+  })).unique('ingredientId').required() // An empty list clears the product's ingredients
+});
+
+const createInteractionSchema = Joi.object({
+  ingredientAId: Joi.string().required(),
+  ingredientBId: Joi.string().invalid(Joi.ref('ingredientAId')).required()
+    .messages({ 'any.invalid': 'An ingredient cannot interact with itself' }),
+  severity: Joi.string().valid(...INTERACTION_SEVERITIES).default('MODERATE'),
+  description: Joi.string().required(),
+  recommendation: Joi.string().allow('', null).optional()
+});
+
+const updateInteractionSchema = Joi.object({
+  severity: Joi.string().valid(...INTERACTION_SEVERITIES),
+  description: Joi.string(),
+  recommendation: Joi.string().allow('', null),
+  isActive: Joi.boolean()
+});
+
+// Relations returned with an interaction rule
+const interactionInclude = Prisma.validator<Prisma.DrugInteractionInclude>()({
+  ingredientA: {
+    select: { id: true, name: true }
+  },
+  ingredientB: {
+    select: { id: true, name: true }
+  }
+});
+
+/**
+ * Ingredients and interaction rules belong to the admin group
+ */
+const buildInteractionWhereClause = (req: AuthRequest, baseWhere: any = {}) => {
+  const whereClause = { ...baseWhere };
+  const userRole = req.user?.role ? String(req.user.role).toUpperCase() : '';
+
+  if (userRole !== 'SUPERADMIN') {
+    whereClause.createdBy = req.user?.createdBy || req.user?.id;
+  }
+
+  return whereClause;
+};
+
+export const getIngredients = async (req: AuthRequest, res: Response) => {
+  try {
+    // 🔄 PULL LATEST FROM LIVE DATABASE FIRST
+    await pullLatestFromLive('activeIngredient').catch(err => console.log('[Sync] Pull ingredients:', err.message));
+
+    const prisma = await getPrisma();
+    const { search = '' } = req.query;
+
+    const where: any = buildInteractionWhereClause(req);
+    if (search) {
+      where.name = { contains: normalizeIngredientName(search as string) };
+    }
+
+    const ingredients = await prisma.activeIngredient.findMany({
+      where,
+      include: {
+        _count: {
+          select: { products: true }
+        }
+      },
+      orderBy: { name: 'asc' }
+    });
+
+    return res.json({
+      success: true,
+      data: ingredients
+    });
+  } catch (error) {
+    console.error('Get ingredients error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+export const createIngredient = async (req: AuthRequest, res: Response) => {
+  try {
+    const prisma = await getPrisma();
+    const { error, value } = ingredientSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const createdBy = req.user?.createdBy || req.user?.id;
+    const name = normalizeIngredientName(value.name);
+
+    const existingIngredient = await prisma.activeIngredient.findFirst({
+      where: { name, createdBy }
+    });
+
+    if (existingIngredient) {
+      return res.status(400).json({
+        success: false,
+        message: 'Ingredient already exists'
+      });
+    }
+
+    const ingredient = await prisma.activeIngredient.create({
+      data: { name, createdBy }
+    });
+
+    // 🔄 IMMEDIATE BIDIRECTIONAL SYNC
+    syncAfterOperation('activeIngredient', 'create', ingredient).catch(err => {
+      console.error('[Sync] Ingredient create sync failed:', err.message);
+    });
+
+    return res.status(201).json({
+      success: true,
+      data: ingredient
+    });
+  } catch (error) {
+    console.error('Create ingredient error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+export const setProductIngredients = async (req: AuthRequest, res: Response) => {
+  try {
+    const prisma = await getPrisma();
+    const { productId } = req.params;
+
+    const { error, value } = productIngredientsSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const product = await prisma.product.findFirst({
+      where: buildInteractionWhereClause(req, { id: productId })
+    });
+
+    if (!product) {
+      return res.status(404).json({
+        success: false,
+        message: 'Product not found'
+      });
+    }
+
+    const ingredientIds: string[] = value.ingredients.map((item: any) => item.ingredientId);
+    const ingredientCount = await prisma.activeIngredient.count({
+      where: buildInteractionWhereClause(req, { id: { in: ingredientIds } })
+    });
+
+    if (ingredientCount !== ingredientIds.length) {
+      return res.status(400).json({
+        success: false,
+        message: 'One or more ingredients were not found'
+      });
+    }
+
+    const createdBy = req.user?.createdBy || req.user?.id;
+
+    // Replace the product's ingredient list as a whole
+    const links = await prisma.$transaction(async (tx) => {
+      await tx.productIngredient.deleteMany({
+        where: { productId }
+      });
+
+      return Promise.all(value.ingredients.map((item: any) => tx.productIngredient.create({
+        data: {
+          productId,
+          ingredientId: item.ingredientId,
+          strength: item.strength || null,
+          createdBy
+        },
+        include: {
+          ingredient: { select: { id: true, name: true } }
+        }
+      })));
+    });
+
+    // 🔄 IMMEDIATE BIDIRECTIONAL SYNC
+    links.forEach(link => {
+      syncAfterOperation('productIngredient', 'create', link).catch(err => {
+        console.error('[Sync] Product ingredient create sync failed:', err.message);
+      });
+    });
+
+    return res.json({
+      success: true,
+      data: links
+    });
+  } catch (error) {
+    console.error('Set product ingredients error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+export const getInteractions = async (req: AuthRequest, res: Response) => {
+  try {
+    // 🔄 PULL LATEST FROM LIVE DATABASE FIRST
+    await pullLatestFromLive('drugInteraction').catch(err => console.log('[Sync] Pull interactions:', err.message));
+
+    const prisma = await getPrisma();
+    const { ingredientId, severity, includeInactive } = req.query;
+
+    const where: any = buildInteractionWhereClause(req);
+    if (includeInactive !== 'true') {
+      where.isActive = true;
+    }
+    if (severity) {
+      where.severity = severity as string;
+    }
+    if (ingredientId) {
+      where.OR = [
+        { ingredientAId: ingredientId as string },
+        { ingredientBId: ingredientId as string }
+      ];
+    }
+
+    const interactions = await prisma.drugInteraction.findMany({
+      where,
+      include: interactionInclude,
+      orderBy: { createdAt: 'desc' }
+    });
+
+    return res.json({
+      success: true,
+      data: interactions
+    });
+  } catch (error) {
+    console.error('Get interactions error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+export const createInteraction = async (req: AuthRequest, res: Response) => {
+  try {
+    const prisma = await getPrisma();
+    const { error, value } = createInteractionSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const ingredientCount = await prisma.activeIngredient.count({
+      where: buildInteractionWhereClause(req, { id: { in: [value.ingredientAId, value.ingredientBId] } })
+    });
+
+    if (ingredientCount !== 2) {
+      return res.status(400).json({
+        success: false,
+        message: 'One or more ingredients were not found'
+      });
+    }
+
+    // One rule per ingredient pair, in either order
+    const existingInteraction = await prisma.drugInteraction.findFirst({
+      where: buildInteractionWhereClause(req, {
+        isActive: true,
+        OR: [
+          { ingredientAId: value.ingredientAId, ingredientBId: value.ingredientBId },
+          { ingredientAId: value.ingredientBId, ingredientBId: value.ingredientAId }
+        ]
+      })
+    });
+
+    if (existingInteraction) {
+      return res.status(400).json({
+        success: false,
+        message: 'An interaction rule for these ingredients already exists'
+      });
+    }
+
+    const interaction = await prisma.drugInteraction.create({
+      data: {
+        ingredientAId: value.ingredientAId,
+        ingredientBId: value.ingredientBId,
+        severity: value.severity,
+        description: value.description,
+        recommendation: value.recommendation || null,
+        createdBy: req.user?.createdBy || req.user?.id
+      },
+      include: interactionInclude
+    });
+
+    // 🔄 IMMEDIATE BIDIRECTIONAL SYNC
+    syncAfterOperation('drugInteraction', 'create', interaction).catch(err => {
+      console.error('[Sync] Interaction create sync failed:', err.message);
+    });
+
+    return res.status(201).json({
+      success: true,
+      data: interaction
+    });
+  } catch (error) {
+    console.error('Create interaction error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+export const updateInteraction = async (req: AuthRequest, res: Response) => {
+  try {
+    const prisma = await getPrisma();
+    const { id } = req.params;
+
+    const { error, value } = updateInteractionSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const existingInteraction = await prisma.drugInteraction.findFirst({
+      where: buildInteractionWhereClause(req, { id })
+    });
+
+    if (!existingInteraction) {
+      return res.status(404).json({
+        success: false,
+        message: 'Interaction rule not found'
+      });
+    }
+
+    const interaction = await prisma.drugInteraction.update({
+      where: { id },
+      data: value,
+      include: interactionInclude
+    });
+
+    // 🔄 IMMEDIATE BIDIRECTIONAL SYNC
+    syncAfterOperation('drugInteraction', 'update', interaction).catch(err => {
+      console.error('[Sync] Interaction update sync failed:', err.message);
+    });
+
+    return res.json({
+      success: true,
+      data: interaction
+    });
+  } catch (error) {
+    console.error('Update interaction error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+export const deleteInteraction = async (req: AuthRequest, res: Response) => {
+  try {
+    const prisma = await getPrisma();
+    const { id } = req.params;
+
+    const existingInteraction = await prisma.drugInteraction.findFirst({
+      where: buildInteractionWhereClause(req, { id })
+    });
+
+    if (!existingInteraction) {
+      return res.status(404).json({
+        success: false,
+        message: 'Interaction rule not found'
+      });
+    }
+
+    // Soft delete so sales that acknowledged the rule still make sense
+    const interaction = await prisma.drugInteraction.update({
+      where: { id },
+      data: { isActive: false }
+    });
+
+    // 🔄 IMMEDIATE BIDIRECTIONAL SYNC
+    syncAfterOperation('drugInteraction', 'update', interaction).catch(err => {
+      console.error('[Sync] Interaction update sync failed:', err.message);
+    });
+
+    return res.json({
+      success: true,
+      message: 'Interaction rule deactivated successfully'
+    });
+  } catch (error) {
+    console.error('Delete interaction error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
@@ -1,6 +1,8 @@
 import { Request, Response } from 'express';
 import { getPrisma } from '../utils/db.util';
 import { AuthRequest } from '../middleware/auth.middleware';
+import { describeStock } from '../utils/unit-helper';
+import { getValuationMethod, valueBatches } from '../utils/costing-helper';
 
 // Get inventory summary (stock levels by product)
 export const getInventorySummary = async (req: AuthRequest, res: Response) => {
@@ -55,7 +57,7 @@ export const getInventorySummary = async (req: AuthRequest, res: Response) => {
 
     // Note: lowStock filtering will be handled after fetching products with batch data
 
-    const [products, total] = await Promise.all([
+    const [products, total, valuationMethod] = await Promise.all([
       prisma.product.findMany({
         where,
         include: {
@@ -85,16 +87,27 @@ export const getInventorySummary = async (req: AuthRequest, res: Response) => {
               quantity: true,
               expireDate: true,
               purchasePrice: true,
+              landedCost: true,
               sellingPrice: true,
             },
             orderBy: { expireDate: 'asc' },
           },
+          units: {
+            where: { isActive: true },
+            select: {
+              id: true,
+              name: true,
+              conversionFactor: true,
+              sellingPrice: true,
+            },
+          },
         },
         orderBy: { name: 'asc' },
         skip,
         take: Number(limit),
       }),
       prisma.product.count({ where }),
+      getValuationMethod(prisma, companyId),
     ]);
 
     // Calculate batch totals and expiry warnings
@@ -120,6 +133,8 @@ export const getInventorySummary = async (req: AuthRequest, res: Response) => {
         ...product,
         stock: totalBatchQuantity, // Use only active (non-expired) batch quantities
         totalBatchQuantity,
+        stockInUnits: describeStock(totalBatchQuantity, product), // e.g. 2 Box + 3 Strip + 4 Tablet
+        stockValue: valueBatches(activeBatches, valuationMethod, product.averageCost),
         nearExpiryBatches: nearExpiryBatches.length,
         expiredBatches: expiredBatches.length,
         isLowStock: totalBatchQuantity <= product.minStock,
@@ -131,6 +146,7 @@ export const getInventorySummary = async (req: AuthRequest, res: Response) => {
     return res.json({
       success: true,
       data: inventoryData,
+      valuationMethod,
       pagination: {
         page: Number(page),
         limit: Number(limit),
@@ -265,6 +281,12 @@ export const getInventoryByBatches = async (req: AuthRequest, res: Response) =>
               sku: true,
               barcode: true,
               minStock: true,
+              baseUnitName: true,
+              unitsPerPack: true,
+              units: {
+                where: { isActive: true },
+                select: { name: true, conversionFactor: true },
+              },
             },
           },
           supplier: {
@@ -300,6 +322,7 @@ export const getInventoryByBatches = async (req: AuthRequest, res: Response) =>
 
       return {
         ...batch,
+        quantityInUnits: describeStock(batch.quantity, batch.product),
         expiryStatus,
         daysUntilExpiry: batch.expireDate ?
           Math.ceil((new Date(batch.expireDate).getTime() - new Date().getTime()) / (1000 * 60 * 60 * 24)) :
@@ -361,8 +384,9 @@ export const getInventoryReports = async (req: AuthRequest, res: Response) => {
       lowStockProducts,
       nearExpiryBatches,
       expiredBatches,
-      totalStockValue,
+      stockBatches,
       categoryStats,
+      valuationMethod,
     ] = await Promise.all([
       // Total products
       prisma.product.count({
@@ -432,16 +456,21 @@ export const getInventoryReports = async (req: AuthRequest, res: Response) => {
         },
       }),
 
-      // Total stock value
-      prisma.batch.aggregate({
+      // Stock on hand, valued below
+      prisma.batch.findMany({
         where: {
           branchId,
           companyId,
           isActive: true,
           quantity: { gt: 0 },
         },
-        _sum: {
+        select: {
           quantity: true,
+          purchasePrice: true,
+          landedCost: true,
+          product: {
+            select: { categoryId: true, averageCost: true },
+          },
         },
       }),
 
@@ -460,8 +489,15 @@ export const getInventoryReports = async (req: AuthRequest, res: Response) => {
           minStock: true,
         },
       }),
+
+      getValuationMethod(prisma, companyId),
     ]);
 
+    const valueOf = (batches: typeof stockBatches) => batches.reduce(
+      (sum, batch) => sum + valueBatches([batch], valuationMethod, batch.product.averageCost),
+      0
+    );
+
     // Get category names
     const categoryIds = categoryStats.map(stat => stat.categoryId);
     const categories = await prisma.category.findMany({
@@ -483,6 +519,7 @@ export const getInventoryReports = async (req: AuthRequest, res: Response) => {
         categoryType: category?.type || 'GENERAL',
         productCount: stat._count.id,
         totalStock: stat._sum.minStock || 0,
+        stockValue: Math.round(valueOf(stockBatches.filter(batch => batch.product.categoryId === stat.categoryId)) * 100) / 100,
       };
     });
 
@@ -493,7 +530,9 @@ export const getInventoryReports = async (req: AuthRequest, res: Response) => {
         lowStockProducts,
         nearExpiryBatches,
         expiredBatches,
-        totalStockValue: totalStockValue._sum.quantity || 0,
+        totalStockValue: Math.round(valueOf(stockBatches) * 100) / 100,
+        totalStockQuantity: stockBatches.reduce((sum, batch) => sum + batch.quantity, 0),
+        valuationMethod,
         categoryStats: categoryStatsWithNames,
       },
     });
@@ -0,0 +1,427 @@
+import { Response } from 'express';
+import { getPrisma } from '../utils/db.util';
+import { AuthRequest } from '../middleware/auth.middleware';
+import { syncAfterOperation, pullLatestFromLive } from '../utils/sync-helper';
+import { isSQLite } from '../utils/query-helper';
+import { getNumericSetting } from '../utils/settings-helper';
+import {
+  DOCUMENT_TYPES,
+  NumberRange,
+  findSequenceGaps,
+  findDuplicateNumbers,
+  getDocumentSequence,
+  validateDocumentNumberFormat
+} from '../utils/numbering-helper';
+import Joi from 'joi';
+
+// Validation schemas
+const updateSequenceSchema = Joi.object({
+  format: Joi.string().max(60).required()
+});
+
+const reserveNumbersSchema = Joi.object({
+  branchId: Joi.string().required(),
+  documentType: Joi.string().valid(...DOCUMENT_TYPES).default('RECEIPT'),
+  fiscalYear: Joi.number().integer().min(2000).max(2100).optional(), // Reserve ahead for the next fiscal year
+  size: Joi.number().integer().min(1).max(100000).optional(),
+  deviceId: Joi.string().optional() // Defaults to the X-Device-ID header
+});
+
+/**
+ * Sequences belong to the admin group; managers only see their own branch
+ */
+const buildSequenceWhereClause = (req: AuthRequest, baseWhere: any = {}) => {
+  const whereClause = { ...baseWhere };
+  const userRole = req.user?.role ? String(req.user.role).toUpperCase() : '';
+
+  if (userRole !== 'SUPERADMIN') {
+    whereClause.createdBy = req.user?.createdBy || req.user?.id;
+  }
+
+  if (userRole === 'MANAGER' && req.user?.branchId) {
+    whereClause.branchId = req.user.branchId;
+  }
+
+  return whereClause;
+};
+
+const buildSequenceFilters = (req: AuthRequest) => {
+  const { branchId, documentType, fiscalYear } = req.query;
+  const where: any = {};
+
+  if (branchId) {
+    where.branchId = branchId as string;
+  }
+  if (documentType) {
+    where.documentType = documentType as string;
+  }
+  if (fiscalYear) {
+    where.fiscalYear = parseInt(fiscalYear as string, 10);
+  }
+
+  return buildSequenceWhereClause(req, where);
+};
+
+export const getSequences = async (req: AuthRequest, res: Response) => {
+  try {
+    await pullLatestFromLive('documentSequence').catch(err => console.log('[Sync] Pull document sequences:', err.message));
+
+    const prisma = await getPrisma();
+    const sequences = await prisma.documentSequence.findMany({
+      where: buildSequenceFilters(req),
+      include: {
+        branch: {
+          select: { id: true, name: true, code: true }
+        },
+        reservations: {
+          where: { status: 'ACTIVE' },
+          orderBy: { startNumber: 'asc' }
+        }
+      },
+      orderBy: [{ fiscalYear: 'desc' }, { documentType: 'asc' }]
+    });
+
+    return res.json({
+      success: true,
+      data: { sequences }
+    });
+  } catch (error) {
+    console.error('Get document sequences error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+export const updateSequence = async (req: AuthRequest, res: Response) => {
+  try {
+    const prisma = await getPrisma();
+    const { id } = req.params;
+
+    const { error } = updateSequenceSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const formatError = validateDocumentNumberFormat(req.body.format);
+    if (formatError) {
+      return res.status(400).json({
+        success: false,
+        message: formatError
+      });
+    }
+
+    const sequence = await prisma.documentSequence.findFirst({
+      where: buildSequenceWhereClause(req, { id })
+    });
+
+    if (!sequence) {
+      return res.status(404).json({
+        success: false,
+        message: 'Document sequence not found'
+      });
+    }
+
+    // Numbers already on paper must keep one format for the whole fiscal year
+    if (sequence.nextNumber > 1) {
+      return res.status(400).json({
+        success: false,
+        message: 'Format cannot change once numbers have been issued or reserved. Change the number format setting for the next fiscal year instead.'
+      });
+    }
+
+    const updatedSequence = await prisma.documentSequence.update({
+      where: { id },
+      data: { format: req.body.format }
+    });
+
+    // 🔄 IMMEDIATE BIDIRECTIONAL SYNC
+    syncAfterOperation('documentSequence', 'update', updatedSequence).catch(err => {
+      console.error('[Sync] Document sequence update sync failed:', err.message);
+    });
+
+    return res.json({
+      success: true,
+      data: updatedSequence
+    });
+  } catch (error) {
+    console.error('Update document sequence error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+export const reserveNumbers = async (req: AuthRequest, res: Response) => {
+  try {
+    // A range is only safe when it is carved out of the one shared counter
+    if (isSQLite()) {
+      return res.status(409).json({
+        success: false,
+        message: 'Number ranges can only be reserved while connected to the central server'
+      });
+    }
+
+    const { error, value } = reserveNumbersSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const deviceId = value.deviceId || req.headers['x-device-id'] as string;
+    if (!deviceId) {
+      return res.status(400).json({
+        success: false,
+        message: 'Device ID is required (X-Device-ID header or deviceId)'
+      });
+    }
+
+    if (req.user?.role === 'MANAGER' && req.user.branchId && value.branchId !== req.user.branchId) {
+      return res.status(403).json({
+        success: false,
+        message: 'You can only reserve numbers for your own branch'
+      });
+    }
+
+    const prisma = await getPrisma();
+    const branch = await prisma.branch.findUnique({
+      where: { id: value.branchId }
+    });
+
+    if (!branch || !branch.isActive) {
+      return res.status(404).json({
+        success: false,
+        message: 'Branch not found'
+      });
+    }
+
+    const createdBy = req.user?.createdBy || req.user?.id;
+    const size = value.size || await getNumericSetting(prisma, createdBy, 'receiptReservationSize', 500);
+
+    const result = await prisma.$transaction(async (tx) => {
+      const { sequence } = await getDocumentSequence(tx, {
+        branchId: value.branchId,
+        documentType: value.documentType,
+        fiscalYear: value.fiscalYear,
+        createdBy
+      });
+
+      // Move the shared counter past the range so no one else can issue these numbers
+      const updatedSequence = await tx.documentSequence.update({
+        where: { id: sequence!.id },
+        data: { nextNumber: { increment: size } }
+      });
+
+      const reservation = await tx.sequenceReservation.create({
+        data: {
+          sequenceId: updatedSequence.id,
+          deviceId,
+          startNumber: updatedSequence.nextNumber - size,
+          endNumber: updatedSequence.nextNumber - 1,
+          nextNumber: updatedSequence.nextNumber - size,
+          createdBy
+        }
+      });
+
+      return { sequence: updatedSequence, reservation };
+    }, {
+      timeout: 60000 // 60 seconds timeout for long-running transactions
+    });
+
+    // 🔄 IMMEDIATE BIDIRECTIONAL SYNC
+    syncAfterOperation('documentSequence', 'update', result.sequence).catch(err => {
+      console.error('[Sync] Document sequence update sync failed:', err.message);
+    });
+    syncAfterOperation('sequenceReservation', 'create', result.reservation).catch(err => {
+      console.error('[Sync] Sequence reservation create sync failed:', err.message);
+    });
+
+    return res.status(201).json({
+      success: true,
+      data: result.reservation
+    });
+  } catch (error) {
+    console.error('Reserve document numbers error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+export const getReservations = async (req: AuthRequest, res: Response) => {
+  try {
+    await pullLatestFromLive('sequenceReservation').catch(err => console.log('[Sync] Pull sequence reservations:', err.message));
+
+    const prisma = await getPrisma();
+    const { deviceId, status } = req.query;
+
+    const where: any = {
+      sequence: buildSequenceFilters(req)
+    };
+    if (deviceId) {
+      where.deviceId = deviceId as string;
+    }
+    if (status) {
+      where.status = status as string;
+    }
+
+    const reservations = await prisma.sequenceReservation.findMany({
+      where,
+      include: {
+        sequence: {
+          select: { id: true, branchId: true, documentType: true, fiscalYear: true, format: true }
+        }
+      },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    return res.json({
+      success: true,
+      data: {
+        reservations: reservations.map(reservation => ({
+          ...reservation,
+          remaining: reservation.status === 'ACTIVE' ? reservation.endNumber - reservation.nextNumber + 1 : 0
+        }))
+      }
+    });
+  } catch (error) {
+    console.error('Get sequence reservations error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+export const releaseReservation = async (req: AuthRequest, res: Response) => {
+  try {
+    const prisma = await getPrisma();
+    const { id } = req.params;
+
+    const reservation = await prisma.sequenceReservation.findFirst({
+      where: {
+        id,
+        sequence: buildSequenceWhereClause(req)
+      }
+    });
+
+    if (!reservation) {
+      return res.status(404).json({
+        success: false,
+        message: 'Reservation not found'
+      });
+    }
+
+    if (reservation.status !== 'ACTIVE') {
+      return res.status(400).json({
+        success: false,
+        message: `Reservation is already ${reservation.status.toLowerCase()}`
+      });
+    }
+
+    // Unused numbers are not handed back: they stay on the gap audit as released
+    const releasedReservation = await prisma.sequenceReservation.update({
+      where: { id },
+      data: { status: 'RELEASED' }
+    });
+
+    // 🔄 IMMEDIATE BIDIRECTIONAL SYNC
+    syncAfterOperation('sequenceReservation', 'update', releasedReservation).catch(err => {
+      console.error('[Sync] Sequence reservation update sync failed:', err.message);
+    });
+
+    return res.json({
+      success: true,
+      data: releasedReservation
+    });
+  } catch (error) {
+    console.error('Release sequence reservation error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+/**
+ * Audit each sequence for numbers that were allocated but never issued
+ */
+export const getSequenceGaps = async (req: AuthRequest, res: Response) => {
+  try {
+    await Promise.all([
+      pullLatestFromLive('documentSequence').catch(err => console.log('[Sync] Pull document sequences:', err.message)),
+      pullLatestFromLive('sequenceReservation').catch(err => console.log('[Sync] Pull sequence reservations:', err.message)),
+      pullLatestFromLive('receipt').catch(err => console.log('[Sync] Pull receipts:', err.message))
+    ]);
+
+    const prisma = await getPrisma();
+    const sequences = await prisma.documentSequence.findMany({
+      where: buildSequenceFilters(req),
+      include: {
+        branch: {
+          select: { id: true, name: true, code: true }
+        },
+        reservations: true,
+        receipts: {
+          select: { sequenceNumber: true }
+        }
+      },
+      orderBy: [{ fiscalYear: 'desc' }, { documentType: 'asc' }]
+    });
+
+    const audit = sequences.map(sequence => {
+      const issuedNumbers = sequence.receipts
+        .map(receipt => receipt.sequenceNumber)
+        .filter((number): number is number => number !== null);
+
+      // Unused part of each reservation: still pending while active, given up once released
+      const unusedRange = (reservation: { nextNumber: number; endNumber: number }): NumberRange[] =>
+        reservation.nextNumber <= reservation.endNumber ? [{ from: reservation.nextNumber, to: reservation.endNumber }] : [];
+      const pendingRanges = sequence.reservations
+        .filter(reservation => reservation.status === 'ACTIVE')
+        .flatMap(unusedRange);
+      const releasedRanges = sequence.reservations
+        .filter(reservation => reservation.status === 'RELEASED')
+        .flatMap(unusedRange);
+
+      const lastNumber = sequence.nextNumber - 1;
+      const gaps = findSequenceGaps(issuedNumbers, lastNumber, pendingRanges);
+
+      return {
+        sequenceId: sequence.id,
+        branch: sequence.branch,
+        documentType: sequence.documentType,
+        fiscalYear: sequence.fiscalYear,
+        format: sequence.format,
+        lastNumber,
+        issuedCount: issuedNumbers.length,
+        gapCount: gaps.reduce((sum, gap) => sum + gap.to - gap.from + 1, 0),
+        gaps,
+        duplicates: findDuplicateNumbers(issuedNumbers),
+        pendingRanges,
+        releasedRanges
+      };
+    });
+
+    return res.json({
+      success: true,
+      data: { sequences: audit }
+    });
+  } catch (error) {
+    console.error('Get sequence gaps error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
@@ -0,0 +1,373 @@
+import { Response } from 'express';
+import { Prisma } from '@prisma/client';
+import { getPrisma } from '../utils/db.util';
+import { AuthRequest } from '../middleware/auth.middleware';
+import { syncAfterOperation, pullLatestFromLive } from '../utils/sync-helper';
+import { getNumericSetting } from '../utils/settings-helper';
+import { getPrescriptionExpiry } from '../utils/prescription-helper';
+import Joi from 'joi';
+
+// Validation schemas
+const prescriptionItemSchema = Joi.object({
+  productId: Joi.string().required(),
+  allowedQuantity: Joi.number().integer().min(1).required(),
+  dosage: Joi.string().allow('', null).optional(),
+  unitsPerDay: Joi.number().positive().optional() // e.g. 3 for one tablet three times a day
+});
+
+const createPrescriptionSchema = Joi.object({
+  prescriptionNumber: Joi.string().allow('', null).optional(),
+  branchId: Joi.string().allow('').optional(), // Defaults to the user's branch
+  customerId: Joi.string().allow('', null).optional(),
+  patientName: Joi.string().required(),
+  patientPhone: Joi.string().allow('', null).optional(),
+  doctorName: Joi.string().required(),
+  doctorRegistrationNumber: Joi.string().required(),
+  issueDate: Joi.date().max('now').required(),
+  expiryDate: Joi.date().greater(Joi.ref('issueDate')).optional(),
+  imageUrl: Joi.string().max(2000).allow('', null).optional(),
+  notes: Joi.string().allow('', null).optional(),
+  items: Joi.array().items(prescriptionItemSchema).min(1).required()
+});
+
+const updatePrescriptionSchema = Joi.object({
+  prescriptionNumber: Joi.string().allow('', null),
+  customerId: Joi.string().allow('', null),
+  patientName: Joi.string(),
+  patientPhone: Joi.string().allow('', null),
+  doctorName: Joi.string(),
+  doctorRegistrationNumber: Joi.string(),
+  expiryDate: Joi.date(),
+  imageUrl: Joi.string().max(2000).allow('', null),
+  notes: Joi.string().allow('', null)
+});
+
+// Relations returned with a prescription
+const prescriptionInclude = Prisma.validator<Prisma.PrescriptionInclude>()({
+  customer: {
+    select: { id: true, name: true, phone: true }
+  },
+  branch: {
+    select: { id: true, name: true }
+  },
+  items: {
+    include: {
+      product: {
+        select: { id: true, name: true, sku: true, requiresPrescription: true, isControlled: true }
+      }
+    }
+  }
+});
+
+/**
+ * Prescriptions belong to the admin group; managers only see their own branch
+ */
+const buildPrescriptionWhereClause = (req: AuthRequest, baseWhere: any = {}) => {
+  const whereClause = { ...baseWhere };
+  const userRole = req.user?.role ? String(req.user.role).toUpperCase() : '';
+
+  if (userRole !== 'SUPERADMIN') {
+    whereClause.createdBy = req.user?.createdBy || req.user?.id;
+  }
+
+  if (userRole === 'MANAGER' && req.user?.branchId) {
+    whereClause.branchId = req.user.branchId;
+  }
+
+  return whereClause;
+};
+
+export const getPrescriptions = async (req: AuthRequest, res: Response) => {
+  try {
+    // 🔄 PULL LATEST FROM LIVE DATABASE FIRST
+    await pullLatestFromLive('prescription').catch(err => console.log('[Sync] Pull prescriptions:', err.message));
+
+    const prisma = await getPrisma();
+    const { page = 1, limit = 10, search = '', status, customerId, branchId } = req.query;
+
+    const skip = (Number(page) - 1) * Number(limit);
+    const take = Number(limit);
+
+    const where: any = buildPrescriptionWhereClause(req);
+    if (status) {
+      where.status = status as string;
+    }
+    if (customerId) {
+      where.customerId = customerId as string;
+    }
+    if (branchId && !where.branchId) {
+      where.branchId = branchId as string;
+    }
+    if (search) {
+      where.OR = [
+        { patientName: { contains: search as string } },
+        { patientPhone: { contains: search as string } },
+        { doctorName: { contains: search as string } },
+        { doctorRegistrationNumber: { contains: search as string } },
+        { prescriptionNumber: { contains: search as string } }
+      ];
+    }
+
+    const [prescriptions, total] = await Promise.all([
+      prisma.prescription.findMany({
+        where,
+        skip,
+        take,
+        include: prescriptionInclude,
+        orderBy: { issueDate: 'desc' }
+      }),
+      prisma.prescription.count({ where })
+    ]);
+
+    return res.json({
+      success: true,
+      data: {
+        prescriptions,
+        pagination: {
+          page: Number(page),
+          limit: Number(limit),
+          total,
+          pages: Math.ceil(total / Number(limit))
+        }
+      }
+    });
+  } catch (error) {
+    console.error('Get prescriptions error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+export const getPrescription = async (req: AuthRequest, res: Response) => {
+  try {
+    const prisma = await getPrisma();
+    const { id } = req.params;
+
+    const prescription = await prisma.prescription.findFirst({
+      where: buildPrescriptionWhereClause(req, { id }),
+      include: {
+        ...prescriptionInclude,
+        items: {
+          include: {
+            ...prescriptionInclude.items.include,
+            // Every fill of this line, for partial-fill tracking
+            saleItems: {
+              select: {
+                id: true,
+                quantity: true,
+                refundedQuantity: true,
+                batchNumber: true,
+                sale: {
+                  select: { id: true, status: true, createdAt: true, userId: true }
+                }
+              }
+            }
+          }
+        }
+      }
+    });
+
+    if (!prescription) {
+      return res.status(404).json({
+        success: false,
+        message: 'Prescription not found'
+      });
+    }
+
+    return res.json({
+      success: true,
+      data: prescription
+    });
+  } catch (error) {
+    console.error('Get prescription error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+export const createPrescription = async (req: AuthRequest, res: Response) => {
+  try {
+    const prisma = await getPrisma();
+    const { error, value } = createPrescriptionSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const branchId = value.branchId || req.user?.selectedBranchId || req.user?.branchId;
+    if (!branchId) {
+      return res.status(400).json({
+        success: false,
+        message: 'Branch ID is required'
+      });
+    }
+
+    const productIds: string[] = Array.from(new Set(value.items.map((item: any) => item.productId)));
+    const products = await prisma.product.findMany({
+      where: { id: { in: productIds } },
+      select: { id: true }
+    });
+    if (products.length !== productIds.length) {
+      return res.status(400).json({
+        success: false,
+        message: 'One or more products on the prescription were not found'
+      });
+    }
+
+    const createdBy = req.user?.createdBy || req.user?.id;
+    const validityDays = await getNumericSetting(prisma, createdBy, 'prescriptionValidityDays', 30);
+
+    const prescription = await prisma.prescription.create({
+      data: {
+        prescriptionNumber: value.prescriptionNumber || null,
+        branchId,
+        customerId: value.customerId || null,
+        patientName: value.patientName,
+        patientPhone: value.patientPhone || null,
+        doctorName: value.doctorName,
+        doctorRegistrationNumber: value.doctorRegistrationNumber,
+        issueDate: value.issueDate,
+        expiryDate: value.expiryDate || getPrescriptionExpiry(value.issueDate, validityDays),
+        imageUrl: value.imageUrl || null,
+        notes: value.notes || null,
+        createdBy,
+        items: {
+          create: value.items.map((item: any) => ({
+            productId: item.productId,
+            allowedQuantity: item.allowedQuantity,
+            dosage: item.dosage || null,
+            unitsPerDay: item.unitsPerDay || null,
+            createdBy
+          }))
+        }
+      },
+      include: prescriptionInclude
+    });
+
+    // 🔄 IMMEDIATE BIDIRECTIONAL SYNC
+    syncAfterOperation('prescription', 'create', prescription).catch(err => {
+      console.error('[Sync] Prescription create sync failed:', err.message);
+    });
+    prescription.items.forEach(item => {
+      syncAfterOperation('prescriptionItem', 'create', item).catch(err => {
+        console.error('[Sync] Prescription item create sync failed:', err.message);
+      });
+    });
+
+    return res.status(201).json({
+      success: true,
+      data: prescription
+    });
+  } catch (error) {
+    console.error('Create prescription error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+export const updatePrescription = async (req: AuthRequest, res: Response) => {
+  try {
+    const prisma = await getPrisma();
+    const { id } = req.params;
+
+    const { error, value } = updatePrescriptionSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const existingPrescription = await prisma.prescription.findFirst({
+      where: buildPrescriptionWhereClause(req, { id })
+    });
+
+    if (!existingPrescription) {
+      return res.status(404).json({
+        success: false,
+        message: 'Prescription not found'
+      });
+    }
+
+    // Items and quantities are fixed once captured; only the details can be corrected
+    const prescription = await prisma.prescription.update({
+      where: { id },
+      data: value,
+      include: prescriptionInclude
+    });
+
+    // 🔄 IMMEDIATE BIDIRECTIONAL SYNC
+    syncAfterOperation('prescription', 'update', prescription).catch(err => {
+      console.error('[Sync] Prescription update sync failed:', err.message);
+    });
+
+    return res.json({
+      success: true,
+      data: prescription
+    });
+  } catch (error) {
+    console.error('Update prescription error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+export const cancelPrescription = async (req: AuthRequest, res: Response) => {
+  try {
+    const prisma = await getPrisma();
+    const { id } = req.params;
+
+    const existingPrescription = await prisma.prescription.findFirst({
+      where: buildPrescriptionWhereClause(req, { id })
+    });
+
+    if (!existingPrescription) {
+      return res.status(404).json({
+        success: false,
+        message: 'Prescription not found'
+      });
+    }
+
+    if (existingPrescription.status !== 'ACTIVE') {
+      return res.status(400).json({
+        success: false,
+        message: `Prescription is already ${existingPrescription.status.toLowerCase()}`
+      });
+    }
+
+    // Anything already dispensed stays on record; the rest can no longer be filled
+    const prescription = await prisma.prescription.update({
+      where: { id },
+      data: { status: 'CANCELLED' },
+      include: prescriptionInclude
+    });
+
+    // 🔄 IMMEDIATE BIDIRECTIONAL SYNC
+    syncAfterOperation('prescription', 'update', prescription).catch(err => {
+      console.error('[Sync] Prescription update sync failed:', err.message);
+    });
+
+    return res.json({
+      success: true,
+      data: prescription
+    });
+  } catch (error) {
+    console.error('Cancel prescription error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
@@ -0,0 +1,287 @@
+import { Response } from 'express';
+import { Prisma } from '@prisma/client';
+import { getPrisma } from '../utils/db.util';
+import { AuthRequest, buildBranchWhereClause } from '../middleware/auth.middleware';
+import { syncAfterOperation } from '../utils/sync-helper';
+import {
+  PRODUCT_BARCODE_TYPES,
+  Gs1Data,
+  findProductsByCodes,
+  gtinCandidates,
+  isGs1String,
+  parseGs1
+} from '../utils/barcode-helper';
+import Joi from 'joi';
+
+// Validation schemas
+const addBarcodeSchema = Joi.object({
+  code: Joi.string().trim().max(64).required(),
+  type: Joi.string().valid(...PRODUCT_BARCODE_TYPES).default('MANUFACTURER')
+});
+
+const scanSchema = Joi.object({
+  code: Joi.string().max(256).required(), // As sent by the scanner, GS1 group separators included
+  branchId: Joi.string().allow('', null).optional()
+});
+
+const batchSelect = Prisma.validator<Prisma.BatchSelect>()({
+  id: true,
+  batchNo: true,
+  quantity: true,
+  quarantinedQuantity: true,
+  sellingPrice: true,
+  expireDate: true,
+  isActive: true
+});
+
+/**
+ * Find a product the user can see, with its extra barcodes
+ */
+const findScopedProduct = async (req: AuthRequest, productId: string) => {
+  const prisma = await getPrisma();
+  return prisma.product.findFirst({
+    where: buildBranchWhereClause(req, { id: productId }),
+    include: { barcodes: { orderBy: { createdAt: 'asc' } } }
+  });
+};
+
+// Get the barcodes of a product
+export const getProductBarcodes = async (req: AuthRequest, res: Response) => {
+  try {
+    const product = await findScopedProduct(req, req.params.id);
+    if (!product) {
+      return res.status(404).json({
+        success: false,
+        message: 'Product not found'
+      });
+    }
+
+    return res.json({
+      success: true,
+      data: {
+        productId: product.id,
+        barcode: product.barcode,
+        barcodes: product.barcodes
+      }
+    });
+  } catch (error) {
+    console.error('Get product barcodes error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+// Add a barcode (manufacturer EAN, internal label, alternate pack) to a product
+export const addProductBarcode = async (req: AuthRequest, res: Response) => {
+  try {
+    const { error, value } = addBarcodeSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const product = await findScopedProduct(req, req.params.id);
+    if (!product) {
+      return res.status(404).json({
+        success: false,
+        message: 'Product not found'
+      });
+    }
+
+    // The same GTIN in another form (e.g. GTIN-14 of an EAN-13) counts as the same barcode
+    const codes = gtinCandidates(value.code);
+    if ((product.barcode && codes.includes(product.barcode)) || product.barcodes.some(b => codes.includes(b.code))) {
+      return res.status(400).json({
+        success: false,
+        message: 'This product already has this barcode'
+      });
+    }
+
+    const prisma = await getPrisma();
+    const { products } = await findProductsByCodes(
+      prisma,
+      codes,
+      buildBranchWhereClause(req, { branchId: product.branchId, id: { not: product.id } })
+    );
+    if (products.length > 0) {
+      return res.status(400).json({
+        success: false,
+        message: `Barcode ${value.code} is already used by ${products[0].name}`
+      });
+    }
+
+    const barcode = await prisma.productBarcode.create({
+      data: {
+        productId: product.id,
+        code: value.code,
+        type: value.type,
+        createdBy: req.user?.createdBy || req.user?.id
+      }
+    });
+
+    syncAfterOperation('productBarcode', 'create', barcode).catch(err => {
+      console.error('[Sync] Product barcode create sync failed:', err.message);
+    });
+
+    return res.status(201).json({
+      success: true,
+      data: barcode,
+      message: 'Barcode added successfully'
+    });
+  } catch (error) {
+    console.error('Add product barcode error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+// Remove one of a product's extra barcodes
+export const deleteProductBarcode = async (req: AuthRequest, res: Response) => {
+  try {
+    const product = await findScopedProduct(req, req.params.id);
+    const existing = product?.barcodes.find(barcode => barcode.id === req.params.barcodeId);
+    if (!product || !existing) {
+      return res.status(404).json({
+        success: false,
+        message: 'Barcode not found'
+      });
+    }
+
+    const prisma = await getPrisma();
+    await prisma.productBarcode.delete({ where: { id: existing.id } });
+
+    syncAfterOperation('productBarcode', 'delete', { id: existing.id }).catch(err => {
+      console.error('[Sync] Product barcode delete sync failed:', err.message);
+    });
+
+    return res.json({
+      success: true,
+      message: 'Barcode deleted successfully'
+    });
+  } catch (error) {
+    console.error('Delete product barcode error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+// Resolve a scanned code (plain barcode or GS1 DataMatrix/GS1-128) to a product, pack and batch
+export const scanBarcode = async (req: AuthRequest, res: Response) => {
+  try {
+    const prisma = await getPrisma();
+
+    const { error, value } = scanSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    let gs1: Gs1Data | null = null;
+    if (isGs1String(value.code)) {
+      try {
+        gs1 = parseGs1(value.code);
+      } catch (parseError: any) {
+        if (parseError.statusCode) {
+          return res.status(parseError.statusCode).json({
+            success: false,
+            message: parseError.message
+          });
+        }
+        throw parseError;
+      }
+    }
+
+    const branchId = value.branchId || req.user?.selectedBranchId || req.user?.branchId;
+    const productWhere = buildBranchWhereClause(req, branchId ? { branchId } : {});
+    const codes = gtinCandidates(gs1?.gtin || value.code.trim());
+    const { products, unit } = await findProductsByCodes(prisma, codes, productWhere);
+
+    if (products.length > 1) {
+      return res.status(409).json({
+        success: false,
+        message: `Barcode matches ${products.length} products; choose a branch`,
+        data: products.map(product => ({ id: product.id, name: product.name, branchId: product.branchId }))
+      });
+    }
+
+    let product = products[0] || null;
+    let batch = null;
+
+    if (product && gs1?.batchNo) {
+      batch = await prisma.batch.findUnique({
+        where: {
+          batchNo_productId_branchId: { batchNo: gs1.batchNo, productId: product.id, branchId: product.branchId }
+        },
+        select: batchSelect
+      });
+    } else if (!product && !gs1) {
+      // Batch labels printed in the store carry their own barcode
+      const labelled = await prisma.batch.findFirst({
+        where: { barcode: value.code.trim(), product: productWhere },
+        select: { ...batchSelect, product: true }
+      });
+      if (labelled) {
+        const { product: labelledProduct, ...labelledBatch } = labelled;
+        product = labelledProduct;
+        batch = labelledBatch;
+      }
+    }
+
+    if (!product) {
+      return res.status(404).json({
+        success: false,
+        message: `No product found for barcode ${gs1?.gtin || value.code}`,
+        data: { gs1 }
+      });
+    }
+
+    const warnings: string[] = [];
+    if (gs1?.batchNo && !batch) {
+      warnings.push(`Batch ${gs1.batchNo} is not in stock yet; it is created when the goods are received`);
+    }
+    if (gs1?.expiryDate && gs1.expiryDate < new Date()) {
+      warnings.push('The scanned pack is expired');
+    }
+    if (batch && gs1?.expiryDate && batch.expireDate && batch.expireDate.getTime() !== gs1.expiryDate.getTime()) {
+      warnings.push(`The scanned expiry does not match batch ${batch.batchNo}`);
+    }
+
+    return res.json({
+      success: true,
+      data: {
+        code: value.code,
+        gs1,
+        product: {
+          id: product.id,
+          name: product.name,
+          sku: product.sku,
+          barcode: product.barcode,
+          baseUnitName: product.baseUnitName,
+          requiresPrescription: product.requiresPrescription,
+          branchId: product.branchId
+        },
+        unit,
+        batch,
+        warnings
+      }
+    });
+  } catch (error) {
+    console.error('Scan barcode error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
@@ -0,0 +1,250 @@
+import { Response } from 'express';
+import { Prisma } from '@prisma/client';
+import { getPrisma } from '../utils/db.util';
+import { AuthRequest, buildBranchWhereClause } from '../middleware/auth.middleware';
+import { syncAfterOperation } from '../utils/sync-helper';
+import { describeStock } from '../utils/unit-helper';
+import Joi from 'joi';
+
+// Validation schemas
+const createUnitSchema = Joi.object({
+  name: Joi.string().trim().max(30).required(),
+  conversionFactor: Joi.number().integer().min(2).required(), // Base units in one of this unit
+  sellingPrice: Joi.number().positive().allow(null).optional(),
+  barcode: Joi.string().allow('', null).optional(),
+  isActive: Joi.boolean().default(true)
+});
+
+const updateUnitSchema = Joi.object({
+  name: Joi.string().trim().max(30),
+  conversionFactor: Joi.number().integer().min(2),
+  sellingPrice: Joi.number().positive().allow(null),
+  barcode: Joi.string().allow('', null),
+  isActive: Joi.boolean()
+}).min(1);
+
+/**
+ * Find a product the user can see, with its units
+ */
+const findScopedProduct = async (req: AuthRequest, productId: string) => {
+  const prisma = await getPrisma();
+  return prisma.product.findFirst({
+    where: buildBranchWhereClause(req, { id: productId }),
+    include: {
+      units: { orderBy: { conversionFactor: 'asc' } },
+      batches: { where: { isActive: true }, select: { quantity: true } }
+    }
+  });
+};
+
+const isUniqueViolation = (error: unknown) =>
+  error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+
+// Get the selling units of a product
+export const getProductUnits = async (req: AuthRequest, res: Response) => {
+  try {
+    const product = await findScopedProduct(req, req.params.id);
+    if (!product) {
+      return res.status(404).json({
+        success: false,
+        message: 'Product not found'
+      });
+    }
+
+    const stock = product.batches.reduce((sum, batch) => sum + batch.quantity, 0);
+
+    return res.json({
+      success: true,
+      data: {
+        productId: product.id,
+        baseUnitName: product.baseUnitName,
+        units: product.units,
+        stock,
+        stockInUnits: describeStock(stock, product)
+      }
+    });
+  } catch (error) {
+    console.error('Get product units error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+// Add a selling unit (box, strip) to a product
+export const createProductUnit = async (req: AuthRequest, res: Response) => {
+  try {
+    const { error, value } = createUnitSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const product = await findScopedProduct(req, req.params.id);
+    if (!product) {
+      return res.status(404).json({
+        success: false,
+        message: 'Product not found'
+      });
+    }
+
+    if (value.name.toLowerCase() === product.baseUnitName.toLowerCase()) {
+      return res.status(400).json({
+        success: false,
+        message: `${value.name} is the base unit of this product`
+      });
+    }
+
+    const prisma = await getPrisma();
+    const unit = await prisma.productUnit.create({
+      data: {
+        ...value,
+        barcode: value.barcode || null,
+        productId: product.id,
+        createdBy: req.user?.createdBy || req.user?.id
+      }
+    });
+
+    syncAfterOperation('productUnit', 'create', unit).catch(err => {
+      console.error('[Sync] Product unit create sync failed:', err.message);
+    });
+
+    return res.status(201).json({
+      success: true,
+      data: unit,
+      message: 'Unit added successfully'
+    });
+  } catch (error) {
+    if (isUniqueViolation(error)) {
+      return res.status(400).json({
+        success: false,
+        message: 'This product already has a unit with that name'
+      });
+    }
+    console.error('Create product unit error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+// Update a selling unit
+export const updateProductUnit = async (req: AuthRequest, res: Response) => {
+  try {
+    const { error, value } = updateUnitSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const product = await findScopedProduct(req, req.params.id);
+    const existing = product?.units.find(unit => unit.id === req.params.unitId);
+    if (!product || !existing) {
+      return res.status(404).json({
+        success: false,
+        message: 'Unit not found'
+      });
+    }
+
+    if (value.name && value.name.toLowerCase() === product.baseUnitName.toLowerCase()) {
+      return res.status(400).json({
+        success: false,
+        message: `${value.name} is the base unit of this product`
+      });
+    }
+
+    // Past sale lines keep the factor they were sold with, so changing it only affects new sales
+    const prisma = await getPrisma();
+    const unit = await prisma.productUnit.update({
+      where: { id: existing.id },
+      data: {
+        ...value,
+        ...(value.barcode !== undefined && { barcode: value.barcode || null })
+      }
+    });
+
+    syncAfterOperation('productUnit', 'update', unit).catch(err => {
+      console.error('[Sync] Product unit update sync failed:', err.message);
+    });
+
+    return res.json({
+      success: true,
+      data: unit,
+      message: 'Unit updated successfully'
+    });
+  } catch (error) {
+    if (isUniqueViolation(error)) {
+      return res.status(400).json({
+        success: false,
+        message: 'This product already has a unit with that name'
+      });
+    }
+    console.error('Update product unit error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+// Remove a selling unit; units already sold in are deactivated instead
+export const deleteProductUnit = async (req: AuthRequest, res: Response) => {
+  try {
+    const product = await findScopedProduct(req, req.params.id);
+    const existing = product?.units.find(unit => unit.id === req.params.unitId);
+    if (!product || !existing) {
+      return res.status(404).json({
+        success: false,
+        message: 'Unit not found'
+      });
+    }
+
+    const prisma = await getPrisma();
+    const [saleLines, refundLines] = await Promise.all([
+      prisma.saleItem.count({ where: { unitId: existing.id } }),
+      prisma.refundItem.count({ where: { unitId: existing.id } })
+    ]);
+
+    if (saleLines + refundLines > 0) {
+      const unit = await prisma.productUnit.update({
+        where: { id: existing.id },
+        data: { isActive: false }
+      });
+
+      syncAfterOperation('productUnit', 'update', unit).catch(err => {
+        console.error('[Sync] Product unit update sync failed:', err.message);
+      });
+
+      return res.json({
+        success: true,
+        data: unit,
+        message: 'Unit has been sold in, so it was deactivated'
+      });
+    }
+
+    await prisma.productUnit.delete({ where: { id: existing.id } });
+
+    syncAfterOperation('productUnit', 'delete', { id: existing.id }).catch(err => {
+      console.error('[Sync] Product unit delete sync failed:', err.message);
+    });
+
+    return res.json({
+      success: true,
+      message: 'Unit deleted successfully'
+    });
+  } catch (error) {
+    console.error('Delete product unit error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
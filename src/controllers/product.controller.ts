@@ -57,10 +57,12 @@ const createProductSchema = Joi.object({
   branchId: Joi.string().required(),
   barcode: Joi.string().allow(''),
   requiresPrescription: Joi.boolean().default(false),
+  isControlled: Joi.boolean().default(false),
   isActive: Joi.boolean().default(true),
   minStock: Joi.number().min(0).default(1).optional(),
   maxStock: Joi.number().min(0).allow(null).optional(),
-  unitsPerPack: Joi.number().min(1).default(1).optional()
+  unitsPerPack: Joi.number().min(1).default(1).optional(),
+  baseUnitName: Joi.string().trim().max(30).optional() // Unit stock is kept in, e.g. Tablet
 });
 
 const updateProductSchema = Joi.object({
@@ -73,10 +75,12 @@ const updateProductSchema = Joi.object({
   branchId: Joi.string().allow(''),
   barcode: Joi.string().allow(''),
   requiresPrescription: Joi.boolean(),
+  isControlled: Joi.boolean(),
   isActive: Joi.boolean(),
   minStock: Joi.number().min(0).optional(),
   maxStock: Joi.number().min(0).allow(null).optional(),
-  unitsPerPack: Joi.number().min(1).default(1).optional()
+  unitsPerPack: Joi.number().min(1).default(1).optional(),
+  baseUnitName: Joi.string().trim().max(30).optional() // Unit stock is kept in, e.g. Tablet
 });
 
 export const getProducts = async (req: AuthRequest, res: Response) => {
@@ -156,6 +160,10 @@ export const getProducts = async (req: AuthRequest, res: Response) => {
               name: true
             }
           },
+          units: {
+            where: { isActive: true },
+            orderBy: { conversionFactor: 'asc' }
+          },
           batches: {
             where: {
               isActive: true,
@@ -258,6 +266,9 @@ export const getProduct = async (req: AuthRequest, res: Response) => {
         stockMovements: {
           orderBy: { createdAt: 'desc' },
           take: 10
+        },
+        units: {
+          orderBy: { conversionFactor: 'asc' }
         }
       }
     });
@@ -376,9 +387,11 @@ export const createProduct = async (req: AuthRequest, res: Response) => {
       createdBy: req.user?.createdBy || req.user?.id || null,
       barcode: productData.barcode || null,
       requiresPrescription: productData.requiresPrescription || false,
+      isControlled: productData.isControlled || false,
       minStock: productData.minStock || 1,
       maxStock: productData.maxStock || null,
       unitsPerPack: productData.unitsPerPack || 1,
+      baseUnitName: productData.baseUnitName || undefined,
       supplierId: validSupplierId // Set to null if invalid/empty
     };
 
@@ -509,8 +522,10 @@ export const updateProduct = async (req: AuthRequest, res: Response) => {
         minStock: updateData.minStock,
         maxStock: updateData.maxStock !== undefined ? Number(updateData.maxStock) : undefined,
         unitsPerPack: updateData.unitsPerPack,
+        baseUnitName: updateData.baseUnitName,
         barcode: updateData.barcode,
         requiresPrescription: updateData.requiresPrescription,
+        isControlled: updateData.isControlled,
         isActive: updateData.isActive
       },
       include: {
@@ -555,7 +570,15 @@ export const deleteProduct = async (req: AuthRequest, res: Response) => {
     const { id } = req.params;
 
     const product = await prisma.product.findUnique({
-      where: { id }
+      where: { id },
+      include: {
+        _count: {
+          select: {
+            purchaseOrderItems: true,
+            goodsReceiptItems: true
+          }
+        }
+      }
     });
 
     if (!product) {
@@ -565,6 +588,14 @@ export const deleteProduct = async (req: AuthRequest, res: Response) => {
       });
     }
 
+    // Purchase orders and goods receipts are kept for the supplier's account
+    if (product._count.purchaseOrderItems > 0 || product._count.goodsReceiptItems > 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'Cannot delete a product on purchase orders or goods receipts; deactivate it instead'
+      });
+    }
+
     console.log(`Deleting product: ${product.name} (ID: ${id})`);
 
     // Always perform hard delete - permanently remove from database
@@ -575,13 +606,34 @@ export const deleteProduct = async (req: AuthRequest, res: Response) => {
         where: { productId: id }
       });
 
+      // Refund items reference sale items, so they go first
+      console.log('Deleting related refund items...');
+      await tx.refundItem.deleteMany({
+        where: { productId: id }
+      });
+
       console.log('Deleting related sale items...');
       await tx.saleItem.deleteMany({
         where: { productId: id }
       });
 
-      console.log('Deleting related refund items...');
-      await tx.refundItem.deleteMany({
+      // Prescription lines are referenced by sale items, so they go after them
+      await tx.prescriptionItem.deleteMany({
+        where: { productId: id }
+      });
+
+      await tx.stockTransferItem.deleteMany({
+        where: { OR: [{ productId: id }, { destinationProductId: id }] }
+      });
+
+      await tx.stockCountLine.deleteMany({
+        where: { productId: id }
+      });
+
+      await tx.batchWriteOff.deleteMany({
+        where: { productId: id }
+      });
+      await tx.supplierReturnItem.deleteMany({
         where: { productId: id }
       });
 
@@ -849,7 +901,8 @@ export const bulkImportProducts = async (req: AuthRequest, res: Response) => {
                 description: productData.description || existingProduct.description,
                 unitsPerPack: productData.unitsPerPack || existingProduct.unitsPerPack,
                 // Don't update barcode for existing products to avoid conflicts
-                requiresPrescription: productData.requiresPrescription !== undefined ? productData.requiresPrescription : existingProduct.requiresPrescription
+                requiresPrescription: productData.requiresPrescription !== undefined ? productData.requiresPrescription : existingProduct.requiresPrescription,
+                isControlled: productData.isControlled !== undefined ? productData.isControlled : existingProduct.isControlled
               },
               include: {
                 category: true,
@@ -961,6 +1014,7 @@ export const bulkImportProducts = async (req: AuthRequest, res: Response) => {
             unitsPerPack: productData.unitsPerPack || 1,
             barcode: finalBarcode || null,
             requiresPrescription: productData.requiresPrescription || false,
+            isControlled: productData.isControlled || false,
             isActive: true,
             sku: productData.sku || generateSKU(productData.name)
           },
@@ -1149,6 +1203,21 @@ export const bulkDeleteProducts = async (req: AuthRequest, res: Response) => {
       });
     }
 
+    // Purchase orders and goods receipts are kept for the supplier's account
+    const purchasedProducts = await prisma.product.findMany({
+      where: {
+        id: { in: productIds },
+        OR: [{ purchaseOrderItems: { some: {} } }, { goodsReceiptItems: { some: {} } }]
+      },
+      select: { name: true }
+    });
+    if (purchasedProducts.length > 0) {
+      return res.status(400).json({
+        success: false,
+        message: `Cannot delete products on purchase orders or goods receipts; deactivate them instead: ${purchasedProducts.map(p => p.name).join(', ')}`
+      });
+    }
+
     // Delete all related records and products in a transaction
     await prisma.$transaction(async (tx) => {
       // Delete stock movements for all products
@@ -1157,15 +1226,38 @@ export const bulkDeleteProducts = async (req: AuthRequest, res: Response) => {
         where: { productId: { in: productIds } }
       });
 
+      // Delete refund items for all products (they reference sale items)
+      console.log('Deleting related refund items...');
+      await tx.refundItem.deleteMany({
+        where: { productId: { in: productIds } }
+      });
+
       // Delete sale items for all products
       console.log('Deleting related sale items...');
       await tx.saleItem.deleteMany({
         where: { productId: { in: productIds } }
       });
 
-      // Delete refund items for all products
-      console.log('Deleting related refund items...');
-      await tx.refundItem.deleteMany({
+      // Delete prescription lines for all products (sale items referencing them are gone)
+      await tx.prescriptionItem.deleteMany({
+        where: { productId: { in: productIds } }
+      });
+
+      // Delete stock transfer lines for all products, sending or receiving
+      await tx.stockTransferItem.deleteMany({
+        where: { OR: [{ productId: { in: productIds } }, { destinationProductId: { in: productIds } }] }
+      });
+
+      // Delete stock count lines for all products
+      await tx.stockCountLine.deleteMany({
+        where: { productId: { in: productIds } }
+      });
+
+      // Delete write-offs and supplier return lines for all products
+      await tx.batchWriteOff.deleteMany({
+        where: { productId: { in: productIds } }
+      });
+      await tx.supplierReturnItem.deleteMany({
         where: { productId: { in: productIds } }
       });
 
@@ -0,0 +1,461 @@
+import { Response } from 'express';
+import { Prisma } from '@prisma/client';
+import { getPrisma } from '../utils/db.util';
+import { AuthRequest } from '../middleware/auth.middleware';
+import { syncAfterOperation, pullLatestFromLive } from '../utils/sync-helper';
+import { PROMOTION_TYPES, evaluatePromotions, isPromotionActive } from '../utils/promotion-helper';
+import Joi from 'joi';
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const DAYS_OF_WEEK_PATTERN = /^[0-6](,[0-6])*$/;
+
+// Validation schemas
+const promotionFields = {
+  name: Joi.string().max(200),
+  description: Joi.string().allow('', null),
+  branchId: Joi.string().allow('', null), // All branches when empty
+  categoryId: Joi.string().allow('', null),
+  productIds: Joi.array().items(Joi.string()).unique(),
+  vipOnly: Joi.boolean(),
+  buyQuantity: Joi.number().integer().min(1).allow(null),
+  getQuantity: Joi.number().integer().min(1).allow(null),
+  discountPercentage: Joi.number().greater(0).max(100).allow(null),
+  bundlePrice: Joi.number().min(0).allow(null),
+  startDate: Joi.date().allow(null),
+  endDate: Joi.date().allow(null),
+  daysOfWeek: Joi.string().pattern(DAYS_OF_WEEK_PATTERN).allow('', null)
+    .messages({ 'string.pattern.base': 'daysOfWeek must be a comma-separated list of 0 (Sunday) to 6' }),
+  startTime: Joi.string().pattern(TIME_PATTERN).allow('', null)
+    .messages({ 'string.pattern.base': 'startTime must be HH:MM' }),
+  endTime: Joi.string().pattern(TIME_PATTERN).allow('', null)
+    .messages({ 'string.pattern.base': 'endTime must be HH:MM' }),
+  priority: Joi.number().integer(),
+  isActive: Joi.boolean()
+};
+
+const createPromotionSchema = Joi.object({
+  ...promotionFields,
+  name: promotionFields.name.required(),
+  type: Joi.string().valid(...PROMOTION_TYPES).required(),
+  productIds: promotionFields.productIds.default([]),
+  vipOnly: promotionFields.vipOnly.default(false),
+  priority: promotionFields.priority.default(0)
+})
+  .and('startTime', 'endTime')
+  .when(Joi.object({ type: 'BUY_X_GET_Y' }).unknown(), {
+    then: Joi.object({ buyQuantity: Joi.required(), getQuantity: Joi.required() })
+  })
+  .when(Joi.object({ type: 'PERCENTAGE_OFF' }).unknown(), {
+    then: Joi.object({ discountPercentage: Joi.required() })
+  })
+  .when(Joi.object({ type: 'BUNDLE_PRICE' }).unknown(), {
+    then: Joi.object({ bundlePrice: Joi.required(), productIds: Joi.array().min(2) })
+  });
+
+const updatePromotionSchema = Joi.object(promotionFields).and('startTime', 'endTime');
+
+const previewPromotionsSchema = Joi.object({
+  branchId: Joi.string().allow('', null),
+  customerId: Joi.string().allow('', null),
+  items: Joi.array().items(Joi.object({
+    productId: Joi.string().required(),
+    quantity: Joi.number().integer().min(1).required(),
+    unitPrice: Joi.number().min(0).required()
+  }).unknown(true)).min(1).required()
+});
+
+// Relations returned with a promotion
+const promotionInclude = Prisma.validator<Prisma.PromotionInclude>()({
+  branch: {
+    select: { id: true, name: true }
+  },
+  category: {
+    select: { id: true, name: true }
+  },
+  products: {
+    include: {
+      product: {
+        select: { id: true, name: true, sku: true }
+      }
+    }
+  }
+});
+
+/**
+ * Promotions belong to the admin group; managers only see promotions for all
+ * branches or their own branch
+ */
+const buildPromotionWhereClause = (req: AuthRequest, baseWhere: any = {}) => {
+  const whereClause = { ...baseWhere };
+  const userRole = req.user?.role ? String(req.user.role).toUpperCase() : '';
+
+  if (userRole !== 'SUPERADMIN') {
+    whereClause.createdBy = req.user?.createdBy || req.user?.id;
+  }
+
+  if (userRole === 'MANAGER' && req.user?.branchId) {
+    whereClause.OR = [{ branchId: null }, { branchId: req.user.branchId }];
+  }
+
+  return whereClause;
+};
+
+/**
+ * Products and category a promotion points at must belong to the admin group
+ */
+const checkPromotionScope = async (req: AuthRequest, productIds: string[], categoryId?: string | null): Promise<string | null> => {
+  const prisma = await getPrisma();
+  const createdBy = req.user?.createdBy || req.user?.id;
+
+  if (productIds.length > 0) {
+    const productCount = await prisma.product.count({
+      where: { id: { in: productIds }, createdBy }
+    });
+    if (productCount !== productIds.length) {
+      return 'One or more products were not found';
+    }
+  }
+
+  if (categoryId) {
+    const category = await prisma.category.findFirst({
+      where: { id: categoryId, createdBy }
+    });
+    if (!category) {
+      return 'Category not found';
+    }
+  }
+
+  return null;
+};
+
+export const getPromotions = async (req: AuthRequest, res: Response) => {
+  try {
+    // 🔄 PULL LATEST FROM LIVE DATABASE FIRST
+    await pullLatestFromLive('promotion').catch(err => console.log('[Sync] Pull promotions:', err.message));
+
+    const prisma = await getPrisma();
+    const { page = 1, limit = 10, search = '', type, isActive, branchId } = req.query;
+
+    const skip = (Number(page) - 1) * Number(limit);
+    const take = Number(limit);
+
+    const where: any = buildPromotionWhereClause(req);
+    if (type) {
+      where.type = type as string;
+    }
+    if (isActive !== undefined) {
+      where.isActive = isActive === 'true';
+    }
+    if (branchId && !where.OR) {
+      where.OR = [{ branchId: null }, { branchId: branchId as string }];
+    }
+    if (search) {
+      where.name = { contains: search as string };
+    }
+
+    const [promotions, total] = await Promise.all([
+      prisma.promotion.findMany({
+        where,
+        skip,
+        take,
+        include: promotionInclude,
+        orderBy: [{ priority: 'desc' }, { createdAt: 'desc' }]
+      }),
+      prisma.promotion.count({ where })
+    ]);
+
+    const now = new Date();
+
+    return res.json({
+      success: true,
+      data: {
+        promotions: promotions.map(promotion => ({
+          ...promotion,
+          isRunning: isPromotionActive(promotion, now) // Active and inside its schedule right now
+        })),
+        pagination: {
+          page: Number(page),
+          limit: Number(limit),
+          total,
+          pages: Math.ceil(total / Number(limit))
+        }
+      }
+    });
+  } catch (error) {
+    console.error('Get promotions error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+export const getPromotion = async (req: AuthRequest, res: Response) => {
+  try {
+    const prisma = await getPrisma();
+    const { id } = req.params;
+
+    const promotion = await prisma.promotion.findFirst({
+      where: buildPromotionWhereClause(req, { id }),
+      include: promotionInclude
+    });
+
+    if (!promotion) {
+      return res.status(404).json({
+        success: false,
+        message: 'Promotion not found'
+      });
+    }
+
+    return res.json({
+      success: true,
+      data: {
+        ...promotion,
+        isRunning: isPromotionActive(promotion)
+      }
+    });
+  } catch (error) {
+    console.error('Get promotion error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+export const createPromotion = async (req: AuthRequest, res: Response) => {
+  try {
+    const prisma = await getPrisma();
+    const { error, value } = createPromotionSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const scopeError = await checkPromotionScope(req, value.productIds, value.categoryId);
+    if (scopeError) {
+      return res.status(400).json({
+        success: false,
+        message: scopeError
+      });
+    }
+
+    const createdBy = req.user?.createdBy || req.user?.id;
+    const { productIds, ...fields } = value;
+
+    const promotion = await prisma.promotion.create({
+      data: {
+        ...fields,
+        branchId: fields.branchId || null,
+        categoryId: fields.categoryId || null,
+        daysOfWeek: fields.daysOfWeek || null,
+        startTime: fields.startTime || null,
+        endTime: fields.endTime || null,
+        createdBy,
+        products: {
+          create: productIds.map((productId: string) => ({ productId, createdBy }))
+        }
+      },
+      include: promotionInclude
+    });
+
+    // 🔄 IMMEDIATE BIDIRECTIONAL SYNC
+    syncAfterOperation('promotion', 'create', promotion).catch(err => {
+      console.error('[Sync] Promotion create sync failed:', err.message);
+    });
+    promotion.products.forEach(product => {
+      syncAfterOperation('promotionProduct', 'create', product).catch(err => {
+        console.error('[Sync] Promotion product create sync failed:', err.message);
+      });
+    });
+
+    return res.status(201).json({
+      success: true,
+      data: promotion
+    });
+  } catch (error) {
+    console.error('Create promotion error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+export const updatePromotion = async (req: AuthRequest, res: Response) => {
+  try {
+    const prisma = await getPrisma();
+    const { id } = req.params;
+
+    const { error, value } = updatePromotionSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const existingPromotion = await prisma.promotion.findFirst({
+      where: buildPromotionWhereClause(req, { id })
+    });
+
+    if (!existingPromotion) {
+      return res.status(404).json({
+        success: false,
+        message: 'Promotion not found'
+      });
+    }
+
+    const { productIds, ...fields } = value;
+    const scopeError = await checkPromotionScope(req, productIds || [], fields.categoryId);
+    if (scopeError) {
+      return res.status(400).json({
+        success: false,
+        message: scopeError
+      });
+    }
+
+    ['branchId', 'categoryId', 'daysOfWeek', 'startTime', 'endTime'].forEach(key => {
+      if (fields[key] === '') {
+        fields[key] = null;
+      }
+    });
+
+    const createdBy = req.user?.createdBy || req.user?.id;
+
+    // A new product list replaces the old one
+    const promotion = await prisma.$transaction(async (tx) => {
+      if (productIds) {
+        await tx.promotionProduct.deleteMany({
+          where: { promotionId: id }
+        });
+      }
+
+      return tx.promotion.update({
+        where: { id },
+        data: {
+          ...fields,
+          ...(productIds && {
+            products: {
+              create: productIds.map((productId: string) => ({ productId, createdBy }))
+            }
+          })
+        },
+        include: promotionInclude
+      });
+    });
+
+    // 🔄 IMMEDIATE BIDIRECTIONAL SYNC
+    syncAfterOperation('promotion', 'update', promotion).catch(err => {
+      console.error('[Sync] Promotion update sync failed:', err.message);
+    });
+    if (productIds) {
+      promotion.products.forEach(product => {
+        syncAfterOperation('promotionProduct', 'create', product).catch(err => {
+          console.error('[Sync] Promotion product create sync failed:', err.message);
+        });
+      });
+    }
+
+    return res.json({
+      success: true,
+      data: promotion
+    });
+  } catch (error) {
+    console.error('Update promotion error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+export const deletePromotion = async (req: AuthRequest, res: Response) => {
+  try {
+    const prisma = await getPrisma();
+    const { id } = req.params;
+
+    const existingPromotion = await prisma.promotion.findFirst({
+      where: buildPromotionWhereClause(req, { id })
+    });
+
+    if (!existingPromotion) {
+      return res.status(404).json({
+        success: false,
+        message: 'Promotion not found'
+      });
+    }
+
+    // Soft delete - sale lines keep pointing at the promotion that priced them
+    const promotion = await prisma.promotion.update({
+      where: { id },
+      data: { isActive: false }
+    });
+
+    // 🔄 IMMEDIATE BIDIRECTIONAL SYNC
+    syncAfterOperation('promotion', 'update', promotion).catch(err => {
+      console.error('[Sync] Promotion update sync failed:', err.message);
+    });
+
+    return res.json({
+      success: true,
+      message: 'Promotion deactivated successfully'
+    });
+  } catch (error) {
+    console.error('Delete promotion error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+/**
+ * Price a cart with the promotions that apply right now, so the till shows the
+ * same total the sale will be charged
+ */
+export const previewPromotions = async (req: AuthRequest, res: Response) => {
+  try {
+    const prisma = await getPrisma();
+    const { error, value } = previewPromotionsSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const applied = await evaluatePromotions(prisma, {
+      items: value.items,
+      branchId: value.branchId || req.user?.selectedBranchId || req.user?.branchId,
+      customerId: value.customerId,
+      createdBy: req.user?.createdBy || req.user?.id
+    });
+
+    const items = value.items.map((item: any, index: number) => ({
+      productId: item.productId,
+      quantity: item.quantity,
+      unitPrice: item.unitPrice,
+      promotion: applied[index]
+    }));
+
+    return res.json({
+      success: true,
+      data: {
+        items,
+        totalDiscount: applied.reduce((sum, promotion) => sum + (promotion?.discount || 0), 0)
+      }
+    });
+  } catch (error) {
+    console.error('Preview promotions error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
@@ -0,0 +1,1029 @@
+import { Response } from 'express';
+import { Prisma, PrismaClient, SupplierLedgerEntry } from '@prisma/client';
+import { getPrisma } from '../utils/db.util';
+import { AuthRequest } from '../middleware/auth.middleware';
+import { syncAfterOperation, pullLatestFromLive } from '../utils/sync-helper';
+import { createAppError } from '../middleware/error.middleware';
+import { getNumericSetting } from '../utils/settings-helper';
+import {
+  RECEIVABLE_ORDER_STATUSES,
+  derivePurchaseOrderStatus,
+  getDeliveryVariances,
+  planGoodsReceipt,
+  receivePurchasedStock
+} from '../utils/purchase-order-helper';
+import { buildReorderSuggestions, groupSuggestionsBySupplier } from '../utils/reorder-helper';
+import { recordSupplierLedgerEntry } from '../utils/supplier-ledger-helper';
+import { readReceivedLot } from '../utils/barcode-helper';
+import Joi from 'joi';
+
+// Validation schemas
+const orderItemSchema = Joi.object({
+  productId: Joi.string().required(),
+  quantity: Joi.number().integer().min(1).required(),
+  unitPrice: Joi.number().min(0).required()
+});
+
+const createPurchaseOrderSchema = Joi.object({
+  supplierId: Joi.string().required(),
+  branchId: Joi.string().allow('').optional(), // Defaults to the user's branch
+  referenceNo: Joi.string().allow('', null).optional(),
+  expectedDate: Joi.date().iso().allow(null).optional(),
+  notes: Joi.string().allow('', null).optional(),
+  items: Joi.array().items(orderItemSchema).unique('productId').min(1).required()
+    .messages({ 'array.unique': 'Each product can only appear once on an order' })
+});
+
+const updatePurchaseOrderSchema = Joi.object({
+  referenceNo: Joi.string().allow('', null),
+  expectedDate: Joi.date().iso().allow(null),
+  notes: Joi.string().allow('', null),
+  items: Joi.array().items(orderItemSchema).unique('productId').min(1)
+    .messages({ 'array.unique': 'Each product can only appear once on an order' })
+});
+
+const goodsReceiptSchema = Joi.object({
+  supplierInvoiceNo: Joi.string().allow('', null).optional(),
+  notes: Joi.string().allow('', null).optional(),
+  items: Joi.array().items(Joi.object({
+    orderItemId: Joi.string().required(),
+    quantity: Joi.number().integer().min(1).required(),
+    batchId: Joi.string(), // Receive into an existing batch
+    batchNo: Joi.string(), // Or into the batch with this number, created when missing
+    scan: Joi.string().max(256), // Or into the lot of a scanned GS1 code, created when missing
+    expireDate: Joi.date().iso().allow(null).optional(),
+    productionDate: Joi.date().iso().allow(null).optional(),
+    sellingPrice: Joi.number().min(0).allow(null).optional(),
+    unitPrice: Joi.number().min(0).optional() // Invoiced price when it differs from the order
+  }).xor('batchId', 'batchNo', 'scan')).min(1).required()
+});
+
+const suggestedPurchaseOrderSchema = Joi.object({
+  supplierId: Joi.string().required(),
+  branchId: Joi.string().allow('').optional(), // Defaults to the user's branch
+  referenceNo: Joi.string().allow('', null).optional(),
+  notes: Joi.string().allow('', null).optional(),
+  // Suggested products to order, with optional changes; all of the supplier's suggestions when left out
+  items: Joi.array().items(Joi.object({
+    productId: Joi.string().required(),
+    quantity: Joi.number().integer().min(1).optional(),
+    unitPrice: Joi.number().min(0).optional()
+  })).unique('productId').min(1).optional()
+    .messages({ 'array.unique': 'Each product can only appear once on an order' })
+});
+
+const closePurchaseOrderSchema = Joi.object({
+  reason: Joi.string().allow('', null).optional()
+});
+
+// Relations returned with a purchase order
+const purchaseOrderInclude = Prisma.validator<Prisma.PurchaseOrderInclude>()({
+  supplier: {
+    select: { id: true, name: true, contactPerson: true, phone: true }
+  },
+  branch: {
+    select: { id: true, name: true }
+  },
+  items: {
+    include: {
+      product: {
+        select: { id: true, name: true, sku: true, barcode: true }
+      }
+    }
+  },
+  receipts: {
+    include: {
+      items: {
+        include: {
+          batch: {
+            select: { id: true, batchNo: true, expireDate: true }
+          }
+        }
+      }
+    },
+    orderBy: { receivedAt: 'asc' }
+  }
+});
+
+/**
+ * Purchase orders belong to the admin group; managers only see their own branch
+ */
+const buildPurchaseOrderWhereClause = (req: AuthRequest, baseWhere: any = {}) => {
+  const whereClause = { ...baseWhere };
+  const userRole = req.user?.role ? String(req.user.role).toUpperCase() : '';
+
+  if (userRole !== 'SUPERADMIN') {
+    whereClause.createdBy = req.user?.createdBy || req.user?.id;
+  }
+
+  if (userRole === 'MANAGER' && req.user?.branchId) {
+    whereClause.branchId = req.user.branchId;
+  }
+
+  return whereClause;
+};
+
+/**
+ * Turn requested lines into order lines; every product must be sold in the ordering branch
+ * @throws AppError (400) when a product is not found in the branch
+ */
+const resolveOrderLines = async (
+  prisma: PrismaClient,
+  branchId: string,
+  items: { productId: string; quantity: number; unitPrice: number }[],
+  createdBy?: string | null
+) => {
+  const products = await prisma.product.findMany({
+    where: { id: { in: items.map(item => item.productId) }, branchId },
+    select: { id: true }
+  });
+
+  if (products.length !== items.length) {
+    throw createAppError('One or more products were not found in this branch');
+  }
+
+  return items.map(item => ({
+    productId: item.productId,
+    orderedQuantity: item.quantity,
+    unitPrice: item.unitPrice,
+    totalPrice: Math.round(item.quantity * item.unitPrice * 100) / 100,
+    createdBy
+  }));
+};
+
+type OrderLineData = Awaited<ReturnType<typeof resolveOrderLines>>[number];
+
+/**
+ * Sync a purchase order, its lines and receipts, and the batches it touched after a change
+ */
+const syncPurchaseOrder = async (prisma: PrismaClient, orderId: string, batchIds: string[] = []) => {
+  const order = await prisma.purchaseOrder.findUnique({
+    where: { id: orderId },
+    include: { items: true, receipts: { include: { items: true } } }
+  });
+  if (!order) {
+    return;
+  }
+
+  syncAfterOperation('purchaseOrder', 'update', order).catch(err => {
+    console.error('[Sync] Purchase order sync failed:', err.message);
+  });
+  order.items.forEach(item => {
+    syncAfterOperation('purchaseOrderItem', 'update', item).catch(err => {
+      console.error('[Sync] Purchase order item sync failed:', err.message);
+    });
+  });
+  order.receipts.forEach(receipt => {
+    syncAfterOperation('goodsReceipt', 'update', receipt).catch(err => {
+      console.error('[Sync] Goods receipt sync failed:', err.message);
+    });
+    receipt.items.forEach(item => {
+      syncAfterOperation('goodsReceiptItem', 'update', item).catch(err => {
+        console.error('[Sync] Goods receipt item sync failed:', err.message);
+      });
+    });
+  });
+
+  if (batchIds.length > 0) {
+    const batches = await prisma.batch.findMany({
+      where: { id: { in: Array.from(new Set(batchIds)) } }
+    });
+    batches.forEach(batch => {
+      syncAfterOperation('batch', 'update', batch).catch(err => {
+        console.error('[Sync] Batch update sync failed:', err.message);
+      });
+    });
+  }
+};
+
+export const getPurchaseOrders = async (req: AuthRequest, res: Response) => {
+  try {
+    // 🔄 PULL LATEST FROM LIVE DATABASE FIRST
+    await pullLatestFromLive('purchaseOrder').catch(err => console.log('[Sync] Pull purchase orders:', err.message));
+
+    const prisma = await getPrisma();
+    const { page = 1, limit = 10, status, supplierId, branchId } = req.query;
+
+    const skip = (Number(page) - 1) * Number(limit);
+    const take = Number(limit);
+
+    const where: any = buildPurchaseOrderWhereClause(req);
+    if (status) {
+      where.status = status as string;
+    }
+    if (supplierId) {
+      where.supplierId = supplierId as string;
+    }
+    if (branchId && !where.branchId) {
+      where.branchId = branchId as string;
+    }
+
+    const [purchaseOrders, total] = await Promise.all([
+      prisma.purchaseOrder.findMany({
+        where,
+        skip,
+        take,
+        include: {
+          supplier: { select: { id: true, name: true } },
+          branch: { select: { id: true, name: true } },
+          _count: { select: { items: true, receipts: true } }
+        },
+        orderBy: { createdAt: 'desc' }
+      }),
+      prisma.purchaseOrder.count({ where })
+    ]);
+
+    return res.json({
+      success: true,
+      data: {
+        purchaseOrders,
+        pagination: {
+          page: Number(page),
+          limit: Number(limit),
+          total,
+          pages: Math.ceil(total / Number(limit))
+        }
+      }
+    });
+  } catch (error) {
+    console.error('Get purchase orders error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+export const getPurchaseOrder = async (req: AuthRequest, res: Response) => {
+  try {
+    const prisma = await getPrisma();
+    const { id } = req.params;
+
+    const purchaseOrder = await prisma.purchaseOrder.findFirst({
+      where: buildPurchaseOrderWhereClause(req, { id }),
+      include: purchaseOrderInclude
+    });
+
+    if (!purchaseOrder) {
+      return res.status(404).json({
+        success: false,
+        message: 'Purchase order not found'
+      });
+    }
+
+    return res.json({
+      success: true,
+      data: {
+        ...purchaseOrder,
+        deliveryVariances: getDeliveryVariances(purchaseOrder.items)
+      }
+    });
+  } catch (error) {
+    console.error('Get purchase order error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+export const createPurchaseOrder = async (req: AuthRequest, res: Response) => {
+  try {
+    const prisma = await getPrisma();
+    const { error, value } = createPurchaseOrderSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const userRole = req.user?.role ? String(req.user.role).toUpperCase() : '';
+    const branchId = userRole === 'MANAGER'
+      ? req.user?.branchId
+      : value.branchId || req.user?.selectedBranchId || req.user?.branchId;
+    if (!branchId) {
+      return res.status(400).json({
+        success: false,
+        message: 'Branch ID is required'
+      });
+    }
+
+    const createdBy = req.user?.createdBy || req.user?.id;
+    const [branch, supplier] = await Promise.all([
+      prisma.branch.findFirst({
+        where: {
+          id: branchId,
+          ...(userRole !== 'SUPERADMIN' && { createdBy })
+        },
+        select: { id: true, companyId: true }
+      }),
+      prisma.supplier.findFirst({
+        where: { id: value.supplierId, isActive: true }
+      })
+    ]);
+
+    if (!branch) {
+      return res.status(404).json({
+        success: false,
+        message: 'Branch not found'
+      });
+    }
+
+    if (!supplier) {
+      return res.status(404).json({
+        success: false,
+        message: 'Supplier not found'
+      });
+    }
+
+    let lines: OrderLineData[];
+    try {
+      lines = await resolveOrderLines(prisma, branchId, value.items, createdBy);
+    } catch (lineError: any) {
+      if (lineError.statusCode) {
+        return res.status(lineError.statusCode).json({
+          success: false,
+          message: lineError.message
+        });
+      }
+      throw lineError;
+    }
+
+    const purchaseOrder = await prisma.purchaseOrder.create({
+      data: {
+        supplierId: value.supplierId,
+        branchId,
+        companyId: branch.companyId,
+        referenceNo: value.referenceNo || null,
+        expectedDate: value.expectedDate || null,
+        notes: value.notes || null,
+        totalAmount: Math.round(lines.reduce((sum, line) => sum + line.totalPrice, 0) * 100) / 100,
+        createdBy,
+        items: {
+          create: lines
+        }
+      },
+      include: purchaseOrderInclude
+    });
+
+    // 🔄 IMMEDIATE BIDIRECTIONAL SYNC
+    syncAfterOperation('purchaseOrder', 'create', purchaseOrder).catch(err => {
+      console.error('[Sync] Purchase order create sync failed:', err.message);
+    });
+    purchaseOrder.items.forEach(item => {
+      syncAfterOperation('purchaseOrderItem', 'create', item).catch(err => {
+        console.error('[Sync] Purchase order item create sync failed:', err.message);
+      });
+    });
+
+    return res.status(201).json({
+      success: true,
+      data: purchaseOrder
+    });
+  } catch (error) {
+    console.error('Create purchase order error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+export const getReorderSuggestions = async (req: AuthRequest, res: Response) => {
+  try {
+    const prisma = await getPrisma();
+    const { branchId: requestedBranchId, supplierId } = req.query;
+
+    const userRole = req.user?.role ? String(req.user.role).toUpperCase() : '';
+    const branchId = userRole === 'MANAGER'
+      ? req.user?.branchId
+      : (requestedBranchId as string) || req.user?.selectedBranchId || req.user?.branchId;
+    if (!branchId) {
+      return res.status(400).json({
+        success: false,
+        message: 'Branch ID is required'
+      });
+    }
+
+    const createdBy = req.user?.createdBy || req.user?.id;
+    const branch = await prisma.branch.findFirst({
+      where: {
+        id: branchId,
+        ...(userRole !== 'SUPERADMIN' && { createdBy })
+      },
+      select: { id: true, name: true }
+    });
+
+    if (!branch) {
+      return res.status(404).json({
+        success: false,
+        message: 'Branch not found'
+      });
+    }
+
+    const [salesWindowDays, coverageDays] = await Promise.all([
+      getNumericSetting(prisma, createdBy, 'reorderSalesWindowDays', 30),
+      getNumericSetting(prisma, createdBy, 'reorderCoverageDays', 14)
+    ]);
+
+    const suggestions = await buildReorderSuggestions(prisma, {
+      branchId,
+      salesWindowDays,
+      coverageDays,
+      supplierId: supplierId ? String(supplierId) : undefined
+    });
+
+    return res.json({
+      success: true,
+      data: {
+        branch,
+        salesWindowDays,
+        coverageDays,
+        suppliers: groupSuggestionsBySupplier(suggestions),
+        totalProducts: suggestions.length
+      }
+    });
+  } catch (error) {
+    console.error('Get reorder suggestions error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+export const createPurchaseOrderFromSuggestions = async (req: AuthRequest, res: Response) => {
+  try {
+    const prisma = await getPrisma();
+    const { error, value } = suggestedPurchaseOrderSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const userRole = req.user?.role ? String(req.user.role).toUpperCase() : '';
+    const branchId = userRole === 'MANAGER'
+      ? req.user?.branchId
+      : value.branchId || req.user?.selectedBranchId || req.user?.branchId;
+    if (!branchId) {
+      return res.status(400).json({
+        success: false,
+        message: 'Branch ID is required'
+      });
+    }
+
+    const createdBy = req.user?.createdBy || req.user?.id;
+    const [branch, supplier] = await Promise.all([
+      prisma.branch.findFirst({
+        where: {
+          id: branchId,
+          ...(userRole !== 'SUPERADMIN' && { createdBy })
+        },
+        select: { id: true, companyId: true }
+      }),
+      prisma.supplier.findFirst({
+        where: { id: value.supplierId, isActive: true }
+      })
+    ]);
+
+    if (!branch) {
+      return res.status(404).json({
+        success: false,
+        message: 'Branch not found'
+      });
+    }
+
+    if (!supplier) {
+      return res.status(404).json({
+        success: false,
+        message: 'Supplier not found'
+      });
+    }
+
+    const [salesWindowDays, coverageDays] = await Promise.all([
+      getNumericSetting(prisma, createdBy, 'reorderSalesWindowDays', 30),
+      getNumericSetting(prisma, createdBy, 'reorderCoverageDays', 14)
+    ]);
+    const suggestions = await buildReorderSuggestions(prisma, {
+      branchId,
+      salesWindowDays,
+      coverageDays,
+      supplierId: supplier.id
+    });
+
+    const requested: { productId: string; quantity?: number; unitPrice?: number }[] = value.items
+      || suggestions.map(suggestion => ({ productId: suggestion.productId }));
+    if (requested.length === 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'Nothing needs to be reordered from this supplier'
+      });
+    }
+
+    const items: { productId: string; quantity: number; unitPrice: number }[] = [];
+    for (const entry of requested) {
+      const suggestion = suggestions.find(s => s.productId === entry.productId);
+      if (!suggestion) {
+        return res.status(400).json({
+          success: false,
+          message: 'One or more products are not suggested for reorder from this supplier'
+        });
+      }
+      items.push({
+        productId: suggestion.productId,
+        quantity: entry.quantity ?? suggestion.suggestedQuantity,
+        unitPrice: entry.unitPrice ?? suggestion.unitPrice
+      });
+    }
+
+    const lines = await resolveOrderLines(prisma, branchId, items, createdBy);
+
+    const purchaseOrder = await prisma.purchaseOrder.create({
+      data: {
+        supplierId: supplier.id,
+        branchId,
+        companyId: branch.companyId,
+        referenceNo: value.referenceNo || null,
+        expectedDate: new Date(Date.now() + supplier.leadTimeDays * 24 * 60 * 60 * 1000),
+        notes: value.notes || 'Created from reorder suggestions',
+        totalAmount: Math.round(lines.reduce((sum, line) => sum + line.totalPrice, 0) * 100) / 100,
+        createdBy,
+        items: {
+          create: lines
+        }
+      },
+      include: purchaseOrderInclude
+    });
+
+    // 🔄 IMMEDIATE BIDIRECTIONAL SYNC
+    syncAfterOperation('purchaseOrder', 'create', purchaseOrder).catch(err => {
+      console.error('[Sync] Purchase order create sync failed:', err.message);
+    });
+    purchaseOrder.items.forEach(item => {
+      syncAfterOperation('purchaseOrderItem', 'create', item).catch(err => {
+        console.error('[Sync] Purchase order item create sync failed:', err.message);
+      });
+    });
+
+    return res.status(201).json({
+      success: true,
+      data: purchaseOrder
+    });
+  } catch (error) {
+    console.error('Create purchase order from suggestions error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+export const updatePurchaseOrder = async (req: AuthRequest, res: Response) => {
+  try {
+    const prisma = await getPrisma();
+    const { id } = req.params;
+
+    const { error, value } = updatePurchaseOrderSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const existingOrder = await prisma.purchaseOrder.findFirst({
+      where: buildPurchaseOrderWhereClause(req, { id })
+    });
+
+    if (!existingOrder) {
+      return res.status(404).json({
+        success: false,
+        message: 'Purchase order not found'
+      });
+    }
+
+    if (existingOrder.status !== 'DRAFT') {
+      return res.status(400).json({
+        success: false,
+        message: 'Only draft purchase orders can be changed'
+      });
+    }
+
+    const createdBy = req.user?.createdBy || req.user?.id;
+    let lines: OrderLineData[] | undefined;
+    if (value.items) {
+      try {
+        lines = await resolveOrderLines(prisma, existingOrder.branchId, value.items, createdBy);
+      } catch (lineError: any) {
+        if (lineError.statusCode) {
+          return res.status(lineError.statusCode).json({
+            success: false,
+            message: lineError.message
+          });
+        }
+        throw lineError;
+      }
+    }
+
+    await prisma.$transaction(async (tx) => {
+      if (lines) {
+        await tx.purchaseOrderItem.deleteMany({
+          where: { orderId: id }
+        });
+      }
+
+      await tx.purchaseOrder.update({
+        where: { id },
+        data: {
+          ...(value.referenceNo !== undefined && { referenceNo: value.referenceNo || null }),
+          ...(value.expectedDate !== undefined && { expectedDate: value.expectedDate }),
+          ...(value.notes !== undefined && { notes: value.notes || null }),
+          ...(lines && {
+            totalAmount: Math.round(lines.reduce((sum, line) => sum + line.totalPrice, 0) * 100) / 100,
+            items: { create: lines }
+          })
+        }
+      });
+    });
+
+    const purchaseOrder = await prisma.purchaseOrder.findUnique({
+      where: { id },
+      include: purchaseOrderInclude
+    });
+
+    // 🔄 IMMEDIATE BIDIRECTIONAL SYNC
+    await syncPurchaseOrder(prisma, id);
+
+    return res.json({
+      success: true,
+      data: purchaseOrder
+    });
+  } catch (error) {
+    console.error('Update purchase order error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+export const placePurchaseOrder = async (req: AuthRequest, res: Response) => {
+  try {
+    const prisma = await getPrisma();
+    const { id } = req.params;
+
+    const existingOrder = await prisma.purchaseOrder.findFirst({
+      where: buildPurchaseOrderWhereClause(req, { id })
+    });
+
+    if (!existingOrder) {
+      return res.status(404).json({
+        success: false,
+        message: 'Purchase order not found'
+      });
+    }
+
+    const placed = await prisma.purchaseOrder.updateMany({
+      where: { id, status: 'DRAFT' },
+      data: {
+        status: 'ORDERED',
+        orderedAt: new Date(),
+        orderedBy: req.user?.id
+      }
+    });
+
+    if (placed.count === 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'Only draft purchase orders can be placed'
+      });
+    }
+
+    // 🔄 IMMEDIATE BIDIRECTIONAL SYNC
+    await syncPurchaseOrder(prisma, id);
+
+    return res.json({
+      success: true,
+      message: 'Purchase order placed with the supplier'
+    });
+  } catch (error) {
+    console.error('Place purchase order error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+export const receivePurchaseOrder = async (req: AuthRequest, res: Response) => {
+  try {
+    const prisma = await getPrisma();
+    const { id } = req.params;
+
+    const { error, value } = goodsReceiptSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const existingOrder = await prisma.purchaseOrder.findFirst({
+      where: buildPurchaseOrderWhereClause(req, { id }),
+      include: { supplier: { select: { id: true, name: true } } }
+    });
+
+    if (!existingOrder) {
+      return res.status(404).json({
+        success: false,
+        message: 'Purchase order not found'
+      });
+    }
+
+    if (!RECEIVABLE_ORDER_STATUSES.includes(existingOrder.status)) {
+      return res.status(400).json({
+        success: false,
+        message: `Goods cannot be received on a ${existingOrder.status.toLowerCase().replace('_', ' ')} purchase order`
+      });
+    }
+
+    const createdBy = req.user?.createdBy || req.user?.id;
+    const tolerancePercent = await getNumericSetting(prisma, createdBy, 'overDeliveryTolerancePercent', 0);
+    const touchedBatchIds: string[] = [];
+    const ledgerEntries: SupplierLedgerEntry[] = [];
+
+    let receiptId: string;
+    try {
+      receiptId = await prisma.$transaction(async (tx) => {
+        const lines = await tx.purchaseOrderItem.findMany({
+          where: { orderId: id }
+        });
+        const plan = planGoodsReceipt(lines, value.items, tolerancePercent);
+
+        const receipt = await tx.goodsReceipt.create({
+          data: {
+            orderId: id,
+            branchId: existingOrder.branchId,
+            supplierInvoiceNo: value.supplierInvoiceNo || null,
+            notes: value.notes || null,
+            receivedBy: req.user?.id,
+            createdBy
+          }
+        });
+
+        let totalAmount = 0;
+        for (const [index, entry] of value.items.entries()) {
+          const line = lines.find(l => l.id === entry.orderItemId)!;
+          const unitPrice = entry.unitPrice ?? line.unitPrice;
+
+          // Only succeeds if the same units were not received by someone else in the meantime
+          const claimed = await tx.purchaseOrderItem.updateMany({
+            where: { id: line.id, receivedQuantity: { lte: line.receivedQuantity } },
+            data: { receivedQuantity: { increment: entry.quantity } }
+          });
+
+          if (claimed.count === 0) {
+            throw createAppError('Goods were received on this order by someone else; please reload it', 409);
+          }
+          line.receivedQuantity += entry.quantity;
+
+          // A GS1 code on the pack gives the lot and dates; an unknown lot becomes a new batch
+          const scanned = entry.scan ? await readReceivedLot(tx, line.productId, entry.scan) : null;
+
+          const batch = await receivePurchasedStock(tx, {
+            productId: line.productId,
+            branchId: existingOrder.branchId,
+            companyId: existingOrder.companyId,
+            supplierId: existingOrder.supplierId,
+            supplierName: existingOrder.supplier.name,
+            batchId: entry.batchId,
+            batchNo: entry.batchNo || scanned?.batchNo,
+            expireDate: entry.expireDate || scanned?.expiryDate,
+            productionDate: entry.productionDate || scanned?.productionDate,
+            sellingPrice: entry.sellingPrice,
+            unitPrice,
+            quantity: entry.quantity,
+            supplierInvoiceNo: value.supplierInvoiceNo,
+            createdBy: req.user?.id,
+            movement: {
+              type: 'IN',
+              sourceType: 'PURCHASE',
+              sourceId: receipt.id,
+              reason: `Goods received for purchase order${existingOrder.referenceNo ? ` ${existingOrder.referenceNo}` : ''}`,
+              reference: value.supplierInvoiceNo || id,
+              createdBy: req.user?.id
+            }
+          });
+          touchedBatchIds.push(batch.id);
+
+          const totalPrice = Math.round(entry.quantity * unitPrice * 100) / 100;
+          await tx.goodsReceiptItem.create({
+            data: {
+              receiptId: receipt.id,
+              orderItemId: line.id,
+              productId: line.productId,
+              batchId: batch.id,
+              quantity: entry.quantity,
+              overReceived: plan[index].overReceived,
+              unitPrice,
+              totalPrice,
+              createdBy
+            }
+          });
+          totalAmount += totalPrice;
+        }
+
+        await tx.goodsReceipt.update({
+          where: { id: receipt.id },
+          data: { totalAmount: Math.round(totalAmount * 100) / 100 }
+        });
+
+        // What is owed to the supplier goes up by the value received
+        ledgerEntries.push(await recordSupplierLedgerEntry(tx, {
+          supplierId: existingOrder.supplierId,
+          branchId: existingOrder.branchId,
+          type: 'GOODS_RECEIPT',
+          amount: totalAmount,
+          sourceType: 'GOODS_RECEIPT',
+          sourceId: receipt.id,
+          reference: value.supplierInvoiceNo || existingOrder.referenceNo,
+          description: 'Goods received against purchase order',
+          createdBy
+        }));
+
+        // The order's status follows from what has been received
+        const updated = await tx.purchaseOrder.updateMany({
+          where: { id, status: { in: RECEIVABLE_ORDER_STATUSES } },
+          data: { status: derivePurchaseOrderStatus(lines) }
+        });
+
+        if (updated.count === 0) {
+          throw createAppError('The purchase order was closed or cancelled in the meantime', 409);
+        }
+
+        return receipt.id;
+      }, {
+        timeout: 60000 // 60 seconds timeout for long-running transactions
+      });
+    } catch (error: any) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          message: error.message
+        });
+      }
+      throw error;
+    }
+
+    // 🔄 IMMEDIATE BIDIRECTIONAL SYNC
+    await syncPurchaseOrder(prisma, id, touchedBatchIds);
+    ledgerEntries.forEach(entry => {
+      syncAfterOperation('supplierLedgerEntry', 'create', entry).catch(err => {
+        console.error('[Sync] Supplier ledger entry sync failed:', err.message);
+      });
+    });
+
+    const purchaseOrder = await prisma.purchaseOrder.findUnique({
+      where: { id },
+      include: purchaseOrderInclude
+    });
+
+    return res.status(201).json({
+      success: true,
+      data: {
+        receiptId,
+        purchaseOrder
+      },
+      message: purchaseOrder?.status === 'RECEIVED'
+        ? 'Purchase order fully received'
+        : 'Goods received; the purchase order is partially received'
+    });
+  } catch (error) {
+    console.error('Receive purchase order error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+/**
+ * Close a partially received order: what did not arrive is no longer expected
+ */
+export const closePurchaseOrder = async (req: AuthRequest, res: Response) => {
+  try {
+    const prisma = await getPrisma();
+    const { id } = req.params;
+
+    const { error, value } = closePurchaseOrderSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const existingOrder = await prisma.purchaseOrder.findFirst({
+      where: buildPurchaseOrderWhereClause(req, { id }),
+      include: { items: true }
+    });
+
+    if (!existingOrder) {
+      return res.status(404).json({
+        success: false,
+        message: 'Purchase order not found'
+      });
+    }
+
+    const closed = await prisma.purchaseOrder.updateMany({
+      where: { id, status: 'PARTIALLY_RECEIVED' },
+      data: {
+        status: 'CLOSED',
+        closedAt: new Date(),
+        closedBy: req.user?.id,
+        closeReason: value.reason || null
+      }
+    });
+
+    if (closed.count === 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'Only partially received purchase orders can be closed; cancel an order that received nothing'
+      });
+    }
+
+    // 🔄 IMMEDIATE BIDIRECTIONAL SYNC
+    await syncPurchaseOrder(prisma, id);
+
+    return res.json({
+      success: true,
+      data: {
+        shortages: getDeliveryVariances(existingOrder.items).filter(variance => variance.shortQuantity > 0)
+      },
+      message: 'Purchase order closed short'
+    });
+  } catch (error) {
+    console.error('Close purchase order error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+export const cancelPurchaseOrder = async (req: AuthRequest, res: Response) => {
+  try {
+    const prisma = await getPrisma();
+    const { id } = req.params;
+
+    const existingOrder = await prisma.purchaseOrder.findFirst({
+      where: buildPurchaseOrderWhereClause(req, { id })
+    });
+
+    if (!existingOrder) {
+      return res.status(404).json({
+        success: false,
+        message: 'Purchase order not found'
+      });
+    }
+
+    // Once goods have arrived the order can only be closed
+    const cancelled = await prisma.purchaseOrder.updateMany({
+      where: { id, status: { in: ['DRAFT', 'ORDERED'] } },
+      data: {
+        status: 'CANCELLED',
+        cancelledAt: new Date(),
+        cancelledBy: req.user?.id
+      }
+    });
+
+    if (cancelled.count === 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'Only purchase orders that have not received goods can be cancelled'
+      });
+    }
+
+    // 🔄 IMMEDIATE BIDIRECTIONAL SYNC
+    await syncPurchaseOrder(prisma, id);
+
+    return res.json({
+      success: true,
+      message: 'Purchase order cancelled'
+    });
+  } catch (error) {
+    console.error('Cancel purchase order error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
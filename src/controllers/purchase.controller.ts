@@ -1,8 +1,16 @@
 import { Request, Response } from 'express';
 import { getPrisma } from '../utils/db.util';
 import Joi from 'joi';
+import { SupplierLedgerEntry } from '@prisma/client';
 import { AuthRequest } from '../middleware/auth.middleware';
 import { syncAfterOperation, pullLatestFromLive } from '../utils/sync-helper';
+import { moveBatchStock } from '../utils/stock-helper';
+import {
+  SUPPLIER_PAYMENT_METHODS,
+  allocateSupplierPayment,
+  recordSupplierLedgerEntry
+} from '../utils/supplier-ledger-helper';
+import { LANDED_COST_ALLOCATIONS, allocateLandedCost, revalueBatchCost } from '../utils/costing-helper';
 
 // Joi schemas for validation
 const createPurchaseSchema = Joi.object({
@@ -11,7 +19,15 @@ const createPurchaseSchema = Joi.object({
   purchaseDate: Joi.date().iso().optional(),
   totalAmount: Joi.number().min(0).default(0),
   paidAmount: Joi.number().min(0).default(0),
+  paymentMethod: Joi.string().valid(...SUPPLIER_PAYMENT_METHODS).default('CASH'), // How paidAmount was paid
+  paymentReference: Joi.string().optional().allow(''),
   notes: Joi.string().optional().allow(''),
+  // Landed cost: charges are added to the cost of the stock, the discount comes off what is owed
+  freightAmount: Joi.number().min(0).default(0),
+  dutyAmount: Joi.number().min(0).default(0),
+  otherCharges: Joi.number().min(0).default(0),
+  discountAmount: Joi.number().min(0).default(0),
+  costAllocation: Joi.string().valid(...LANDED_COST_ALLOCATIONS).default('VALUE'),
   items: Joi.array().items(
     Joi.object({
       productId: Joi.string().required(),
@@ -34,6 +50,13 @@ const updatePurchaseSchema = Joi.object({
   notes: Joi.string().optional().allow(''),
 });
 
+const landedCostSchema = Joi.object({
+  freightAmount: Joi.number().min(0).required(),
+  dutyAmount: Joi.number().min(0).required(),
+  otherCharges: Joi.number().min(0).default(0),
+  costAllocation: Joi.string().valid(...LANDED_COST_ALLOCATIONS).optional()
+});
+
 // Get all purchases
 export const getPurchases = async (req: AuthRequest, res: Response) => {
   try {
@@ -226,10 +249,26 @@ export const createPurchase = async (req: AuthRequest, res: Response) => {
     }
 
     // Calculate total amount
-    const totalAmount = purchaseData.items.reduce((sum: number, item: any) => {
+    const goodsAmount = purchaseData.items.reduce((sum: number, item: any) => {
       return sum + (item.quantity * item.unitPrice);
     }, 0);
 
+    if (purchaseData.discountAmount > goodsAmount) {
+      return res.status(400).json({
+        success: false,
+        message: 'The discount cannot be more than the value of the goods',
+      });
+    }
+
+    // Freight, duties and other charges are usually paid to carriers and customs rather than
+    // the supplier, so they only raise the cost of the stock; the discount lowers what is owed
+    const totalAmount = Math.round((goodsAmount - purchaseData.discountAmount) * 100) / 100;
+    const landedShares = allocateLandedCost(
+      purchaseData.items.map((item: any) => ({ quantity: item.quantity, totalPrice: item.quantity * item.unitPrice })),
+      purchaseData,
+      purchaseData.costAllocation
+    );
+
     const result = await prisma.$transaction(async (tx: any) => {
       // Create purchase
       const purchase = await tx.purchase.create({
@@ -240,9 +279,14 @@ export const createPurchase = async (req: AuthRequest, res: Response) => {
           invoiceNo: purchaseData.invoiceNo,
           purchaseDate: purchaseData.purchaseDate ? new Date(purchaseData.purchaseDate) : new Date(),
           totalAmount,
-          paidAmount: purchaseData.paidAmount,
-          outstanding: totalAmount - purchaseData.paidAmount,
-          status: purchaseData.paidAmount >= totalAmount ? 'COMPLETED' : 'PENDING',
+          paidAmount: 0, // Set below from the payment made with the purchase
+          outstanding: totalAmount,
+          freightAmount: purchaseData.freightAmount,
+          dutyAmount: purchaseData.dutyAmount,
+          otherCharges: purchaseData.otherCharges,
+          discountAmount: purchaseData.discountAmount,
+          costAllocation: purchaseData.costAllocation,
+          status: 'PENDING',
           notes: purchaseData.notes,
           createdBy: req.user?.id,
         },
@@ -250,7 +294,8 @@ export const createPurchase = async (req: AuthRequest, res: Response) => {
 
       // Create purchase items and batches
       const purchaseItems = [];
-      for (const item of purchaseData.items) {
+      for (const [index, item] of purchaseData.items.entries()) {
+        const share = landedShares[index];
         // Verify product exists
         const product = await tx.product.findUnique({
           where: { id: item.productId },
@@ -270,8 +315,10 @@ export const createPurchase = async (req: AuthRequest, res: Response) => {
               branchId,
               companyId,
               supplierId: purchaseData.supplierId,
-              quantity: item.quantity,
+              quantity: 0, // Received below through the stock ledger
               purchasePrice: item.unitPrice,
+              landedCost: share.landedUnitCost,
+              supplierOutstanding: Math.round((item.quantity * item.unitPrice - share.discountAmount) * 100) / 100,
               sellingPrice: item.unitPrice * 1.2, // Calculate selling price (20% markup)
               expireDate: item.expireDate ? new Date(item.expireDate) : null,
               productionDate: item.productionDate ? new Date(item.productionDate) : null,
@@ -281,6 +328,17 @@ export const createPurchase = async (req: AuthRequest, res: Response) => {
           batchId = batch.id;
 
           // Stock is now managed through batches, no need to update product stock directly
+          await moveBatchStock(tx, {
+            batchId: batch.id,
+            change: item.quantity,
+            unitCost: share.landedUnitCost,
+            type: 'IN',
+            sourceType: 'PURCHASE',
+            sourceId: purchase.id,
+            reason: 'Purchase',
+            reference: purchaseData.invoiceNo,
+            createdBy: req.user?.id
+          });
         }
 
         // Create purchase item
@@ -292,13 +350,67 @@ export const createPurchase = async (req: AuthRequest, res: Response) => {
             quantity: item.quantity,
             unitPrice: item.unitPrice,
             totalPrice: item.quantity * item.unitPrice,
+            landedCost: share.landedCost,
+            landedUnitCost: share.landedUnitCost,
           },
         });
 
         purchaseItems.push(purchaseItem);
       }
 
-      return { purchase, purchaseItems };
+      await recordSupplierLedgerEntry(tx, {
+        supplierId: purchaseData.supplierId,
+        branchId,
+        type: 'PURCHASE',
+        amount: totalAmount,
+        sourceType: 'PURCHASE',
+        sourceId: purchase.id,
+        reference: purchaseData.invoiceNo,
+        description: 'Purchase',
+        entryDate: purchase.purchaseDate,
+        createdBy: req.user?.id
+      });
+
+      // Anything paid with the purchase is recorded as a supplier payment set against it
+      let payment = null;
+      if (purchaseData.paidAmount > 0) {
+        const allocated = Math.min(purchaseData.paidAmount, totalAmount);
+        payment = await tx.supplierPayment.create({
+          data: {
+            supplierId: purchaseData.supplierId,
+            branchId,
+            amount: purchaseData.paidAmount,
+            method: purchaseData.paymentMethod,
+            reference: purchaseData.paymentReference || null,
+            unallocatedAmount: Math.round((purchaseData.paidAmount - allocated) * 100) / 100,
+            paidAt: purchase.purchaseDate,
+            createdBy: req.user?.id
+          }
+        });
+        if (allocated > 0) {
+          await allocateSupplierPayment(tx, {
+            paymentId: payment.id,
+            documentType: 'PURCHASE',
+            documentId: purchase.id,
+            amount: allocated,
+            createdBy: req.user?.id
+          });
+        }
+        await recordSupplierLedgerEntry(tx, {
+          supplierId: purchaseData.supplierId,
+          branchId,
+          type: 'PAYMENT',
+          amount: -purchaseData.paidAmount,
+          sourceType: 'SUPPLIER_PAYMENT',
+          sourceId: payment.id,
+          reference: payment.reference || purchaseData.invoiceNo,
+          description: 'Payment with purchase',
+          entryDate: purchase.purchaseDate,
+          createdBy: req.user?.id
+        });
+      }
+
+      return { purchase, purchaseItems, payment };
     });
 
     // Fetch the complete purchase with relations
@@ -340,6 +452,29 @@ export const createPurchase = async (req: AuthRequest, res: Response) => {
     syncAfterOperation('purchase', 'create', completePurchase).catch(err => {
       console.error('[Sync] Purchase create sync failed:', err.message);
     });
+    const [ledgerEntries, allocations] = await Promise.all([
+      prisma.supplierLedgerEntry.findMany({
+        where: { sourceId: { in: [result.purchase.id, result.payment?.id].filter(Boolean) } }
+      }),
+      prisma.supplierPaymentAllocation.findMany({
+        where: { purchaseId: result.purchase.id }
+      })
+    ]);
+    if (result.payment) {
+      syncAfterOperation('supplierPayment', 'create', result.payment).catch(err => {
+        console.error('[Sync] Supplier payment sync failed:', err.message);
+      });
+    }
+    allocations.forEach(allocation => {
+      syncAfterOperation('supplierPaymentAllocation', 'create', allocation).catch(err => {
+        console.error('[Sync] Supplier payment allocation sync failed:', err.message);
+      });
+    });
+    ledgerEntries.forEach(entry => {
+      syncAfterOperation('supplierLedgerEntry', 'create', entry).catch(err => {
+        console.error('[Sync] Supplier ledger entry sync failed:', err.message);
+      });
+    });
 
     return res.status(201).json({
       success: true,
@@ -383,59 +518,135 @@ export const updatePurchase = async (req: AuthRequest, res: Response) => {
       });
     }
 
+    // Payments are recorded against the supplier so that its ledger stays in step
+    if (updateData.paidAmount !== undefined && updateData.paidAmount !== existingPurchase.paidAmount) {
+      return res.status(400).json({
+        success: false,
+        message: 'Record payments to the supplier through the supplier payments instead of editing the paid amount',
+      });
+    }
+    delete updateData.paidAmount;
+
+    if (updateData.supplierId && updateData.supplierId !== existingPurchase.supplierId && existingPurchase.paidAmount > 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'Cannot move a purchase that has payments to another supplier',
+      });
+    }
+
     // Calculate outstanding amount
-    if (updateData.paidAmount !== undefined) {
-      updateData.outstanding = existingPurchase.totalAmount - updateData.paidAmount;
+    if (updateData.totalAmount !== undefined) {
+      updateData.outstanding = updateData.totalAmount - existingPurchase.paidAmount;
 
       // Update status based on payment
-      if (updateData.paidAmount >= existingPurchase.totalAmount) {
-        updateData.status = 'COMPLETED';
-      } else if (updateData.paidAmount > 0) {
-        updateData.status = 'PARTIAL';
-      } else {
-        updateData.status = 'PENDING';
+      if (updateData.status !== 'CANCELLED') {
+        if (existingPurchase.paidAmount >= updateData.totalAmount) {
+          updateData.status = 'COMPLETED';
+        } else if (existingPurchase.paidAmount > 0) {
+          updateData.status = 'PARTIAL';
+        } else {
+          updateData.status = 'PENDING';
+        }
       }
     }
 
-    const purchase = await prisma.purchase.update({
-      where: { id },
-      data: updateData,
-      include: {
-        supplier: {
-          select: {
-            id: true,
-            name: true,
-            contactPerson: true,
-            phone: true,
+    // What the purchase adds to the supplier's account before and after the change
+    const owedBefore = existingPurchase.status === 'CANCELLED' ? existingPurchase.paidAmount : existingPurchase.totalAmount;
+    const totalAfter = updateData.totalAmount ?? existingPurchase.totalAmount;
+    const owedAfter = (updateData.status ?? existingPurchase.status) === 'CANCELLED' ? existingPurchase.paidAmount : totalAfter;
+    const supplierAfter = updateData.supplierId ?? existingPurchase.supplierId;
+
+    // Purchases from before the supplier ledger have no rows to adjust
+    const onLedger = await prisma.supplierLedgerEntry.count({
+      where: { sourceType: 'PURCHASE', sourceId: id },
+    }) > 0;
+
+    const ledgerEntries: SupplierLedgerEntry[] = [];
+    const purchase = await prisma.$transaction(async (tx) => {
+      if (onLedger && supplierAfter !== existingPurchase.supplierId) {
+        ledgerEntries.push(await recordSupplierLedgerEntry(tx, {
+          supplierId: existingPurchase.supplierId,
+          branchId: existingPurchase.branchId,
+          type: 'ADJUSTMENT',
+          amount: -owedBefore,
+          sourceType: 'PURCHASE',
+          sourceId: id,
+          reference: existingPurchase.invoiceNo,
+          description: 'Purchase moved to another supplier',
+          createdBy: req.user?.id
+        }));
+        ledgerEntries.push(await recordSupplierLedgerEntry(tx, {
+          supplierId: supplierAfter,
+          branchId: existingPurchase.branchId,
+          type: 'PURCHASE',
+          amount: owedAfter,
+          sourceType: 'PURCHASE',
+          sourceId: id,
+          reference: updateData.invoiceNo ?? existingPurchase.invoiceNo,
+          description: 'Purchase moved from another supplier',
+          createdBy: req.user?.id
+        }));
+      } else if (onLedger && Math.abs(owedAfter - owedBefore) >= 0.005) {
+        ledgerEntries.push(await recordSupplierLedgerEntry(tx, {
+          supplierId: existingPurchase.supplierId,
+          branchId: existingPurchase.branchId,
+          type: 'ADJUSTMENT',
+          amount: owedAfter - owedBefore,
+          sourceType: 'PURCHASE',
+          sourceId: id,
+          reference: existingPurchase.invoiceNo,
+          description: owedAfter < owedBefore && updateData.status === 'CANCELLED' ? 'Purchase cancelled' : 'Purchase amount changed',
+          createdBy: req.user?.id
+        }));
+      }
+
+      return tx.purchase.update({
+        where: { id },
+        data: updateData,
+        include: {
+          supplier: {
+            select: {
+              id: true,
+              name: true,
+              contactPerson: true,
+              phone: true,
+            },
           },
-        },
-        purchaseItems: {
-          include: {
-            product: {
-              select: {
-                id: true,
-                name: true,
-                sku: true,
-                barcode: true,
+          purchaseItems: {
+            include: {
+              product: {
+                select: {
+                  id: true,
+                  name: true,
+                  sku: true,
+                  barcode: true,
+                },
               },
-            },
-            batch: {
-              select: {
-                id: true,
-                batchNo: true,
-                quantity: true,
-                expireDate: true,
+              batch: {
+                select: {
+                  id: true,
+                  batchNo: true,
+                  quantity: true,
+                  expireDate: true,
+                },
               },
             },
           },
         },
-      },
+      });
+    }, {
+      timeout: 60000 // 60 seconds timeout for long-running transactions
     });
 
     // 🔄 IMMEDIATE BIDIRECTIONAL SYNC
     syncAfterOperation('purchase', 'update', purchase).catch(err => {
       console.error('[Sync] Purchase update sync failed:', err.message);
     });
+    ledgerEntries.forEach(entry => {
+      syncAfterOperation('supplierLedgerEntry', 'create', entry).catch(err => {
+        console.error('[Sync] Supplier ledger entry sync failed:', err.message);
+      });
+    });
 
     return res.json({
       success: true,
@@ -475,10 +686,55 @@ export const deletePurchase = async (req: AuthRequest, res: Response) => {
       });
     }
 
-    await prisma.$transaction(async (tx: any) => {
-      // Reverse stock updates for batches
+    // Payments set against the purchase are kept for the supplier's statement
+    const allocationCount = await prisma.supplierPaymentAllocation.count({
+      where: { purchaseId: id },
+    });
+    if (allocationCount > 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'Cannot delete a purchase that has supplier payments set against it',
+      });
+    }
+
+    const ledgerEntry: SupplierLedgerEntry | null = await prisma.$transaction(async (tx: any) => {
+      // Take the purchase back off the supplier's account
+      let reversal = null;
+      const onLedger = await tx.supplierLedgerEntry.count({
+        where: { sourceType: 'PURCHASE', sourceId: id },
+      }) > 0;
+      if (onLedger && purchase.status !== 'CANCELLED') {
+        reversal = await recordSupplierLedgerEntry(tx, {
+          supplierId: purchase.supplierId,
+          branchId: purchase.branchId,
+          type: 'ADJUSTMENT',
+          amount: -purchase.totalAmount,
+          sourceType: 'PURCHASE',
+          sourceId: id,
+          reference: purchase.invoiceNo,
+          description: 'Purchase deleted',
+          createdBy: req.user?.id
+        });
+      }
+
+      // Reverse stock updates for batches; the ledger keeps the history of the deleted batches
       for (const item of purchase.purchaseItems) {
-        // Stock is now managed through batches, no need to update product stock directly
+        const batch = item.batchId
+          ? await tx.batch.findUnique({ where: { id: item.batchId } })
+          : null;
+
+        if (batch && batch.quantity > 0) {
+          await moveBatchStock(tx, {
+            batchId: batch.id,
+            change: -batch.quantity,
+            type: 'OUT',
+            sourceType: 'PURCHASE',
+            sourceId: id,
+            reason: 'Purchase deleted',
+            reference: purchase.invoiceNo,
+            createdBy: req.user?.id
+          });
+        }
       }
 
       // Delete purchase items and batches
@@ -501,12 +757,19 @@ export const deletePurchase = async (req: AuthRequest, res: Response) => {
       await tx.purchase.delete({
         where: { id },
       });
+
+      return reversal;
     });
 
     // 🔄 IMMEDIATE BIDIRECTIONAL SYNC
     syncAfterOperation('purchase', 'delete', { id }).catch(err => {
       console.error('[Sync] Purchase delete sync failed:', err.message);
     });
+    if (ledgerEntry) {
+      syncAfterOperation('supplierLedgerEntry', 'create', ledgerEntry).catch(err => {
+        console.error('[Sync] Supplier ledger entry sync failed:', err.message);
+      });
+    }
 
     return res.json({
       success: true,
@@ -520,3 +783,124 @@ export const deletePurchase = async (req: AuthRequest, res: Response) => {
     });
   }
 };
+
+// Set the freight, duties and other charges of a purchase after it was entered
+// (e.g. when the carrier's invoice arrives) and spread them over its batches again
+export const updatePurchaseLandedCost = async (req: AuthRequest, res: Response) => {
+  try {
+    const prisma = await getPrisma();
+    const { id } = req.params;
+    const { error, value } = landedCostSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message),
+      });
+    }
+
+    const existingPurchase = await prisma.purchase.findUnique({
+      where: { id },
+      include: { purchaseItems: true },
+    });
+
+    if (!existingPurchase) {
+      return res.status(404).json({
+        success: false,
+        message: 'Purchase not found',
+      });
+    }
+
+    if (existingPurchase.status === 'CANCELLED') {
+      return res.status(400).json({
+        success: false,
+        message: 'Cancelled purchases cannot be costed',
+      });
+    }
+
+    const costAllocation = value.costAllocation || existingPurchase.costAllocation;
+    const shares = allocateLandedCost(
+      existingPurchase.purchaseItems,
+      { ...value, discountAmount: existingPurchase.discountAmount },
+      costAllocation
+    );
+
+    await prisma.$transaction(async (tx) => {
+      await tx.purchase.update({
+        where: { id },
+        data: {
+          freightAmount: value.freightAmount,
+          dutyAmount: value.dutyAmount,
+          otherCharges: value.otherCharges,
+          costAllocation,
+        },
+      });
+
+      for (const [index, item] of existingPurchase.purchaseItems.entries()) {
+        await tx.purchaseItem.update({
+          where: { id: item.id },
+          data: { landedCost: shares[index].landedCost, landedUnitCost: shares[index].landedUnitCost },
+        });
+        if (item.batchId) {
+          await revalueBatchCost(tx, item.batchId, shares[index].landedUnitCost);
+        }
+      }
+    }, {
+      timeout: 60000 // 60 seconds timeout for long-running transactions
+    });
+
+    const purchase = await prisma.purchase.findUnique({
+      where: { id },
+      include: {
+        purchaseItems: {
+          include: {
+            batch: {
+              select: {
+                id: true,
+                batchNo: true,
+                purchasePrice: true,
+                landedCost: true,
+              },
+            },
+          },
+        },
+      },
+    });
+
+    // 🔄 IMMEDIATE BIDIRECTIONAL SYNC
+    syncAfterOperation('purchase', 'update', purchase).catch(err => {
+      console.error('[Sync] Purchase update sync failed:', err.message);
+    });
+
+    // Revaluing a batch also moves its product's average cost
+    const batchIds = existingPurchase.purchaseItems
+      .map(item => item.batchId)
+      .filter((batchId): batchId is string => Boolean(batchId));
+    const revaluedBatches = await prisma.batch.findMany({ where: { id: { in: batchIds } } });
+    const revaluedProducts = await prisma.product.findMany({
+      where: { id: { in: Array.from(new Set(revaluedBatches.map(batch => batch.productId))) } }
+    });
+    revaluedBatches.forEach(batch => {
+      syncAfterOperation('batch', 'update', batch).catch(err => {
+        console.error('[Sync] Batch update sync failed:', err.message);
+      });
+    });
+    revaluedProducts.forEach(product => {
+      syncAfterOperation('product', 'update', product).catch(err => {
+        console.error('[Sync] Product update sync failed:', err.message);
+      });
+    });
+
+    return res.json({
+      success: true,
+      data: purchase,
+      message: 'Landed cost updated successfully',
+    });
+  } catch (error) {
+    console.error('Update purchase landed cost error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+};
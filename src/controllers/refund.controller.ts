@@ -1,8 +1,17 @@
 import { Request, Response } from 'express';
+import { Prisma, PrismaClient } from '@prisma/client';
 import { getPrisma } from '../utils/db.util';
 import { AuthRequest, buildBranchWhereClause, buildBranchWhereClauseForRelation } from '../middleware/auth.middleware';
 import { notifyRefundChange } from '../routes/sse.routes';
 import { syncAfterOperation, pullLatestFromLive } from '../utils/sync-helper';
+import { HELD_SALE_STATUSES } from '../models/sale.model';
+import { planRefund, requiresRefundApproval } from '../utils/refund-helper';
+import { getNumericSetting } from '../utils/settings-helper';
+import { createAppError } from '../middleware/error.middleware';
+import { returnSaleItemStock, returnStockToBatch } from '../utils/stock-helper';
+import { lineUnitData, toBaseQuantity } from '../utils/unit-helper';
+import { reverseSaleLoyalty } from '../utils/loyalty-helper';
+import { creditSaleAccount } from '../utils/customer-ledger-helper';
 import Joi from 'joi';
 
 // Utility function to convert BigInt, Decimal, and Date values to strings for JSON serialization
@@ -53,8 +62,11 @@ function serializeBigInt(obj: any): any {
 interface RefundItem {
   productId: string;
   quantity: number;
-  unitPrice: number;
+  unitPrice?: number; // Ignored - refunds are valued from the original sale line
   reason: string;
+  batchId?: string | null;
+  saleItemId?: string | null;
+  unitId?: string | null; // Quantity is in this selling unit (box, strip) rather than base units
 }
 
 interface CreateRefundData {
@@ -70,16 +82,124 @@ const createRefundSchema = Joi.object({
   items: Joi.array().items(
     Joi.object({
       productId: Joi.string().required(),
-      quantity: Joi.number().positive().required(),
-      unitPrice: Joi.number().positive().required(),
+      quantity: Joi.number().integer().positive().required(),
+      unitPrice: Joi.number().positive().optional(), // Kept for older clients; the sale line price is used
       reason: Joi.string().required(),
-      batchId: Joi.string().allow(null, '').optional(), // Optional batch ID for stock return
-      saleItemId: Joi.string().allow(null, '').optional() // Optional sale item ID
+      batchId: Joi.string().allow(null, '').optional(), // Fallback batch when the sale line has none
+      saleItemId: Joi.string().allow(null, '').optional(), // Sale line to refund; matched by product when omitted
+      unitId: Joi.string().allow(null, '').optional() // Selling unit the quantity is given in
     })
   ).min(1).required(),
   refundedBy: Joi.string().required()
 });
 
+/**
+ * Return refunded stock to its batches, update the sale's refunded quantities and status,
+ * and take the refund off the customer's totals, loyalty points and account.
+ * Runs when a refund is processed directly or when a pending refund is approved.
+ */
+async function applyRefund(tx: Prisma.TransactionClient, refundId: string, createdBy?: string | null) {
+  const refund = await tx.refund.findUniqueOrThrow({
+    where: { id: refundId },
+    include: {
+      items: true,
+      originalSale: {
+        select: { id: true, branchId: true, customerId: true, totalAmount: true }
+      }
+    }
+  });
+
+  const saleItems = await tx.saleItem.findMany({
+    where: { saleId: refund.originalSaleId }
+  });
+
+  for (const item of refund.items) {
+    const saleItem = saleItems.find(si => si.id === item.saleItemId);
+
+    // Stock goes back to the batches it was sold from
+    const returnParams = {
+      branchId: refund.originalSale.branchId,
+      quantity: item.quantity,
+      sourceType: 'REFUND',
+      sourceId: refund.id,
+      reason: `Refund: ${item.reason}`,
+      reference: `REF-${refund.id}`,
+      createdBy
+    };
+    const batchId = saleItem
+      ? await returnSaleItemStock(tx, saleItem, returnParams)
+      : await returnStockToBatch(tx, { ...returnParams, productId: item.productId, batchId: item.batchId });
+
+    if (saleItem) {
+      saleItem.refundedQuantity += item.quantity;
+      await tx.saleItem.update({
+        where: { id: saleItem.id },
+        data: {
+          refundedQuantity: {
+            increment: item.quantity
+          }
+        }
+      });
+    }
+
+    if (batchId !== item.batchId) {
+      await tx.refundItem.update({
+        where: { id: item.id },
+        data: { batchId }
+      });
+    }
+  }
+
+  // Sale is REFUNDED once every unit has come back
+  const fullyRefunded = saleItems.every(si => si.refundedQuantity >= si.quantity);
+  await tx.sale.update({
+    where: { id: refund.originalSaleId },
+    data: {
+      status: fullyRefunded ? 'REFUNDED' : 'PARTIALLY_REFUNDED',
+      updatedAt: new Date()
+    }
+  });
+
+  console.log('✅ DEBUG - Sale status updated to', fullyRefunded ? 'REFUNDED' : 'PARTIALLY_REFUNDED');
+
+  const customerId = refund.originalSale.customerId;
+  if (customerId) {
+    await tx.customer.update({
+      where: { id: customerId },
+      data: { totalPurchases: { decrement: refund.refundAmount } }
+    });
+
+    // Points earned on the refunded part are taken back; points it was paid with are given back
+    const loyalty = await reverseSaleLoyalty(tx, {
+      saleId: refund.originalSaleId,
+      customerId,
+      share: refund.originalSale.totalAmount > 0 ? refund.refundAmount / refund.originalSale.totalAmount : 1,
+      complete: fullyRefunded,
+      refundId: refund.id,
+      note: `Refund: ${refund.refundReason}`,
+      createdBy
+    });
+
+    // A refund of a sale bought on account first comes off what is still owed on it
+    const accountCreditAmount = await creditSaleAccount(tx, {
+      saleId: refund.originalSaleId,
+      type: 'REFUND',
+      amount: refund.refundAmount - loyalty.pointsValue,
+      sourceId: refund.id,
+      reference: `REF-${refund.id}`,
+      description: `Refund: ${refund.refundReason}`,
+      createdBy
+    });
+
+    if (loyalty.pointsValue > 0 || accountCreditAmount > 0) {
+      await tx.refund.update({
+        where: { id: refund.id },
+        data: { loyaltyPointsValue: loyalty.pointsValue, accountCreditAmount }
+      });
+    }
+  }
+}
+
 export const createRefund = async (req: AuthRequest, res: Response): Promise<void> => {
   try {
     const prisma = await getPrisma();
@@ -96,7 +216,7 @@ export const createRefund = async (req: AuthRequest, res: Response): Promise<voi
       return;
     }
 
-    const { originalSaleId, refundReason, items, refundedBy } = req.body;
+    const { originalSaleId, refundReason, items, refundedBy }: CreateRefundData = req.body;
     console.log('🔍 DEBUG - Processing refund for sale:', originalSaleId);
 
     // Verify the original sale exists and get sale items with batch info
@@ -120,152 +240,152 @@ export const createRefund = async (req: AuthRequest, res: Response): Promise<voi
       return;
     }
 
-    // Check if sale is already refunded
-    if (originalSale.status === 'REFUNDED') {
+    // Parked carts have not been paid for, so there is nothing to refund
+    if (HELD_SALE_STATUSES.includes(originalSale.status)) {
       res.status(400).json({
         success: false,
-        message: 'This sale has already been refunded'
+        message: 'Held sales cannot be refunded'
       });
       return;
     }
 
-    // Calculate total refund amount
-    const refundAmount = items.reduce((sum: number, item: any) => sum + (item.quantity * item.unitPrice), 0);
-
-    // Use transaction to ensure data consistency
-    const result = await prisma.$transaction(async (tx: any) => {
-      console.log('🔍 DEBUG - Starting refund transaction');
+    // Voiding already returned the stock and reversed the customer's totals
+    if (originalSale.status === 'VOIDED') {
+      res.status(400).json({
+        success: false,
+        message: 'Voided sales cannot be refunded'
+      });
+      return;
+    }
 
-      // Create refund record
-      const refund = await tx.refund.create({
-        data: {
-          originalSaleId,
-          refundReason,
-          refundedBy,
-          refundAmount,
-          createdBy: req.user?.createdBy || req.user?.id,
-          status: 'PROCESSED',
-          processedAt: new Date()
-        }
+    // Check if sale is already refunded
+    if (originalSale.status === 'REFUNDED') {
+      res.status(400).json({
+        success: false,
+        message: 'This sale has already been refunded'
       });
+      return;
+    }
 
-      console.log('🔍 DEBUG - Refund created with ID:', refund.id);
+    const adminId = req.user?.createdBy || req.user?.id;
+    const approvalRules = {
+      amountThreshold: await getNumericSetting(prisma, adminId, 'refundApprovalAmount'),
+      saleAgeDays: await getNumericSetting(prisma, adminId, 'refundApprovalSaleAgeDays')
+    };
 
-      // Process each refunded item
-      const refundItems = [];
-      for (const item of items) {
-        console.log('🔍 DEBUG - Processing refund item:', item);
+    const unitIds = items.map(item => item.unitId).filter((id): id is string => !!id);
+    const units = unitIds.length > 0
+      ? await prisma.productUnit.findMany({ where: { id: { in: unitIds } } })
+      : [];
 
-        // Verify the product exists
-        const product = await tx.product.findUnique({
-          where: { id: item.productId }
+    // Use transaction to ensure data consistency
+    let result;
+    try {
+      result = await prisma.$transaction(async (tx) => {
+        // Quantities given by the box or strip are refunded in base units
+        const baseItems = items.map(item => ({ ...item, ...toBaseQuantity(item, units) }));
+
+        // Re-read refundable quantities inside the transaction so concurrent refunds cannot over-refund.
+        // Units on refunds still awaiting approval are reserved as if already refunded.
+        const saleItems = await tx.saleItem.findMany({
+          where: { saleId: originalSaleId }
+        });
+        const pendingItems = await tx.refundItem.findMany({
+          where: { refund: { originalSaleId, status: 'PENDING' } },
+          select: { saleItemId: true, quantity: true }
+        });
+        const previousRefunds = await tx.refund.aggregate({
+          where: { originalSaleId, status: { not: 'REJECTED' } },
+          _sum: { refundAmount: true }
         });
 
-        if (!product) {
-          console.log('❌ Product not found:', item.productId);
-          throw new Error(`Product with ID ${item.productId} not found`);
-        }
-
-        console.log('🔍 DEBUG - Found product:', product.name);
-
-        // Create refund item record
-        const refundItem = await tx.refundItem.create({
+        const refundableItems = saleItems.map(saleItem => ({
+          ...saleItem,
+          refundedQuantity: saleItem.refundedQuantity + pendingItems
+            .filter(pending => pending.saleItemId === saleItem.id)
+            .reduce((sum, pending) => sum + pending.quantity, 0)
+        }));
+
+        const plan = planRefund(originalSale, refundableItems, baseItems, previousRefunds._sum.refundAmount || 0);
+        const needsApproval = requiresRefundApproval(
+          plan.refundAmount,
+          originalSale.saleDate || originalSale.createdAt,
+          req.user?.role,
+          approvalRules
+        );
+
+        // Create refund record; refunds over the approval thresholds wait for a manager
+        const refund = await tx.refund.create({
           data: {
-            refundId: refund.id,
-            productId: item.productId,
-            quantity: item.quantity,
-            unitPrice: item.unitPrice,
-            reason: item.reason,
-            createdBy: req.user?.createdBy || req.user?.id
+            originalSaleId,
+            refundReason,
+            refundedBy,
+            refundAmount: plan.refundAmount,
+            createdBy: req.user?.createdBy || req.user?.id,
+            status: needsApproval ? 'PENDING' : 'PROCESSED',
+            processedAt: needsApproval ? null : new Date()
           }
         });
 
-        // Find the batch to return items to
-        // First try to use the batchId from the refund item if provided
-        let batchId = item.batchId;
-
-        // If no batchId provided, try to find it from the original sale items
-        if (!batchId) {
-          const originalSaleItem = originalSale.items.find(
-            (si: any) => si.productId === item.productId && si.batchId
-          );
-          if (originalSaleItem) {
-            batchId = originalSaleItem.batchId;
-          }
-        }
+        console.log('🔍 DEBUG - Refund created with ID:', refund.id, 'status:', refund.status);
+
+        for (const line of plan.lines) {
+          const request = baseItems.find(item => item.saleItemId === line.saleItemId) ||
+            baseItems.find(item => item.productId === line.productId)!;
+          // A request spread over several sale lines only keeps its unit where a line is whole units
+          const inWholeUnits = line.quantity % request.unitFields.unitFactor === 0;
 
-        // Update batch quantity (add items back to inventory)
-        if (batchId) {
-          console.log('🔍 DEBUG - Adding', item.quantity, 'items back to batch:', batchId);
-          await tx.batch.update({
-            where: { id: batchId },
+          await tx.refundItem.create({
             data: {
-              quantity: {
-                increment: item.quantity
-              }
+              refundId: refund.id,
+              productId: line.productId,
+              saleItemId: line.saleItemId,
+              batchId: request.batchId || null, // Replaced by the batch actually restocked
+              quantity: line.quantity,
+              unitPrice: line.unitPrice,
+              amount: line.amount,
+              reason: request.reason,
+              createdBy: req.user?.createdBy || req.user?.id,
+              ...(request.unitFields.unitId && inWholeUnits && lineUnitData({
+                ...request.unitFields,
+                unitQuantity: line.quantity / request.unitFields.unitFactor
+              }))
             }
           });
-          console.log('✅ DEBUG - Batch quantity updated');
-        } else {
-          // If no specific batch, try to find any active batch for this product and branch
-          const activeBatch = await tx.batch.findFirst({
-            where: {
-              productId: item.productId,
-              branchId: originalSale.branchId,
-              isActive: true
-            },
-            orderBy: { expireDate: 'asc' }
-          });
+        }
 
-          if (activeBatch) {
-            console.log('🔍 DEBUG - Adding', item.quantity, 'items back to first available batch:', activeBatch.id);
-            await tx.batch.update({
-              where: { id: activeBatch.id },
-              data: {
-                quantity: {
-                  increment: item.quantity
-                }
-              }
-            });
-            console.log('✅ DEBUG - Batch quantity updated');
-          } else {
-            console.log('⚠️ DEBUG - No batch found to return items to for product:', product.name);
-          }
+        // Stock and the sale only change once the refund is processed
+        if (!needsApproval) {
+          await applyRefund(tx, refund.id, req.user?.createdBy || req.user?.id);
         }
 
-        // Create stock movement record for the return
-        await tx.stockMovement.create({
-          data: {
-            productId: item.productId,
-            type: 'RETURN',
-            quantity: item.quantity,
-            reason: `Refund: ${item.reason}`,
-            reference: `REF-${refund.id}`,
-            createdBy: req.user?.createdBy || req.user?.id
-          }
+        const refundItems = await tx.refundItem.findMany({
+          where: { refundId: refund.id }
         });
 
-        refundItems.push(refundItem);
-      }
-
-      // Update original sale status to REFUNDED
-      await tx.sale.update({
-        where: { id: originalSaleId },
-        data: {
-          status: 'REFUNDED',
-          updatedAt: new Date()
-        }
+        // Processing may have given part of the refund back as loyalty points
+        return { refund: await tx.refund.findUniqueOrThrow({ where: { id: refund.id } }), refundItems };
+      }, {
+        timeout: 60000 // 60 seconds timeout for long-running transactions
       });
+    } catch (refundError: any) {
+      // Refund lines that do not match the sale are a client error
+      if (refundError.statusCode) {
+        res.status(refundError.statusCode).json({
+          success: false,
+          message: refundError.message
+        });
+        return;
+      }
+      throw refundError;
+    }
 
-      console.log('✅ DEBUG - Sale status updated to REFUNDED');
+    const isPending = result.refund.status === 'PENDING';
 
-      return { refund, refundItems };
-    });
-
-    // Send real-time notification to all users of the same admin
+    // Send real-time notification to all users of the same admin (managers only for approvals)
     const createdBy = req.user?.createdBy || req.user?.id;
     if (createdBy) {
-      notifyRefundChange(createdBy, 'created', result.refund);
+      notifyRefundChange(createdBy, isPending ? 'pending_approval' : 'created', result.refund);
     }
 
     // 🔄 IMMEDIATE BIDIRECTIONAL SYNC
@@ -279,7 +399,9 @@ export const createRefund = async (req: AuthRequest, res: Response): Promise<voi
         refund: result.refund,
         items: result.refundItems
       },
-      message: 'Refund processed successfully. Items have been added back to inventory.'
+      message: isPending
+        ? 'Refund submitted for manager approval. Stock will be returned once it is approved.'
+        : 'Refund processed successfully. Items have been added back to inventory.'
     });
 
   } catch (error: any) {
@@ -300,7 +422,8 @@ export const getRefunds = async (req: AuthRequest, res: Response): Promise<void>
       search = '',
       startDate = '',
       endDate = '',
-      branchId = ''
+      branchId = '',
+      status = ''
     } = req.query;
     const skip = (Number(page) - 1) * Number(limit);
 
@@ -358,6 +481,11 @@ export const getRefunds = async (req: AuthRequest, res: Response): Promise<void>
       };
     }
 
+    // Status filter (e.g. PENDING for the approval queue)
+    if (status) {
+      whereClause.status = status as string;
+    }
+
     // Search filter
     if (search) {
       whereClause.OR = [
@@ -505,3 +633,178 @@ export const getRefundById = async (req: Request, res: Response): Promise<void>
     });
   }
 };
+
+const reviewRefundSchema = Joi.object({
+  note: Joi.string().allow('').max(500).optional()
+});
+
+const rejectRefundSchema = Joi.object({
+  reason: Joi.string().max(500).required()
+});
+
+/**
+ * Find a pending refund on a sale the current user can see
+ */
+const findReviewableRefund = async (prisma: PrismaClient, req: AuthRequest, id: string) => {
+  return prisma.refund.findFirst({
+    where: {
+      id,
+      originalSale: buildBranchWhereClause(req, {})
+    }
+  });
+};
+
+export const approveRefund = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const prisma = await getPrisma();
+    const { id } = req.params;
+
+    const { error } = reviewRefundSchema.validate(req.body);
+    if (error) {
+      res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+      return;
+    }
+
+    const refund = await findReviewableRefund(prisma, req, id);
+    if (!refund) {
+      res.status(404).json({
+        success: false,
+        message: 'Refund not found'
+      });
+      return;
+    }
+
+    if (refund.status !== 'PENDING') {
+      res.status(400).json({
+        success: false,
+        message: `Refund is already ${refund.status.toLowerCase()}`
+      });
+      return;
+    }
+
+    const approvedRefund = await prisma.$transaction(async (tx) => {
+      // Claim the refund so it cannot be approved twice
+      const claimed = await tx.refund.updateMany({
+        where: { id, status: 'PENDING' },
+        data: {
+          status: 'PROCESSED',
+          processedAt: new Date(),
+          reviewedBy: req.user?.id,
+          reviewedAt: new Date(),
+          reviewNote: req.body.note || null
+        }
+      });
+
+      if (claimed.count === 0) {
+        throw createAppError('Refund is no longer pending');
+      }
+
+      await applyRefund(tx, id, req.user?.createdBy || req.user?.id);
+
+      return tx.refund.findUniqueOrThrow({
+        where: { id },
+        include: { items: true }
+      });
+    }, {
+      timeout: 60000 // 60 seconds timeout for long-running transactions
+    });
+
+    const createdBy = req.user?.createdBy || req.user?.id;
+    if (createdBy) {
+      notifyRefundChange(createdBy, 'approved', approvedRefund);
+    }
+
+    // 🔄 IMMEDIATE BIDIRECTIONAL SYNC
+    syncAfterOperation('refund', 'update', approvedRefund).catch(err => {
+      console.error('[Sync] Refund approve sync failed:', err.message);
+    });
+
+    res.json({
+      success: true,
+      data: serializeBigInt(approvedRefund),
+      message: 'Refund approved. Items have been added back to inventory.'
+    });
+  } catch (error: any) {
+    console.error('Approve refund error:', error);
+    res.status(error?.statusCode || 500).json({
+      success: false,
+      message: error?.statusCode ? error.message : 'Internal server error'
+    });
+  }
+};
+
+export const rejectRefund = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const prisma = await getPrisma();
+    const { id } = req.params;
+
+    const { error } = rejectRefundSchema.validate(req.body);
+    if (error) {
+      res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+      return;
+    }
+
+    const refund = await findReviewableRefund(prisma, req, id);
+    if (!refund) {
+      res.status(404).json({
+        success: false,
+        message: 'Refund not found'
+      });
+      return;
+    }
+
+    // Rejected refunds never touched stock or the sale, so only the refund changes
+    const rejected = await prisma.refund.updateMany({
+      where: { id, status: 'PENDING' },
+      data: {
+        status: 'REJECTED',
+        reviewedBy: req.user?.id,
+        reviewedAt: new Date(),
+        reviewNote: req.body.reason
+      }
+    });
+
+    if (rejected.count === 0) {
+      res.status(400).json({
+        success: false,
+        message: `Refund is already ${refund.status.toLowerCase()}`
+      });
+      return;
+    }
+
+    const rejectedRefund = await prisma.refund.findUniqueOrThrow({
+      where: { id },
+      include: { items: true }
+    });
+
+    const createdBy = req.user?.createdBy || req.user?.id;
+    if (createdBy) {
+      notifyRefundChange(createdBy, 'rejected', rejectedRefund);
+    }
+
+    // 🔄 IMMEDIATE BIDIRECTIONAL SYNC
+    syncAfterOperation('refund', 'update', rejectedRefund).catch(err => {
+      console.error('[Sync] Refund reject sync failed:', err.message);
+    });
+
+    res.json({
+      success: true,
+      data: serializeBigInt(rejectedRefund),
+      message: 'Refund rejected'
+    });
+  } catch (error) {
+    console.error('Reject refund error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
@@ -5,6 +5,11 @@ import { Request, Response } from 'express';
 import { Prisma } from '@prisma/client';
 import { getPrisma } from '../utils/db.util';
 import { AuthRequest, buildBranchWhereClause } from '../middleware/auth.middleware';
+import { getSalesByTender } from '../utils/payment-helper';
+import { EXCLUDED_SALE_STATUSES, NON_REVENUE_SALE_STATUSES } from '../models/sale.model';
+import { buildExpiryLossReport } from '../utils/expiry-helper';
+import { calculateSaleCogs, getValuationMethod } from '../utils/costing-helper';
+import { PROFIT_GROUPINGS, groupProfit, summarizeProfit } from '../utils/profit-helper';
 
 // Helper function to get week number
 function getWeekNumber(date: Date): number {
@@ -28,8 +33,8 @@ export const getSalesReport = async (req: AuthRequest, res: Response) => {
     console.log('Sales report request:', { startDate, endDate, branchId, groupBy });
     console.log('User context:', { userId: req.user?.id, createdBy: req.user?.createdBy, role: req.user?.role });
 
-    // Build where clause with data isolation
-    const where: any = buildBranchWhereClause(req, {});
+    // Build where clause with data isolation (parked carts and voided sales are not counted)
+    const where: any = buildBranchWhereClause(req, { status: { notIn: EXCLUDED_SALE_STATUSES } });
 
     if (branchId) {
       where.branchId = branchId;
@@ -77,8 +82,8 @@ export const getSalesReport = async (req: AuthRequest, res: Response) => {
       }
     }
 
-    // Exclude refunded sales from reports
-    where.status = { not: 'REFUNDED' };
+    // Exclude refunded and voided sales and parked carts from reports
+    where.status = { notIn: NON_REVENUE_SALE_STATUSES };
 
     console.log('Sales report where clause:', where);
 
@@ -112,17 +117,8 @@ export const getSalesReport = async (req: AuthRequest, res: Response) => {
     });
     console.log('Sample sales in database:', allSales);
 
-    // Get sales by payment method
-    const salesByPaymentMethod = await prisma.sale.groupBy({
-      by: ['paymentMethod'],
-      where,
-      _sum: {
-        totalAmount: true
-      },
-      _count: {
-        id: true
-      }
-    });
+    // Get sales by payment method (per tender, so split payments are counted per method)
+    const salesByPaymentMethod = await getSalesByTender(prisma, where);
 
     console.log('Sales by payment method result:', salesByPaymentMethod);
 
@@ -516,8 +512,8 @@ export const getProductPerformanceReport = async (req: AuthRequest, res: Respons
     console.log('Product performance report request:', { startDate, endDate, branchId, categoryId });
     console.log('User context:', { userId: req.user?.id, createdBy: req.user?.createdBy, role: req.user?.role });
 
-    // Build where clause with data isolation
-    const where: any = buildBranchWhereClause(req, {});
+    // Build where clause with data isolation (parked carts and voided sales are not counted)
+    const where: any = buildBranchWhereClause(req, { status: { notIn: EXCLUDED_SALE_STATUSES } });
 
     if (branchId) {
       where.branchId = branchId;
@@ -677,8 +673,8 @@ export const getTopSellingProducts = async (req: AuthRequest, res: Response) =>
     console.log('Top selling products request:', { branchId, limit });
     console.log('User context:', { userId: req.user?.id, createdBy: req.user?.createdBy, role: req.user?.role });
 
-    // Build where clause with data isolation
-    const where: any = buildBranchWhereClause(req, {});
+    // Build where clause with data isolation (parked carts and voided sales are not counted)
+    const where: any = buildBranchWhereClause(req, { status: { notIn: EXCLUDED_SALE_STATUSES } });
 
     if (branchId) {
       where.branchId = branchId;
@@ -753,36 +749,478 @@ export const getSalesByPaymentMethod = async (req: AuthRequest, res: Response) =
     console.log('Sales by payment method request:', { branchId });
     console.log('User context:', { userId: req.user?.id, createdBy: req.user?.createdBy, role: req.user?.role });
 
-    // Build where clause with data isolation
-    const where: any = buildBranchWhereClause(req, {});
+    // Build where clause with data isolation (parked carts and voided sales are not counted)
+    const where: any = buildBranchWhereClause(req, { status: { notIn: EXCLUDED_SALE_STATUSES } });
 
     if (branchId) {
       where.branchId = branchId;
     }
 
-    // Get sales by payment method
-    const salesByPaymentMethod = await prisma.sale.groupBy({
-      by: ['paymentMethod'],
-      where,
-      _sum: {
-        totalAmount: true
-      },
-      _count: {
-        id: true
+    // Get sales by payment method, aggregated per tender (sorted by amount, highest first)
+    const salesByPaymentMethod = await getSalesByTender(prisma, where);
+
+    return res.json({
+      success: true,
+      data: salesByPaymentMethod
+    });
+  } catch (error) {
+    console.error('Get sales by payment method error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+// Controlled-substance register: every dispensing of a controlled product
+export const getControlledSubstanceRegister = async (req: AuthRequest, res: Response) => {
+  try {
+    const { branchId = '', startDate = '', endDate = '', productId = '' } = req.query;
+
+    const prisma = await getPrisma();
+
+    // Voided sales put the stock back, so they are not dispensings
+    const saleWhere: any = buildBranchWhereClause(req, { status: { notIn: EXCLUDED_SALE_STATUSES } });
+    if (branchId) {
+      saleWhere.branchId = branchId;
+    }
+    if (startDate || endDate) {
+      saleWhere.createdAt = {};
+      if (startDate) {
+        saleWhere.createdAt.gte = new Date(startDate as string);
+      }
+      if (endDate) {
+        const end = new Date(endDate as string);
+        end.setHours(23, 59, 59, 999);
+        saleWhere.createdAt.lte = end;
+      }
+    }
+
+    const itemWhere: any = {
+      sale: saleWhere,
+      product: { isControlled: true }
+    };
+    if (productId) {
+      itemWhere.productId = productId;
+    }
+
+    const dispensings = await prisma.saleItem.findMany({
+      where: itemWhere,
+      include: {
+        product: {
+          select: { id: true, name: true, sku: true, formula: true }
+        },
+        batch: {
+          select: { id: true, batchNo: true, expireDate: true }
+        },
+        batchAllocations: {
+          include: { batch: { select: { id: true, batchNo: true, expireDate: true } } },
+          orderBy: { createdAt: 'asc' }
+        },
+        sale: {
+          select: {
+            id: true,
+            createdAt: true,
+            status: true,
+            branch: { select: { id: true, name: true } },
+            customer: { select: { id: true, name: true, phone: true } },
+            user: { select: { id: true, name: true, username: true } },
+            receipts: { select: { receiptNumber: true } }
+          }
+        },
+        prescriptionItem: {
+          select: {
+            allowedQuantity: true,
+            dosage: true,
+            prescription: {
+              select: {
+                id: true,
+                prescriptionNumber: true,
+                patientName: true,
+                doctorName: true,
+                doctorRegistrationNumber: true,
+                issueDate: true
+              }
+            }
+          }
+        }
       },
-      orderBy: {
-        _sum: {
-          totalAmount: 'desc'
+      orderBy: { sale: { createdAt: 'asc' } }
+    });
+
+    // One entry per batch a line was sold from; lines from before batches were recorded keep a single entry
+    const entries = dispensings.flatMap(item => {
+      const batches = item.batchAllocations.length > 0
+        ? item.batchAllocations.map(allocation => ({
+          batchNo: allocation.batch.batchNo,
+          batchExpiry: allocation.batch.expireDate,
+          quantity: allocation.quantity,
+          returnedQuantity: allocation.returnedQuantity
+        }))
+        : [{
+          batchNo: item.batch?.batchNo || item.batchNumber || null,
+          batchExpiry: item.batch?.expireDate || item.expiryDate || null,
+          quantity: item.quantity,
+          returnedQuantity: item.refundedQuantity
+        }];
+
+      return batches.map(batch => ({
+        dispensedAt: item.sale.createdAt,
+        branch: item.sale.branch,
+        receiptNumber: item.sale.receipts[0]?.receiptNumber || null,
+        saleId: item.sale.id,
+        product: item.product,
+        ...batch,
+        pharmacist: item.sale.user,
+        customer: item.sale.customer,
+        prescription: item.prescriptionItem
+          ? { ...item.prescriptionItem.prescription, dosage: item.prescriptionItem.dosage }
+          : null
+      }));
+    });
+
+    // Net quantity dispensed per product over the period
+    const totals = new Map<string, { productId: string; name: string; quantity: number }>();
+    entries.forEach(entry => {
+      const total = totals.get(entry.product.id) || { productId: entry.product.id, name: entry.product.name, quantity: 0 };
+      total.quantity += entry.quantity - entry.returnedQuantity;
+      totals.set(entry.product.id, total);
+    });
+
+    return res.json({
+      success: true,
+      data: {
+        entries,
+        totals: Array.from(totals.values())
+      }
+    });
+  } catch (error) {
+    console.error('Get controlled substance register error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+// Promotion performance - what each promotion gave away and what it sold
+export const getPromotionPerformanceReport = async (req: AuthRequest, res: Response) => {
+  try {
+    const { branchId = '', startDate = '', endDate = '', promotionId = '' } = req.query;
+
+    const prisma = await getPrisma();
+
+    const saleWhere: any = buildBranchWhereClause(req, { status: { notIn: EXCLUDED_SALE_STATUSES } });
+    if (branchId) {
+      saleWhere.branchId = branchId;
+    }
+    if (startDate || endDate) {
+      saleWhere.createdAt = {};
+      if (startDate) {
+        saleWhere.createdAt.gte = new Date(startDate as string);
+      }
+      if (endDate) {
+        const end = new Date(endDate as string);
+        end.setHours(23, 59, 59, 999);
+        saleWhere.createdAt.lte = end;
+      }
+    }
+
+    const itemWhere: any = {
+      sale: saleWhere,
+      promotionId: promotionId ? promotionId as string : { not: null }
+    };
+
+    const promotedItems = await prisma.saleItem.findMany({
+      where: itemWhere,
+      select: {
+        saleId: true,
+        quantity: true,
+        refundedQuantity: true,
+        unitPrice: true,
+        totalPrice: true,
+        discountAmount: true,
+        promotionDiscount: true,
+        promotion: {
+          select: { id: true, name: true, type: true, isActive: true }
         }
       }
     });
 
+    const performance = new Map<string, {
+      promotion: { id: string; name: string; type: string; isActive: boolean };
+      saleIds: Set<string>;
+      unitsSold: number;
+      unitsReturned: number;
+      grossSales: number;
+      discountGiven: number;
+      netSales: number;
+    }>();
+
+    promotedItems.forEach(item => {
+      if (!item.promotion) {
+        return;
+      }
+
+      const entry = performance.get(item.promotion.id) || {
+        promotion: item.promotion,
+        saleIds: new Set<string>(),
+        unitsSold: 0,
+        unitsReturned: 0,
+        grossSales: 0,
+        discountGiven: 0,
+        netSales: 0
+      };
+
+      entry.saleIds.add(item.saleId);
+      entry.unitsSold += item.quantity;
+      entry.unitsReturned += item.refundedQuantity;
+      entry.grossSales += item.totalPrice;
+      entry.discountGiven += item.promotionDiscount;
+      entry.netSales += item.totalPrice - item.discountAmount;
+      performance.set(item.promotion.id, entry);
+    });
+
+    const promotions = Array.from(performance.values())
+      .map(({ saleIds, ...entry }) => ({
+        ...entry,
+        salesCount: saleIds.size,
+        averageDiscountPerSale: saleIds.size > 0 ? entry.discountGiven / saleIds.size : 0
+      }))
+      .sort((a, b) => b.netSales - a.netSales);
+
     return res.json({
       success: true,
-      data: salesByPaymentMethod
+      data: {
+        promotions,
+        summary: {
+          salesCount: new Set(promotedItems.map(item => item.saleId)).size,
+          discountGiven: promotions.reduce((sum, entry) => sum + entry.discountGiven, 0),
+          netSales: promotions.reduce((sum, entry) => sum + entry.netSales, 0)
+        }
+      }
     });
   } catch (error) {
-    console.error('Get sales by payment method error:', error);
+    console.error('Get promotion performance report error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+const profitItemSelect = Prisma.validator<Prisma.SaleItemSelect>()({
+  id: true,
+  productId: true,
+  quantity: true,
+  refundedQuantity: true,
+  unitPrice: true,
+  discountAmount: true,
+  unitCost: true,
+  sale: {
+    select: {
+      subtotal: true,
+      discountAmount: true,
+      branch: { select: { id: true, name: true } },
+      user: { select: { id: true, name: true } }
+    }
+  },
+  product: {
+    select: {
+      name: true,
+      averageCost: true,
+      category: { select: { id: true, name: true } },
+      supplier: { select: { id: true, name: true } }
+    }
+  },
+  batch: {
+    select: {
+      purchasePrice: true,
+      landedCost: true,
+      supplier: { select: { id: true, name: true } }
+    }
+  },
+  batchAllocations: {
+    select: {
+      quantity: true,
+      returnedQuantity: true,
+      batch: { select: { purchasePrice: true, landedCost: true } }
+    }
+  }
+});
+
+type ProfitItem = Prisma.SaleItemGetPayload<{ select: typeof profitItemSelect }> & { unitCost: number };
+
+const profitGroupOf: Record<string, (item: ProfitItem) => { key: string | null; name: string }> = {
+  product: item => ({ key: item.productId, name: item.product.name }),
+  category: item => ({ key: item.product.category.id, name: item.product.category.name }),
+  // The batch a line was sold from names who supplied it; older products carry a supplier themselves
+  supplier: item => {
+    const supplier = item.batch?.supplier || item.product.supplier;
+    return supplier ? { key: supplier.id, name: supplier.name } : { key: null, name: 'No supplier' };
+  },
+  cashier: item => ({ key: item.sale.user.id, name: item.sale.user.name }),
+  branch: item => ({ key: item.sale.branch.id, name: item.sale.branch.name })
+};
+
+// Gross profit and margin by product, category, supplier, cashier or branch, refunds netted out
+export const getGrossProfitReport = async (req: AuthRequest, res: Response) => {
+  try {
+    const { branchId = '', startDate = '', endDate = '', groupBy = 'product' } = req.query;
+
+    if (!PROFIT_GROUPINGS.includes(groupBy as string)) {
+      return res.status(400).json({
+        success: false,
+        message: `groupBy must be one of ${PROFIT_GROUPINGS.join(', ')}`
+      });
+    }
+
+    const prisma = await getPrisma();
+
+    const saleWhere: any = buildBranchWhereClause(req, { status: { notIn: EXCLUDED_SALE_STATUSES } });
+    if (branchId) {
+      saleWhere.branchId = branchId;
+    }
+    if (startDate || endDate) {
+      saleWhere.createdAt = {};
+      if (startDate) {
+        saleWhere.createdAt.gte = new Date(startDate as string);
+      }
+      if (endDate) {
+        const end = new Date(endDate as string);
+        end.setHours(23, 59, 59, 999);
+        saleWhere.createdAt.lte = end;
+      }
+    }
+
+    const saleItems = await prisma.saleItem.findMany({
+      where: { sale: saleWhere },
+      select: profitItemSelect
+    });
+
+    // Lines sold before costs were kept at checkout are costed from their batches now
+    const valuationMethod = await getValuationMethod(prisma, req.user?.selectedCompanyId || req.user?.companyId);
+    const items: ProfitItem[] = saleItems.map(item => {
+      if (item.unitCost !== null) {
+        return { ...item, unitCost: item.unitCost };
+      }
+      const { lines } = calculateSaleCogs([{
+        saleItemId: item.id,
+        productId: item.productId,
+        quantity: item.quantity,
+        refundedQuantity: item.refundedQuantity,
+        averageCost: item.product.averageCost,
+        batch: item.batch,
+        allocations: item.batchAllocations
+      }], valuationMethod);
+      return { ...item, unitCost: lines[0].unitCost };
+    });
+
+    const rows = groupProfit(items, profitGroupOf[groupBy as string]);
+
+    return res.json({
+      success: true,
+      data: {
+        groupBy,
+        valuationMethod,
+        rows,
+        summary: summarizeProfit(rows)
+      }
+    });
+  } catch (error) {
+    console.error('Get gross profit report error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+// Get expiry losses (write-offs) and supplier returns per month, branch and supplier
+export const getExpiryLossReport = async (req: AuthRequest, res: Response) => {
+  try {
+    const { branchId = '', supplierId = '', startDate = '', endDate = '' } = req.query;
+
+    const prisma = await getPrisma();
+
+    // Write-offs and returns belong to the admin group; managers only see their own branch
+    const userRole = req.user?.role ? String(req.user.role).toUpperCase() : '';
+    const where: any = {};
+    if (userRole !== 'SUPERADMIN') {
+      where.createdBy = req.user?.createdBy || req.user?.id;
+    }
+    if (userRole === 'MANAGER' && req.user?.branchId) {
+      where.branchId = req.user.branchId;
+    } else if (branchId) {
+      where.branchId = branchId;
+    }
+    if (startDate || endDate) {
+      where.createdAt = {};
+      if (startDate) {
+        where.createdAt.gte = new Date(startDate as string);
+      }
+      if (endDate) {
+        const end = new Date(endDate as string);
+        end.setHours(23, 59, 59, 999);
+        where.createdAt.lte = end;
+      }
+    }
+
+    const [writeOffs, supplierReturns] = await Promise.all([
+      prisma.batchWriteOff.findMany({
+        where: supplierId ? { ...where, supplierId } : where,
+        select: { createdAt: true, branchId: true, supplierId: true, quantity: true, totalValue: true }
+      }),
+      prisma.supplierReturn.findMany({
+        where: supplierId ? { ...where, supplierId } : where,
+        select: {
+          createdAt: true,
+          branchId: true,
+          supplierId: true,
+          items: { select: { quantity: true, totalValue: true } }
+        }
+      })
+    ]);
+
+    const returns = supplierReturns.map(supplierReturn => ({
+      createdAt: supplierReturn.createdAt,
+      branchId: supplierReturn.branchId,
+      supplierId: supplierReturn.supplierId,
+      quantity: supplierReturn.items.reduce((sum, item) => sum + item.quantity, 0),
+      totalValue: supplierReturn.items.reduce((sum, item) => sum + item.totalValue, 0)
+    }));
+    const rows = buildExpiryLossReport(writeOffs, returns);
+
+    // Names for the branches and suppliers in the report
+    const [branches, suppliers] = await Promise.all([
+      prisma.branch.findMany({
+        where: { id: { in: Array.from(new Set(rows.map(row => row.branchId))) } },
+        select: { id: true, name: true }
+      }),
+      prisma.supplier.findMany({
+        where: { id: { in: Array.from(new Set(rows.map(row => row.supplierId).filter((id): id is string => !!id))) } },
+        select: { id: true, name: true }
+      })
+    ]);
+
+    return res.json({
+      success: true,
+      data: {
+        rows: rows.map(row => ({
+          ...row,
+          branch: branches.find(branch => branch.id === row.branchId) || null,
+          supplier: suppliers.find(supplier => supplier.id === row.supplierId) || null
+        })),
+        summary: {
+          writtenOffQuantity: rows.reduce((sum, row) => sum + row.writtenOffQuantity, 0),
+          writtenOffValue: Math.round(rows.reduce((sum, row) => sum + row.writtenOffValue, 0) * 100) / 100,
+          returnedQuantity: rows.reduce((sum, row) => sum + row.returnedQuantity, 0),
+          returnedValue: Math.round(rows.reduce((sum, row) => sum + row.returnedValue, 0) * 100) / 100
+        }
+      }
+    });
+  } catch (error) {
+    console.error('Get expiry loss report error:', error);
     return res.status(500).json({
       success: false,
       message: 'Internal server error'
@@ -799,8 +1237,8 @@ export const getDashboardData = async (req: AuthRequest, res: Response) => {
     console.log('Dashboard data request:', { branchId });
     console.log('User context:', { userId: req.user?.id, createdBy: req.user?.createdBy, role: req.user?.role });
 
-    // Build where clause with data isolation
-    const where: any = buildBranchWhereClause(req, {});
+    // Build where clause with data isolation (parked carts and voided sales are not counted)
+    const where: any = buildBranchWhereClause(req, { status: { notIn: EXCLUDED_SALE_STATUSES } });
 
     if (branchId) {
       where.branchId = branchId;
@@ -838,7 +1276,7 @@ export const getDashboardData = async (req: AuthRequest, res: Response) => {
         gte: today,
         lt: tomorrow
       },
-      status: { not: 'REFUNDED' } // Exclude refunded sales
+      status: { notIn: NON_REVENUE_SALE_STATUSES } // Exclude refunded and voided sales and parked carts
     };
 
     // Get today's sales summary (excluding refunded)
@@ -867,7 +1305,7 @@ export const getDashboardData = async (req: AuthRequest, res: Response) => {
         gte: yesterday,
         lt: yesterdayEnd
       },
-      status: { not: 'REFUNDED' } // Exclude refunded sales
+      status: { notIn: NON_REVENUE_SALE_STATUSES } // Exclude refunded and voided sales and parked carts
     };
 
     const yesterdaySales = await prisma.sale.aggregate({
@@ -890,7 +1328,7 @@ export const getDashboardData = async (req: AuthRequest, res: Response) => {
         gte: startOfMonth,
         lte: endOfMonth
       },
-      status: { not: 'REFUNDED' } // Exclude refunded sales
+      status: { notIn: NON_REVENUE_SALE_STATUSES } // Exclude refunded and voided sales and parked carts
     };
 
     const monthSales = await prisma.sale.aggregate({
@@ -909,7 +1347,7 @@ export const getDashboardData = async (req: AuthRequest, res: Response) => {
 
     const lastMonthWhere = {
       ...where,
-      status: { not: 'REFUNDED' }, // Exclude refunded sales
+      status: { notIn: NON_REVENUE_SALE_STATUSES }, // Exclude refunded and voided sales and parked carts
       createdAt: {
         gte: startOfLastMonth,
         lte: endOfLastMonth
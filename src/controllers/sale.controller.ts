@@ -3,36 +3,578 @@ import '../config/database.init';
 
 import { Request, Response } from 'express';
 import { getPrisma } from '../utils/db.util';
-import { CreateSaleData, SaleResponse, PaymentStatus } from '../models/sale.model';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { CreateSaleData, SaleResponse, HoldSaleData, FinalizeHeldSaleData, SaleItemData, PaymentStatus, PAYMENT_METHODS, HELD_SALE_STATUSES, VOIDABLE_SALE_STATUSES } from '../models/sale.model';
 import { AuthRequest, buildBranchWhereClause } from '../middleware/auth.middleware';
 import { notifySaleChange } from '../routes/sse.routes';
 import { syncAfterOperation, pullLatestFromLive } from '../utils/sync-helper';
+import { resolveTenders, ResolvedTenders } from '../utils/payment-helper';
+import { getNumericSetting, getSettingValues } from '../utils/settings-helper';
+import { issueDocumentNumber } from '../utils/numbering-helper';
+import { BatchAllocation, allocateSaleStock, returnSaleItemStock } from '../utils/stock-helper';
+import { dispensePrescriptionLines, reversePrescriptionLines } from '../utils/prescription-helper';
+import { CheckoutWarning, evaluateCheckoutWarnings, getUnacknowledgedWarnings } from '../utils/interaction-helper';
+import { AppliedPromotion, evaluatePromotions } from '../utils/promotion-helper';
+import { createAppError } from '../middleware/error.middleware';
+import { lineUnitData, resolveSaleItemUnits } from '../utils/unit-helper';
+import { calculateSaleCogs, costSaleAllocations, getValuationMethod } from '../utils/costing-helper';
+import { reverseSaleLoyalty, settleSaleLoyalty } from '../utils/loyalty-helper';
+import { ACCOUNT_TENDER, chargeSaleToAccount, creditSaleAccount } from '../utils/customer-ledger-helper';
+import { ReceiptData, ReceiptFormat, RECEIPT_FORMATS, renderReceiptText, renderReceiptHtml, renderReceiptEscPos, renderReceiptPdf, splitReceiptItemByBatch } from '../utils/receipt-renderer';
 import Joi from 'joi';
 
 // Validation schemas
+const saleItemSchema = Joi.object({
+  productId: Joi.string().required(),
+  quantity: Joi.number().min(1).required(),
+  unitId: Joi.string().allow(null, '').optional(), // Sold by the box or strip; quantity and price are per that unit
+  unitPrice: Joi.number().positive().when('unitId', {
+    is: Joi.string().min(1),
+    then: Joi.optional(), // The unit's own price when not sent
+    otherwise: Joi.required()
+  }),
+  batchId: Joi.string().allow(null, ''), // Link to specific batch
+  batchNumber: Joi.string().allow(''), // Keep for backward compatibility
+  expiryDate: Joi.string().allow(''),
+  discountPercentage: Joi.number().min(0).max(100).optional(), // Item-level discount
+  discountAmount: Joi.number().min(0).optional(), // Item-level discount amount
+  totalPrice: Joi.number().min(0).optional(), // Item total after discount
+  prescriptionItemId: Joi.string().allow(null, '').optional(), // Required for prescription-only products
+  daysSupply: Joi.number().integer().min(1).max(365).optional(), // Days the quantity lasts, for refill reminders
+  batchAllocations: Joi.array().items(Joi.object({ // Cashier-picked split across batches (MANUAL branches)
+    batchId: Joi.string().required(),
+    quantity: Joi.number().integer().min(1).required()
+  })).min(1).optional()
+});
+
+const salePaymentSchema = Joi.object({
+  method: Joi.string().valid(...PAYMENT_METHODS).required(),
+  amount: Joi.number().positive().required(),
+  reference: Joi.string().allow(null, '').optional()
+});
+
 const createSaleSchema = Joi.object({
   customerId: Joi.string().allow(null),
   branchId: Joi.string().required(),
-  items: Joi.array().items(
-    Joi.object({
-      productId: Joi.string().required(),
-      quantity: Joi.number().min(1).required(),
-      unitPrice: Joi.number().positive().required(),
-      batchId: Joi.string().allow(null, ''), // Link to specific batch
-      batchNumber: Joi.string().allow(''), // Keep for backward compatibility
-      expiryDate: Joi.string().allow(''),
-      discountPercentage: Joi.number().min(0).max(100).optional(), // Item-level discount
-      discountAmount: Joi.number().min(0).optional(), // Item-level discount amount
-      totalPrice: Joi.number().min(0).optional() // Item total after discount
-    })
-  ).min(1).required(),
-  paymentMethod: Joi.string().valid('CASH', 'CARD', 'MOBILE', 'BANK_TRANSFER').required(),
+  items: Joi.array().items(saleItemSchema).min(1).required(),
+  paymentMethod: Joi.string().valid(...PAYMENT_METHODS),
+  payments: Joi.array().items(salePaymentSchema).min(1),
   paymentStatus: Joi.string().valid('PENDING', 'COMPLETED', 'FAILED', 'REFUNDED').optional(),
   discountAmount: Joi.number().min(0).default(0),
   discountPercentage: Joi.number().min(0).max(100).default(0),
-  saleDate: Joi.date().optional()
+  saleDate: Joi.date().optional(),
+  acknowledgedWarnings: Joi.array().items(Joi.string()).optional() // Interaction warning codes the pharmacist accepted
+}).or('paymentMethod', 'payments');
+
+const validateSaleSchema = Joi.object({
+  customerId: Joi.string().allow(null, ''),
+  items: Joi.array().items(Joi.object({
+    productId: Joi.string().required()
+  }).unknown(true)).min(1).required()
+}).unknown(true);
+
+const holdSaleSchema = Joi.object({
+  customerId: Joi.string().allow(null),
+  branchId: Joi.string().required(),
+  items: Joi.array().items(saleItemSchema).min(1).required(),
+  discountAmount: Joi.number().min(0).default(0),
+  discountPercentage: Joi.number().min(0).max(100).default(0),
+  holdNote: Joi.string().allow(null, '').max(200).optional()
+});
+
+const updateHeldSaleSchema = holdSaleSchema.keys({
+  branchId: Joi.string().optional() // A parked cart stays in the branch it was parked in
+});
+
+const voidSaleSchema = Joi.object({
+  reason: Joi.string().trim().min(3).max(500).required()
+});
+
+const finalizeHeldSaleSchema = Joi.object({
+  paymentMethod: Joi.string().valid(...PAYMENT_METHODS),
+  payments: Joi.array().items(salePaymentSchema).min(1),
+  acknowledgedWarnings: Joi.array().items(Joi.string()).optional()
+}).or('paymentMethod', 'payments');
+
+// Relations returned with a single sale
+const saleDetailInclude = Prisma.validator<Prisma.SaleInclude>()({
+  customer: {
+    select: {
+      id: true,
+      name: true,
+      phone: true,
+      totalPurchases: true,
+      loyaltyPoints: true,
+      isVIP: true,
+      lastVisit: true
+    }
+  },
+  user: {
+    select: {
+      id: true,
+      name: true,
+      username: true
+    }
+  },
+  branch: {
+    select: {
+      id: true,
+      name: true,
+    }
+  },
+  items: {
+    include: {
+      product: {
+        select: {
+          id: true,
+          name: true,
+          barcode: true
+        }
+      },
+      promotion: {
+        select: {
+          id: true,
+          name: true,
+          type: true
+        }
+      },
+      batchAllocations: {
+        select: {
+          batchId: true,
+          quantity: true,
+          returnedQuantity: true,
+          batch: {
+            select: {
+              batchNo: true,
+              expireDate: true
+            }
+          }
+        }
+      }
+    }
+  },
+  receipts: {
+    select: {
+      id: true,
+      receiptNumber: true,
+      printedAt: true
+    }
+  },
+  payments: true
 });
 
+interface BatchAllocationRules {
+  policy: string; // FEFO, FIFO or MANUAL
+  expiryBlockDays: number;
+}
+
+interface SaleTotals {
+  itemDiscounts: number[]; // Item-level discount per line, in the same order as the items
+  promotions: (AppliedPromotion | null)[]; // Promotion applied to each line, if any
+  subtotal: number;
+  discountAmount: number;
+  taxAmount: number;
+  totalAmount: number;
+}
+
+/**
+ * Get the sales tax rate for the current admin group (0 when not configured)
+ */
+const getSaleTaxRate = async (prisma: PrismaClient, req: AuthRequest): Promise<number> => {
+  try {
+    return await getNumericSetting(prisma, req.user?.createdBy || req.user?.id, 'defaultTax', 0);
+  } catch (error) {
+    console.warn('Could not fetch tax rate from settings, using default:', error);
+    return 0; // Tax disabled - set to 0
+  }
+};
+
+/**
+ * Promotions that apply to a cart, priced on the server
+ */
+const getCartPromotions = async (prisma: PrismaClient, req: AuthRequest, items: SaleItemData[], branchId: string, customerId?: string | null) => {
+  return evaluatePromotions(prisma, {
+    items,
+    branchId,
+    customerId,
+    createdBy: req.user?.createdBy || req.user?.id
+  });
+};
+
+/**
+ * Calculate totals with item-level discounts
+ * For each item: calculate subtotal, apply item discount, then sum
+ * A line priced by a promotion gets the promotion's discount instead of a manual one
+ */
+const calculateSaleTotals = (
+  items: SaleItemData[],
+  globalDiscount: number,
+  taxRate: number,
+  promotions: (AppliedPromotion | null)[] = []
+): SaleTotals => {
+  const itemDiscounts = items.map((item, index) => {
+    const itemSubtotal = item.quantity * item.unitPrice;
+
+    const promotion = promotions[index];
+    if (promotion) {
+      return promotion.discount;
+    }
+
+    // If totalPrice is provided (already includes item discount), use it directly
+    if (item.totalPrice !== undefined && item.totalPrice >= 0) {
+      return Math.max(0, itemSubtotal - item.totalPrice);
+    }
+
+    // Otherwise, calculate from unitPrice and discounts
+    if (item.discountPercentage && item.discountPercentage > 0) {
+      return itemSubtotal * (item.discountPercentage / 100);
+    } else if (item.discountAmount && item.discountAmount > 0) {
+      return item.discountAmount;
+    }
+
+    return 0;
+  });
+
+  const subtotal = items.reduce((sum, item, index) => sum + item.quantity * item.unitPrice - itemDiscounts[index], 0);
+  const discountAmount = globalDiscount || 0; // Global discount
+  const subtotalAfterDiscount = subtotal - discountAmount;
+  const taxAmount = subtotalAfterDiscount * (taxRate / 100); // Tax on discounted amount
+  const totalAmount = subtotalAfterDiscount + taxAmount;
+
+  return {
+    itemDiscounts,
+    promotions: items.map((_, index) => promotions[index] || null),
+    subtotal,
+    discountAmount,
+    taxAmount,
+    totalAmount
+  };
+};
+
+/**
+ * Resolve tenders for a sale (a single paymentMethod pays the whole total)
+ */
+const resolveSaleTenders = (totalAmount: number, data: FinalizeHeldSaleData): ResolvedTenders => {
+  return resolveTenders(
+    totalAmount,
+    data.payments && data.payments.length > 0
+      ? data.payments
+      : [{ method: data.paymentMethod as string, amount: totalAmount }]
+  );
+};
+
+/**
+ * Use selected company/branch context if available, otherwise the provided branchId
+ */
+const resolveSaleBranch = async (tx: Prisma.TransactionClient, req: AuthRequest, branchId: string) => {
+  if (req.user?.selectedCompanyId && req.user?.selectedBranchId) {
+    console.log('🏢 Using selected company/branch context for sale:', { companyId: req.user.selectedCompanyId, branchId: req.user.selectedBranchId });
+    return { companyId: req.user.selectedCompanyId, branchId: req.user.selectedBranchId };
+  }
+
+  const branch = await tx.branch.findUnique({
+    where: { id: branchId },
+    select: { companyId: true }
+  });
+
+  if (!branch) {
+    throw new Error('Branch not found');
+  }
+
+  console.log('🏢 Using provided branch context for sale:', { companyId: branch.companyId, branchId });
+  return { companyId: branch.companyId, branchId };
+};
+
+const parseExpiryDate = (expiryDate?: string | null): Date | null => {
+  if (!expiryDate || expiryDate === 'Invalid Date') return null;
+  const date = new Date(expiryDate);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+/**
+ * Interaction and duplicate-ingredient warnings for a basket, including the
+ * customer's recent purchases when the admin has history checks switched on
+ */
+const getCheckoutWarnings = async (prisma: PrismaClient, req: AuthRequest, productIds: string[], customerId?: string | null) => {
+  const createdBy = req.user?.createdBy || req.user?.id;
+  const historyDays = await getNumericSetting(prisma, createdBy, 'interactionHistoryDays', 0);
+
+  return evaluateCheckoutWarnings(prisma, {
+    productIds: Array.from(new Set(productIds)),
+    customerId,
+    createdBy,
+    historyDays
+  });
+};
+
+/**
+ * What is stored on the sale for the warnings the pharmacist accepted
+ */
+const acknowledgedWarningFields = (warnings: CheckoutWarning[], userId: string) => warnings.length > 0
+  ? {
+    acknowledgedWarnings: JSON.stringify(warnings.map(({ code, severity, message }) => ({ code, severity, message }))),
+    warningsAcknowledgedBy: userId
+  }
+  : {};
+
+/**
+ * Batch allocation policy of a branch and how close to expiry stock can still be sold
+ */
+const getBatchAllocationRules = async (tx: Prisma.TransactionClient, req: AuthRequest, branchId: string): Promise<BatchAllocationRules> => {
+  const [branch, expiryBlockDays] = await Promise.all([
+    tx.branch.findUnique({
+      where: { id: branchId },
+      select: { batchAllocationPolicy: true }
+    }),
+    getNumericSetting(tx, req.user?.createdBy || req.user?.id, 'expiryBlockDays', 0)
+  ]);
+
+  return {
+    policy: branch?.batchAllocationPolicy || 'FEFO',
+    expiryBlockDays
+  };
+};
+
+/**
+ * Take stock for a sale line from its batches, writing a ledger row per batch
+ * @returns the batches the stock was taken from
+ */
+const deductSaleItemStock = async (
+  tx: Prisma.TransactionClient,
+  item: SaleItemData,
+  branchId: string,
+  saleId: string,
+  createdBy: string,
+  rules: BatchAllocationRules
+): Promise<BatchAllocation[]> => {
+  const product = await tx.product.findUnique({
+    where: { id: item.productId }
+  });
+
+  if (!product) {
+    throw new Error(`Product with ID ${item.productId} not found`);
+  }
+
+  const allocations = await allocateSaleStock(tx, product.name, {
+    productId: item.productId,
+    branchId,
+    quantity: item.quantity,
+    policy: rules.policy,
+    expiryBlockDays: rules.expiryBlockDays,
+    requested: item.batchAllocations && item.batchAllocations.length > 0
+      ? item.batchAllocations
+      : [{ batchId: item.batchId, batchNumber: item.batchNumber, quantity: item.quantity }],
+    movement: {
+      type: 'OUT',
+      sourceType: 'SALE',
+      sourceId: saleId,
+      reason: 'Sale',
+      reference: saleId,
+      createdBy
+    }
+  });
+
+  return allocations;
+};
+
+/**
+ * Record which batches a sale line was sold from and what the stock cost. The
+ * line's own batch fields are set from the first batch taken, whatever the
+ * till asked for.
+ */
+const recordBatchAllocations = async (
+  tx: Prisma.TransactionClient,
+  saleItem: { id: string; productId: string },
+  allocations: BatchAllocation[],
+  createdBy: string,
+  valuationMethod: string
+) => {
+  const [batches, product] = await Promise.all([
+    tx.batch.findMany({
+      where: { id: { in: allocations.map(allocation => allocation.batchId) } },
+      select: { id: true, batchNo: true, expireDate: true, purchasePrice: true, landedCost: true }
+    }),
+    tx.product.findUniqueOrThrow({ where: { id: saleItem.productId }, select: { averageCost: true } })
+  ]);
+  const cost = costSaleAllocations(
+    allocations.map(allocation => ({
+      quantity: allocation.quantity,
+      batch: batches.find(batch => batch.id === allocation.batchId)!
+    })),
+    valuationMethod,
+    product.averageCost
+  );
+
+  await tx.saleItemBatch.createMany({
+    data: allocations.map((allocation, index) => ({
+      saleItemId: saleItem.id,
+      batchId: allocation.batchId,
+      quantity: allocation.quantity,
+      unitCost: cost.allocationUnitCosts[index],
+      createdBy
+    }))
+  });
+
+  // Cost is kept as it was at checkout so that later purchases do not change past margins
+  const firstBatch = batches.find(batch => batch.id === allocations[0].batchId)!;
+  await tx.saleItem.update({
+    where: { id: saleItem.id },
+    data: {
+      batchId: firstBatch.id,
+      batchNumber: firstBatch.batchNo,
+      expiryDate: firstBatch.expireDate,
+      unitCost: cost.unitCost,
+      costAmount: cost.costAmount
+    }
+  });
+};
+
+/**
+ * Record tenders, customer stats, loyalty points, the receipt and any part
+ * put on the customer's account once a sale is paid
+ */
+const settleSale = async (
+  tx: Prisma.TransactionClient,
+  params: {
+    saleId: string;
+    branchId: string;
+    customerId?: string | null;
+    totalAmount: number;
+    tenders: ResolvedTenders;
+    userId: string;
+    createdBy: string;
+    deviceId?: string | null;
+  }
+) => {
+  // Record each tender against the sale
+  for (const tender of params.tenders.tenders) {
+    await tx.salePayment.create({
+      data: {
+        saleId: params.saleId,
+        ...tender,
+        createdBy: params.createdBy
+      }
+    });
+  }
+
+  // Update customer stats if customer exists
+  if (params.customerId) {
+    await tx.customer.update({
+      where: { id: params.customerId },
+      data: {
+        totalPurchases: {
+          increment: params.totalAmount
+        },
+        lastVisit: new Date()
+      }
+    });
+  }
+
+  // Points tendered are redeemed and the sale's points earned (after totals, so the tier is current)
+  await settleSaleLoyalty(tx, params);
+
+  // Next gapless receipt number for the branch and fiscal year
+  const issued = await issueDocumentNumber(tx, {
+    branchId: params.branchId,
+    documentType: 'RECEIPT',
+    deviceId: params.deviceId,
+    createdBy: params.createdBy
+  });
+
+  const receipt = await tx.receipt.create({
+    data: {
+      saleId: params.saleId,
+      userId: params.userId,
+      branchId: params.branchId,
+      createdBy: params.createdBy,
+      receiptNumber: issued.documentNumber,
+      sequenceId: issued.sequenceId,
+      sequenceNumber: issued.sequenceNumber,
+      fiscalYear: issued.fiscalYear,
+      deviceId: params.deviceId || null
+    }
+  });
+
+  // What was not paid now goes on the customer's account, within their credit limit
+  const onAccount = params.tenders.tenders
+    .filter(tender => tender.method === ACCOUNT_TENDER)
+    .reduce((sum, tender) => sum + tender.amount, 0);
+  if (onAccount > 0) {
+    await chargeSaleToAccount(tx, {
+      saleId: params.saleId,
+      customerId: params.customerId,
+      branchId: params.branchId,
+      amount: onAccount,
+      reference: receipt.receiptNumber,
+      createdBy: params.createdBy
+    });
+  }
+
+  return receipt;
+};
+
+/**
+ * Mark parked carts that are past their expiry time as EXPIRED
+ */
+const expireHeldSales = async (prisma: PrismaClient, where: any) => {
+  await prisma.sale.updateMany({
+    where: {
+      ...where,
+      status: 'HELD',
+      holdExpiresAt: { lt: new Date() }
+    },
+    data: {
+      status: 'EXPIRED'
+    }
+  });
+};
+
+/**
+ * Sale item rows for a parked cart (no batch stock is taken until finalization)
+ */
+const buildHeldSaleItems = (items: SaleItemData[], totals: SaleTotals, createdBy: string) => {
+  return items.map((item, index) => ({
+    productId: item.productId,
+    batchId: item.batchId || null,
+    createdBy,
+    quantity: item.quantity,
+    unitPrice: item.unitPrice,
+    totalPrice: item.quantity * item.unitPrice,
+    discountAmount: totals.itemDiscounts[index],
+    promotionId: totals.promotions[index]?.promotionId || null,
+    promotionDiscount: totals.promotions[index]?.discount || 0,
+    batchNumber: item.batchNumber || null,
+    expiryDate: parseExpiryDate(item.expiryDate),
+    prescriptionItemId: item.prescriptionItemId || null,
+    daysSupply: item.daysSupply || null,
+    heldBatchAllocations: item.batchAllocations && item.batchAllocations.length > 0 ? JSON.stringify(item.batchAllocations) : null,
+    ...lineUnitData(item)
+  }));
+};
+
+/**
+ * Check that every product in a cart exists in the branch
+ */
+const findMissingProducts = async (prisma: PrismaClient, items: SaleItemData[], branchId: string): Promise<string[]> => {
+  const productIds = Array.from(new Set(items.map(item => item.productId)));
+  const products = await prisma.product.findMany({
+    where: { id: { in: productIds }, branchId },
+    select: { id: true }
+  });
+  const found = new Set(products.map(product => product.id));
+  return productIds.filter(productId => !found.has(productId));
+};
+
+/**
+ * Find a parked cart the current user is allowed to see
+ */
+const findHeldSale = async (prisma: PrismaClient, req: AuthRequest, id: string) => {
+  return prisma.sale.findFirst({
+    where: buildBranchWhereClause(req, { id, status: { in: HELD_SALE_STATUSES } }),
+    include: { items: true }
+  });
+};
+
 export const getSales = async (req: AuthRequest, res: Response) => {
   try {
     // 🔄 PULL LATEST FROM LIVE DATABASE FIRST
@@ -49,7 +591,8 @@ export const getSales = async (req: AuthRequest, res: Response) => {
       endDate = '',
       branchId = '',
       customerId = '',
-      paymentMethod = ''
+      paymentMethod = '',
+      status = ''
     } = req.query;
 
     const skip = (Number(page) - 1) * Number(limit);
@@ -67,8 +610,15 @@ export const getSales = async (req: AuthRequest, res: Response) => {
       where.customerId = customerId;
     }
 
+    // Parked carts are listed through /sales/held unless asked for explicitly
+    where.status = status ? status : { notIn: HELD_SALE_STATUSES };
+
     if (paymentMethod) {
-      where.paymentMethod = paymentMethod;
+      // Match split-tender sales that include this method as well
+      where.OR = [
+        { paymentMethod },
+        { payments: { some: { method: paymentMethod as string } } }
+      ];
     }
 
     if (startDate || endDate) {
@@ -129,7 +679,8 @@ export const getSales = async (req: AuthRequest, res: Response) => {
               receiptNumber: true,
               printedAt: true
             }
-          }
+          },
+          payments: true
         },
         orderBy: { createdAt: 'desc' }
       }),
@@ -202,7 +753,8 @@ export const getSale = async (req: Request, res: Response) => {
             receiptNumber: true,
             printedAt: true
           }
-        }
+        },
+        payments: true
       }
     });
 
@@ -226,31 +778,94 @@ export const getSale = async (req: Request, res: Response) => {
   }
 };
 
-export const getSaleByReceiptNumber = async (req: Request, res: Response) => {
+// Cost of goods sold and gross profit of a sale, valued the way its company values stock
+export const getSaleCost = async (req: AuthRequest, res: Response) => {
   try {
     const prisma = await getPrisma();
-    const { receiptNumber } = req.params;
+    const { id } = req.params;
 
-    console.log('Looking up receipt number:', receiptNumber);
+    const sale = await prisma.sale.findFirst({
+      where: buildBranchWhereClause(req, { id }),
+      include: {
+        items: {
+          include: {
+            product: { select: { id: true, name: true, averageCost: true } },
+            batch: { select: { purchasePrice: true, landedCost: true } },
+            batchAllocations: {
+              include: { batch: { select: { purchasePrice: true, landedCost: true } } }
+            }
+          }
+        }
+      }
+    });
 
-    // First, let's see what receipt numbers exist in the database
-    const allReceipts = await prisma.receipt.findMany({
-      select: {
-        receiptNumber: true,
-        saleId: true
-      },
-      take: 10
+    if (!sale) {
+      return res.status(404).json({
+        success: false,
+        message: 'Sale not found'
+      });
+    }
+
+    const valuationMethod = await getValuationMethod(prisma, sale.companyId);
+    const cogs = calculateSaleCogs(sale.items.map(item => ({
+      saleItemId: item.id,
+      productId: item.productId,
+      quantity: item.quantity,
+      refundedQuantity: item.refundedQuantity,
+      averageCost: item.product.averageCost,
+      unitCost: item.unitCost,
+      batch: item.batch,
+      allocations: item.batchAllocations
+    })), valuationMethod);
+
+    // Revenue of what was kept, i.e. net of refunded units
+    const lines = sale.items.map((item, index) => {
+      const line = cogs.lines[index];
+      const lineNet = item.quantity * item.unitPrice - item.discountAmount;
+      const revenue = item.quantity > 0 ? Math.round((lineNet / item.quantity) * line.quantity * 100) / 100 : 0;
+      return {
+        ...line,
+        productName: item.product.name,
+        revenue,
+        grossProfit: Math.round((revenue - line.cost) * 100) / 100
+      };
+    });
+    const revenue = Math.round(lines.reduce((sum, line) => sum + line.revenue, 0) * 100) / 100;
+
+    return res.json({
+      success: true,
+      data: {
+        saleId: sale.id,
+        valuationMethod,
+        lines,
+        revenue,
+        costOfGoodsSold: cogs.totalCost,
+        grossProfit: Math.round((revenue - cogs.totalCost) * 100) / 100
+      }
+    });
+  } catch (error) {
+    console.error('Get sale cost error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
     });
-    console.log('Available receipt numbers in database:', allReceipts);
+  }
+};
+
+export const getSaleByReceiptNumber = async (req: AuthRequest, res: Response) => {
+  try {
+    const prisma = await getPrisma();
+    const { receiptNumber } = req.params;
 
+    // Receipt numbers restart per branch, so the lookup is scoped to the branches the user can see
     const sale = await prisma.sale.findFirst({
-      where: {
+      where: buildBranchWhereClause(req, {
         receipts: {
           some: {
             receiptNumber: receiptNumber
           }
         }
-      },
+      }),
       include: {
         customer: {
           select: {
@@ -289,14 +904,15 @@ export const getSaleByReceiptNumber = async (req: Request, res: Response) => {
             receiptNumber: true,
             printedAt: true
           }
-        }
+        },
+        payments: true
       }
     });
 
     if (!sale) {
       return res.status(404).json({
         success: false,
-        message: `Sale not found for receipt number: ${receiptNumber}. Available receipts: ${allReceipts.map(r => r.receiptNumber).join(', ')}`
+        message: `Sale not found for receipt number: ${receiptNumber}`
       });
     }
 
@@ -313,6 +929,137 @@ export const getSaleByReceiptNumber = async (req: Request, res: Response) => {
   }
 };
 
+export const getSaleReceipt = async (req: AuthRequest, res: Response) => {
+  try {
+    const prisma = await getPrisma();
+    const { id } = req.params;
+    const format = String(req.query.format || 'text').toLowerCase() as ReceiptFormat;
+
+    if (!RECEIPT_FORMATS.includes(format)) {
+      return res.status(400).json({
+        success: false,
+        message: `Invalid receipt format. Must be one of: ${RECEIPT_FORMATS.join(', ')}`
+      });
+    }
+
+    const sale = await prisma.sale.findFirst({
+      where: buildBranchWhereClause(req, { id }),
+      include: {
+        customer: { select: { name: true } },
+        user: { select: { name: true } },
+        branch: { select: { name: true } },
+        items: {
+          include: {
+            product: { select: { name: true } },
+            batch: { select: { batchNo: true, expireDate: true } },
+            batchAllocations: {
+              include: { batch: { select: { batchNo: true, expireDate: true } } },
+              orderBy: { createdAt: 'asc' }
+            }
+          }
+        },
+        receipts: {
+          orderBy: { printedAt: 'asc' },
+          take: 1
+        },
+        payments: true
+      }
+    });
+
+    if (!sale) {
+      return res.status(404).json({
+        success: false,
+        message: 'Sale not found'
+      });
+    }
+
+    const receipt = sale.receipts[0];
+    if (!receipt) {
+      return res.status(404).json({
+        success: false,
+        message: 'No receipt has been issued for this sale'
+      });
+    }
+
+    // The first render is the original print; every later one is a reprint
+    const isReprint = receipt.lastPrintedAt !== null;
+    const printedReceipt = await prisma.receipt.update({
+      where: { id: receipt.id },
+      data: {
+        lastPrintedAt: new Date(),
+        ...(isReprint ? { reprintCount: { increment: 1 } } : {})
+      }
+    });
+
+    const settings = await getSettingValues(prisma, req.user?.createdBy || req.user?.id, [
+      'pharmacyName', 'pharmacyAddress', 'pharmacyPhone', 'pharmacyLicense', 'pharmacyTaxNumber'
+    ]);
+
+    const receiptData: ReceiptData = {
+      pharmacy: {
+        name: settings.pharmacyName || '',
+        address: settings.pharmacyAddress,
+        phone: settings.pharmacyPhone,
+        license: settings.pharmacyLicense,
+        taxNumber: settings.pharmacyTaxNumber
+      },
+      receiptNumber: receipt.receiptNumber,
+      date: sale.saleDate || sale.createdAt,
+      branchName: sale.branch.name,
+      cashierName: sale.user.name,
+      customerName: sale.customer?.name,
+      // A line sold from several batches is printed in base units, one row per batch
+      items: sale.items.flatMap(item => {
+        const allocations = item.batchAllocations.map(allocation => ({
+          quantity: allocation.quantity,
+          batchNumber: allocation.batch.batchNo,
+          expiryDate: allocation.batch.expireDate
+        }));
+        const splitByBatch = allocations.length > 1;
+        return splitReceiptItemByBatch({
+          name: item.unitName && !splitByBatch ? `${item.product.name} (${item.unitName})` : item.product.name,
+          quantity: splitByBatch ? item.quantity : item.unitQuantity ?? item.quantity,
+          unitPrice: item.unitName && !splitByBatch ? Math.round(item.unitPrice * item.unitFactor * 100) / 100 : item.unitPrice,
+          discountAmount: item.discountAmount,
+          batchNumber: item.batchNumber || item.batch?.batchNo,
+          expiryDate: item.expiryDate || item.batch?.expireDate
+        }, allocations);
+      }),
+      subtotal: sale.subtotal,
+      discountAmount: sale.discountAmount,
+      taxAmount: sale.taxAmount,
+      totalAmount: sale.totalAmount,
+      payments: sale.payments,
+      changeDue: sale.changeDue,
+      reprintCount: printedReceipt.reprintCount
+    };
+
+    const fileName = `receipt-${receipt.receiptNumber}`;
+    switch (format) {
+      case 'html':
+        res.type('html');
+        return res.send(renderReceiptHtml(receiptData));
+      case 'escpos':
+        res.type('application/octet-stream');
+        res.setHeader('Content-Disposition', `attachment; filename="${fileName}.bin"`);
+        return res.send(renderReceiptEscPos(receiptData));
+      case 'pdf':
+        res.type('application/pdf');
+        res.setHeader('Content-Disposition', `inline; filename="${fileName}.pdf"`);
+        return res.send(renderReceiptPdf(receiptData));
+      default:
+        res.type('text/plain');
+        return res.send(renderReceiptText(receiptData));
+    }
+  } catch (error) {
+    console.error('Get sale receipt error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
 export const getAvailableReceiptNumbers = async (req: Request, res: Response) => {
   try {
     const prisma = await getPrisma();
@@ -342,6 +1089,40 @@ export const getAvailableReceiptNumbers = async (req: Request, res: Response) =>
   }
 };
 
+/**
+ * Pre-check a basket for drug interactions and duplicate ingredients before payment
+ */
+export const validateSale = async (req: AuthRequest, res: Response) => {
+  try {
+    const prisma = await getPrisma();
+    const { error } = validateSaleSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const items: { productId: string }[] = req.body.items;
+    const warnings = await getCheckoutWarnings(prisma, req, items.map(item => item.productId), req.body.customerId);
+
+    return res.json({
+      success: true,
+      data: {
+        warnings,
+        requiresAcknowledgement: warnings.length > 0
+      }
+    });
+  } catch (error) {
+    console.error('Validate sale error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
 export const createSale = async (req: AuthRequest, res: Response) => {
   try {
     const prisma = await getPrisma();
@@ -356,89 +1137,58 @@ export const createSale = async (req: AuthRequest, res: Response) => {
       });
     }
 
-    const saleData: CreateSaleData = req.body;
-    const userId = (req as any).user.id;
-
-    // Get tax rate from settings
-    const currentAdminId = req.user?.createdBy || req.user?.id;
-    let taxRate = 0; // Tax disabled - set to 0
-
-    if (currentAdminId) {
-      try {
-        const taxSetting = await prisma.settings.findUnique({
-          where: {
-            createdBy_key: {
-              createdBy: currentAdminId,
-              key: 'defaultTax'
-            }
-          }
+    // Lines sold by the box or strip are converted to base units before pricing and stock
+    let saleData: CreateSaleData;
+    try {
+      saleData = { ...req.body, items: await resolveSaleItemUnits(prisma, req.body.items) };
+    } catch (unitError: any) {
+      if (unitError.statusCode) {
+        return res.status(unitError.statusCode).json({
+          success: false,
+          message: unitError.message
         });
-
-        if (taxSetting) {
-          taxRate = parseFloat(taxSetting.value);
-        }
-      } catch (error) {
-        console.warn('Could not fetch tax rate from settings, using default:', error);
       }
+      throw unitError;
     }
+    const userId = (req as any).user.id;
+    const createdBy = req.user?.createdBy || req.user?.id || 'default-admin-id';
 
-    // Calculate totals with item-level discounts
-    // For each item: calculate subtotal, apply item discount, then sum
-    const itemTotals = saleData.items.map(item => {
-      // If totalPrice is provided (already includes item discount), use it directly
-      if (item.totalPrice !== undefined && item.totalPrice >= 0) {
-        return item.totalPrice;
-      }
-
-      // Otherwise, calculate from unitPrice and discounts
-      const itemSubtotal = item.quantity * item.unitPrice;
-      let itemDiscountAmount = 0;
-
-      // Calculate item discount if provided
-      if (item.discountPercentage && item.discountPercentage > 0) {
-        itemDiscountAmount = itemSubtotal * (item.discountPercentage / 100);
-      } else if (item.discountAmount && item.discountAmount > 0) {
-        itemDiscountAmount = item.discountAmount;
-      }
+    const taxRate = await getSaleTaxRate(prisma, req);
+    const promotions = await getCartPromotions(prisma, req, saleData.items, req.user?.selectedBranchId || saleData.branchId, saleData.customerId);
+    const totals = calculateSaleTotals(saleData.items, saleData.discountAmount || 0, taxRate, promotions);
+    const { subtotal, discountAmount, taxAmount, totalAmount } = totals;
 
-      return itemSubtotal - itemDiscountAmount;
-    });
+    // Resolve split tenders (a single paymentMethod pays the whole total)
+    let tenders: ResolvedTenders;
+    try {
+      tenders = resolveSaleTenders(totalAmount, saleData);
+    } catch (tenderError) {
+      return res.status(400).json({
+        success: false,
+        message: tenderError instanceof Error ? tenderError.message : 'Invalid payments'
+      });
+    }
 
-    const subtotal = itemTotals.reduce((sum, total) => sum + total, 0);
-    const discountAmount = saleData.discountAmount || 0; // Global discount
-    const subtotalAfterDiscount = subtotal - discountAmount;
-    const taxAmount = subtotalAfterDiscount * (taxRate / 100); // Tax on discounted amount
-    const totalAmount = subtotalAfterDiscount + taxAmount;
+    // Interaction warnings must be accepted by the pharmacist before the sale goes through
+    const warnings = await getCheckoutWarnings(prisma, req, saleData.items.map(item => item.productId), saleData.customerId);
+    const unacknowledged = getUnacknowledgedWarnings(warnings, saleData.acknowledgedWarnings);
+    if (unacknowledged.length > 0) {
+      return res.status(409).json({
+        success: false,
+        message: 'Interaction warnings must be acknowledged by the pharmacist',
+        data: { warnings: unacknowledged }
+      });
+    }
 
     // Use transaction to ensure data consistency
     // Wrap in try-catch to handle transaction errors gracefully
     let result;
     try {
       result = await prisma.$transaction(async (tx) => {
-      // Use selected company/branch context if available, otherwise use the provided branchId
-      let targetCompanyId: string;
-      let targetBranchId: string;
-
-      if (req.user?.selectedCompanyId && req.user?.selectedBranchId) {
-        // Use selected company/branch context
-        targetCompanyId = req.user.selectedCompanyId;
-        targetBranchId = req.user.selectedBranchId;
-        console.log('🏢 Using selected company/branch context for sale:', { targetCompanyId, targetBranchId });
-      } else {
-        // Fallback to provided branchId
-        const branch = await tx.branch.findUnique({
-          where: { id: saleData.branchId },
-          select: { companyId: true }
-        });
-
-        if (!branch) {
-          throw new Error('Branch not found');
-        }
+      const target = await resolveSaleBranch(tx, req, saleData.branchId);
 
-        targetCompanyId = branch.companyId;
-        targetBranchId = saleData.branchId;
-        console.log('🏢 Using provided branch context for sale:', { targetCompanyId, targetBranchId });
-      }
+      // Prescription-only lines must be covered by a valid prescription
+      await dispensePrescriptionLines(tx, saleData.items);
 
       // Determine payment status and sale status
       const paymentStatus: PaymentStatus = (saleData.paymentStatus || 'COMPLETED') as PaymentStatus;
@@ -449,165 +1199,61 @@ export const createSale = async (req: AuthRequest, res: Response) => {
         data: {
           customerId: saleData.customerId,
           userId: userId,
-          branchId: targetBranchId,
-          companyId: targetCompanyId,
-          createdBy: req.user?.createdBy || req.user?.id || 'default-admin-id',
+          branchId: target.branchId,
+          companyId: target.companyId,
+          createdBy,
           subtotal,
           taxAmount,
           discountAmount: discountAmount,
           discountPercentage: saleData.discountPercentage || 0,
           totalAmount,
-          paymentMethod: saleData.paymentMethod,
+          paymentMethod: tenders.paymentMethod,
           paymentStatus: paymentStatus,
+          changeDue: tenders.changeDue,
           status: saleStatus,
-          saleDate: saleData.saleDate ? new Date(saleData.saleDate) : undefined
+          saleDate: saleData.saleDate ? new Date(saleData.saleDate) : undefined,
+          ...acknowledgedWarningFields(warnings, userId)
         }
       });
 
       // Create sale items and update stock
       const saleItems = [];
-      for (const item of saleData.items) {
-        // Check product availability
-        console.log(`Looking for product with ID: ${item.productId}`);
-        const product = await tx.product.findUnique({
-          where: { id: item.productId }
-        });
-
-        if (!product) {
-          // Get all products to see what IDs exist
-          const allProducts = await tx.product.findMany({
-            select: { id: true, name: true }
-          });
-          console.log('Available products:', allProducts);
-          throw new Error(`Product with ID ${item.productId} not found`);
-        }
+      const allocationRules = await getBatchAllocationRules(tx, req, target.branchId);
+      const valuationMethod = await getValuationMethod(tx, target.companyId);
+      for (const [index, item] of saleData.items.entries()) {
+        const allocations = await deductSaleItemStock(tx, item, target.branchId, sale.id, createdBy, allocationRules);
 
-        // Check stock availability through batches
-        const availableBatches = await tx.batch.findMany({
-          where: {
+        const saleItem = await tx.saleItem.create({
+          data: {
+            saleId: sale.id,
             productId: item.productId,
-            branchId: targetBranchId,
-            quantity: { gt: 0 },
-            isActive: true
-          },
-          orderBy: { expireDate: 'asc' } // FIFO - First In, First Out
-        });
-
-        const totalAvailableStock = availableBatches.reduce((sum: number, batch: any) => sum + batch.quantity, 0);
-
-        if (totalAvailableStock < item.quantity) {
-          throw new Error(`Insufficient stock for ${product.name}. Available: ${totalAvailableStock}, Required: ${item.quantity}`);
-        }
-
-        // Handle batch tracking
-        let batchId = null;
-        if (item.batchId) {
-          // Use provided batch ID
-          batchId = item.batchId;
-
-          // Update batch quantity
-          await tx.batch.update({
-            where: { id: item.batchId },
-            data: {
-              quantity: {
-                decrement: item.quantity
-              }
-            }
-          });
-        } else if (item.batchNumber) {
-          // Find batch by batch number and product
-          const batch = await tx.batch.findFirst({
-            where: {
-              batchNo: item.batchNumber,
-              productId: item.productId,
-              branchId: targetBranchId,
-              quantity: {
-                gte: item.quantity
-              }
-            },
-            orderBy: { expireDate: 'asc' } // FIFO - First In, First Out
-          });
-
-          if (batch) {
-            batchId = batch.id;
-
-            // Update batch quantity
-            await tx.batch.update({
-              where: { id: batch.id },
-              data: {
-                quantity: {
-                  decrement: item.quantity
-                }
-              }
-            });
-          }
-        }
-
-        // Create sale item
-        const saleItem = await tx.saleItem.create({
-          data: {
-            saleId: sale.id,
-            productId: item.productId,
-            batchId: batchId,
-            createdBy: req.user?.createdBy || req.user?.id || 'default-admin-id',
+            batchId: allocations[0].batchId, // First batch; every batch is in batchAllocations
+            createdBy,
             quantity: item.quantity,
             unitPrice: item.unitPrice,
             totalPrice: item.quantity * item.unitPrice,
-            batchNumber: item.batchNumber,
-            expiryDate: (() => {
-              if (!item.expiryDate || item.expiryDate === 'Invalid Date') return null;
-              const date = new Date(item.expiryDate);
-              return isNaN(date.getTime()) ? null : date;
-            })()
+            discountAmount: totals.itemDiscounts[index],
+            promotionId: totals.promotions[index]?.promotionId || null,
+            promotionDiscount: totals.promotions[index]?.discount || 0,
+            prescriptionItemId: item.prescriptionItemId || null,
+            daysSupply: item.daysSupply || null,
+            ...lineUnitData(item)
           }
         });
+        await recordBatchAllocations(tx, saleItem, allocations, createdBy, valuationMethod);
 
         saleItems.push(saleItem);
-
-        // Update product stock
-        // Stock is now managed through batches, no need to update product stock directly
-
-        // Create stock movement
-        await tx.stockMovement.create({
-          data: {
-            productId: item.productId,
-            type: 'OUT',
-            quantity: item.quantity,
-            reason: 'Sale',
-            reference: sale.id,
-            createdBy: req.user?.createdBy || req.user?.id || 'default-admin-id'
-          }
-        });
       }
 
-      // Update customer stats if customer exists
-      if (saleData.customerId) {
-        await tx.customer.update({
-          where: { id: saleData.customerId },
-          data: {
-            totalPurchases: {
-              increment: totalAmount
-            },
-            loyaltyPoints: {
-              increment: Math.floor(totalAmount / 100) // 1 point per 100 PKR
-            },
-            lastVisit: new Date()
-          }
-        });
-      }
-
-      // Generate receipt number
-      const receiptNumber = `RCP-${new Date().getFullYear()}${String(new Date().getMonth() + 1).padStart(2, '0')}${String(new Date().getDate()).padStart(2, '0')}-${String(Math.floor(Math.random() * 1000)).padStart(3, '0')}`;
-
-      // Create receipt
-      const receipt = await tx.receipt.create({
-        data: {
-          saleId: sale.id,
-          userId: userId,
-          branchId: saleData.branchId,
-          createdBy: req.user?.createdBy || req.user?.id || 'default-admin-id',
-          receiptNumber
-        }
+      const receipt = await settleSale(tx, {
+        saleId: sale.id,
+        branchId: target.branchId,
+        customerId: saleData.customerId,
+        totalAmount,
+        tenders,
+        userId,
+        createdBy,
+        deviceId: req.headers['x-device-id'] as string
       });
 
       return { sale, saleItems, receipt };
@@ -625,6 +1271,13 @@ export const createSale = async (req: AuthRequest, res: Response) => {
           error: 'TRANSACTION_TIMEOUT'
         });
       }
+      // Receipt numbering problems (e.g. no reserved range offline)
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          message: error.message
+        });
+      }
       // Re-throw other errors to be handled by outer catch
       throw error;
     }
@@ -632,16 +1285,167 @@ export const createSale = async (req: AuthRequest, res: Response) => {
     // Fetch complete sale data with relations
     const completeSale = await prisma.sale.findUnique({
       where: { id: result.sale.id },
+      include: saleDetailInclude
+    });
+
+    if (!completeSale) {
+      return res.status(500).json({
+        success: false,
+        message: 'Failed to fetch complete sale data'
+      });
+    }
+
+    console.log('Complete sale data:', completeSale);
+    console.log('Customer in sale:', completeSale.customer);
+
+    // Send real-time notification to all users of the same admin
+    const adminId = req.user?.createdBy || req.user?.id;
+    if (adminId) {
+      notifySaleChange(adminId, 'created', completeSale);
+    }
+
+    // 🔄 IMMEDIATE BIDIRECTIONAL SYNC
+    syncAfterOperation('sale', 'create', completeSale).catch(err => {
+      console.error('[Sync] Sale create sync failed:', err.message);
+    });
+
+    return res.status(201).json({
+      success: true,
+      data: {
+        ...completeSale,
+        receiptNumber: result.receipt.receiptNumber,
+        changeDue: tenders.changeDue
+      }
+    });
+  } catch (error) {
+    console.error('Create sale error:', error);
+    return res.status(500).json({
+      success: false,
+      message: error instanceof Error ? error.message : 'Internal server error'
+    });
+  }
+};
+
+export const holdSale = async (req: AuthRequest, res: Response) => {
+  try {
+    const prisma = await getPrisma();
+    const { error, value } = holdSaleSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    let items: SaleItemData[];
+    try {
+      items = await resolveSaleItemUnits(prisma, value.items);
+    } catch (unitError: any) {
+      if (unitError.statusCode) {
+        return res.status(unitError.statusCode).json({
+          success: false,
+          message: unitError.message
+        });
+      }
+      throw unitError;
+    }
+    const holdData: HoldSaleData = { ...value, items };
+    const userId = (req as any).user.id;
+    const createdBy = req.user?.createdBy || req.user?.id || 'default-admin-id';
+
+    const target = await resolveSaleBranch(prisma, req, holdData.branchId);
+
+    const missingProducts = await findMissingProducts(prisma, holdData.items, target.branchId);
+    if (missingProducts.length > 0) {
+      return res.status(400).json({
+        success: false,
+        message: `Products not found in this branch: ${missingProducts.join(', ')}`
+      });
+    }
+
+    const taxRate = await getSaleTaxRate(prisma, req);
+    const promotions = await getCartPromotions(prisma, req, holdData.items, target.branchId, holdData.customerId);
+    const totals = calculateSaleTotals(holdData.items, holdData.discountAmount || 0, taxRate, promotions);
+    const expiryMinutes = await getNumericSetting(prisma, req.user?.createdBy || req.user?.id, 'heldSaleExpiryMinutes');
+    const heldAt = new Date();
+
+    // Parking a cart takes no stock and no payment; both happen on finalization
+    const heldSale = await prisma.sale.create({
+      data: {
+        customerId: holdData.customerId,
+        userId,
+        branchId: target.branchId,
+        companyId: target.companyId,
+        createdBy,
+        subtotal: totals.subtotal,
+        taxAmount: totals.taxAmount,
+        discountAmount: totals.discountAmount,
+        discountPercentage: holdData.discountPercentage || 0,
+        totalAmount: totals.totalAmount,
+        paymentMethod: 'PENDING',
+        paymentStatus: 'PENDING',
+        status: 'HELD',
+        heldAt,
+        holdExpiresAt: new Date(heldAt.getTime() + expiryMinutes * 60 * 1000),
+        holdNote: holdData.holdNote || null,
+        items: {
+          create: buildHeldSaleItems(holdData.items, totals, createdBy)
+        }
+      },
+      include: saleDetailInclude
+    });
+
+    const adminId = req.user?.createdBy || req.user?.id;
+    if (adminId) {
+      notifySaleChange(adminId, 'created', heldSale);
+    }
+
+    // 🔄 IMMEDIATE BIDIRECTIONAL SYNC
+    syncAfterOperation('sale', 'create', heldSale).catch(err => {
+      console.error('[Sync] Held sale create sync failed:', err.message);
+    });
+
+    return res.status(201).json({
+      success: true,
+      data: heldSale,
+      message: 'Sale held successfully'
+    });
+  } catch (error) {
+    console.error('Hold sale error:', error);
+    return res.status(500).json({
+      success: false,
+      message: error instanceof Error ? error.message : 'Internal server error'
+    });
+  }
+};
+
+export const getHeldSales = async (req: AuthRequest, res: Response) => {
+  try {
+    const prisma = await getPrisma();
+    const { branchId = '' } = req.query;
+
+    const where: any = buildBranchWhereClause(req, {});
+
+    // Parked carts belong to the till's branch
+    const targetBranchId = (branchId as string) || req.user?.selectedBranchId || req.user?.branchId;
+    if (targetBranchId && req.user?.role !== 'MANAGER') {
+      where.branchId = targetBranchId;
+    }
+
+    await expireHeldSales(prisma, where);
+
+    const heldSales = await prisma.sale.findMany({
+      where: {
+        ...where,
+        status: 'HELD'
+      },
       include: {
         customer: {
           select: {
             id: true,
             name: true,
-            phone: true,
-            totalPurchases: true,
-            loyaltyPoints: true,
-            isVIP: true,
-            lastVisit: true
+            phone: true
           }
         },
         user: {
@@ -651,63 +1455,341 @@ export const createSale = async (req: AuthRequest, res: Response) => {
             username: true
           }
         },
-        branch: {
-          select: {
-            id: true,
-            name: true,
-          }
-        },
         items: {
           include: {
             product: {
               select: {
                 id: true,
-                name: true,
-                barcode: true
+                name: true
               }
             }
           }
-        },
-        receipts: {
-          select: {
-            id: true,
-            receiptNumber: true,
-            printedAt: true
-          }
         }
+      },
+      orderBy: { heldAt: 'desc' }
+    });
+
+    return res.json({
+      success: true,
+      data: { heldSales }
+    });
+  } catch (error) {
+    console.error('Get held sales error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+export const resumeHeldSale = async (req: AuthRequest, res: Response) => {
+  try {
+    const prisma = await getPrisma();
+    const { id } = req.params;
+
+    await expireHeldSales(prisma, { id });
+
+    const heldSale = await prisma.sale.findFirst({
+      where: buildBranchWhereClause(req, { id, status: { in: HELD_SALE_STATUSES } }),
+      include: saleDetailInclude
+    });
+
+    if (!heldSale) {
+      return res.status(404).json({
+        success: false,
+        message: 'Held sale not found'
+      });
+    }
+
+    if (heldSale.status === 'EXPIRED') {
+      return res.status(400).json({
+        success: false,
+        message: 'Held sale has expired'
+      });
+    }
+
+    return res.json({
+      success: true,
+      data: heldSale
+    });
+  } catch (error) {
+    console.error('Resume held sale error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+export const updateHeldSale = async (req: AuthRequest, res: Response) => {
+  try {
+    const prisma = await getPrisma();
+    const { id } = req.params;
+    const { error, value } = updateHeldSaleSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    await expireHeldSales(prisma, { id });
+
+    const heldSale = await findHeldSale(prisma, req, id);
+    if (!heldSale) {
+      return res.status(404).json({
+        success: false,
+        message: 'Held sale not found'
+      });
+    }
+
+    if (heldSale.status === 'EXPIRED') {
+      return res.status(400).json({
+        success: false,
+        message: 'Held sale has expired'
+      });
+    }
+
+    let items: SaleItemData[];
+    try {
+      items = await resolveSaleItemUnits(prisma, value.items);
+    } catch (unitError: any) {
+      if (unitError.statusCode) {
+        return res.status(unitError.statusCode).json({
+          success: false,
+          message: unitError.message
+        });
       }
+      throw unitError;
+    }
+    const holdData: HoldSaleData = { ...value, items };
+    const createdBy = req.user?.createdBy || req.user?.id || 'default-admin-id';
+
+    const missingProducts = await findMissingProducts(prisma, holdData.items, heldSale.branchId);
+    if (missingProducts.length > 0) {
+      return res.status(400).json({
+        success: false,
+        message: `Products not found in this branch: ${missingProducts.join(', ')}`
+      });
+    }
+
+    const taxRate = await getSaleTaxRate(prisma, req);
+    const promotions = await getCartPromotions(prisma, req, holdData.items, heldSale.branchId, holdData.customerId);
+    const totals = calculateSaleTotals(holdData.items, holdData.discountAmount || 0, taxRate, promotions);
+    const expiryMinutes = await getNumericSetting(prisma, req.user?.createdBy || req.user?.id, 'heldSaleExpiryMinutes');
+
+    // Replace the cart contents; working on a cart restarts its expiry clock
+    const updatedSale = await prisma.$transaction(async (tx) => {
+      await tx.saleItem.deleteMany({
+        where: { saleId: id }
+      });
+
+      return tx.sale.update({
+        where: { id },
+        data: {
+          customerId: holdData.customerId || null,
+          subtotal: totals.subtotal,
+          taxAmount: totals.taxAmount,
+          discountAmount: totals.discountAmount,
+          discountPercentage: holdData.discountPercentage || 0,
+          totalAmount: totals.totalAmount,
+          holdExpiresAt: new Date(Date.now() + expiryMinutes * 60 * 1000),
+          holdNote: holdData.holdNote !== undefined ? holdData.holdNote || null : heldSale.holdNote,
+          items: {
+            create: buildHeldSaleItems(holdData.items, totals, createdBy)
+          }
+        },
+        include: saleDetailInclude
+      });
+    }, {
+      timeout: 60000 // 60 seconds timeout for long-running transactions
     });
 
-    if (!completeSale) {
-      return res.status(500).json({
+    const adminId = req.user?.createdBy || req.user?.id;
+    if (adminId) {
+      notifySaleChange(adminId, 'updated', updatedSale);
+    }
+
+    // 🔄 IMMEDIATE BIDIRECTIONAL SYNC
+    syncAfterOperation('sale', 'update', updatedSale).catch(err => {
+      console.error('[Sync] Held sale update sync failed:', err.message);
+    });
+
+    return res.json({
+      success: true,
+      data: updatedSale
+    });
+  } catch (error) {
+    console.error('Update held sale error:', error);
+    return res.status(500).json({
+      success: false,
+      message: error instanceof Error ? error.message : 'Internal server error'
+    });
+  }
+};
+
+export const finalizeHeldSale = async (req: AuthRequest, res: Response) => {
+  try {
+    const prisma = await getPrisma();
+    const { id } = req.params;
+    const { error } = finalizeHeldSaleSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
         success: false,
-        message: 'Failed to fetch complete sale data'
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
       });
     }
 
-    console.log('Complete sale data:', completeSale);
-    console.log('Customer in sale:', completeSale.customer);
+    await expireHeldSales(prisma, { id });
 
-    // Send real-time notification to all users of the same admin
-    const createdBy = req.user?.createdBy || req.user?.id;
-    if (createdBy) {
-      notifySaleChange(createdBy, 'created', completeSale);
+    const heldSale = await findHeldSale(prisma, req, id);
+    if (!heldSale) {
+      return res.status(404).json({
+        success: false,
+        message: 'Held sale not found'
+      });
+    }
+
+    if (heldSale.status === 'EXPIRED') {
+      return res.status(400).json({
+        success: false,
+        message: 'Held sale has expired'
+      });
+    }
+
+    const paymentData: FinalizeHeldSaleData = req.body;
+    const userId = (req as any).user.id;
+    const createdBy = req.user?.createdBy || req.user?.id || 'default-admin-id';
+
+    // The cart is charged at the totals quoted when it was parked
+    let tenders: ResolvedTenders;
+    try {
+      tenders = resolveSaleTenders(heldSale.totalAmount, paymentData);
+    } catch (tenderError) {
+      return res.status(400).json({
+        success: false,
+        message: tenderError instanceof Error ? tenderError.message : 'Invalid payments'
+      });
+    }
+
+    const warnings = await getCheckoutWarnings(prisma, req, heldSale.items.map(item => item.productId), heldSale.customerId);
+    const unacknowledged = getUnacknowledgedWarnings(warnings, paymentData.acknowledgedWarnings);
+    if (unacknowledged.length > 0) {
+      return res.status(409).json({
+        success: false,
+        message: 'Interaction warnings must be acknowledged by the pharmacist',
+        data: { warnings: unacknowledged }
+      });
+    }
+
+    let receipt;
+    try {
+      receipt = await prisma.$transaction(async (tx) => {
+        const now = new Date();
+
+        // Claim the cart so that two tills cannot finalize it at the same time
+        const claimed = await tx.sale.updateMany({
+          where: { id, status: 'HELD' },
+          data: {
+            status: 'COMPLETED',
+            paymentStatus: 'COMPLETED',
+            paymentMethod: tenders.paymentMethod,
+            changeDue: tenders.changeDue,
+            holdExpiresAt: null,
+            saleDate: now,
+            createdAt: now, // Takings are reported on the day the cart was paid for
+            ...acknowledgedWarningFields(warnings, userId)
+          }
+        });
+
+        if (claimed.count === 0) {
+          throw new Error('Held sale is no longer available');
+        }
+
+        // Prescriptions are only dispensed from once the cart is paid for
+        await dispensePrescriptionLines(tx, heldSale.items);
+
+        // Stock is only taken now that the cart is paid for
+        const allocationRules = await getBatchAllocationRules(tx, req, heldSale.branchId);
+        const valuationMethod = await getValuationMethod(tx, heldSale.companyId);
+        for (const item of heldSale.items) {
+          const allocations = await deductSaleItemStock(tx, {
+            productId: item.productId,
+            quantity: item.quantity,
+            unitPrice: item.unitPrice,
+            batchId: item.batchId || undefined,
+            batchNumber: item.batchNumber || undefined,
+            batchAllocations: item.heldBatchAllocations ? JSON.parse(item.heldBatchAllocations) : undefined
+          }, heldSale.branchId, id, createdBy, allocationRules);
+
+          await recordBatchAllocations(tx, item, allocations, createdBy, valuationMethod);
+        }
+
+        return settleSale(tx, {
+          saleId: id,
+          branchId: heldSale.branchId,
+          customerId: heldSale.customerId,
+          totalAmount: heldSale.totalAmount,
+          tenders,
+          userId,
+          createdBy,
+          deviceId: req.headers['x-device-id'] as string
+        });
+      }, {
+        timeout: 60000 // 60 seconds timeout for long-running transactions
+        // Note: SQLite only supports Serializable isolation level, so we omit isolationLevel
+      });
+    } catch (error: any) {
+      if (error.code === 'P2028') {
+        console.error('❌ Transaction timeout or connection lost:', error.message);
+        return res.status(500).json({
+          success: false,
+          message: 'Transaction failed due to connection timeout. Please try again.',
+          error: 'TRANSACTION_TIMEOUT'
+        });
+      }
+      if (error instanceof Error && (error.message.startsWith('Insufficient stock') || error.message === 'Held sale is no longer available')) {
+        return res.status(400).json({
+          success: false,
+          message: error.message
+        });
+      }
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          message: error.message
+        });
+      }
+      throw error;
+    }
+
+    const completeSale = await prisma.sale.findUnique({
+      where: { id },
+      include: saleDetailInclude
+    });
+
+    const adminId = req.user?.createdBy || req.user?.id;
+    if (adminId) {
+      notifySaleChange(adminId, 'updated', completeSale);
     }
 
     // 🔄 IMMEDIATE BIDIRECTIONAL SYNC
-    syncAfterOperation('sale', 'create', completeSale).catch(err => {
-      console.error('[Sync] Sale create sync failed:', err.message);
+    syncAfterOperation('sale', 'update', completeSale).catch(err => {
+      console.error('[Sync] Held sale finalize sync failed:', err.message);
     });
 
-    return res.status(201).json({
+    return res.json({
       success: true,
       data: {
         ...completeSale,
-        receiptNumber: result.receipt.receiptNumber
+        receiptNumber: receipt.receiptNumber,
+        changeDue: tenders.changeDue
       }
     });
   } catch (error) {
-    console.error('Create sale error:', error);
+    console.error('Finalize held sale error:', error);
     return res.status(500).json({
       success: false,
       message: error instanceof Error ? error.message : 'Internal server error'
@@ -715,6 +1797,47 @@ export const createSale = async (req: AuthRequest, res: Response) => {
   }
 };
 
+export const discardHeldSale = async (req: AuthRequest, res: Response) => {
+  try {
+    const prisma = await getPrisma();
+    const { id } = req.params;
+
+    const heldSale = await findHeldSale(prisma, req, id);
+    if (!heldSale) {
+      return res.status(404).json({
+        success: false,
+        message: 'Held sale not found'
+      });
+    }
+
+    // Nothing was taken from stock, so the cart can simply be removed
+    await prisma.sale.delete({
+      where: { id }
+    });
+
+    const adminId = req.user?.createdBy || req.user?.id;
+    if (adminId) {
+      notifySaleChange(adminId, 'deleted', heldSale);
+    }
+
+    // 🔄 IMMEDIATE BIDIRECTIONAL SYNC
+    syncAfterOperation('sale', 'delete', heldSale).catch(err => {
+      console.error('[Sync] Held sale delete sync failed:', err.message);
+    });
+
+    return res.json({
+      success: true,
+      message: 'Held sale discarded successfully'
+    });
+  } catch (error) {
+    console.error('Discard held sale error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
 export const updateSale = async (req: AuthRequest, res: Response) => {
   try {
     const prisma = await getPrisma();
@@ -758,6 +1881,20 @@ export const updateSale = async (req: AuthRequest, res: Response) => {
       });
     }
 
+    if (HELD_SALE_STATUSES.includes(existingSale.status)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Held sales are changed through the held sale endpoints'
+      });
+    }
+
+    if (existingSale.status === 'VOIDED') {
+      return res.status(400).json({
+        success: false,
+        message: 'Voided sales cannot be changed'
+      });
+    }
+
     // Check if user has permission to update this sale
     const canUpdate = req.user?.role === 'SUPERADMIN' ||
       req.user?.role === 'ADMIN' ||
@@ -924,21 +2061,25 @@ export const updateSale = async (req: AuthRequest, res: Response) => {
   }
 };
 
-export const deleteSale = async (req: AuthRequest, res: Response) => {
+export const voidSale = async (req: AuthRequest, res: Response) => {
   try {
     const prisma = await getPrisma();
     const { id } = req.params;
 
-    // Get the existing sale
-    const existingSale = await prisma.sale.findUnique({
-      where: { id },
+    const { error } = voidSaleSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const existingSale = await prisma.sale.findFirst({
+      where: buildBranchWhereClause(req, { id }),
       include: {
         items: true,
-        customer: true,
-        user: true,
-        branch: true,
-        company: true,
-        receipts: true
+        receipts: { select: { receiptNumber: true }, take: 1 }
       }
     });
 
@@ -949,104 +2090,147 @@ export const deleteSale = async (req: AuthRequest, res: Response) => {
       });
     }
 
-    // Check if user has permission to delete this sale
-    const canDelete = req.user?.role === 'SUPERADMIN' ||
+    // Check if user has permission to void this sale
+    const canVoid = req.user?.role === 'SUPERADMIN' ||
       req.user?.role === 'ADMIN' ||
       (req.user?.role === 'MANAGER' && existingSale.userId === req.user?.id) ||
       (req.user?.role === 'CASHIER' && existingSale.userId === req.user?.id);
 
-    if (!canDelete) {
+    if (!canVoid) {
       return res.status(403).json({
         success: false,
-        message: 'You do not have permission to delete this sale'
+        message: 'You do not have permission to void this sale'
       });
     }
 
-    // Use transaction to ensure data consistency
-    await prisma.$transaction(async (tx: any) => {
-      // Delete sale items first (foreign key constraint)
-      await tx.saleItem.deleteMany({
-        where: { saleId: id }
+    if (!VOIDABLE_SALE_STATUSES.includes(existingSale.status)) {
+      return res.status(400).json({
+        success: false,
+        message: HELD_SALE_STATUSES.includes(existingSale.status)
+          ? 'Held sales are discarded, not voided'
+          : `A ${existingSale.status.toLowerCase().replace('_', ' ')} sale cannot be voided`
       });
+    }
 
-      // Delete receipts
-      await tx.receipt.deleteMany({
-        where: { saleId: id }
-      });
+    const createdBy = req.user?.createdBy || req.user?.id;
+    const reason = req.body.reason.trim();
+
+    let voidedSale;
+    try {
+      voidedSale = await prisma.$transaction(async (tx) => {
+        // Refunds waiting for approval would return the same stock a second time
+        const pendingRefunds = await tx.refund.count({
+          where: { originalSaleId: id, status: 'PENDING' }
+        });
+        if (pendingRefunds > 0) {
+          throw createAppError('Sale has refunds awaiting approval; reject them before voiding');
+        }
+
+        // Claim the sale so it cannot be voided twice
+        const claimed = await tx.sale.updateMany({
+          where: { id, status: { in: VOIDABLE_SALE_STATUSES } },
+          data: {
+            status: 'VOIDED',
+            voidReason: reason,
+            voidedAt: new Date(),
+            voidedBy: req.user?.id
+          }
+        });
+
+        if (claimed.count === 0) {
+          throw createAppError('Sale has already been voided');
+        }
 
-      // Restore stock from batches if sale was completed
-      if (existingSale.status === 'COMPLETED') {
+        // Put every unit back on the batch it was sold from
         for (const item of existingSale.items) {
-          if (item.batchId) {
-            // Restore quantity to batch
-            await tx.batch.update({
-              where: { id: item.batchId },
-              data: {
-                quantity: {
-                  increment: item.quantity
-                }
-              }
-            });
-
-            // Create stock movement for restoration
-            await tx.stockMovement.create({
-              data: {
-                productId: item.productId,
-                type: 'IN',
-                quantity: item.quantity,
-                reason: 'Sale Deletion - Stock Restored',
-                reference: id,
-                createdBy: req.user?.createdBy || req.user?.id || 'default-admin-id'
-              }
-            });
+          const quantity = item.quantity - item.refundedQuantity;
+          if (quantity <= 0) {
+            continue;
           }
+
+          await returnSaleItemStock(tx, item, {
+            branchId: existingSale.branchId,
+            quantity,
+            type: 'VOID',
+            sourceType: 'SALE',
+            sourceId: id,
+            reason: `Sale voided: ${reason}`,
+            reference: id,
+            createdBy
+          });
         }
 
-        // Update customer stats if customer exists
+        // Give the dispensed quantities back to their prescriptions
+        await reversePrescriptionLines(tx, existingSale.items);
+
+        // Undo what the sale added to the customer's totals and loyalty points
         if (existingSale.customerId) {
           await tx.customer.update({
             where: { id: existingSale.customerId },
             data: {
               totalPurchases: {
                 decrement: existingSale.totalAmount
-              },
-              loyaltyPoints: {
-                decrement: Math.floor(existingSale.totalAmount / 100) // 1 point per 100 PKR
               }
             }
           });
+          await reverseSaleLoyalty(tx, {
+            saleId: id,
+            customerId: existingSale.customerId,
+            share: 1,
+            complete: true,
+            note: `Sale voided: ${reason}`,
+            createdBy
+          });
+
+          // Nothing is owed on a voided sale; what was paid towards it stays as credit
+          await creditSaleAccount(tx, {
+            saleId: id,
+            type: 'VOID',
+            sourceId: id,
+            reference: existingSale.receipts[0]?.receiptNumber || id,
+            description: `Sale voided: ${reason}`,
+            createdBy
+          });
         }
-      }
 
-      // Delete the sale
-      await tx.sale.delete({
-        where: { id }
+        return tx.sale.findUniqueOrThrow({
+          where: { id },
+          include: saleDetailInclude
+        });
+      }, {
+        timeout: 60000 // 60 seconds timeout for long-running transactions
+        // Note: SQLite only supports Serializable isolation level, so we omit isolationLevel
       });
-    }, {
-      timeout: 60000 // 60 seconds timeout for long-running transactions
-      // Note: SQLite only supports Serializable isolation level, so we omit isolationLevel
-    });
+    } catch (error: any) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          message: error.message
+        });
+      }
+      throw error;
+    }
 
     // Send real-time notification
-    const createdBy = req.user?.createdBy || req.user?.id;
     if (createdBy) {
-      notifySaleChange(createdBy, 'deleted', existingSale);
+      notifySaleChange(createdBy, 'updated', voidedSale);
     }
 
     // 🔄 IMMEDIATE BIDIRECTIONAL SYNC
-    syncAfterOperation('sale', 'delete', existingSale).catch(err => {
-      console.error('[Sync] Sale delete sync failed:', err.message);
+    syncAfterOperation('sale', 'update', voidedSale).catch(err => {
+      console.error('[Sync] Sale void sync failed:', err.message);
     });
 
     return res.json({
       success: true,
-      message: 'Sale deleted successfully'
+      message: 'Sale voided successfully',
+      data: voidedSale
     });
   } catch (error) {
-    console.error('Delete sale error:', error);
+    console.error('Void sale error:', error);
     return res.status(500).json({
       success: false,
-      message: error instanceof Error ? error.message : 'Internal server error'
+      message: 'Internal server error'
     });
   }
-};
\ No newline at end of file
+};
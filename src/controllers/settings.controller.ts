@@ -2,6 +2,8 @@ import { Request, Response } from 'express';
 import { getPrisma } from '../utils/db.util';
 import { AuthRequest } from '../middleware/auth.middleware';
 import { syncAfterOperation, pullLatestFromLive } from '../utils/sync-helper';
+import { SETTING_DEFAULTS } from '../utils/settings-helper';
+import { SEQUENCE_TOKEN_PATTERN, YEAR_TOKEN_PATTERN } from '../utils/numbering-helper';
 import Joi from 'joi';
 
 const updateSettingsSchema = Joi.object({
@@ -16,7 +18,25 @@ const updateSettingsSchema = Joi.object({
   pharmacyPhone: Joi.string().required(),
   pharmacyEmail: Joi.string().email().required(),
   pharmacyLicense: Joi.string().required(),
-  pharmacyTaxNumber: Joi.string().required()
+  pharmacyTaxNumber: Joi.string().required(),
+  heldSaleExpiryMinutes: Joi.number().integer().min(1).optional(),
+  refundApprovalAmount: Joi.number().min(0).optional(),
+  refundApprovalSaleAgeDays: Joi.number().integer().min(0).optional(),
+  fiscalYearStartMonth: Joi.number().integer().min(1).max(12).optional(),
+  receiptNumberFormat: Joi.string().max(60).pattern(SEQUENCE_TOKEN_PATTERN).pattern(YEAR_TOKEN_PATTERN).optional(),
+  receiptReservationSize: Joi.number().integer().min(1).max(100000).optional(),
+  prescriptionValidityDays: Joi.number().integer().min(1).optional(),
+  interactionHistoryDays: Joi.number().integer().min(0).optional(),
+  expiryBlockDays: Joi.number().integer().min(0).optional(),
+  overDeliveryTolerancePercent: Joi.number().min(0).max(100).optional(),
+  reorderSalesWindowDays: Joi.number().integer().min(1).max(365).optional(),
+  reorderCoverageDays: Joi.number().integer().min(1).optional(),
+  loyaltyEarnRate: Joi.number().min(0).optional(),
+  loyaltyPointValue: Joi.number().min(0).optional(),
+  loyaltyPointsExpiryDays: Joi.number().integer().min(0).optional(),
+  loyaltyTiers: Joi.string().allow('').max(500).pattern(/^\s*([A-Za-z_ ]+:\s*\d+(\.\d+)?\s*)(,\s*[A-Za-z_ ]+:\s*\d+(\.\d+)?\s*)*$/).optional(),
+  loyaltyVipTier: Joi.string().allow('').max(30).optional(),
+  refillReminderDays: Joi.number().integer().min(0).max(60).optional()
 });
 
 export const getSettings = async (req: AuthRequest, res: Response): Promise<void> => {
@@ -56,12 +76,30 @@ export const getSettings = async (req: AuthRequest, res: Response): Promise<void
       autoSync: settingsObj.autoSync || 'true',
       offlineMode: settingsObj.offlineMode || 'true',
       receiptPrinter: settingsObj.receiptPrinter || 'EPSON TM-T20II',
-      pharmacyName: settingsObj.pharmacyName || process.env.DEFAULT_PHARMACY_NAME || 'MediBill Pulse Pharmacy',
-      pharmacyAddress: settingsObj.pharmacyAddress || 'Block A, Gulberg III, Lahore',
-      pharmacyPhone: settingsObj.pharmacyPhone || process.env.DEFAULT_PHARMACY_PHONE || '+92 42 1234567',
-      pharmacyEmail: settingsObj.pharmacyEmail || process.env.DEFAULT_PHARMACY_EMAIL || 'info@medibillpulse.com',
-      pharmacyLicense: settingsObj.pharmacyLicense || process.env.DEFAULT_PHARMACY_LICENSE || 'PHR-LHR-2024-001',
-      pharmacyTaxNumber: settingsObj.pharmacyTaxNumber || '1234567890123'
+      pharmacyName: settingsObj.pharmacyName || SETTING_DEFAULTS.pharmacyName,
+      pharmacyAddress: settingsObj.pharmacyAddress || SETTING_DEFAULTS.pharmacyAddress,
+      pharmacyPhone: settingsObj.pharmacyPhone || SETTING_DEFAULTS.pharmacyPhone,
+      pharmacyEmail: settingsObj.pharmacyEmail || SETTING_DEFAULTS.pharmacyEmail,
+      pharmacyLicense: settingsObj.pharmacyLicense || SETTING_DEFAULTS.pharmacyLicense,
+      pharmacyTaxNumber: settingsObj.pharmacyTaxNumber || SETTING_DEFAULTS.pharmacyTaxNumber,
+      heldSaleExpiryMinutes: settingsObj.heldSaleExpiryMinutes || SETTING_DEFAULTS.heldSaleExpiryMinutes,
+      refundApprovalAmount: settingsObj.refundApprovalAmount || SETTING_DEFAULTS.refundApprovalAmount,
+      refundApprovalSaleAgeDays: settingsObj.refundApprovalSaleAgeDays || SETTING_DEFAULTS.refundApprovalSaleAgeDays,
+      fiscalYearStartMonth: settingsObj.fiscalYearStartMonth || SETTING_DEFAULTS.fiscalYearStartMonth,
+      receiptNumberFormat: settingsObj.receiptNumberFormat || SETTING_DEFAULTS.receiptNumberFormat,
+      receiptReservationSize: settingsObj.receiptReservationSize || SETTING_DEFAULTS.receiptReservationSize,
+      prescriptionValidityDays: settingsObj.prescriptionValidityDays || SETTING_DEFAULTS.prescriptionValidityDays,
+      interactionHistoryDays: settingsObj.interactionHistoryDays || SETTING_DEFAULTS.interactionHistoryDays,
+      expiryBlockDays: settingsObj.expiryBlockDays || SETTING_DEFAULTS.expiryBlockDays,
+      overDeliveryTolerancePercent: settingsObj.overDeliveryTolerancePercent || SETTING_DEFAULTS.overDeliveryTolerancePercent,
+      reorderSalesWindowDays: settingsObj.reorderSalesWindowDays || SETTING_DEFAULTS.reorderSalesWindowDays,
+      reorderCoverageDays: settingsObj.reorderCoverageDays || SETTING_DEFAULTS.reorderCoverageDays,
+      loyaltyEarnRate: settingsObj.loyaltyEarnRate || SETTING_DEFAULTS.loyaltyEarnRate,
+      loyaltyPointValue: settingsObj.loyaltyPointValue || SETTING_DEFAULTS.loyaltyPointValue,
+      loyaltyPointsExpiryDays: settingsObj.loyaltyPointsExpiryDays || SETTING_DEFAULTS.loyaltyPointsExpiryDays,
+      loyaltyTiers: settingsObj.loyaltyTiers ?? SETTING_DEFAULTS.loyaltyTiers,
+      loyaltyVipTier: settingsObj.loyaltyVipTier ?? SETTING_DEFAULTS.loyaltyVipTier,
+      refillReminderDays: settingsObj.refillReminderDays || SETTING_DEFAULTS.refillReminderDays
     };
 
     res.json({
@@ -192,7 +230,25 @@ function getSettingDescription(key: string): string {
     pharmacyPhone: 'Pharmacy contact phone number',
     pharmacyEmail: 'Pharmacy contact email address',
     pharmacyLicense: 'Pharmacy license number',
-    pharmacyTaxNumber: 'Pharmacy tax registration number'
+    pharmacyTaxNumber: 'Pharmacy tax registration number',
+    heldSaleExpiryMinutes: 'Minutes before a parked (held) sale expires',
+    refundApprovalAmount: 'Refund amount above which manager approval is required (0 = never)',
+    refundApprovalSaleAgeDays: 'Sale age in days after which refunds need manager approval (0 = never)',
+    fiscalYearStartMonth: 'Month (1-12) in which the fiscal year starts; receipt numbering restarts then',
+    receiptNumberFormat: 'Receipt number format for new fiscal years. Tokens: {BRANCH}, {YYYY}, {YY}, {FY}, {SEQ:n}',
+    receiptReservationSize: 'How many receipt numbers an offline terminal reserves at a time',
+    prescriptionValidityDays: 'Days a prescription stays valid when no expiry date is written on it',
+    interactionHistoryDays: 'Days of customer purchase history checked for drug interactions (0 = basket only)',
+    expiryBlockDays: 'Batches expiring within this many days cannot be sold (0 = only expired batches are blocked)',
+    overDeliveryTolerancePercent: 'Percentage over the ordered quantity a goods receipt may accept (0 = no over-delivery)',
+    reorderSalesWindowDays: 'Days of sales history used to work out average daily sales for reorder suggestions',
+    reorderCoverageDays: 'Days of sales a suggested order should cover when a product has no maximum stock',
+    loyaltyEarnRate: 'Loyalty points earned per currency unit spent; categories can set their own rate',
+    loyaltyPointValue: 'Amount one loyalty point pays for when redeemed at checkout (0 = points cannot be redeemed)',
+    loyaltyPointsExpiryDays: 'Days after they are earned that loyalty points expire (0 = never)',
+    loyaltyTiers: 'Loyalty tiers as NAME:lifetime purchases pairs, e.g. SILVER:25000,GOLD:50000',
+    loyaltyVipTier: 'Tier from which customers are marked VIP automatically (blank = VIP is set by hand)',
+    refillReminderDays: 'Days ahead that a refill falling due puts the customer on the refill list'
   };
 
   return descriptions[key] || 'System setting';
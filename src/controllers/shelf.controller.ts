@@ -357,7 +357,8 @@ export const deleteShelf = async (req: AuthRequest, res: Response) => {
       include: {
         _count: {
           select: {
-            batches: true
+            batches: true,
+            stockCounts: true
           }
         }
       }
@@ -378,6 +379,14 @@ export const deleteShelf = async (req: AuthRequest, res: Response) => {
       });
     }
 
+    // Stock counts keep their history
+    if (shelf._count.stockCounts > 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'Cannot delete shelf with stock counts'
+      });
+    }
+
     await prisma.shelf.delete({
       where: { id }
     });
@@ -0,0 +1,679 @@
+import { Response } from 'express';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { getPrisma } from '../utils/db.util';
+import { AuthRequest } from '../middleware/auth.middleware';
+import { syncAfterOperation, pullLatestFromLive } from '../utils/sync-helper';
+import { createAppError } from '../middleware/error.middleware';
+import { calculateCountVariances, resolveCountEntryBatch } from '../utils/stock-count-helper';
+import { moveBatchStock } from '../utils/stock-helper';
+import Joi from 'joi';
+
+// Validation schemas
+const createStockCountSchema = Joi.object({
+  branchId: Joi.string().allow('').optional(), // Defaults to the user's branch
+  shelfId: Joi.string().allow('', null).optional(),
+  notes: Joi.string().allow('', null).optional()
+});
+
+const countEntriesSchema = Joi.object({
+  entries: Joi.array().items(Joi.object({
+    batchId: Joi.string(),
+    barcode: Joi.string(),
+    batchNo: Joi.string().allow('', null), // Narrows a product barcode down to one batch
+    quantity: Joi.number().integer().min(0).required(),
+    add: Joi.boolean().default(false) // Add to what was counted so far (one scan per unit or box)
+  }).xor('batchId', 'barcode')).min(1).required()
+});
+
+const approveStockCountSchema = Joi.object({
+  uncountedAsZero: Joi.boolean().default(false) // Batches nobody counted are treated as missing
+});
+
+// Relations returned with a stock count
+const stockCountInclude = Prisma.validator<Prisma.StockCountInclude>()({
+  branch: {
+    select: { id: true, name: true }
+  },
+  shelf: {
+    select: { id: true, name: true }
+  },
+  lines: {
+    include: {
+      batch: {
+        select: { id: true, batchNo: true, expireDate: true, barcode: true }
+      },
+      product: {
+        select: { id: true, name: true, sku: true, barcode: true }
+      }
+    },
+    orderBy: { product: { name: 'asc' } }
+  }
+});
+
+/**
+ * Stock counts belong to the admin group; managers and counters only see their own branch
+ */
+const buildStockCountWhereClause = (req: AuthRequest, baseWhere: any = {}) => {
+  const whereClause = { ...baseWhere };
+  const userRole = req.user?.role ? String(req.user.role).toUpperCase() : '';
+
+  if (userRole !== 'SUPERADMIN') {
+    whereClause.createdBy = req.user?.createdBy || req.user?.id;
+  }
+
+  if ((userRole === 'MANAGER' || userRole === 'CASHIER') && req.user?.branchId) {
+    whereClause.branchId = req.user.branchId;
+  }
+
+  return whereClause;
+};
+
+/**
+ * Sync a stock count and its lines after a change
+ */
+const syncStockCount = async (prisma: PrismaClient, countId: string) => {
+  const stockCount = await prisma.stockCount.findUnique({
+    where: { id: countId },
+    include: { lines: true }
+  });
+  if (!stockCount) {
+    return;
+  }
+
+  syncAfterOperation('stockCount', 'update', stockCount).catch(err => {
+    console.error('[Sync] Stock count sync failed:', err.message);
+  });
+  stockCount.lines.forEach(line => {
+    syncAfterOperation('stockCountLine', 'update', line).catch(err => {
+      console.error('[Sync] Stock count line sync failed:', err.message);
+    });
+  });
+};
+
+export const getStockCounts = async (req: AuthRequest, res: Response) => {
+  try {
+    // 🔄 PULL LATEST FROM LIVE DATABASE FIRST
+    await pullLatestFromLive('stockCount').catch(err => console.log('[Sync] Pull stock counts:', err.message));
+
+    const prisma = await getPrisma();
+    const { page = 1, limit = 10, status, branchId } = req.query;
+
+    const skip = (Number(page) - 1) * Number(limit);
+    const take = Number(limit);
+
+    const where: any = buildStockCountWhereClause(req);
+    if (status) {
+      where.status = status as string;
+    }
+    if (branchId && !where.branchId) {
+      where.branchId = branchId as string;
+    }
+
+    const [stockCounts, total] = await Promise.all([
+      prisma.stockCount.findMany({
+        where,
+        skip,
+        take,
+        include: {
+          branch: { select: { id: true, name: true } },
+          shelf: { select: { id: true, name: true } },
+          _count: { select: { lines: true } }
+        },
+        orderBy: { createdAt: 'desc' }
+      }),
+      prisma.stockCount.count({ where })
+    ]);
+
+    return res.json({
+      success: true,
+      data: {
+        stockCounts,
+        pagination: {
+          page: Number(page),
+          limit: Number(limit),
+          total,
+          pages: Math.ceil(total / Number(limit))
+        }
+      }
+    });
+  } catch (error) {
+    console.error('Get stock counts error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+export const getStockCount = async (req: AuthRequest, res: Response) => {
+  try {
+    const prisma = await getPrisma();
+    const { id } = req.params;
+
+    const stockCount = await prisma.stockCount.findFirst({
+      where: buildStockCountWhereClause(req, { id }),
+      include: stockCountInclude
+    });
+
+    if (!stockCount) {
+      return res.status(404).json({
+        success: false,
+        message: 'Stock count not found'
+      });
+    }
+
+    return res.json({
+      success: true,
+      data: {
+        ...stockCount,
+        summary: calculateCountVariances(stockCount.lines).summary
+      }
+    });
+  } catch (error) {
+    console.error('Get stock count error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+export const createStockCount = async (req: AuthRequest, res: Response) => {
+  try {
+    const prisma = await getPrisma();
+    const { error, value } = createStockCountSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const userRole = req.user?.role ? String(req.user.role).toUpperCase() : '';
+    const branchId = userRole === 'MANAGER'
+      ? req.user?.branchId
+      : value.branchId || req.user?.selectedBranchId || req.user?.branchId;
+    if (!branchId) {
+      return res.status(400).json({
+        success: false,
+        message: 'Branch ID is required'
+      });
+    }
+
+    const shelfId = value.shelfId || null;
+    if (shelfId) {
+      const shelf = await prisma.shelf.findFirst({
+        where: { id: shelfId, branchId }
+      });
+      if (!shelf) {
+        return res.status(404).json({
+          success: false,
+          message: 'Shelf not found in this branch'
+        });
+      }
+    }
+
+    // One running count at a time for the branch, or for a shelf that is not covered by a branch count
+    const runningCount = await prisma.stockCount.findFirst({
+      where: {
+        branchId,
+        status: { in: ['OPEN', 'SUBMITTED'] },
+        ...(shelfId && { OR: [{ shelfId: null }, { shelfId }] })
+      }
+    });
+
+    if (runningCount) {
+      return res.status(400).json({
+        success: false,
+        message: 'A stock count is already running for this branch or shelf'
+      });
+    }
+
+    const createdBy = req.user?.createdBy || req.user?.id;
+
+    // Snapshot every batch in the counted area
+    const batches = await prisma.batch.findMany({
+      where: {
+        branchId,
+        isActive: true,
+        ...(shelfId && { shelfId })
+      },
+      select: { id: true, productId: true, quantity: true, purchasePrice: true }
+    });
+
+    const stockCount = await prisma.stockCount.create({
+      data: {
+        branchId,
+        shelfId,
+        notes: value.notes || null,
+        createdBy,
+        lines: {
+          create: batches.map(batch => ({
+            batchId: batch.id,
+            productId: batch.productId,
+            expectedQuantity: batch.quantity,
+            purchasePrice: batch.purchasePrice,
+            createdBy
+          }))
+        }
+      },
+      include: stockCountInclude
+    });
+
+    // 🔄 IMMEDIATE BIDIRECTIONAL SYNC
+    syncAfterOperation('stockCount', 'create', stockCount).catch(err => {
+      console.error('[Sync] Stock count create sync failed:', err.message);
+    });
+    stockCount.lines.forEach(line => {
+      syncAfterOperation('stockCountLine', 'create', line).catch(err => {
+        console.error('[Sync] Stock count line create sync failed:', err.message);
+      });
+    });
+
+    return res.status(201).json({
+      success: true,
+      data: stockCount
+    });
+  } catch (error) {
+    console.error('Create stock count error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+export const recordCountEntries = async (req: AuthRequest, res: Response) => {
+  try {
+    const prisma = await getPrisma();
+    const { id } = req.params;
+
+    const { error, value } = countEntriesSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const stockCount = await prisma.stockCount.findFirst({
+      where: buildStockCountWhereClause(req, { id })
+    });
+
+    if (!stockCount) {
+      return res.status(404).json({
+        success: false,
+        message: 'Stock count not found'
+      });
+    }
+
+    if (stockCount.status !== 'OPEN') {
+      return res.status(400).json({
+        success: false,
+        message: 'Counts can only be entered while the stock count is open'
+      });
+    }
+
+    // Anything found in the branch can be counted, including batches that were not on the shelf list
+    const batches = await prisma.batch.findMany({
+      where: { branchId: stockCount.branchId },
+      select: {
+        id: true,
+        batchNo: true,
+        barcode: true,
+        productId: true,
+        quantity: true,
+        purchasePrice: true,
+        product: { select: { barcode: true, barcodes: { select: { code: true } } } }
+      }
+    });
+
+    const createdBy = req.user?.createdBy || req.user?.id;
+
+    try {
+      await prisma.$transaction(async (tx) => {
+        for (const entry of value.entries) {
+          const batch = resolveCountEntryBatch(batches, entry);
+          const countedAt = new Date();
+
+          const line = await tx.stockCountLine.findUnique({
+            where: { countId_batchId: { countId: id, batchId: batch.id } }
+          });
+
+          if (!line) {
+            // Found stock: expected is what the system holds right now
+            await tx.stockCountLine.create({
+              data: {
+                countId: id,
+                batchId: batch.id,
+                productId: batch.productId,
+                expectedQuantity: batch.quantity,
+                countedQuantity: entry.quantity,
+                purchasePrice: batch.purchasePrice,
+                countedAt,
+                countedBy: req.user?.id,
+                createdBy
+              }
+            });
+            continue;
+          }
+
+          await tx.stockCountLine.update({
+            where: { id: line.id },
+            data: {
+              countedQuantity: entry.add && line.countedQuantity !== null
+                ? { increment: entry.quantity }
+                : entry.quantity,
+              countedAt,
+              countedBy: req.user?.id
+            }
+          });
+        }
+      }, {
+        timeout: 60000 // 60 seconds timeout for long-running transactions
+      });
+    } catch (error: any) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          message: error.message
+        });
+      }
+      throw error;
+    }
+
+    // 🔄 IMMEDIATE BIDIRECTIONAL SYNC
+    await syncStockCount(prisma, id);
+
+    const updatedCount = await prisma.stockCount.findUnique({
+      where: { id },
+      include: stockCountInclude
+    });
+
+    return res.json({
+      success: true,
+      data: updatedCount
+    });
+  } catch (error) {
+    console.error('Record stock count entries error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+export const submitStockCount = async (req: AuthRequest, res: Response) => {
+  try {
+    const prisma = await getPrisma();
+    const { id } = req.params;
+
+    const stockCount = await prisma.stockCount.findFirst({
+      where: buildStockCountWhereClause(req, { id })
+    });
+
+    if (!stockCount) {
+      return res.status(404).json({
+        success: false,
+        message: 'Stock count not found'
+      });
+    }
+
+    // Counting is finished; the count now waits for a manager
+    const submitted = await prisma.stockCount.updateMany({
+      where: { id, status: 'OPEN' },
+      data: {
+        status: 'SUBMITTED',
+        submittedAt: new Date(),
+        submittedBy: req.user?.id
+      }
+    });
+
+    if (submitted.count === 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'Only open stock counts can be submitted'
+      });
+    }
+
+    // 🔄 IMMEDIATE BIDIRECTIONAL SYNC
+    await syncStockCount(prisma, id);
+
+    return res.json({
+      success: true,
+      message: 'Stock count submitted for approval'
+    });
+  } catch (error) {
+    console.error('Submit stock count error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+export const approveStockCount = async (req: AuthRequest, res: Response) => {
+  try {
+    const prisma = await getPrisma();
+    const { id } = req.params;
+
+    const { error, value } = approveStockCountSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const stockCount = await prisma.stockCount.findFirst({
+      where: buildStockCountWhereClause(req, { id }),
+      include: {
+        lines: {
+          include: { batch: { select: { batchNo: true } } }
+        }
+      }
+    });
+
+    if (!stockCount) {
+      return res.status(404).json({
+        success: false,
+        message: 'Stock count not found'
+      });
+    }
+
+    const createdBy = req.user?.createdBy || req.user?.id;
+    const { variances, summary } = calculateCountVariances(stockCount.lines, value.uncountedAsZero);
+
+    try {
+      await prisma.$transaction(async (tx) => {
+        // Claim the count so its adjustments are posted only once
+        const claimed = await tx.stockCount.updateMany({
+          where: { id, status: 'SUBMITTED' },
+          data: {
+            status: 'APPROVED',
+            approvedAt: new Date(),
+            approvedBy: req.user?.id
+          }
+        });
+
+        if (claimed.count === 0) {
+          throw createAppError('Only submitted stock counts can be approved');
+        }
+
+        if (value.uncountedAsZero) {
+          await tx.stockCountLine.updateMany({
+            where: { countId: id, countedQuantity: null },
+            data: { countedQuantity: 0 }
+          });
+        }
+
+        for (const line of variances.filter(variance => variance.variance !== 0)) {
+          const batchNo = stockCount.lines.find(l => l.id === line.lineId)?.batch.batchNo;
+
+          // The variance is applied on top of whatever was sold or received during the count
+          const adjusted = await moveBatchStock(tx, {
+            batchId: line.batchId,
+            change: line.variance,
+            type: 'ADJUSTMENT',
+            sourceType: 'ADJUSTMENT',
+            sourceId: id,
+            reason: `Stock count: counted ${line.countedQuantity}, expected ${line.expectedQuantity}`,
+            reference: id,
+            createdBy
+          });
+
+          if (!adjusted) {
+            throw createAppError(`Batch ${batchNo} now holds less stock than the count removes; recount it`, 409);
+          }
+        }
+      }, {
+        timeout: 60000 // 60 seconds timeout for long-running transactions
+      });
+    } catch (error: any) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          message: error.message
+        });
+      }
+      throw error;
+    }
+
+    // 🔄 IMMEDIATE BIDIRECTIONAL SYNC
+    await syncStockCount(prisma, id);
+    const adjustedBatches = await prisma.batch.findMany({
+      where: { id: { in: variances.filter(line => line.variance !== 0).map(line => line.batchId) } }
+    });
+    adjustedBatches.forEach(batch => {
+      syncAfterOperation('batch', 'update', batch).catch(err => {
+        console.error('[Sync] Batch update sync failed:', err.message);
+      });
+    });
+
+    return res.json({
+      success: true,
+      data: { summary },
+      message: 'Stock count approved and adjustments posted'
+    });
+  } catch (error) {
+    console.error('Approve stock count error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+export const cancelStockCount = async (req: AuthRequest, res: Response) => {
+  try {
+    const prisma = await getPrisma();
+    const { id } = req.params;
+
+    const stockCount = await prisma.stockCount.findFirst({
+      where: buildStockCountWhereClause(req, { id })
+    });
+
+    if (!stockCount) {
+      return res.status(404).json({
+        success: false,
+        message: 'Stock count not found'
+      });
+    }
+
+    const cancelled = await prisma.stockCount.updateMany({
+      where: { id, status: { in: ['OPEN', 'SUBMITTED'] } },
+      data: {
+        status: 'CANCELLED',
+        cancelledAt: new Date(),
+        cancelledBy: req.user?.id
+      }
+    });
+
+    if (cancelled.count === 0) {
+      return res.status(400).json({
+        success: false,
+        message: `Stock count is already ${stockCount.status.toLowerCase()}`
+      });
+    }
+
+    // 🔄 IMMEDIATE BIDIRECTIONAL SYNC
+    await syncStockCount(prisma, id);
+
+    return res.json({
+      success: true,
+      message: 'Stock count cancelled'
+    });
+  } catch (error) {
+    console.error('Cancel stock count error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+/**
+ * Lines where the count differs from the system, valued at purchase price
+ */
+export const getStockCountVarianceReport = async (req: AuthRequest, res: Response) => {
+  try {
+    const prisma = await getPrisma();
+    const { id } = req.params;
+
+    const stockCount = await prisma.stockCount.findFirst({
+      where: buildStockCountWhereClause(req, { id }),
+      include: stockCountInclude
+    });
+
+    if (!stockCount) {
+      return res.status(404).json({
+        success: false,
+        message: 'Stock count not found'
+      });
+    }
+
+    const { variances, summary } = calculateCountVariances(stockCount.lines);
+    const lines = variances
+      .filter(line => line.variance !== 0)
+      .map(line => {
+        const countLine = stockCount.lines.find(l => l.id === line.lineId)!;
+        return {
+          ...line,
+          product: countLine.product,
+          batch: countLine.batch,
+          purchasePrice: countLine.purchasePrice,
+          countedBy: countLine.countedBy,
+          countedAt: countLine.countedAt
+        };
+      })
+      .sort((a, b) => a.varianceValue - b.varianceValue); // Biggest losses first
+
+    return res.json({
+      success: true,
+      data: {
+        stockCount: {
+          id: stockCount.id,
+          status: stockCount.status,
+          branch: stockCount.branch,
+          shelf: stockCount.shelf,
+          createdAt: stockCount.createdAt,
+          approvedAt: stockCount.approvedAt
+        },
+        lines,
+        uncounted: stockCount.lines
+          .filter(line => line.countedQuantity === null)
+          .map(line => ({ lineId: line.id, product: line.product, batch: line.batch, expectedQuantity: line.expectedQuantity })),
+        summary
+      }
+    });
+  } catch (error) {
+    console.error('Get stock count variance report error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
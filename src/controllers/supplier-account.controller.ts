@@ -0,0 +1,441 @@
+import { Response } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { getPrisma } from '../utils/db.util';
+import { AuthRequest } from '../middleware/auth.middleware';
+import { syncAfterOperation, pullLatestFromLive } from '../utils/sync-helper';
+import { createAppError } from '../middleware/error.middleware';
+import {
+  SUPPLIER_PAYMENT_METHODS,
+  PayableDocumentType,
+  SupplierStatement,
+  allocateInOrder,
+  allocateSupplierPayment,
+  buildAgingBuckets,
+  buildStatementLines,
+  getPayableDocuments,
+  recordSupplierLedgerEntry,
+  renderStatementCsv,
+  sumAgingBuckets
+} from '../utils/supplier-ledger-helper';
+import Joi from 'joi';
+
+// Validation schemas
+const createPaymentSchema = Joi.object({
+  amount: Joi.number().positive().precision(2).required(),
+  method: Joi.string().valid(...SUPPLIER_PAYMENT_METHODS).required(),
+  reference: Joi.string().when('method', {
+    is: Joi.valid('CHEQUE', 'BANK_TRANSFER'),
+    then: Joi.required(),
+    otherwise: Joi.allow('', null).optional()
+  }),
+  paidAt: Joi.date().iso().optional(),
+  notes: Joi.string().allow('', null).optional(),
+  // Purchases and goods receipts to pay; the oldest unpaid ones first when left out
+  allocations: Joi.array().items(Joi.object({
+    purchaseId: Joi.string(),
+    goodsReceiptId: Joi.string(),
+    amount: Joi.number().positive().precision(2).required()
+  }).xor('purchaseId', 'goodsReceiptId')).min(1).optional()
+});
+
+const statementQuerySchema = Joi.object({
+  from: Joi.date().iso().optional(),
+  to: Joi.date().iso().optional(),
+  format: Joi.string().valid('json', 'csv').default('json')
+});
+
+/**
+ * Suppliers belong to the admin group that created them
+ */
+const buildSupplierWhereClause = (req: AuthRequest, baseWhere: any = {}) => {
+  const whereClause = { ...baseWhere };
+
+  if (req.user?.role === 'SUPERADMIN') {
+    // SUPERADMIN can see all suppliers
+  } else if (req.user?.role === 'ADMIN') {
+    whereClause.createdBy = req.user.id;
+  } else {
+    whereClause.createdBy = req.user?.createdBy || req.user?.id || 'non-existent-admin-id';
+  }
+
+  return whereClause;
+};
+
+/**
+ * Sync a supplier payment with its allocations and ledger row, and the
+ * documents and batches it was set against
+ */
+const syncSupplierPayment = async (prisma: PrismaClient, paymentId: string) => {
+  const payment = await prisma.supplierPayment.findUnique({
+    where: { id: paymentId },
+    include: { allocations: true }
+  });
+  if (!payment) {
+    return;
+  }
+
+  syncAfterOperation('supplierPayment', 'create', payment).catch(err => {
+    console.error('[Sync] Supplier payment sync failed:', err.message);
+  });
+  payment.allocations.forEach(allocation => {
+    syncAfterOperation('supplierPaymentAllocation', 'create', allocation).catch(err => {
+      console.error('[Sync] Supplier payment allocation sync failed:', err.message);
+    });
+  });
+
+  const purchaseIds = payment.allocations.map(a => a.purchaseId).filter((id): id is string => !!id);
+  const receiptIds = payment.allocations.map(a => a.goodsReceiptId).filter((id): id is string => !!id);
+  const [ledgerEntries, purchases, receipts] = await Promise.all([
+    prisma.supplierLedgerEntry.findMany({ where: { sourceType: 'SUPPLIER_PAYMENT', sourceId: paymentId } }),
+    prisma.purchase.findMany({ where: { id: { in: purchaseIds } }, include: { purchaseItems: true } }),
+    prisma.goodsReceipt.findMany({ where: { id: { in: receiptIds } }, include: { items: true } })
+  ]);
+
+  ledgerEntries.forEach(entry => {
+    syncAfterOperation('supplierLedgerEntry', 'create', entry).catch(err => {
+      console.error('[Sync] Supplier ledger entry sync failed:', err.message);
+    });
+  });
+  purchases.forEach(({ purchaseItems, ...purchase }) => {
+    syncAfterOperation('purchase', 'update', purchase).catch(err => {
+      console.error('[Sync] Purchase update sync failed:', err.message);
+    });
+  });
+  receipts.forEach(({ items, ...receipt }) => {
+    syncAfterOperation('goodsReceipt', 'update', receipt).catch(err => {
+      console.error('[Sync] Goods receipt sync failed:', err.message);
+    });
+  });
+
+  const batchIds = [
+    ...purchases.flatMap(purchase => purchase.purchaseItems.map(item => item.batchId)),
+    ...receipts.flatMap(receipt => receipt.items.map(item => item.batchId))
+  ].filter((id): id is string => !!id);
+  if (batchIds.length > 0) {
+    const batches = await prisma.batch.findMany({
+      where: { id: { in: Array.from(new Set(batchIds)) } }
+    });
+    batches.forEach(batch => {
+      syncAfterOperation('batch', 'update', batch).catch(err => {
+        console.error('[Sync] Batch update sync failed:', err.message);
+      });
+    });
+  }
+};
+
+export const getSupplierPayments = async (req: AuthRequest, res: Response) => {
+  try {
+    // 🔄 PULL LATEST FROM LIVE DATABASE FIRST
+    await pullLatestFromLive('supplierPayment').catch(err => console.log('[Sync] Pull supplier payments:', err.message));
+
+    const prisma = await getPrisma();
+    const { id } = req.params;
+    const { page = 1, limit = 20 } = req.query;
+
+    const skip = (Number(page) - 1) * Number(limit);
+    const take = Number(limit);
+
+    const supplier = await prisma.supplier.findFirst({
+      where: buildSupplierWhereClause(req, { id }),
+      select: { id: true }
+    });
+
+    if (!supplier) {
+      return res.status(404).json({
+        success: false,
+        message: 'Supplier not found'
+      });
+    }
+
+    const [payments, total] = await Promise.all([
+      prisma.supplierPayment.findMany({
+        where: { supplierId: id },
+        skip,
+        take,
+        include: {
+          allocations: {
+            include: {
+              purchase: { select: { id: true, invoiceNo: true, purchaseDate: true } },
+              goodsReceipt: { select: { id: true, supplierInvoiceNo: true, receivedAt: true } }
+            }
+          }
+        },
+        orderBy: { paidAt: 'desc' }
+      }),
+      prisma.supplierPayment.count({ where: { supplierId: id } })
+    ]);
+
+    return res.json({
+      success: true,
+      data: {
+        payments,
+        pagination: {
+          page: Number(page),
+          limit: Number(limit),
+          total,
+          pages: Math.ceil(total / Number(limit))
+        }
+      }
+    });
+  } catch (error) {
+    console.error('Get supplier payments error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+export const createSupplierPayment = async (req: AuthRequest, res: Response) => {
+  try {
+    const prisma = await getPrisma();
+    const { id } = req.params;
+    const { error, value } = createPaymentSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const supplier = await prisma.supplier.findFirst({
+      where: buildSupplierWhereClause(req, { id })
+    });
+
+    if (!supplier) {
+      return res.status(404).json({
+        success: false,
+        message: 'Supplier not found'
+      });
+    }
+
+    const createdBy = req.user?.createdBy || req.user?.id;
+    let payment;
+    try {
+      payment = await prisma.$transaction(async (tx) => {
+        const documents = await getPayableDocuments(tx, supplier.id);
+
+        let plan: { type: PayableDocumentType; id: string; amount: number }[];
+        if (value.allocations) {
+          plan = value.allocations.map((allocation: any) => {
+            const type: PayableDocumentType = allocation.purchaseId ? 'PURCHASE' : 'GOODS_RECEIPT';
+            const documentId = allocation.purchaseId || allocation.goodsReceiptId;
+            if (!documents.some(document => document.type === type && document.id === documentId)) {
+              throw createAppError('One or more allocations are not unpaid purchases of this supplier');
+            }
+            return { type, id: documentId, amount: allocation.amount };
+          });
+        } else {
+          const oldestFirst = allocateInOrder(
+            documents.map(document => ({ id: `${document.type}:${document.id}`, outstanding: document.outstanding })),
+            value.amount
+          );
+          plan = oldestFirst.allocations.map(allocation => {
+            const [type, documentId] = allocation.id.split(':');
+            return { type: type as PayableDocumentType, id: documentId, amount: allocation.amount };
+          });
+        }
+
+        const allocatedAmount = Math.round(plan.reduce((sum, allocation) => sum + allocation.amount, 0) * 100) / 100;
+        if (allocatedAmount > value.amount) {
+          throw createAppError('Allocations add up to more than the payment');
+        }
+
+        const created = await tx.supplierPayment.create({
+          data: {
+            supplierId: supplier.id,
+            branchId: req.user?.selectedBranchId || req.user?.branchId || supplier.branchId,
+            amount: value.amount,
+            method: value.method,
+            reference: value.reference || null,
+            unallocatedAmount: Math.round((value.amount - allocatedAmount) * 100) / 100,
+            paidAt: value.paidAt || new Date(),
+            notes: value.notes || null,
+            createdBy
+          }
+        });
+
+        for (const allocation of plan) {
+          await allocateSupplierPayment(tx, {
+            paymentId: created.id,
+            documentType: allocation.type,
+            documentId: allocation.id,
+            amount: allocation.amount,
+            createdBy
+          });
+        }
+
+        await recordSupplierLedgerEntry(tx, {
+          supplierId: supplier.id,
+          branchId: created.branchId,
+          type: 'PAYMENT',
+          amount: -value.amount,
+          sourceType: 'SUPPLIER_PAYMENT',
+          sourceId: created.id,
+          reference: created.reference,
+          description: `Payment (${value.method.replace('_', ' ').toLowerCase()})`,
+          entryDate: created.paidAt,
+          createdBy
+        });
+
+        return tx.supplierPayment.findUniqueOrThrow({
+          where: { id: created.id },
+          include: { allocations: true }
+        });
+      }, {
+        timeout: 60000 // 60 seconds timeout for long-running transactions
+      });
+    } catch (paymentError: any) {
+      if (paymentError.statusCode) {
+        return res.status(paymentError.statusCode).json({
+          success: false,
+          message: paymentError.message
+        });
+      }
+      throw paymentError;
+    }
+
+    // 🔄 IMMEDIATE BIDIRECTIONAL SYNC
+    syncSupplierPayment(prisma, payment.id).catch(err => {
+      console.error('[Sync] Supplier payment sync failed:', err.message);
+    });
+
+    return res.status(201).json({
+      success: true,
+      data: payment
+    });
+  } catch (error) {
+    console.error('Create supplier payment error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+export const getSupplierStatement = async (req: AuthRequest, res: Response) => {
+  try {
+    // 🔄 PULL LATEST FROM LIVE DATABASE FIRST
+    await pullLatestFromLive('supplierLedgerEntry').catch(err => console.log('[Sync] Pull supplier ledger:', err.message));
+
+    const prisma = await getPrisma();
+    const { id } = req.params;
+    const { error, value } = statementQuerySchema.validate(req.query);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const supplier = await prisma.supplier.findFirst({
+      where: buildSupplierWhereClause(req, { id }),
+      select: { id: true, name: true }
+    });
+
+    if (!supplier) {
+      return res.status(404).json({
+        success: false,
+        message: 'Supplier not found'
+      });
+    }
+
+    const from: Date | null = value.from || null;
+    const to: Date = value.to || new Date();
+
+    const [opening, entries, documents] = await Promise.all([
+      from
+        ? prisma.supplierLedgerEntry.aggregate({
+          where: { supplierId: id, entryDate: { lt: from } },
+          _sum: { amount: true }
+        })
+        : null,
+      prisma.supplierLedgerEntry.findMany({
+        where: { supplierId: id, entryDate: { ...(from && { gte: from }), lte: to } },
+        orderBy: { entryDate: 'asc' }
+      }),
+      getPayableDocuments(prisma, id)
+    ]);
+
+    const openingBalance = Math.round((opening?._sum.amount || 0) * 100) / 100;
+    const lines = buildStatementLines(entries, openingBalance);
+    const statement: SupplierStatement = {
+      supplier,
+      from,
+      to,
+      openingBalance,
+      lines,
+      closingBalance: lines.length > 0 ? lines[lines.length - 1].balance : openingBalance,
+      aging: buildAgingBuckets(documents, to)
+    };
+
+    if (value.format === 'csv') {
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="supplier-statement-${supplier.id}.csv"`);
+      return res.send(renderStatementCsv(statement));
+    }
+
+    return res.json({
+      success: true,
+      data: {
+        ...statement,
+        unpaidDocuments: documents
+      }
+    });
+  } catch (error) {
+    console.error('Get supplier statement error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+export const getSupplierAging = async (req: AuthRequest, res: Response) => {
+  try {
+    const prisma = await getPrisma();
+    const asOf = new Date();
+
+    const suppliers = await prisma.supplier.findMany({
+      where: buildSupplierWhereClause(req),
+      select: { id: true, name: true },
+      orderBy: { name: 'asc' }
+    });
+
+    const balances = await prisma.supplierLedgerEntry.groupBy({
+      by: ['supplierId'],
+      where: { supplierId: { in: suppliers.map(supplier => supplier.id) } },
+      _sum: { amount: true }
+    });
+
+    const rows = await Promise.all(suppliers.map(async supplier => {
+      const documents = await getPayableDocuments(prisma, supplier.id);
+      const balance = balances.find(row => row.supplierId === supplier.id)?._sum.amount || 0;
+      return {
+        supplier,
+        balance: Math.round(balance * 100) / 100,
+        aging: buildAgingBuckets(documents, asOf)
+      };
+    }));
+
+    const owing = rows.filter(row => row.balance !== 0 || row.aging.total > 0);
+
+    return res.json({
+      success: true,
+      data: {
+        asOf,
+        suppliers: owing,
+        totals: sumAgingBuckets(owing.map(row => row.aging)),
+        totalBalance: Math.round(owing.reduce((sum, row) => sum + row.balance, 0) * 100) / 100
+      }
+    });
+  } catch (error) {
+    console.error('Get supplier aging error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
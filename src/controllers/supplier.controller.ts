@@ -9,7 +9,8 @@ const createSupplierSchema = Joi.object({
   name: Joi.string().required(),
   contactPerson: Joi.string().required(),
   phone: Joi.string().required(),
-  manufacturerId: Joi.string().allow('', null).optional()
+  manufacturerId: Joi.string().allow('', null).optional(),
+  leadTimeDays: Joi.number().integer().min(0).max(365).optional()
 });
 
 const updateSupplierSchema = Joi.object({
@@ -17,6 +18,7 @@ const updateSupplierSchema = Joi.object({
   contactPerson: Joi.string(),
   phone: Joi.string(),
   manufacturerId: Joi.string().allow('', null).optional(),
+  leadTimeDays: Joi.number().integer().min(0).max(365),
   isActive: Joi.boolean()
 });
 
@@ -211,7 +213,7 @@ export const createSupplier = async (req: AuthRequest, res: Response) => {
       });
     }
 
-    const { name, contactPerson, phone, manufacturerId } = req.body;
+    const { name, contactPerson, phone, manufacturerId, leadTimeDays } = req.body;
 
     // Get context from headers
     const selectedCompanyId = req.headers['x-company-id'] as string;
@@ -258,6 +260,7 @@ export const createSupplier = async (req: AuthRequest, res: Response) => {
         contactPerson,
         phone,
         manufacturerId: manufacturerId && manufacturerId.trim() !== '' ? manufacturerId : null,
+        ...(leadTimeDays !== undefined && { leadTimeDays }),
         branchId: branchId,
         companyId: companyId,
         createdBy: req.user?.createdBy || req.user?.id || 'default-admin-id'
@@ -394,7 +397,10 @@ export const deleteSupplier = async (req: AuthRequest, res: Response) => {
       include: {
         _count: {
           select: {
-            products: true
+            products: true,
+            returns: true,
+            purchaseOrders: true,
+            ledgerEntries: true
           }
         }
       }
@@ -415,6 +421,28 @@ export const deleteSupplier = async (req: AuthRequest, res: Response) => {
       });
     }
 
+    // Returns to the supplier are kept for its statement
+    if (supplier._count.returns > 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'Cannot delete supplier with returns'
+      });
+    }
+
+    if (supplier._count.purchaseOrders > 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'Cannot delete supplier with purchase orders'
+      });
+    }
+
+    if (supplier._count.ledgerEntries > 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'Cannot delete supplier with account history'
+      });
+    }
+
     await prisma.supplier.delete({
       where: { id }
     });
@@ -0,0 +1,811 @@
+import { Response } from 'express';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { getPrisma } from '../utils/db.util';
+import { AuthRequest } from '../middleware/auth.middleware';
+import { syncAfterOperation, pullLatestFromLive } from '../utils/sync-helper';
+import { createAppError } from '../middleware/error.middleware';
+import { moveBatchStock, returnStockToBatch } from '../utils/stock-helper';
+import { TransferReceiptPlan, planTransferReceipt, receiveIntoBatch } from '../utils/transfer-helper';
+import Joi from 'joi';
+
+// Validation schemas
+const transferItemSchema = Joi.object({
+  batchId: Joi.string().required(),
+  quantity: Joi.number().integer().min(1).required(),
+  destinationProductId: Joi.string().allow('', null).optional() // Matched by product name in the receiving branch when omitted
+});
+
+const createTransferSchema = Joi.object({
+  fromBranchId: Joi.string().required(),
+  toBranchId: Joi.string().invalid(Joi.ref('fromBranchId')).required()
+    .messages({ 'any.invalid': 'Stock cannot be transferred to the same branch' }),
+  notes: Joi.string().allow('', null).optional(),
+  items: Joi.array().items(transferItemSchema).min(1).required()
+});
+
+const updateTransferSchema = Joi.object({
+  notes: Joi.string().allow('', null),
+  items: Joi.array().items(transferItemSchema).min(1)
+});
+
+const receiveTransferSchema = Joi.object({
+  items: Joi.array().items(Joi.object({
+    itemId: Joi.string().required(),
+    quantity: Joi.number().integer().min(1).required()
+  })).default([]),
+  complete: Joi.boolean().default(false) // Close the transfer even though some units did not arrive
+});
+
+const cancelTransferSchema = Joi.object({
+  reason: Joi.string().allow('', null).optional()
+});
+
+// Relations returned with a transfer
+const transferInclude = Prisma.validator<Prisma.StockTransferInclude>()({
+  fromBranch: {
+    select: { id: true, name: true }
+  },
+  toBranch: {
+    select: { id: true, name: true }
+  },
+  items: {
+    include: {
+      product: {
+        select: { id: true, name: true, sku: true }
+      },
+      destinationProduct: {
+        select: { id: true, name: true, sku: true }
+      }
+    }
+  }
+});
+
+/**
+ * Transfers belong to the admin group; managers only see transfers from or to their branch
+ */
+const buildTransferWhereClause = (req: AuthRequest, baseWhere: any = {}) => {
+  const whereClause = { ...baseWhere };
+  const userRole = req.user?.role ? String(req.user.role).toUpperCase() : '';
+
+  if (userRole !== 'SUPERADMIN') {
+    whereClause.createdBy = req.user?.createdBy || req.user?.id;
+  }
+
+  if (userRole === 'MANAGER' && req.user?.branchId) {
+    whereClause.OR = [{ fromBranchId: req.user.branchId }, { toBranchId: req.user.branchId }];
+  }
+
+  return whereClause;
+};
+
+/**
+ * Managers can only dispatch from, or receive into, their own branch
+ */
+const canActForBranch = (req: AuthRequest, branchId: string): boolean => {
+  const userRole = req.user?.role ? String(req.user.role).toUpperCase() : '';
+  return userRole !== 'MANAGER' || req.user?.branchId === branchId;
+};
+
+/**
+ * Turn requested lines into transfer lines: the batch must be in the sending
+ * branch and the product must exist in the receiving branch
+ * @throws AppError (400) when a batch or receiving product cannot be found
+ */
+const resolveTransferLines = async (
+  prisma: PrismaClient,
+  fromBranchId: string,
+  toBranchId: string,
+  items: { batchId: string; quantity: number; destinationProductId?: string | null }[],
+  createdBy?: string | null
+) => {
+  const batches = await prisma.batch.findMany({
+    where: { id: { in: items.map(item => item.batchId) }, branchId: fromBranchId },
+    include: { product: { select: { id: true, name: true } } }
+  });
+
+  const lines = [];
+  for (const item of items) {
+    const batch = batches.find(b => b.id === item.batchId);
+    if (!batch) {
+      throw createAppError('One or more batches were not found in the sending branch');
+    }
+
+    if (item.quantity > batch.quantity) {
+      throw createAppError(`Only ${batch.quantity} unit(s) of ${batch.product.name} are left in batch ${batch.batchNo}`);
+    }
+
+    const destinationProduct = await prisma.product.findFirst({
+      where: item.destinationProductId
+        ? { id: item.destinationProductId, branchId: toBranchId }
+        : { name: batch.product.name, branchId: toBranchId },
+      select: { id: true }
+    });
+
+    if (!destinationProduct) {
+      throw createAppError(`${batch.product.name} does not exist in the receiving branch; add it there or choose the product to receive into`);
+    }
+
+    lines.push({
+      productId: batch.productId,
+      destinationProductId: destinationProduct.id,
+      batchId: batch.id,
+      batchNo: batch.batchNo,
+      expireDate: batch.expireDate,
+      purchasePrice: batch.purchasePrice,
+      sellingPrice: batch.sellingPrice,
+      quantity: item.quantity,
+      createdBy
+    });
+  }
+
+  return lines;
+};
+
+type TransferLineData = Awaited<ReturnType<typeof resolveTransferLines>>[number];
+
+/**
+ * Sync a transfer, its lines and the batches it touched after a state change
+ */
+const syncTransfer = async (prisma: PrismaClient, transferId: string, batchIds: string[] = []) => {
+  const transfer = await prisma.stockTransfer.findUnique({
+    where: { id: transferId },
+    include: { items: true }
+  });
+  if (!transfer) {
+    return;
+  }
+
+  syncAfterOperation('stockTransfer', 'update', transfer).catch(err => {
+    console.error('[Sync] Stock transfer sync failed:', err.message);
+  });
+  transfer.items.forEach(item => {
+    syncAfterOperation('stockTransferItem', 'update', item).catch(err => {
+      console.error('[Sync] Stock transfer item sync failed:', err.message);
+    });
+  });
+
+  if (batchIds.length > 0) {
+    const batches = await prisma.batch.findMany({
+      where: { id: { in: Array.from(new Set(batchIds)) } }
+    });
+    batches.forEach(batch => {
+      syncAfterOperation('batch', 'update', batch).catch(err => {
+        console.error('[Sync] Batch update sync failed:', err.message);
+      });
+    });
+  }
+};
+
+export const getTransfers = async (req: AuthRequest, res: Response) => {
+  try {
+    // 🔄 PULL LATEST FROM LIVE DATABASE FIRST
+    await pullLatestFromLive('stockTransfer').catch(err => console.log('[Sync] Pull stock transfers:', err.message));
+
+    const prisma = await getPrisma();
+    const { page = 1, limit = 10, status, branchId, direction } = req.query;
+
+    const skip = (Number(page) - 1) * Number(limit);
+    const take = Number(limit);
+
+    const where: any = buildTransferWhereClause(req);
+    if (status) {
+      where.status = status as string;
+    }
+    if (branchId) {
+      // direction=in|out narrows to transfers received by or sent from the branch
+      if (direction === 'in') {
+        where.toBranchId = branchId as string;
+      } else if (direction === 'out') {
+        where.fromBranchId = branchId as string;
+      } else {
+        where.AND = [{ OR: [{ fromBranchId: branchId as string }, { toBranchId: branchId as string }] }];
+      }
+    }
+
+    const [transfers, total] = await Promise.all([
+      prisma.stockTransfer.findMany({
+        where,
+        skip,
+        take,
+        include: transferInclude,
+        orderBy: { createdAt: 'desc' }
+      }),
+      prisma.stockTransfer.count({ where })
+    ]);
+
+    return res.json({
+      success: true,
+      data: {
+        transfers,
+        pagination: {
+          page: Number(page),
+          limit: Number(limit),
+          total,
+          pages: Math.ceil(total / Number(limit))
+        }
+      }
+    });
+  } catch (error) {
+    console.error('Get stock transfers error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+export const getTransfer = async (req: AuthRequest, res: Response) => {
+  try {
+    const prisma = await getPrisma();
+    const { id } = req.params;
+
+    const transfer = await prisma.stockTransfer.findFirst({
+      where: buildTransferWhereClause(req, { id }),
+      include: transferInclude
+    });
+
+    if (!transfer) {
+      return res.status(404).json({
+        success: false,
+        message: 'Stock transfer not found'
+      });
+    }
+
+    return res.json({
+      success: true,
+      data: transfer
+    });
+  } catch (error) {
+    console.error('Get stock transfer error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+export const createTransfer = async (req: AuthRequest, res: Response) => {
+  try {
+    const prisma = await getPrisma();
+    const { error, value } = createTransferSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    if (!canActForBranch(req, value.fromBranchId)) {
+      return res.status(403).json({
+        success: false,
+        message: 'You can only transfer stock out of your own branch'
+      });
+    }
+
+    const createdBy = req.user?.createdBy || req.user?.id;
+    const branches = await prisma.branch.findMany({
+      where: {
+        id: { in: [value.fromBranchId, value.toBranchId] },
+        ...(String(req.user?.role).toUpperCase() !== 'SUPERADMIN' && { createdBy })
+      },
+      select: { id: true, companyId: true }
+    });
+
+    const fromBranch = branches.find(branch => branch.id === value.fromBranchId);
+    const toBranch = branches.find(branch => branch.id === value.toBranchId);
+    if (!fromBranch || !toBranch) {
+      return res.status(404).json({
+        success: false,
+        message: 'Branch not found'
+      });
+    }
+
+    if (fromBranch.companyId !== toBranch.companyId) {
+      return res.status(400).json({
+        success: false,
+        message: 'Stock can only be transferred between branches of the same company'
+      });
+    }
+
+    let lines: TransferLineData[];
+    try {
+      lines = await resolveTransferLines(prisma, value.fromBranchId, value.toBranchId, value.items, createdBy);
+    } catch (lineError: any) {
+      if (lineError.statusCode) {
+        return res.status(lineError.statusCode).json({
+          success: false,
+          message: lineError.message
+        });
+      }
+      throw lineError;
+    }
+
+    const transfer = await prisma.stockTransfer.create({
+      data: {
+        companyId: fromBranch.companyId,
+        fromBranchId: value.fromBranchId,
+        toBranchId: value.toBranchId,
+        notes: value.notes || null,
+        createdBy,
+        items: {
+          create: lines
+        }
+      },
+      include: transferInclude
+    });
+
+    // 🔄 IMMEDIATE BIDIRECTIONAL SYNC
+    syncAfterOperation('stockTransfer', 'create', transfer).catch(err => {
+      console.error('[Sync] Stock transfer create sync failed:', err.message);
+    });
+    transfer.items.forEach(item => {
+      syncAfterOperation('stockTransferItem', 'create', item).catch(err => {
+        console.error('[Sync] Stock transfer item create sync failed:', err.message);
+      });
+    });
+
+    return res.status(201).json({
+      success: true,
+      data: transfer
+    });
+  } catch (error) {
+    console.error('Create stock transfer error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+export const updateTransfer = async (req: AuthRequest, res: Response) => {
+  try {
+    const prisma = await getPrisma();
+    const { id } = req.params;
+
+    const { error, value } = updateTransferSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const existingTransfer = await prisma.stockTransfer.findFirst({
+      where: buildTransferWhereClause(req, { id })
+    });
+
+    if (!existingTransfer) {
+      return res.status(404).json({
+        success: false,
+        message: 'Stock transfer not found'
+      });
+    }
+
+    if (existingTransfer.status !== 'DRAFT') {
+      return res.status(400).json({
+        success: false,
+        message: 'Only draft transfers can be changed'
+      });
+    }
+
+    if (!canActForBranch(req, existingTransfer.fromBranchId)) {
+      return res.status(403).json({
+        success: false,
+        message: 'You can only change transfers out of your own branch'
+      });
+    }
+
+    let lines: TransferLineData[] | undefined;
+    if (value.items) {
+      try {
+        lines = await resolveTransferLines(prisma, existingTransfer.fromBranchId, existingTransfer.toBranchId, value.items, existingTransfer.createdBy);
+      } catch (lineError: any) {
+        if (lineError.statusCode) {
+          return res.status(lineError.statusCode).json({
+            success: false,
+            message: lineError.message
+          });
+        }
+        throw lineError;
+      }
+    }
+
+    // New lines replace the draft's lines as a whole
+    const transfer = await prisma.$transaction(async (tx) => {
+      if (lines) {
+        await tx.stockTransferItem.deleteMany({
+          where: { transferId: id }
+        });
+      }
+
+      return tx.stockTransfer.update({
+        where: { id },
+        data: {
+          ...(value.notes !== undefined && { notes: value.notes || null }),
+          ...(lines && { items: { create: lines } })
+        },
+        include: transferInclude
+      });
+    });
+
+    // 🔄 IMMEDIATE BIDIRECTIONAL SYNC
+    syncAfterOperation('stockTransfer', 'update', transfer).catch(err => {
+      console.error('[Sync] Stock transfer update sync failed:', err.message);
+    });
+    if (lines) {
+      transfer.items.forEach(item => {
+        syncAfterOperation('stockTransferItem', 'create', item).catch(err => {
+          console.error('[Sync] Stock transfer item create sync failed:', err.message);
+        });
+      });
+    }
+
+    return res.json({
+      success: true,
+      data: transfer
+    });
+  } catch (error) {
+    console.error('Update stock transfer error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+export const dispatchTransfer = async (req: AuthRequest, res: Response) => {
+  try {
+    const prisma = await getPrisma();
+    const { id } = req.params;
+
+    const existingTransfer = await prisma.stockTransfer.findFirst({
+      where: buildTransferWhereClause(req, { id }),
+      include: {
+        items: true,
+        toBranch: { select: { name: true } }
+      }
+    });
+
+    if (!existingTransfer) {
+      return res.status(404).json({
+        success: false,
+        message: 'Stock transfer not found'
+      });
+    }
+
+    if (!canActForBranch(req, existingTransfer.fromBranchId)) {
+      return res.status(403).json({
+        success: false,
+        message: 'You can only dispatch transfers out of your own branch'
+      });
+    }
+
+    const createdBy = req.user?.createdBy || req.user?.id;
+
+    try {
+      await prisma.$transaction(async (tx) => {
+        // Claim the draft so it cannot be dispatched twice
+        const claimed = await tx.stockTransfer.updateMany({
+          where: { id, status: 'DRAFT' },
+          data: {
+            status: 'DISPATCHED',
+            dispatchedAt: new Date(),
+            dispatchedBy: req.user?.id
+          }
+        });
+
+        if (claimed.count === 0) {
+          throw createAppError('Only draft transfers can be dispatched');
+        }
+
+        // Stock leaves the sending batches now
+        for (const item of existingTransfer.items) {
+          const taken = await moveBatchStock(tx, {
+            batchId: item.batchId,
+            change: -item.quantity,
+            type: 'TRANSFER_OUT',
+            sourceType: 'TRANSFER',
+            sourceId: id,
+            reason: `Transfer to ${existingTransfer.toBranch.name}`,
+            reference: id,
+            createdBy
+          });
+
+          if (!taken) {
+            throw createAppError(`Not enough stock left in batch ${item.batchNo} to dispatch ${item.quantity} unit(s)`);
+          }
+        }
+      }, {
+        timeout: 60000 // 60 seconds timeout for long-running transactions
+      });
+    } catch (error: any) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          message: error.message
+        });
+      }
+      throw error;
+    }
+
+    // 🔄 IMMEDIATE BIDIRECTIONAL SYNC
+    await syncTransfer(prisma, id, existingTransfer.items.map(item => item.batchId));
+
+    const transfer = await prisma.stockTransfer.findUnique({
+      where: { id },
+      include: transferInclude
+    });
+
+    return res.json({
+      success: true,
+      data: transfer,
+      message: 'Stock transfer dispatched'
+    });
+  } catch (error) {
+    console.error('Dispatch stock transfer error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+export const receiveTransfer = async (req: AuthRequest, res: Response) => {
+  try {
+    const prisma = await getPrisma();
+    const { id } = req.params;
+
+    const { error, value } = receiveTransferSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    if (value.items.length === 0 && !value.complete) {
+      return res.status(400).json({
+        success: false,
+        message: 'Nothing to receive'
+      });
+    }
+
+    const existingTransfer = await prisma.stockTransfer.findFirst({
+      where: buildTransferWhereClause(req, { id }),
+      include: {
+        items: { include: { batch: true } },
+        fromBranch: { select: { name: true } }
+      }
+    });
+
+    if (!existingTransfer) {
+      return res.status(404).json({
+        success: false,
+        message: 'Stock transfer not found'
+      });
+    }
+
+    if (!canActForBranch(req, existingTransfer.toBranchId)) {
+      return res.status(403).json({
+        success: false,
+        message: 'You can only receive transfers into your own branch'
+      });
+    }
+
+    if (existingTransfer.status !== 'DISPATCHED') {
+      return res.status(400).json({
+        success: false,
+        message: 'Only dispatched transfers can be received'
+      });
+    }
+
+    const createdBy = req.user?.createdBy || req.user?.id;
+    const touchedBatchIds: string[] = [];
+    let plan: TransferReceiptPlan;
+
+    try {
+      plan = planTransferReceipt(existingTransfer.items, value.items, value.complete);
+      const { receipts, fullyReceived } = plan;
+
+      await prisma.$transaction(async (tx) => {
+        // The transfer must still be open (it may have been cancelled or closed meanwhile)
+        const open = await tx.stockTransfer.updateMany({
+          where: { id, status: 'DISPATCHED' },
+          data: { updatedAt: new Date() }
+        });
+        if (open.count === 0) {
+          throw createAppError('Only dispatched transfers can be received');
+        }
+
+        for (const [itemId, quantity] of Array.from(receipts.entries())) {
+          const item = existingTransfer.items.find(line => line.id === itemId)!;
+
+          // Only succeeds if the same units were not received by someone else in the meantime
+          const claimed = await tx.stockTransferItem.updateMany({
+            where: { id: itemId, receivedQuantity: { lte: item.quantity - quantity } },
+            data: { receivedQuantity: { increment: quantity } }
+          });
+
+          if (claimed.count === 0) {
+            throw createAppError('The transfer was received by someone else; please reload it', 409);
+          }
+
+          const batch = await receiveIntoBatch(tx, {
+            sourceBatch: item.batch,
+            productId: item.destinationProductId,
+            branchId: existingTransfer.toBranchId,
+            companyId: existingTransfer.companyId,
+            quantity,
+            createdBy,
+            movement: {
+              type: 'TRANSFER_IN',
+              sourceType: 'TRANSFER',
+              sourceId: id,
+              reason: `Transfer from ${existingTransfer.fromBranch.name}`,
+              reference: id,
+              createdBy
+            }
+          });
+          touchedBatchIds.push(batch.id);
+
+          await tx.stockTransferItem.update({
+            where: { id: itemId },
+            data: { destinationBatchId: batch.id }
+          });
+        }
+
+        if (fullyReceived || value.complete) {
+          await tx.stockTransfer.updateMany({
+            where: { id, status: 'DISPATCHED' },
+            data: {
+              status: 'RECEIVED',
+              receivedAt: new Date(),
+              receivedBy: req.user?.id
+            }
+          });
+        }
+      }, {
+        timeout: 60000 // 60 seconds timeout for long-running transactions
+      });
+    } catch (error: any) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          message: error.message
+        });
+      }
+      throw error;
+    }
+
+    // 🔄 IMMEDIATE BIDIRECTIONAL SYNC
+    await syncTransfer(prisma, id, touchedBatchIds);
+
+    const transfer = await prisma.stockTransfer.findUnique({
+      where: { id },
+      include: transferInclude
+    });
+
+    return res.json({
+      success: true,
+      data: {
+        transfer,
+        shortages: plan.shortages // Units closed out as never arrived
+      },
+      message: transfer?.status === 'RECEIVED' ? 'Stock transfer received' : 'Partial delivery received'
+    });
+  } catch (error) {
+    console.error('Receive stock transfer error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+export const cancelTransfer = async (req: AuthRequest, res: Response) => {
+  try {
+    const prisma = await getPrisma();
+    const { id } = req.params;
+
+    const { error, value } = cancelTransferSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const existingTransfer = await prisma.stockTransfer.findFirst({
+      where: buildTransferWhereClause(req, { id }),
+      include: { items: true }
+    });
+
+    if (!existingTransfer) {
+      return res.status(404).json({
+        success: false,
+        message: 'Stock transfer not found'
+      });
+    }
+
+    if (!canActForBranch(req, existingTransfer.fromBranchId)) {
+      return res.status(403).json({
+        success: false,
+        message: 'You can only cancel transfers out of your own branch'
+      });
+    }
+
+    // Once anything has been received the transfer has to be closed on the receiving side instead
+    if (existingTransfer.items.some(item => item.receivedQuantity > 0)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Transfer has already been partly received; close it from the receiving branch instead'
+      });
+    }
+
+    const createdBy = req.user?.createdBy || req.user?.id;
+
+    try {
+      await prisma.$transaction(async (tx) => {
+        const claimed = await tx.stockTransfer.updateMany({
+          where: { id, status: { in: ['DRAFT', 'DISPATCHED'] } },
+          data: {
+            status: 'CANCELLED',
+            cancelledAt: new Date(),
+            cancelledBy: req.user?.id,
+            cancelReason: value.reason || null
+          }
+        });
+
+        if (claimed.count === 0) {
+          throw createAppError(`Transfer is already ${existingTransfer.status.toLowerCase()}`);
+        }
+
+        // Dispatched stock goes back into the batches it left
+        if (existingTransfer.status === 'DISPATCHED') {
+          for (const item of existingTransfer.items) {
+            await returnStockToBatch(tx, {
+              productId: item.productId,
+              branchId: existingTransfer.fromBranchId,
+              batchId: item.batchId,
+              quantity: item.quantity,
+              type: 'TRANSFER_IN',
+              sourceType: 'TRANSFER',
+              sourceId: id,
+              reason: 'Transfer cancelled',
+              reference: id,
+              createdBy
+            });
+          }
+        }
+      }, {
+        timeout: 60000 // 60 seconds timeout for long-running transactions
+      });
+    } catch (error: any) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          message: error.message
+        });
+      }
+      throw error;
+    }
+
+    // 🔄 IMMEDIATE BIDIRECTIONAL SYNC
+    await syncTransfer(prisma, id, existingTransfer.status === 'DISPATCHED' ? existingTransfer.items.map(item => item.batchId) : []);
+
+    return res.json({
+      success: true,
+      message: 'Stock transfer cancelled'
+    });
+  } catch (error) {
+    console.error('Cancel stock transfer error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
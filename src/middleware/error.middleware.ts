@@ -5,6 +5,16 @@ export interface AppError extends Error {
   isOperational?: boolean;
 }
 
+/**
+ * Create an operational error that carries the HTTP status to respond with
+ */
+export const createAppError = (message: string, statusCode: number = 400): AppError => {
+  const error: AppError = new Error(message);
+  error.statusCode = statusCode;
+  error.isOperational = true;
+  return error;
+};
+
 export const errorHandler = (
   err: AppError,
   req: Request,
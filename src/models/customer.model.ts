@@ -16,4 +16,5 @@ export interface CreateCustomerData {
     address?: string;
     isVIP?: boolean;
     isActive?: boolean;
+    creditLimit?: number;
   }
\ No newline at end of file
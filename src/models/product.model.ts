@@ -12,6 +12,7 @@ export interface CreateProductData {
     branchId: string;
     barcode?: string;
     requiresPrescription: boolean;
+    isControlled?: boolean; // Controlled substance (implies a prescription)
     // Temporary fields for backward compatibility (will be removed when frontend is updated)
     costPrice?: number;
     sellingPrice?: number;
@@ -19,6 +20,7 @@ export interface CreateProductData {
     minStock?: number;
     maxStock?: bigint;
     unitsPerPack?: number;
+    baseUnitName?: string;
   }
 
   export interface UpdateProductData {
@@ -31,6 +33,7 @@ export interface CreateProductData {
     branchId?: string;
     barcode?: string;
     requiresPrescription?: boolean;
+    isControlled?: boolean;
     isActive?: boolean;
     // Temporary fields for backward compatibility (will be removed when frontend is updated)
     costPrice?: number;
@@ -39,12 +42,20 @@ export interface CreateProductData {
     minStock?: number;
     maxStock?: bigint;
     unitsPerPack?: number;
+    baseUnitName?: string;
   }
 
   export interface StockMovementData {
     productId: string;
-    type: 'IN' | 'OUT' | 'ADJUSTMENT' | 'RETURN';
+    type: 'IN' | 'OUT' | 'ADJUSTMENT' | 'RETURN' | 'VOID' | 'TRANSFER_IN' | 'TRANSFER_OUT' | 'QUARANTINE' | 'RELEASE' | 'WRITE_OFF' | 'SUPPLIER_RETURN';
     quantity: number;
+    batchId?: string;
+    branchId?: string;
+    quantityBefore?: number;
+    quantityAfter?: number;
+    unitCost?: number;
+    sourceType?: 'SALE' | 'REFUND' | 'PURCHASE' | 'TRANSFER' | 'ADJUSTMENT' | 'WRITE_OFF' | 'SUPPLIER_RETURN';
+    sourceId?: string;
     reason?: string;
     reference?: string;
     createdBy?: string;
@@ -1,18 +1,50 @@
 // Enums removed - using string types for SQLite compatibility
-export type PaymentMethod = 'CASH' | 'CARD' | 'MOBILE' | 'BANK_TRANSFER';
-export type PaymentStatus = 'PENDING' | 'COMPLETED' | 'FAILED' | 'REFUNDED';
-export type SaleStatus = 'PENDING' | 'COMPLETED' | 'CANCELLED' | 'REFUNDED';
+export type PaymentMethod = 'CASH' | 'CARD' | 'MOBILE' | 'BANK_TRANSFER' | 'STORE_CREDIT' | 'LOYALTY_POINTS' | 'ON_ACCOUNT';
+export type SalePaymentMethod = PaymentMethod | 'SPLIT'; // SPLIT = sale paid with more than one tender
+export type PaymentStatus = 'PENDING' | 'COMPLETED' | 'FAILED' | 'REFUNDED' | 'ON_ACCOUNT';
+export type SaleStatus = 'PENDING' | 'COMPLETED' | 'CANCELLED' | 'REFUNDED' | 'PARTIALLY_REFUNDED' | 'HELD' | 'EXPIRED' | 'VOIDED';
+
+export const PAYMENT_METHODS: PaymentMethod[] = ['CASH', 'CARD', 'MOBILE', 'BANK_TRANSFER', 'STORE_CREDIT', 'LOYALTY_POINTS', 'ON_ACCOUNT'];
+
+// Parked carts: no stock has been taken and no payment received
+export const HELD_SALE_STATUSES: string[] = ['HELD', 'EXPIRED'];
+
+// Records that never count as sales: parked carts and voided sales (kept for the audit trail)
+export const EXCLUDED_SALE_STATUSES: string[] = [...HELD_SALE_STATUSES, 'VOIDED'];
+
+// Sales that can still be voided: paid or awaiting payment, with nothing refunded yet
+export const VOIDABLE_SALE_STATUSES: string[] = ['COMPLETED', 'PENDING'];
+
+// Sales left out of revenue totals on dashboards and reports
+export const NON_REVENUE_SALE_STATUSES: string[] = ['REFUNDED', ...EXCLUDED_SALE_STATUSES];
 
 export interface CreateSaleData {
   customerId?: string;
   userId: string;
   branchId: string;
   items: SaleItemData[];
-  paymentMethod: PaymentMethod | string;
+  paymentMethod?: PaymentMethod | string;
+  payments?: SalePaymentData[]; // Split tenders; when omitted the whole total is paid with paymentMethod
   paymentStatus?: PaymentStatus | string;
   discountAmount?: number;
   discountPercentage?: number;
   saleDate?: string;
+  acknowledgedWarnings?: string[]; // Interaction warning codes accepted by the pharmacist
+}
+
+export interface HoldSaleData {
+  customerId?: string;
+  branchId: string;
+  items: SaleItemData[];
+  discountAmount?: number;
+  discountPercentage?: number;
+  holdNote?: string;
+}
+
+export interface FinalizeHeldSaleData {
+  paymentMethod?: PaymentMethod | string;
+  payments?: SalePaymentData[];
+  acknowledgedWarnings?: string[];
 }
 
 export interface SaleItemData {
@@ -25,6 +57,19 @@ export interface SaleItemData {
   discountPercentage?: number; // Item-level discount percentage
   discountAmount?: number; // Item-level discount amount
   totalPrice?: number; // Item total price after discount (optional, will be calculated if not provided)
+  prescriptionItemId?: string | null; // Prescription line the item is dispensed against
+  daysSupply?: number | null; // Days the dispensed quantity lasts
+  batchAllocations?: { batchId: string; quantity: number }[]; // Split across batches in MANUAL branches
+  unitId?: string | null; // Selling unit (box, strip); quantity and unitPrice are in that unit until converted
+  unitName?: string | null;
+  unitQuantity?: number | null; // Quantity in the selling unit once converted to base units
+  unitFactor?: number;
+}
+
+export interface SalePaymentData {
+  method: PaymentMethod | string;
+  amount: number; // For CASH this may exceed the amount due; the excess is returned as change
+  reference?: string;
 }
 
 export interface SaleResponse {
@@ -51,7 +96,15 @@ export interface SaleResponse {
   discountAmount: number;
   discountPercentage?: number;
   totalAmount: number;
-  paymentMethod: PaymentMethod | string;
+  paymentMethod: SalePaymentMethod | string;
+  payments?: Array<{
+    method: PaymentMethod | string;
+    amount: number;
+    tenderedAmount?: number;
+    changeAmount: number;
+    reference?: string;
+  }>;
+  changeDue?: number;
   paymentStatus: PaymentStatus | string;
   status: SaleStatus | string;
   saleDate?: string;
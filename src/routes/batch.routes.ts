@@ -7,7 +7,9 @@ import {
   deleteBatch,
   getNearExpiryBatches,
   restockBatch,
-  getLowStockBatches
+  getLowStockBatches,
+  getBatchMovements,
+  getStockReconciliation
 } from '../controllers/batch.controller';
 import { authenticate } from '../middleware/auth.middleware';
 
@@ -20,7 +22,9 @@ router.use(authenticate);
 router.get('/', getBatches);
 router.get('/low-stock', getLowStockBatches);
 router.get('/near-expiry', getNearExpiryBatches);
+router.get('/reconciliation', getStockReconciliation); // Ledger replay for the branch
 router.get('/:id', getBatchById);
+router.get('/:id/movements', getBatchMovements);
 router.post('/', createBatch);
 router.put('/:id', updateBatch);
 router.post('/:id/restock', restockBatch);
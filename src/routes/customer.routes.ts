@@ -7,6 +7,14 @@ import {
   deleteCustomer,
   getCustomerPurchaseHistory
 } from '../controllers/customer.controller';
+import { getCustomerLoyalty } from '../controllers/customer-loyalty.controller';
+import {
+  getCustomerAging,
+  getCustomerStatement,
+  getCustomerPayments,
+  createCustomerPayment
+} from '../controllers/customer-account.controller';
+import { getCustomerMedicationProfile, getRefillsDue } from '../controllers/customer-medication.controller';
 import { authenticate, authorize } from '../middleware/auth.middleware';
 
 const router = Router();
@@ -16,8 +24,17 @@ router.use(authenticate);
 
 // Get customers (all roles can view)
 router.get('/', getCustomers);
+router.get('/aging', authorize('MANAGER', 'ADMIN', 'SUPERADMIN'), getCustomerAging); // What customers owe on account by age
+router.get('/refills-due', getRefillsDue); // Daily call list of customers due a refill, per branch
 router.get('/:id', getCustomer);
 router.get('/:id/purchase-history', getCustomerPurchaseHistory);
+router.get('/:id/loyalty', getCustomerLoyalty); // Balance, tier and points ledger
+router.get('/:id/medications', getCustomerMedicationProfile); // Medication profile with refill due dates
+
+// Customer account (khata) - statements for all roles, payments taken at the till
+router.get('/:id/statement', getCustomerStatement); // ?format=html for a printable statement
+router.get('/:id/payments', getCustomerPayments);
+router.post('/:id/payments', authorize('MANAGER', 'ADMIN', 'SUPERADMIN', 'CASHIER'), createCustomerPayment);
 
 // Customer management (Manager, Admin, SuperAdmin, Cashier)
 router.post('/', authorize('MANAGER', 'ADMIN', 'SUPERADMIN', 'CASHIER'), createCustomer);
@@ -0,0 +1,25 @@
+import { Router } from 'express';
+import { getQuarantinedBatches, quarantineBatch, releaseQuarantine, getWriteOffs, createWriteOff, getSupplierReturns, getSupplierReturn, createSupplierReturn } from '../controllers/expiry.controller';
+import { authenticate } from '../middleware/auth.middleware';
+import { requireRole } from '../middleware/role.middleware';
+
+const router = Router();
+
+// All expiry routes require authentication
+router.use(authenticate);
+
+// Quarantine - managers and above
+router.get('/quarantine', requireRole('SUPERADMIN', 'ADMIN', 'MANAGER'), getQuarantinedBatches);
+router.post('/quarantine', requireRole('SUPERADMIN', 'ADMIN', 'MANAGER'), quarantineBatch); // Removes stock from sale
+router.post('/quarantine/:batchId/release', requireRole('SUPERADMIN', 'ADMIN', 'MANAGER'), releaseQuarantine);
+
+// Write-offs - managers and above
+router.get('/write-offs', requireRole('SUPERADMIN', 'ADMIN', 'MANAGER'), getWriteOffs);
+router.post('/write-offs', requireRole('SUPERADMIN', 'ADMIN', 'MANAGER'), createWriteOff);
+
+// Returns to the supplier - managers and above
+router.get('/supplier-returns', requireRole('SUPERADMIN', 'ADMIN', 'MANAGER'), getSupplierReturns);
+router.get('/supplier-returns/:id', requireRole('SUPERADMIN', 'ADMIN', 'MANAGER'), getSupplierReturn);
+router.post('/supplier-returns', requireRole('SUPERADMIN', 'ADMIN', 'MANAGER'), createSupplierReturn); // Reduces what is owed to the supplier
+
+export default router;
@@ -0,0 +1,22 @@
+import { Router } from 'express';
+import { getIngredients, createIngredient, setProductIngredients, getInteractions, createInteraction, updateInteraction, deleteInteraction } from '../controllers/interaction.controller';
+import { authenticate } from '../middleware/auth.middleware';
+import { requireRole } from '../middleware/role.middleware';
+
+const router = Router();
+
+// All interaction routes require authentication
+router.use(authenticate);
+
+// Active ingredients and what each product contains
+router.get('/ingredients', requireRole('SUPERADMIN', 'ADMIN', 'MANAGER', 'CASHIER'), getIngredients);
+router.post('/ingredients', requireRole('SUPERADMIN', 'ADMIN', 'MANAGER'), createIngredient);
+router.put('/products/:productId/ingredients', requireRole('SUPERADMIN', 'ADMIN', 'MANAGER'), setProductIngredients);
+
+// Interaction rules - maintained by managers and above
+router.get('/rules', requireRole('SUPERADMIN', 'ADMIN', 'MANAGER', 'CASHIER'), getInteractions);
+router.post('/rules', requireRole('SUPERADMIN', 'ADMIN', 'MANAGER'), createInteraction);
+router.put('/rules/:id', requireRole('SUPERADMIN', 'ADMIN', 'MANAGER'), updateInteraction);
+router.delete('/rules/:id', requireRole('SUPERADMIN', 'ADMIN', 'MANAGER'), deleteInteraction);
+
+export default router;
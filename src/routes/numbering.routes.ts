@@ -0,0 +1,23 @@
+import { Router } from 'express';
+import { getSequences, updateSequence, reserveNumbers, getReservations, releaseReservation, getSequenceGaps } from '../controllers/numbering.controller';
+import { authenticate } from '../middleware/auth.middleware';
+import { requireRole } from '../middleware/role.middleware';
+
+const router = Router();
+
+// All numbering routes require authentication
+router.use(authenticate);
+
+// Document sequences per branch and fiscal year
+router.get('/sequences', requireRole('SUPERADMIN', 'ADMIN', 'MANAGER'), getSequences);
+router.put('/sequences/:id', requireRole('SUPERADMIN', 'ADMIN'), updateSequence);
+
+// Number ranges reserved for terminals that may go offline
+router.get('/reservations', requireRole('SUPERADMIN', 'ADMIN', 'MANAGER', 'CASHIER'), getReservations);
+router.post('/reservations', requireRole('SUPERADMIN', 'ADMIN', 'MANAGER', 'CASHIER'), reserveNumbers);
+router.post('/reservations/:id/release', requireRole('SUPERADMIN', 'ADMIN', 'MANAGER'), releaseReservation);
+
+// Audit of numbers that were allocated but never issued
+router.get('/gaps', requireRole('SUPERADMIN', 'ADMIN', 'MANAGER'), getSequenceGaps);
+
+export default router;
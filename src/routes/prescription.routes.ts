@@ -0,0 +1,20 @@
+import { Router } from 'express';
+import { getPrescriptions, getPrescription, createPrescription, updatePrescription, cancelPrescription } from '../controllers/prescription.controller';
+import { authenticate } from '../middleware/auth.middleware';
+import { requireRole } from '../middleware/role.middleware';
+
+const router = Router();
+
+// All prescription routes require authentication
+router.use(authenticate);
+
+// Capture and look up prescriptions at the counter
+router.get('/', requireRole('SUPERADMIN', 'ADMIN', 'MANAGER', 'CASHIER'), getPrescriptions);
+router.get('/:id', requireRole('SUPERADMIN', 'ADMIN', 'MANAGER', 'CASHIER'), getPrescription);
+router.post('/', requireRole('SUPERADMIN', 'ADMIN', 'MANAGER', 'CASHIER'), createPrescription);
+router.put('/:id', requireRole('SUPERADMIN', 'ADMIN', 'MANAGER', 'CASHIER'), updatePrescription);
+
+// Cancel what is left to dispense - managers and above only
+router.post('/:id/cancel', requireRole('SUPERADMIN', 'ADMIN', 'MANAGER'), cancelPrescription);
+
+export default router;
@@ -12,6 +12,18 @@ import {
   bulkDeleteProducts,
   getStockMovements
 } from '../controllers/product.controller';
+import {
+  getProductUnits,
+  createProductUnit,
+  updateProductUnit,
+  deleteProductUnit
+} from '../controllers/product-unit.controller';
+import {
+  getProductBarcodes,
+  addProductBarcode,
+  deleteProductBarcode,
+  scanBarcode
+} from '../controllers/product-barcode.controller';
 import { authenticate, authorize } from '../middleware/auth.middleware';
 
 const router = Router();
@@ -24,6 +36,7 @@ router.get('/', getProducts);
 router.get('/all', getAllProducts); // Get all products including inactive ones
 router.get('/stock-movements', getStockMovements); // Get stock movements with date filtering
 router.get('/:id', getProduct);
+router.post('/scan', scanBarcode); // Resolve a scanned barcode or GS1 code to a product and batch
 
 // Product management (All roles can manage products)
 router.post('/', authorize('SUPERADMIN', 'ADMIN', 'MANAGER', 'CASHIER', 'PHARMACIST'), createProduct);
@@ -35,6 +48,17 @@ router.delete('/:id', authorize('SUPERADMIN', 'ADMIN', 'MANAGER', 'CASHIER', 'PH
 // Stock management (All roles can manage stock)
 router.patch('/:id/stock', authorize('SUPERADMIN', 'ADMIN', 'MANAGER', 'CASHIER', 'PHARMACIST'), updateStock);
 
+// Selling units (box, strip) and their conversion to base units
+router.get('/:id/units', getProductUnits);
+router.post('/:id/units', authorize('SUPERADMIN', 'ADMIN', 'MANAGER'), createProductUnit);
+router.put('/:id/units/:unitId', authorize('SUPERADMIN', 'ADMIN', 'MANAGER'), updateProductUnit);
+router.delete('/:id/units/:unitId', authorize('SUPERADMIN', 'ADMIN', 'MANAGER'), deleteProductUnit);
+
+// Extra barcodes (manufacturer EAN, internal, alternate packs)
+router.get('/:id/barcodes', getProductBarcodes);
+router.post('/:id/barcodes', authorize('SUPERADMIN', 'ADMIN', 'MANAGER', 'CASHIER', 'PHARMACIST'), addProductBarcode);
+router.delete('/:id/barcodes/:barcodeId', authorize('SUPERADMIN', 'ADMIN', 'MANAGER', 'CASHIER', 'PHARMACIST'), deleteProductBarcode);
+
 // Activate all products (Admin, SuperAdmin only)
 router.post('/activate-all', authorize('ADMIN', 'SUPERADMIN'), activateAllProducts);
 
@@ -0,0 +1,21 @@
+import { Router } from 'express';
+import { getPromotions, getPromotion, createPromotion, updatePromotion, deletePromotion, previewPromotions } from '../controllers/promotion.controller';
+import { authenticate } from '../middleware/auth.middleware';
+import { requireRole } from '../middleware/role.middleware';
+
+const router = Router();
+
+// All promotion routes require authentication
+router.use(authenticate);
+
+// Price a cart at the till before payment
+router.post('/preview', requireRole('SUPERADMIN', 'ADMIN', 'MANAGER', 'CASHIER'), previewPromotions);
+
+// Promotion rules - maintained by managers and above
+router.get('/', requireRole('SUPERADMIN', 'ADMIN', 'MANAGER', 'CASHIER'), getPromotions);
+router.get('/:id', requireRole('SUPERADMIN', 'ADMIN', 'MANAGER', 'CASHIER'), getPromotion);
+router.post('/', requireRole('SUPERADMIN', 'ADMIN', 'MANAGER'), createPromotion);
+router.put('/:id', requireRole('SUPERADMIN', 'ADMIN', 'MANAGER'), updatePromotion);
+router.delete('/:id', requireRole('SUPERADMIN', 'ADMIN', 'MANAGER'), deletePromotion);
+
+export default router;
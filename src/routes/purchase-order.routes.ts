@@ -0,0 +1,23 @@
+import { Router } from 'express';
+import { getPurchaseOrders, getPurchaseOrder, createPurchaseOrder, getReorderSuggestions, createPurchaseOrderFromSuggestions, updatePurchaseOrder, placePurchaseOrder, receivePurchaseOrder, closePurchaseOrder, cancelPurchaseOrder } from '../controllers/purchase-order.controller';
+import { authenticate } from '../middleware/auth.middleware';
+import { requireRole } from '../middleware/role.middleware';
+
+const router = Router();
+
+// All purchase order routes require authentication
+router.use(authenticate);
+
+// Purchase orders and goods receipts - managers and above
+router.get('/', requireRole('SUPERADMIN', 'ADMIN', 'MANAGER'), getPurchaseOrders);
+router.get('/suggestions', requireRole('SUPERADMIN', 'ADMIN', 'MANAGER'), getReorderSuggestions); // Reorder suggestions grouped by supplier
+router.post('/suggestions', requireRole('SUPERADMIN', 'ADMIN', 'MANAGER'), createPurchaseOrderFromSuggestions); // Draft order from a supplier's suggestions
+router.get('/:id', requireRole('SUPERADMIN', 'ADMIN', 'MANAGER'), getPurchaseOrder);
+router.post('/', requireRole('SUPERADMIN', 'ADMIN', 'MANAGER'), createPurchaseOrder);
+router.put('/:id', requireRole('SUPERADMIN', 'ADMIN', 'MANAGER'), updatePurchaseOrder);
+router.post('/:id/order', requireRole('SUPERADMIN', 'ADMIN', 'MANAGER'), placePurchaseOrder);
+router.post('/:id/receipts', requireRole('SUPERADMIN', 'ADMIN', 'MANAGER'), receivePurchaseOrder); // Goods-received note, partial deliveries allowed
+router.post('/:id/close', requireRole('SUPERADMIN', 'ADMIN', 'MANAGER'), closePurchaseOrder); // Accept a short delivery
+router.post('/:id/cancel', requireRole('SUPERADMIN', 'ADMIN', 'MANAGER'), cancelPurchaseOrder);
+
+export default router;
@@ -4,7 +4,8 @@ import {
   getPurchases,
   getPurchaseById,
   updatePurchase,
-  deletePurchase
+  deletePurchase,
+  updatePurchaseLandedCost
 } from '../controllers/purchase.controller';
 import { authenticate } from '../middleware/auth.middleware';
 
@@ -18,6 +19,7 @@ router.post('/', createPurchase);
 router.get('/', getPurchases);
 router.get('/:id', getPurchaseById);
 router.put('/:id', updatePurchase);
+router.put('/:id/landed-cost', updatePurchaseLandedCost);
 router.delete('/:id', deletePurchase);
 
 export default router;
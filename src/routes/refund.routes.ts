@@ -1,5 +1,5 @@
 import { Router } from 'express';
-import { createRefund, getRefunds, getRefundById } from '../controllers/refund.controller';
+import { createRefund, getRefunds, getRefundById, approveRefund, rejectRefund } from '../controllers/refund.controller';
 import { authenticate } from '../middleware/auth.middleware';
 import { requireRole } from '../middleware/role.middleware';
 
@@ -17,4 +17,8 @@ router.get('/', requireRole('SUPERADMIN', 'ADMIN', 'MANAGER', 'CASHIER'), getRef
 // Get refund by ID - requires read permissions
 router.get('/:id', requireRole('SUPERADMIN', 'ADMIN', 'MANAGER', 'CASHIER'), getRefundById);
 
+// Approve or reject a refund awaiting approval - managers and above only
+router.post('/:id/approve', requireRole('SUPERADMIN', 'ADMIN', 'MANAGER'), approveRefund);
+router.post('/:id/reject', requireRole('SUPERADMIN', 'ADMIN', 'MANAGER'), rejectRefund);
+
 export default router;
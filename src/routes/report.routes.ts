@@ -6,7 +6,11 @@ import {
   getProductPerformanceReport,
   getTopSellingProducts,
   getSalesByPaymentMethod,
-  getDashboardData
+  getDashboardData,
+  getControlledSubstanceRegister,
+  getPromotionPerformanceReport,
+  getExpiryLossReport,
+  getGrossProfitReport
 } from '../controllers/report.controller';
 import { authenticate, authorize } from '../middleware/auth.middleware';
 
@@ -23,5 +27,9 @@ router.get('/products', authorize('CASHIER', 'MANAGER', 'ADMIN', 'SUPERADMIN'),
 router.get('/top-products', authorize('CASHIER', 'MANAGER', 'ADMIN', 'SUPERADMIN'), getTopSellingProducts);
 router.get('/payment-methods', authorize('CASHIER', 'MANAGER', 'ADMIN', 'SUPERADMIN'), getSalesByPaymentMethod);
 router.get('/dashboard', authorize('CASHIER', 'MANAGER', 'ADMIN', 'SUPERADMIN'), getDashboardData);
+router.get('/controlled-register', authorize('MANAGER', 'ADMIN', 'SUPERADMIN'), getControlledSubstanceRegister);
+router.get('/promotions', authorize('MANAGER', 'ADMIN', 'SUPERADMIN'), getPromotionPerformanceReport);
+router.get('/expiry-loss', authorize('MANAGER', 'ADMIN', 'SUPERADMIN'), getExpiryLossReport);
+router.get('/gross-profit', authorize('MANAGER', 'ADMIN', 'SUPERADMIN'), getGrossProfitReport);
 
 export default router;
@@ -1,5 +1,5 @@
 import { Router } from 'express';
-import { getSales, getSale, getSaleByReceiptNumber, getAvailableReceiptNumbers, createSale, updateSale, deleteSale } from '../controllers/sale.controller';
+import { getSales, getSale, getSaleByReceiptNumber, getAvailableReceiptNumbers, getSaleReceipt, getSaleCost, createSale, validateSale, updateSale, voidSale, holdSale, getHeldSales, resumeHeldSale, updateHeldSale, finalizeHeldSale, discardHeldSale } from '../controllers/sale.controller';
 import { authenticate } from '../middleware/auth.middleware';
 
 const router = Router();
@@ -7,13 +7,24 @@ const router = Router();
 // All routes require authentication
 router.use(authenticate);
 
+// Held (parked) sales - registered before /:id so "held" is not taken as a sale ID
+router.get('/held', getHeldSales);
+router.post('/held', holdSale);
+router.get('/held/:id', resumeHeldSale);
+router.put('/held/:id', updateHeldSale);
+router.post('/held/:id/finalize', finalizeHeldSale);
+router.delete('/held/:id', discardHeldSale);
+
 // Sales routes (all authenticated users can access)
 router.get('/', getSales);
+router.post('/validate', validateSale); // Interaction warnings for a basket before checkout
 router.get('/receipt/:receiptNumber', getSaleByReceiptNumber);
 router.get('/receipts', getAvailableReceiptNumbers);
+router.get('/:id/receipt', getSaleReceipt); // ?format=text|html|escpos|pdf
+router.get('/:id/cost', getSaleCost); // Cost of goods sold and gross profit
 router.get('/:id', getSale);
 router.post('/', createSale);
 router.put('/:id', updateSale);
-router.delete('/:id', deleteSale);
+router.post('/:id/void', voidSale); // Sales are voided with a reason, never deleted
 
 export default router;
@@ -3,6 +3,7 @@ import { AuthRequest } from '../middleware/auth.middleware';
 import jwt from 'jsonwebtoken';
 import { PrismaClient } from '@prisma/client';
 import { getPrisma } from '../utils/db.util';
+import { REFUND_APPROVER_ROLES } from '../utils/refund-helper';
 
 const router = Router();
 
@@ -12,8 +13,11 @@ const activeConnections = new Map<string, Response>();
 // Store connections by createdBy for group notifications
 const adminConnections = new Map<string, Set<string>>();
 
+// Store the role of each connected user for role-targeted notifications
+const connectionRoles = new Map<string, string>();
+
 // Custom authentication for SSE (since EventSource doesn't support headers)
-const authenticateSSE = async (req: Request): Promise<{ userId: string; createdBy: string } | null> => {
+const authenticateSSE = async (req: Request): Promise<{ userId: string; createdBy: string; role: string } | null> => {
   try {
     const token = req.query.token as string;
 
@@ -51,7 +55,8 @@ const authenticateSSE = async (req: Request): Promise<{ userId: string; createdB
 
     return {
       userId: user.id,
-      createdBy: createdBy || user.id
+      createdBy: createdBy || user.id,
+      role: user.role
     };
   } catch (error) {
     console.error('SSE authentication error:', error);
@@ -68,7 +73,7 @@ router.get('/events', async (req: Request, res: Response) => {
     return;
   }
 
-  const { userId, createdBy } = auth;
+  const { userId, createdBy, role } = auth;
 
   // Set SSE headers
   res.writeHead(200, {
@@ -81,6 +86,7 @@ router.get('/events', async (req: Request, res: Response) => {
 
   // Store connection
   activeConnections.set(userId, res);
+  connectionRoles.set(userId, role);
 
   // Add to admin group
   if (createdBy) {
@@ -96,6 +102,7 @@ router.get('/events', async (req: Request, res: Response) => {
   // Handle client disconnect
   req.on('close', () => {
     activeConnections.delete(userId);
+    connectionRoles.delete(userId);
 
     // Remove from admin group
     if (createdBy && adminConnections.has(createdBy)) {
@@ -155,10 +162,15 @@ export const notifyUserReactivation = (userId: string) => {
 };
 
 // Function to notify all users of the same admin about data changes
-export const notifyAdminGroup = (createdBy: string, eventType: string, data: any) => {
+// Pass roles to only notify users with one of those roles
+export const notifyAdminGroup = (createdBy: string, eventType: string, data: any, roles?: string[]) => {
   const userConnections = adminConnections.get(createdBy);
   if (userConnections) {
     userConnections.forEach(userId => {
+      if (roles && !roles.includes(connectionRoles.get(userId) || '')) {
+        return;
+      }
+
       const connection = activeConnections.get(userId);
       if (connection) {
         try {
@@ -208,12 +220,19 @@ export const notifySaleChange = (createdBy: string, action: 'created' | 'updated
   });
 };
 
-export const notifyRefundChange = (createdBy: string, action: 'created' | 'updated' | 'deleted', refund: any) => {
+export const notifyRefundChange = (
+  createdBy: string,
+  action: 'created' | 'updated' | 'deleted' | 'pending_approval' | 'approved' | 'rejected',
+  refund: any
+) => {
+  // Refunds waiting for approval are only of interest to the people who can approve them
+  const roles = action === 'pending_approval' ? REFUND_APPROVER_ROLES : undefined;
+
   notifyAdminGroup(createdBy, 'refund_change', {
     action,
     refund,
-    message: `Refund ${action}: ${refund.id}`
-  });
+    message: action === 'pending_approval' ? `Refund awaiting approval: ${refund.id}` : `Refund ${action}: ${refund.id}`
+  }, roles);
 };
 
 export const notifyCustomerChange = (createdBy: string, action: 'created' | 'updated' | 'deleted', customer: any) => {
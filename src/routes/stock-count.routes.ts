@@ -0,0 +1,23 @@
+import { Router } from 'express';
+import { getStockCounts, getStockCount, createStockCount, recordCountEntries, submitStockCount, approveStockCount, cancelStockCount, getStockCountVarianceReport } from '../controllers/stock-count.controller';
+import { authenticate } from '../middleware/auth.middleware';
+import { requireRole } from '../middleware/role.middleware';
+
+const router = Router();
+
+// All stock count routes require authentication
+router.use(authenticate);
+
+// Counting - any staff member of the branch
+router.get('/', requireRole('SUPERADMIN', 'ADMIN', 'MANAGER', 'CASHIER'), getStockCounts);
+router.get('/:id', requireRole('SUPERADMIN', 'ADMIN', 'MANAGER', 'CASHIER'), getStockCount);
+router.post('/:id/entries', requireRole('SUPERADMIN', 'ADMIN', 'MANAGER', 'CASHIER'), recordCountEntries); // Scanned or typed counts
+router.post('/:id/submit', requireRole('SUPERADMIN', 'ADMIN', 'MANAGER', 'CASHIER'), submitStockCount);
+
+// Starting, approving and reporting - managers and above
+router.post('/', requireRole('SUPERADMIN', 'ADMIN', 'MANAGER'), createStockCount);
+router.get('/:id/variance-report', requireRole('SUPERADMIN', 'ADMIN', 'MANAGER'), getStockCountVarianceReport);
+router.post('/:id/approve', requireRole('SUPERADMIN', 'ADMIN', 'MANAGER'), approveStockCount); // Posts the adjustments
+router.post('/:id/cancel', requireRole('SUPERADMIN', 'ADMIN', 'MANAGER'), cancelStockCount);
+
+export default router;
@@ -6,6 +6,12 @@ import {
   updateSupplier,
   deleteSupplier
 } from '../controllers/supplier.controller';
+import {
+  getSupplierAging,
+  getSupplierStatement,
+  getSupplierPayments,
+  createSupplierPayment
+} from '../controllers/supplier-account.controller';
 import { authenticate, authorize } from '../middleware/auth.middleware';
 
 const router = Router();
@@ -15,8 +21,14 @@ router.use(authenticate);
 
 // Get suppliers (all roles can view)
 router.get('/', getSuppliers);
+router.get('/aging', authorize('SUPERADMIN', 'ADMIN', 'MANAGER'), getSupplierAging); // What is owed to each supplier by age
 router.get('/:id', getSupplier);
 
+// Supplier account - payments and statements (managers and above)
+router.get('/:id/statement', authorize('SUPERADMIN', 'ADMIN', 'MANAGER'), getSupplierStatement); // ?format=csv for a download
+router.get('/:id/payments', authorize('SUPERADMIN', 'ADMIN', 'MANAGER'), getSupplierPayments);
+router.post('/:id/payments', authorize('SUPERADMIN', 'ADMIN', 'MANAGER'), createSupplierPayment);
+
 // Supplier management (All roles can manage suppliers)
 router.post('/', authorize('SUPERADMIN', 'ADMIN', 'MANAGER', 'CASHIER', 'PHARMACIST'), createSupplier);
 router.put('/:id', authorize('SUPERADMIN', 'ADMIN', 'MANAGER', 'CASHIER', 'PHARMACIST'), updateSupplier);
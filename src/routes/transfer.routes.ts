@@ -0,0 +1,20 @@
+import { Router } from 'express';
+import { getTransfers, getTransfer, createTransfer, updateTransfer, dispatchTransfer, receiveTransfer, cancelTransfer } from '../controllers/transfer.controller';
+import { authenticate } from '../middleware/auth.middleware';
+import { requireRole } from '../middleware/role.middleware';
+
+const router = Router();
+
+// All stock transfer routes require authentication
+router.use(authenticate);
+
+// Transfers between branches - managers and above
+router.get('/', requireRole('SUPERADMIN', 'ADMIN', 'MANAGER'), getTransfers);
+router.get('/:id', requireRole('SUPERADMIN', 'ADMIN', 'MANAGER'), getTransfer);
+router.post('/', requireRole('SUPERADMIN', 'ADMIN', 'MANAGER'), createTransfer);
+router.put('/:id', requireRole('SUPERADMIN', 'ADMIN', 'MANAGER'), updateTransfer);
+router.post('/:id/dispatch', requireRole('SUPERADMIN', 'ADMIN', 'MANAGER'), dispatchTransfer);
+router.post('/:id/receive', requireRole('SUPERADMIN', 'ADMIN', 'MANAGER'), receiveTransfer); // Partial deliveries allowed
+router.post('/:id/cancel', requireRole('SUPERADMIN', 'ADMIN', 'MANAGER'), cancelTransfer);
+
+export default router;
@@ -55,6 +55,14 @@ import inventoryRoutes from './routes/inventory.routes';
 import sseRoutes from './routes/sse.routes';
 import settingsRoutes from './routes/settings.routes';
 import syncRoutes from './routes/sync.routes';
+import numberingRoutes from './routes/numbering.routes';
+import prescriptionRoutes from './routes/prescription.routes';
+import interactionRoutes from './routes/interaction.routes';
+import promotionRoutes from './routes/promotion.routes';
+import transferRoutes from './routes/transfer.routes';
+import stockCountRoutes from './routes/stock-count.routes';
+import expiryRoutes from './routes/expiry.routes';
+import purchaseOrderRoutes from './routes/purchase-order.routes';
 import { getDatabaseService, DatabaseType } from './services/database.service';
 import { getSyncService } from './services/sync.service';
 import { getPrisma } from './utils/db.util';
@@ -469,7 +477,7 @@ const corsOptions = {
   },
   credentials: true,
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With', 'Accept', 'Origin', 'X-Company-ID', 'X-Branch-ID'],
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With', 'Accept', 'Origin', 'X-Company-ID', 'X-Branch-ID', 'X-Device-ID'],
   optionsSuccessStatus: 200 // Some legacy browsers (IE11, various SmartTVs) choke on 204
 };
 
@@ -752,6 +760,14 @@ app.use('/api/inventory', inventoryRoutes);
 app.use('/api/sse', sseRoutes);
 app.use('/api/settings', settingsRoutes);
 app.use('/api/sync', syncRoutes);
+app.use('/api/numbering', numberingRoutes);
+app.use('/api/prescriptions', prescriptionRoutes);
+app.use('/api/interactions', interactionRoutes);
+app.use('/api/promotions', promotionRoutes);
+app.use('/api/transfers', transferRoutes);
+app.use('/api/stock-counts', stockCountRoutes);
+app.use('/api/expiry', expiryRoutes);
+app.use('/api/purchase-orders', purchaseOrderRoutes);
 
 // Error handling middleware
 app.use(notFound);
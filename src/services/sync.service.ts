@@ -5,6 +5,7 @@
 
 import { PrismaClient } from '@prisma/client';
 import { getDatabaseService, DatabaseType, ConnectionStatus } from './database.service';
+import { renumberProvisionalReceipts } from '../utils/numbering-helper';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
@@ -629,21 +630,52 @@ class SyncService {
         { pg: 'employees', sqlite: 'employee' },
         // Products (depend on category, supplier, manufacturer, shelf)
         { pg: 'products', sqlite: 'product' },
+        { pg: 'active_ingredients', sqlite: 'activeIngredient' },
+        { pg: 'product_ingredients', sqlite: 'productIngredient' },
+        { pg: 'drug_interactions', sqlite: 'drugInteraction' },
+        { pg: 'promotions', sqlite: 'promotion' },
+        { pg: 'promotion_products', sqlite: 'promotionProduct' },
         // Batches (depend on product, supplier, manufacturer)
         { pg: 'batches', sqlite: 'batch' },
+        { pg: 'stock_transfers', sqlite: 'stockTransfer' },
+        { pg: 'stock_transfer_items', sqlite: 'stockTransferItem' },
+        { pg: 'stock_counts', sqlite: 'stockCount' },
+        { pg: 'stock_count_lines', sqlite: 'stockCountLine' },
+        { pg: 'supplier_returns', sqlite: 'supplierReturn' },
+        { pg: 'supplier_return_items', sqlite: 'supplierReturnItem' },
+        { pg: 'batch_write_offs', sqlite: 'batchWriteOff' },
         { pg: 'stock_movements', sqlite: 'stockMovement' },
         // Customers
         { pg: 'customers', sqlite: 'customer' },
+        { pg: 'prescriptions', sqlite: 'prescription' },
+        { pg: 'prescription_items', sqlite: 'prescriptionItem' },
         // Sales
         { pg: 'sales', sqlite: 'sale' },
         { pg: 'sale_items', sqlite: 'saleItem' },
+        { pg: 'sale_item_batches', sqlite: 'saleItemBatch' },
+        { pg: 'sale_payments', sqlite: 'salePayment' },
+        { pg: 'document_sequences', sqlite: 'documentSequence' },
+        { pg: 'sequence_reservations', sqlite: 'sequenceReservation' },
         { pg: 'receipts', sqlite: 'receipt' },
         // Purchases
         { pg: 'purchases', sqlite: 'purchase' },
         { pg: 'purchase_items', sqlite: 'purchaseItem' },
+        { pg: 'purchase_orders', sqlite: 'purchaseOrder' },
+        { pg: 'purchase_order_items', sqlite: 'purchaseOrderItem' },
+        { pg: 'goods_receipts', sqlite: 'goodsReceipt' },
+        { pg: 'goods_receipt_items', sqlite: 'goodsReceiptItem' },
+        { pg: 'supplier_payments', sqlite: 'supplierPayment' },
+        { pg: 'supplier_payment_allocations', sqlite: 'supplierPaymentAllocation' },
+        { pg: 'supplier_ledger_entries', sqlite: 'supplierLedgerEntry' },
+        { pg: 'product_units', sqlite: 'productUnit' },
+        { pg: 'product_barcodes', sqlite: 'productBarcode' },
         // Refunds
         { pg: 'refunds', sqlite: 'refund' },
         { pg: 'refund_items', sqlite: 'refundItem' },
+        { pg: 'loyalty_transactions', sqlite: 'loyaltyTransaction' },
+        { pg: 'customer_payments', sqlite: 'customerPayment' },
+        { pg: 'customer_payment_allocations', sqlite: 'customerPaymentAllocation' },
+        { pg: 'customer_ledger_entries', sqlite: 'customerLedgerEntry' },
         // Employee management
         { pg: 'attendance', sqlite: 'attendance' },
         { pg: 'shifts', sqlite: 'shift' },
@@ -1326,16 +1358,47 @@ class SyncService {
       'branch': 'branches',
       'employee': 'employees',
       'product': 'products',
+      'activeIngredient': 'active_ingredients',
+      'productIngredient': 'product_ingredients',
+      'drugInteraction': 'drug_interactions',
+      'promotion': 'promotions',
+      'promotionProduct': 'promotion_products',
       'batch': 'batches',
+      'stockTransfer': 'stock_transfers',
+      'stockTransferItem': 'stock_transfer_items',
+      'stockCount': 'stock_counts',
+      'stockCountLine': 'stock_count_lines',
+      'supplierReturn': 'supplier_returns',
+      'supplierReturnItem': 'supplier_return_items',
+      'batchWriteOff': 'batch_write_offs',
       'stockMovement': 'stock_movements',
       'customer': 'customers',
+      'prescription': 'prescriptions',
+      'prescriptionItem': 'prescription_items',
       'sale': 'sales',
       'saleItem': 'sale_items',
+      'saleItemBatch': 'sale_item_batches',
+      'salePayment': 'sale_payments',
+      'documentSequence': 'document_sequences',
+      'sequenceReservation': 'sequence_reservations',
       'receipt': 'receipts',
       'purchase': 'purchases',
       'purchaseItem': 'purchase_items',
+      'purchaseOrder': 'purchase_orders',
+      'purchaseOrderItem': 'purchase_order_items',
+      'goodsReceipt': 'goods_receipts',
+      'goodsReceiptItem': 'goods_receipt_items',
+      'supplierPayment': 'supplier_payments',
+      'supplierPaymentAllocation': 'supplier_payment_allocations',
+      'supplierLedgerEntry': 'supplier_ledger_entries',
+      'productUnit': 'product_units',
+      'productBarcode': 'product_barcodes',
       'refund': 'refunds',
       'refundItem': 'refund_items',
+      'loyaltyTransaction': 'loyalty_transactions',
+      'customerPayment': 'customer_payments',
+      'customerPaymentAllocation': 'customer_payment_allocations',
+      'customerLedgerEntry': 'customer_ledger_entries',
       'attendance': 'attendance',
       'shift': 'shifts',
       'scheduledShift': 'scheduled_shifts',
@@ -1363,16 +1426,47 @@ class SyncService {
       'branches': 'branch',
       'employees': 'employee',
       'products': 'product',
+      'active_ingredients': 'activeIngredient',
+      'product_ingredients': 'productIngredient',
+      'drug_interactions': 'drugInteraction',
+      'promotions': 'promotion',
+      'promotion_products': 'promotionProduct',
       'batches': 'batch',
+      'stock_transfers': 'stockTransfer',
+      'stock_transfer_items': 'stockTransferItem',
+      'stock_counts': 'stockCount',
+      'stock_count_lines': 'stockCountLine',
+      'supplier_returns': 'supplierReturn',
+      'supplier_return_items': 'supplierReturnItem',
+      'batch_write_offs': 'batchWriteOff',
       'stock_movements': 'stockMovement',
       'customers': 'customer',
+      'prescriptions': 'prescription',
+      'prescription_items': 'prescriptionItem',
       'sales': 'sale',
       'sale_items': 'saleItem',
+      'sale_item_batches': 'saleItemBatch',
+      'sale_payments': 'salePayment',
+      'document_sequences': 'documentSequence',
+      'sequence_reservations': 'sequenceReservation',
       'receipts': 'receipt',
       'purchases': 'purchase',
       'purchase_items': 'purchaseItem',
+      'purchase_orders': 'purchaseOrder',
+      'purchase_order_items': 'purchaseOrderItem',
+      'goods_receipts': 'goodsReceipt',
+      'goods_receipt_items': 'goodsReceiptItem',
+      'supplier_payments': 'supplierPayment',
+      'supplier_payment_allocations': 'supplierPaymentAllocation',
+      'supplier_ledger_entries': 'supplierLedgerEntry',
+      'product_units': 'productUnit',
+      'product_barcodes': 'productBarcode',
       'refunds': 'refund',
       'refund_items': 'refundItem',
+      'loyalty_transactions': 'loyaltyTransaction',
+      'customer_payments': 'customerPayment',
+      'customer_payment_allocations': 'customerPaymentAllocation',
+      'customer_ledger_entries': 'customerLedgerEntry',
       'attendance': 'attendance',
       'shifts': 'shift',
       'scheduled_shifts': 'scheduledShift',
@@ -1418,21 +1512,52 @@ class SyncService {
       'employee',
       // Products (depend on category, supplier, manufacturer, shelf)
       'product',
+      'activeIngredient',
+      'productIngredient',
+      'drugInteraction',
+      'promotion',
+      'promotionProduct',
       // Batches (depend on product)
       'batch',
+      'stockTransfer',
+      'stockTransferItem',
+      'stockCount',
+      'stockCountLine',
+      'supplierReturn',
+      'supplierReturnItem',
+      'batchWriteOff',
       'stockMovement',
       // Customers (depend on branch)
       'customer',
+      'prescription',
+      'prescriptionItem',
       // Sales (depend on customer, user, branch, product)
       'sale',
       'saleItem',
+      'saleItemBatch',
+      'salePayment',
+      'documentSequence',
+      'sequenceReservation',
       'receipt',
       // Purchases (depend on supplier, branch, product)
       'purchase',
       'purchaseItem',
+      'purchaseOrder',
+      'purchaseOrderItem',
+      'goodsReceipt',
+      'goodsReceiptItem',
+      'supplierPayment',
+      'supplierPaymentAllocation',
+      'supplierLedgerEntry',
+      'productUnit',
+      'productBarcode',
       // Refunds (depend on sale)
       'refund',
       'refundItem',
+      'loyaltyTransaction',
+      'customerPayment',
+      'customerPaymentAllocation',
+      'customerLedgerEntry',
       // Employee management
       'attendance',
       'shift',
@@ -1898,8 +2023,8 @@ class SyncService {
     const relationFields = [
       'branch', 'company', 'user', 'customer', 'product', 'sale', 'purchase',
       'category', 'supplier', 'manufacturer', 'shelf', 'role', 'employee',
-      'items', 'batches', 'sales', 'purchases', 'receipts', 'refunds',
-      'subscriptions', 'card_details', 'attendance', 'shifts', 'commissions'
+      'items', 'batches', 'sales', 'purchases', 'receipts', 'refunds', 'payments',
+      'subscriptions', 'card_details', 'attendance', 'shifts', 'commissions', 'reservations', 'products', 'lines', 'allocations'
     ];
 
     const now = new Date();
@@ -1993,6 +2118,23 @@ class SyncService {
     this.syncStatus.currentOperation = 'Bidirectional Sync';
 
     try {
+      // Step 0: Give receipts issued without a reserved range their real numbers before they are pushed
+      const sqliteClient = dbService.getSQLiteClient();
+      const pgClient = sqliteClient ? await dbService.getRawPostgreSQLClient() : null;
+      if (sqliteClient && pgClient) {
+        try {
+          const renumbered = await renumberProvisionalReceipts(sqliteClient, pgClient);
+          if (renumbered > 0) {
+            console.log(`[Sync] 🔢 Renumbered ${renumbered} provisional receipt(s)`);
+          }
+        } catch (error: any) {
+          console.error('[Sync] ❌ Renumbering provisional receipts failed:', error.message);
+          result.errors.push(error.message);
+        } finally {
+          await pgClient.end();
+        }
+      }
+
       // Step 1: Sync LOCAL (SQLite) → LIVE (PostgreSQL)
       console.log('[Sync] ➡️ Step 1: Syncing LOCAL → LIVE (SQLite → PostgreSQL)...');
       const localToLiveResult = await this.syncAllTablesFromSQLiteToPostgreSQL();
@@ -2059,16 +2201,47 @@ class SyncService {
       { prisma: 'branch', pg: 'branches' },
       { prisma: 'employee', pg: 'employees' },
       { prisma: 'product', pg: 'products' },
+      { prisma: 'activeIngredient', pg: 'active_ingredients' },
+      { prisma: 'productIngredient', pg: 'product_ingredients' },
+      { prisma: 'drugInteraction', pg: 'drug_interactions' },
+      { prisma: 'promotion', pg: 'promotions' },
+      { prisma: 'promotionProduct', pg: 'promotion_products' },
       { prisma: 'batch', pg: 'batches' },
+      { prisma: 'stockTransfer', pg: 'stock_transfers' },
+      { prisma: 'stockTransferItem', pg: 'stock_transfer_items' },
+      { prisma: 'stockCount', pg: 'stock_counts' },
+      { prisma: 'stockCountLine', pg: 'stock_count_lines' },
+      { prisma: 'supplierReturn', pg: 'supplier_returns' },
+      { prisma: 'supplierReturnItem', pg: 'supplier_return_items' },
+      { prisma: 'batchWriteOff', pg: 'batch_write_offs' },
       { prisma: 'stockMovement', pg: 'stock_movements' },
       { prisma: 'customer', pg: 'customers' },
+      { prisma: 'prescription', pg: 'prescriptions' },
+      { prisma: 'prescriptionItem', pg: 'prescription_items' },
       { prisma: 'sale', pg: 'sales' },
       { prisma: 'saleItem', pg: 'sale_items' },
+      { prisma: 'saleItemBatch', pg: 'sale_item_batches' },
+      { prisma: 'salePayment', pg: 'sale_payments' },
+      { prisma: 'documentSequence', pg: 'document_sequences' },
+      { prisma: 'sequenceReservation', pg: 'sequence_reservations' },
       { prisma: 'receipt', pg: 'receipts' },
       { prisma: 'purchase', pg: 'purchases' },
       { prisma: 'purchaseItem', pg: 'purchase_items' },
+      { prisma: 'purchaseOrder', pg: 'purchase_orders' },
+      { prisma: 'purchaseOrderItem', pg: 'purchase_order_items' },
+      { prisma: 'goodsReceipt', pg: 'goods_receipts' },
+      { prisma: 'goodsReceiptItem', pg: 'goods_receipt_items' },
+      { prisma: 'supplierPayment', pg: 'supplier_payments' },
+      { prisma: 'supplierPaymentAllocation', pg: 'supplier_payment_allocations' },
+      { prisma: 'supplierLedgerEntry', pg: 'supplier_ledger_entries' },
+      { prisma: 'productUnit', pg: 'product_units' },
+      { prisma: 'productBarcode', pg: 'product_barcodes' },
       { prisma: 'refund', pg: 'refunds' },
       { prisma: 'refundItem', pg: 'refund_items' },
+      { prisma: 'loyaltyTransaction', pg: 'loyalty_transactions' },
+      { prisma: 'customerPayment', pg: 'customer_payments' },
+      { prisma: 'customerPaymentAllocation', pg: 'customer_payment_allocations' },
+      { prisma: 'customerLedgerEntry', pg: 'customer_ledger_entries' },
       { prisma: 'attendance', pg: 'attendance' },
       { prisma: 'shift', pg: 'shifts' },
       { prisma: 'scheduledShift', pg: 'scheduled_shifts' },
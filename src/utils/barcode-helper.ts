@@ -0,0 +1,252 @@
+/**
+ * Barcode Helper - Resolve scanned codes to products, packs and batches
+ *
+ * A product can carry several barcodes (manufacturer EAN, internal labels,
+ * alternate packs) besides its own barcode column, and each selling unit can
+ * have the barcode printed on its pack. GS1 DataMatrix and GS1-128 symbols
+ * also carry the lot, expiry and serial number; their GTIN is matched against
+ * the product barcodes in its 14, 13, 12 and 8 digit forms, and the lot
+ * narrows the scan down to one batch.
+ */
+
+import { Prisma, PrismaClient } from '@prisma/client';
+import { createAppError } from '../middleware/error.middleware';
+
+export const PRODUCT_BARCODE_TYPES = ['MANUFACTURER', 'INTERNAL', 'ALTERNATE'];
+
+export interface Gs1Data {
+  gtin: string | null;
+  batchNo: string | null;
+  expiryDate: Date | null;
+  productionDate: Date | null;
+  serialNumber: string | null;
+  elements: Record<string, string>; // Every application identifier read, by AI
+}
+
+// ASCII group separator, which scanners send for FNC1 between variable-length fields
+const GROUP_SEPARATOR = '\x1d';
+
+// Symbology identifiers of GS1 DataMatrix, GS1-128, GS1 QR and GS1 DataBar
+const GS1_SYMBOLOGY_PREFIXES = [']d2', ']C1', ']Q3', ']e0'];
+
+// Application identifiers with a fixed data length
+const FIXED_LENGTH_AIS: Record<string, number> = {
+  '00': 18,
+  '01': 14,
+  '02': 14,
+  '11': 6,
+  '12': 6,
+  '13': 6,
+  '15': 6,
+  '16': 6,
+  '17': 6,
+  '20': 2
+};
+
+// Application identifiers with variable data, up to this many characters
+const VARIABLE_LENGTH_AIS: Record<string, number> = {
+  '10': 20,
+  '21': 20,
+  '22': 20,
+  '30': 8,
+  '37': 8,
+  '240': 30,
+  '241': 30,
+  '710': 20,
+  '711': 20,
+  '712': 20,
+  '713': 20,
+  '714': 20
+};
+
+/**
+ * Whether a GTIN (8, 12, 13 or 14 digits) has the right check digit
+ */
+export function isValidGtin(code: string): boolean {
+  if (!/^(\d{8}|\d{12}|\d{13}|\d{14})$/.test(code)) {
+    return false;
+  }
+
+  const digits = code.split('').map(Number);
+  const checkDigit = digits.pop()!;
+  const sum = digits
+    .reverse()
+    .reduce((total, digit, index) => total + digit * (index % 2 === 0 ? 3 : 1), 0);
+
+  return (10 - (sum % 10)) % 10 === checkDigit;
+}
+
+/**
+ * Forms a GTIN can be stored in: GTIN-14 and, where its leading zeros allow,
+ * EAN-13, UPC-A and EAN-8. Other codes only match themselves.
+ */
+export function gtinCandidates(code: string): string[] {
+  const trimmed = code.trim();
+  if (!isValidGtin(trimmed)) {
+    return [trimmed];
+  }
+
+  const gtin14 = trimmed.padStart(14, '0');
+  const candidates = [trimmed, gtin14];
+  if (gtin14.startsWith('0')) candidates.push(gtin14.slice(1));
+  if (gtin14.startsWith('00')) candidates.push(gtin14.slice(2));
+  if (gtin14.startsWith('000000')) candidates.push(gtin14.slice(6));
+
+  return Array.from(new Set(candidates));
+}
+
+/**
+ * Whether a scanned string is a GS1 element string rather than a plain barcode
+ */
+export function isGs1String(raw: string): boolean {
+  return GS1_SYMBOLOGY_PREFIXES.some(prefix => raw.startsWith(prefix)) ||
+    raw.startsWith('(') ||
+    raw.includes(GROUP_SEPARATOR) ||
+    /^01\d{14}./.test(raw);
+}
+
+/**
+ * GS1 YYMMDD date; day 00 means the last day of the month
+ */
+export function parseGs1Date(value: string): Date {
+  if (!/^\d{6}$/.test(value)) {
+    throw createAppError(`Invalid GS1 date ${value}`);
+  }
+
+  const year = 2000 + Number(value.slice(0, 2));
+  const month = Number(value.slice(2, 4));
+  const day = Number(value.slice(4, 6));
+  if (month < 1 || month > 12) {
+    throw createAppError(`Invalid GS1 date ${value}`);
+  }
+
+  return day === 0
+    ? new Date(Date.UTC(year, month, 0))
+    : new Date(Date.UTC(year, month - 1, day));
+}
+
+const readAi = (data: string, position: number): string | null => {
+  for (const length of [2, 3]) {
+    const ai = data.slice(position, position + length);
+    if (FIXED_LENGTH_AIS[ai] !== undefined || VARIABLE_LENGTH_AIS[ai] !== undefined) {
+      return ai;
+    }
+  }
+  return null;
+};
+
+/**
+ * Read the application identifiers of a GS1 string, in either its raw form
+ * (FNC1 sent as the group separator) or its human-readable form with the AIs
+ * in brackets
+ * @throws AppError (400) when the string holds an AI this reader does not know
+ */
+export function parseGs1(raw: string): Gs1Data {
+  let data = raw.trim();
+  const prefix = GS1_SYMBOLOGY_PREFIXES.find(p => data.startsWith(p));
+  if (prefix) {
+    data = data.slice(prefix.length);
+  }
+
+  const elements: Record<string, string> = {};
+
+  if (data.startsWith('(')) {
+    const pattern = /\((\d{2,4})\)([^(]*)/g;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(data)) !== null) {
+      elements[match[1]] = match[2].replace(GROUP_SEPARATOR, '');
+    }
+  } else {
+    let position = data.startsWith(GROUP_SEPARATOR) ? 1 : 0;
+    while (position < data.length) {
+      const ai = readAi(data, position);
+      if (!ai) {
+        throw createAppError(`Unknown GS1 application identifier at "${data.slice(position, position + 4)}"`);
+      }
+      position += ai.length;
+
+      const fixedLength = FIXED_LENGTH_AIS[ai];
+      if (fixedLength !== undefined) {
+        elements[ai] = data.slice(position, position + fixedLength);
+        position += fixedLength;
+      } else {
+        const separator = data.indexOf(GROUP_SEPARATOR, position);
+        const end = Math.min(separator === -1 ? data.length : separator, position + VARIABLE_LENGTH_AIS[ai]);
+        elements[ai] = data.slice(position, end);
+        position = end;
+      }
+
+      if (data[position] === GROUP_SEPARATOR) {
+        position += 1;
+      }
+    }
+  }
+
+  const gtin = elements['01'] || elements['02'] || null;
+  if (gtin && !isValidGtin(gtin)) {
+    throw createAppError(`GTIN ${gtin} has an invalid check digit`);
+  }
+
+  return {
+    gtin,
+    batchNo: elements['10'] || null,
+    expiryDate: elements['17'] ? parseGs1Date(elements['17']) : null,
+    productionDate: elements['11'] ? parseGs1Date(elements['11']) : null,
+    serialNumber: elements['21'] || null,
+    elements
+  };
+}
+
+/**
+ * Products within the given scope that carry one of the codes, with the
+ * selling unit whose pack barcode matched, if any
+ */
+export async function findProductsByCodes(
+  prisma: PrismaClient | Prisma.TransactionClient,
+  codes: string[],
+  productWhere: Prisma.ProductWhereInput
+) {
+  const unit = await prisma.productUnit.findFirst({
+    where: { barcode: { in: codes }, isActive: true, product: productWhere },
+    include: { product: true }
+  });
+  if (unit) {
+    const { product, ...packUnit } = unit;
+    return { products: [product], unit: packUnit };
+  }
+
+  const products = await prisma.product.findMany({
+    where: {
+      ...productWhere,
+      OR: [
+        { barcode: { in: codes } },
+        { barcodes: { some: { code: { in: codes } } } }
+      ]
+    }
+  });
+  return { products, unit: null };
+}
+
+/**
+ * Read the lot and dates of a GS1 code scanned while receiving a product
+ * @throws AppError (400) when the code carries no lot or is for another product
+ */
+export async function readReceivedLot(
+  tx: Prisma.TransactionClient,
+  productId: string,
+  raw: string
+) {
+  const gs1 = parseGs1(raw);
+  if (!gs1.batchNo) {
+    throw createAppError('The scanned code has no batch/lot number');
+  }
+
+  if (gs1.gtin) {
+    const { products } = await findProductsByCodes(tx, gtinCandidates(gs1.gtin), { id: productId });
+    if (products.length === 0) {
+      throw createAppError(`The scanned GTIN ${gs1.gtin} is not a barcode of the ordered product`);
+    }
+  }
+
+  return gs1;
+}
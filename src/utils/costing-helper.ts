@@ -0,0 +1,290 @@
+/**
+ * Costing Helper - What stock cost and what sold stock cost
+ *
+ * A purchase's freight, duties and other charges, less its discount, are
+ * spread over its lines by value or by quantity to give each batch a landed
+ * cost per unit. Each company values stock either at the landed cost of the
+ * batch it sits in (BATCH_COST) or at the product's moving weighted average
+ * cost (WEIGHTED_AVERAGE), which every purchase or transfer received moves
+ * towards the cost of what came in. The same method values stock on hand and
+ * the cost of goods sold.
+ */
+
+import { Prisma, PrismaClient } from '@prisma/client';
+
+export const VALUATION_METHODS = ['BATCH_COST', 'WEIGHTED_AVERAGE'];
+
+export const LANDED_COST_ALLOCATIONS = ['VALUE', 'QUANTITY'];
+
+// Movements that bring bought stock in and so move the average cost
+export const COSTED_RECEIPT_TYPES = ['IN', 'TRANSFER_IN'];
+
+export interface PurchaseCharges {
+  freightAmount: number;
+  dutyAmount: number;
+  otherCharges: number;
+  discountAmount: number;
+}
+
+export interface LandedCostLine {
+  quantity: number;
+  totalPrice: number;
+}
+
+export interface LandedCostShare {
+  chargesAmount: number; // Freight, duties and other charges on the line
+  discountAmount: number; // Purchase discount taken off the line
+  landedCost: number; // Charges less discount added to the line
+  landedUnitCost: number; // Cost of one unit with its share of charges and discount
+}
+
+export interface CostedBatch {
+  purchasePrice: number;
+  landedCost?: number | null;
+}
+
+export interface CogsAllocation {
+  quantity: number;
+  returnedQuantity: number;
+  batch: CostedBatch;
+}
+
+export interface CogsLine {
+  saleItemId: string;
+  productId: string;
+  quantity: number;
+  refundedQuantity: number;
+  averageCost: number;
+  unitCost?: number | null; // Cost kept on the line at checkout; worked out again for older lines
+  batch: CostedBatch | null; // Batch of lines sold before allocations were recorded
+  allocations: CogsAllocation[];
+}
+
+export interface CogsLineResult {
+  saleItemId: string;
+  productId: string;
+  quantity: number; // Sold less refunded
+  unitCost: number;
+  cost: number;
+}
+
+const roundMoney = (value: number): number => Math.round(value * 100) / 100;
+
+// Unit costs keep more precision than money so that large quantities still add up
+const roundCost = (value: number): number => Math.round(value * 10000) / 10000;
+
+/**
+ * Spread an amount over weights in cents, the rounding difference on the largest weight
+ */
+function spreadAmount(amount: number, weights: number[]): number[] {
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  if (amount === 0 || totalWeight <= 0) {
+    return weights.map(() => 0);
+  }
+
+  const shares = weights.map(weight => roundMoney((amount * weight) / totalWeight));
+  const difference = roundMoney(amount - shares.reduce((sum, share) => sum + share, 0));
+  if (difference !== 0) {
+    const largest = weights.indexOf(Math.max(...weights));
+    shares[largest] = roundMoney(shares[largest] + difference);
+  }
+  return shares;
+}
+
+/**
+ * Each purchase line's share of the charges and discount, by line value or by quantity
+ */
+export function allocateLandedCost(
+  lines: LandedCostLine[],
+  charges: PurchaseCharges,
+  allocation: string = 'VALUE'
+): LandedCostShare[] {
+  const weights = lines.map(line => (allocation === 'QUANTITY' ? line.quantity : line.totalPrice));
+  const chargeShares = spreadAmount(charges.freightAmount + charges.dutyAmount + charges.otherCharges, weights);
+  // Discounts are always taken off in proportion to what was paid for each line
+  const discountShares = spreadAmount(charges.discountAmount, lines.map(line => line.totalPrice));
+
+  return lines.map((line, index) => {
+    const landedCost = roundMoney(chargeShares[index] - discountShares[index]);
+    return {
+      chargesAmount: chargeShares[index],
+      discountAmount: discountShares[index],
+      landedCost,
+      landedUnitCost: line.quantity > 0 ? roundCost((line.totalPrice + landedCost) / line.quantity) : 0
+    };
+  });
+}
+
+/**
+ * Cost of one unit of a batch: its landed cost, or its purchase price when it has none
+ */
+export const batchUnitCost = (batch: CostedBatch): number =>
+  batch.landedCost !== null && batch.landedCost !== undefined ? batch.landedCost : batch.purchasePrice;
+
+/**
+ * Average cost after receiving stock on top of what is on hand
+ */
+export function movingAverageCost(
+  onHand: number,
+  averageCost: number,
+  received: number,
+  unitCost: number
+): number {
+  if (received <= 0) {
+    return averageCost;
+  }
+  // With nothing (or less than nothing) on hand the new stock sets the cost
+  if (onHand <= 0 || averageCost <= 0) {
+    return roundCost(unitCost);
+  }
+  return roundCost((onHand * averageCost + received * unitCost) / (onHand + received));
+}
+
+/**
+ * Cost of one unit of stock in a batch under the given valuation method
+ */
+export const valuationUnitCost = (batch: CostedBatch, method: string, averageCost: number): number =>
+  method === 'WEIGHTED_AVERAGE' && averageCost > 0 ? averageCost : batchUnitCost(batch);
+
+/**
+ * Value of the stock in a product's batches under the given valuation method
+ */
+export const valueBatches = (
+  batches: (CostedBatch & { quantity: number })[],
+  method: string,
+  averageCost: number
+): number => roundMoney(
+  batches.reduce((sum, batch) => sum + batch.quantity * valuationUnitCost(batch, method, averageCost), 0)
+);
+
+/**
+ * Cost of a sale line at checkout: each batch's unit cost, and the line's cost
+ * at those batches or at the product's average cost
+ */
+export function costSaleAllocations(
+  allocations: { quantity: number; batch: CostedBatch }[],
+  method: string,
+  averageCost: number
+): { allocationUnitCosts: number[]; unitCost: number; costAmount: number } {
+  const quantity = allocations.reduce((sum, allocation) => sum + allocation.quantity, 0);
+  const allocationUnitCosts = allocations.map(allocation => roundCost(batchUnitCost(allocation.batch)));
+  const costAmount = method === 'WEIGHTED_AVERAGE' && averageCost > 0
+    ? quantity * averageCost
+    : allocations.reduce((sum, allocation, index) => sum + allocation.quantity * allocationUnitCosts[index], 0);
+
+  return {
+    allocationUnitCosts,
+    unitCost: quantity > 0 ? roundCost(costAmount / quantity) : 0,
+    costAmount: roundMoney(costAmount)
+  };
+}
+
+/**
+ * Cost of what a sale's lines sold, less anything refunded or voided back
+ */
+export function calculateSaleCogs(lines: CogsLine[], method: string): { lines: CogsLineResult[]; totalCost: number } {
+  const results = lines.map(line => {
+    const quantity = Math.max(0, line.quantity - line.refundedQuantity);
+    let cost: number;
+
+    if (line.unitCost !== null && line.unitCost !== undefined) {
+      cost = quantity * line.unitCost;
+    } else if (method === 'WEIGHTED_AVERAGE' && line.averageCost > 0) {
+      cost = quantity * line.averageCost;
+    } else if (line.allocations.length > 0) {
+      cost = line.allocations.reduce(
+        (sum, allocation) => sum + Math.max(0, allocation.quantity - allocation.returnedQuantity) * batchUnitCost(allocation.batch),
+        0
+      );
+    } else {
+      cost = line.batch ? quantity * batchUnitCost(line.batch) : 0;
+    }
+
+    return {
+      saleItemId: line.saleItemId,
+      productId: line.productId,
+      quantity,
+      unitCost: quantity > 0 ? roundCost(cost / quantity) : 0,
+      cost: roundMoney(cost)
+    };
+  });
+
+  return {
+    lines: results,
+    totalCost: roundMoney(results.reduce((sum, line) => sum + line.cost, 0))
+  };
+}
+
+/**
+ * The valuation method of a company; batch cost when it has not chosen one
+ */
+export async function getValuationMethod(
+  prisma: PrismaClient | Prisma.TransactionClient,
+  companyId: string | null | undefined
+): Promise<string> {
+  if (!companyId) {
+    return 'BATCH_COST';
+  }
+  const company = await prisma.company.findUnique({
+    where: { id: companyId },
+    select: { valuationMethod: true }
+  });
+  return company?.valuationMethod || 'BATCH_COST';
+}
+
+/**
+ * Move a product's average cost for stock that has just been added to one of its batches
+ */
+export async function updateAverageCost(
+  tx: Prisma.TransactionClient,
+  productId: string,
+  received: number,
+  unitCost: number
+) {
+  const [product, stock] = await Promise.all([
+    tx.product.findUniqueOrThrow({ where: { id: productId }, select: { averageCost: true } }),
+    tx.batch.aggregate({ where: { productId }, _sum: { quantity: true } })
+  ]);
+  const onHandBefore = (stock._sum.quantity || 0) - received;
+
+  return tx.product.update({
+    where: { id: productId },
+    data: { averageCost: movingAverageCost(onHandBefore, product.averageCost, received, unitCost) }
+  });
+}
+
+/**
+ * Give a batch a new landed cost per unit and move the average cost by the
+ * difference on the units of the batch still on hand; units already sold keep
+ * the cost they were sold at
+ */
+export async function revalueBatchCost(
+  tx: Prisma.TransactionClient,
+  batchId: string,
+  landedCost: number
+) {
+  const batch = await tx.batch.findUniqueOrThrow({
+    where: { id: batchId },
+    select: { productId: true, quantity: true, purchasePrice: true, landedCost: true }
+  });
+  const difference = landedCost - batchUnitCost(batch);
+
+  await tx.batch.update({ where: { id: batchId }, data: { landedCost } });
+  if (difference === 0 || batch.quantity <= 0) {
+    return;
+  }
+
+  const [product, stock] = await Promise.all([
+    tx.product.findUniqueOrThrow({ where: { id: batch.productId }, select: { averageCost: true } }),
+    tx.batch.aggregate({ where: { productId: batch.productId }, _sum: { quantity: true } })
+  ]);
+  const onHand = stock._sum.quantity || 0;
+  if (onHand <= 0 || product.averageCost <= 0) {
+    return;
+  }
+
+  await tx.product.update({
+    where: { id: batch.productId },
+    data: { averageCost: roundCost(product.averageCost + (difference * batch.quantity) / onHand) }
+  });
+}
@@ -0,0 +1,344 @@
+/**
+ * Customer Ledger Helper - What customers owe on account (khata)
+ *
+ * A customer with a credit limit can pay for a sale, in full or in part, with
+ * the ON_ACCOUNT tender as long as what they owe stays within the limit.
+ * Every sale on account, payment, refund and void writes a row to the
+ * customer's ledger and moves their account balance with it. Payments are set
+ * against the sales they pay for, oldest first unless the cashier picks them,
+ * and aging buckets what is still unpaid by how long ago it was bought.
+ */
+
+import { Prisma } from '@prisma/client';
+import { createAppError } from '../middleware/error.middleware';
+import { AgingBuckets, StatementLine } from './supplier-ledger-helper';
+import { escapeHtml, formatAmount } from './receipt-renderer';
+
+export const ACCOUNT_TENDER = 'ON_ACCOUNT';
+
+export const CUSTOMER_PAYMENT_METHODS = ['CASH', 'CARD', 'MOBILE', 'BANK_TRANSFER', 'CHEQUE'];
+
+export const CUSTOMER_LEDGER_ENTRY_TYPES = ['SALE', 'PAYMENT', 'REFUND', 'VOID', 'ADJUSTMENT'];
+
+export interface ReceivableSale {
+  id: string;
+  reference: string | null; // Receipt number
+  date: Date;
+  chargedAmount: number; // Part of the sale put on account
+  outstanding: number;
+}
+
+export interface CustomerStatement {
+  pharmacy: { name: string; address?: string; phone?: string };
+  customer: { id: string; name: string; phone: string };
+  from: Date | null;
+  to: Date;
+  openingBalance: number;
+  lines: StatementLine[];
+  closingBalance: number;
+  creditLimit: number;
+  availableCredit: number;
+  aging: AgingBuckets;
+}
+
+const roundMoney = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * How much more the customer may put on account
+ */
+export const availableCredit = (creditLimit: number, accountBalance: number): number =>
+  roundMoney(Math.max(0, creditLimit - accountBalance));
+
+const formatDate = (date: Date): string => date.toISOString().slice(0, 10);
+
+/**
+ * Printable HTML statement of a customer's account for A4 paper
+ */
+export function renderCustomerStatementHtml(statement: CustomerStatement): string {
+  const lines = statement.lines.map(line => [
+    '<tr>',
+    `<td>${formatDate(line.entryDate)}</td>`,
+    `<td>${escapeHtml(line.type)}</td>`,
+    `<td>${escapeHtml(line.reference || '')}</td>`,
+    `<td>${escapeHtml(line.description || '')}</td>`,
+    `<td class="amount">${line.debit ? formatAmount(line.debit) : ''}</td>`,
+    `<td class="amount">${line.credit ? formatAmount(line.credit) : ''}</td>`,
+    `<td class="amount">${formatAmount(line.balance)}</td>`,
+    '</tr>'
+  ].join('')).join('\n      ');
+
+  const period = statement.from
+    ? `${formatDate(statement.from)} to ${formatDate(statement.to)}`
+    : `Up to ${formatDate(statement.to)}`;
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <title>Statement - ${escapeHtml(statement.customer.name)}</title>
+  <style>
+    @page { size: A4; margin: 15mm; }
+    body { font-family: sans-serif; font-size: 12px; }
+    h1 { font-size: 18px; margin: 0; }
+    h2 { font-size: 14px; margin: 16px 0 4px; }
+    table { width: 100%; border-collapse: collapse; margin-top: 8px; }
+    th, td { padding: 4px; border-bottom: 1px solid #ddd; text-align: left; vertical-align: top; }
+    .amount { text-align: right; white-space: nowrap; }
+    .total td { font-weight: bold; }
+    .muted { color: #555; }
+  </style>
+</head>
+<body>
+  <h1>${escapeHtml(statement.pharmacy.name)}</h1>
+  <div class="muted">${escapeHtml([statement.pharmacy.address, statement.pharmacy.phone].filter(Boolean).join(' · '))}</div>
+  <h2>Statement of account</h2>
+  <div>${escapeHtml(statement.customer.name)} (${escapeHtml(statement.customer.phone)})</div>
+  <div class="muted">${period}</div>
+  <table>
+    <thead>
+      <tr><th>Date</th><th>Type</th><th>Reference</th><th>Description</th><th class="amount">Debit</th><th class="amount">Credit</th><th class="amount">Balance</th></tr>
+    </thead>
+    <tbody>
+      <tr><td colspan="6">Opening balance</td><td class="amount">${formatAmount(statement.openingBalance)}</td></tr>
+      ${lines}
+      <tr class="total"><td colspan="6">Closing balance</td><td class="amount">${formatAmount(statement.closingBalance)}</td></tr>
+    </tbody>
+  </table>
+  <h2>Unpaid by age</h2>
+  <table>
+    <tr><th class="amount">0-30 days</th><th class="amount">31-60 days</th><th class="amount">61-90 days</th><th class="amount">Over 90 days</th><th class="amount">Total</th></tr>
+    <tr>
+      <td class="amount">${formatAmount(statement.aging.current)}</td>
+      <td class="amount">${formatAmount(statement.aging.days31To60)}</td>
+      <td class="amount">${formatAmount(statement.aging.days61To90)}</td>
+      <td class="amount">${formatAmount(statement.aging.over90)}</td>
+      <td class="amount">${formatAmount(statement.aging.total)}</td>
+    </tr>
+  </table>
+  <p>Credit limit: ${formatAmount(statement.creditLimit)} &middot; Available: ${formatAmount(statement.availableCredit)}</p>
+</body>
+</html>
+`;
+}
+
+/**
+ * Write a row to a customer's ledger and move their account balance by it
+ */
+export async function recordCustomerLedgerEntry(
+  tx: Prisma.TransactionClient,
+  data: {
+    customerId: string;
+    branchId?: string | null;
+    type: string;
+    amount: number;
+    sourceType?: string;
+    sourceId?: string;
+    reference?: string | null;
+    description?: string;
+    entryDate?: Date;
+    createdBy?: string | null;
+  }
+) {
+  const amount = roundMoney(data.amount);
+  await tx.customer.update({
+    where: { id: data.customerId },
+    data: { accountBalance: { increment: amount } }
+  });
+  return tx.customerLedgerEntry.create({
+    data: { ...data, amount }
+  });
+}
+
+/**
+ * Put part of a sale on the customer's account
+ * @throws AppError (400) without a customer, or when it would take them over their credit limit
+ * @throws AppError (409) when another sale used up the credit first
+ */
+export async function chargeSaleToAccount(
+  tx: Prisma.TransactionClient,
+  params: {
+    saleId: string;
+    customerId?: string | null;
+    branchId: string;
+    amount: number;
+    reference?: string | null;
+    createdBy?: string | null;
+  }
+) {
+  if (!params.customerId) {
+    throw createAppError('Only a customer can buy on account');
+  }
+
+  const customer = await tx.customer.findUniqueOrThrow({
+    where: { id: params.customerId },
+    select: { name: true, isActive: true, creditLimit: true, accountBalance: true }
+  });
+  if (!customer.isActive) {
+    throw createAppError(`${customer.name} is inactive and cannot buy on account`);
+  }
+
+  const amount = roundMoney(params.amount);
+  const available = availableCredit(customer.creditLimit, customer.accountBalance);
+  if (amount > available + 0.005) {
+    throw createAppError(customer.creditLimit > 0
+      ? `${customer.name} has ${available.toFixed(2)} of a ${customer.creditLimit.toFixed(2)} credit limit available`
+      : `${customer.name} has no credit limit to buy on account`);
+  }
+
+  // Only charged while the balance is still within the limit, so two tills cannot both use the same credit
+  const charged = await tx.customer.updateMany({
+    where: { id: params.customerId, accountBalance: { lte: customer.creditLimit - amount + 0.005 } },
+    data: { accountBalance: { increment: amount } }
+  });
+  if (charged.count === 0) {
+    throw createAppError(`${customer.name}'s available credit changed; try again`, 409);
+  }
+
+  await tx.sale.update({
+    where: { id: params.saleId },
+    data: { accountOutstanding: amount, paymentStatus: 'ON_ACCOUNT' }
+  });
+
+  return tx.customerLedgerEntry.create({
+    data: {
+      customerId: params.customerId,
+      branchId: params.branchId,
+      type: 'SALE',
+      amount,
+      sourceType: 'SALE',
+      sourceId: params.saleId,
+      reference: params.reference,
+      description: 'Sale on account',
+      createdBy: params.createdBy
+    }
+  });
+}
+
+/**
+ * Sales a customer still owes on, oldest first
+ */
+export async function getReceivableSales(
+  tx: Prisma.TransactionClient,
+  customerId: string
+): Promise<ReceivableSale[]> {
+  const sales = await tx.sale.findMany({
+    where: { customerId, accountOutstanding: { gt: 0 }, status: { not: 'VOIDED' } },
+    select: {
+      id: true,
+      createdAt: true,
+      saleDate: true,
+      accountOutstanding: true,
+      payments: { where: { method: ACCOUNT_TENDER }, select: { amount: true } },
+      receipts: { select: { receiptNumber: true }, take: 1 }
+    },
+    orderBy: { createdAt: 'asc' }
+  });
+
+  return sales.map(sale => ({
+    id: sale.id,
+    reference: sale.receipts[0]?.receiptNumber || null,
+    date: sale.saleDate || sale.createdAt,
+    chargedAmount: roundMoney(sale.payments.reduce((sum, payment) => sum + payment.amount, 0)),
+    outstanding: roundMoney(sale.accountOutstanding)
+  }));
+}
+
+/**
+ * Set part of a customer payment against a sale on account
+ * @throws AppError (400) when the amount is more than is owed on the sale
+ */
+export async function allocateCustomerPayment(
+  tx: Prisma.TransactionClient,
+  params: {
+    paymentId: string;
+    saleId: string;
+    amount: number;
+    createdBy?: string | null;
+  }
+) {
+  const amount = roundMoney(params.amount);
+  const sale = await tx.sale.findUnique({
+    where: { id: params.saleId },
+    select: { id: true, accountOutstanding: true }
+  });
+  if (!sale || sale.accountOutstanding + 0.005 < amount) {
+    throw createAppError(`Only ${roundMoney(sale?.accountOutstanding || 0)} is owed on this sale`);
+  }
+
+  const outstanding = roundMoney(sale.accountOutstanding - amount);
+  await tx.sale.update({
+    where: { id: sale.id },
+    data: {
+      accountOutstanding: Math.max(0, outstanding),
+      ...(outstanding <= 0 ? { paymentStatus: 'COMPLETED' } : {})
+    }
+  });
+
+  return tx.customerPaymentAllocation.create({
+    data: {
+      paymentId: params.paymentId,
+      saleId: sale.id,
+      amount,
+      createdBy: params.createdBy
+    }
+  });
+}
+
+/**
+ * Take a refund or void of a sale put on account off what the customer owes.
+ * A refund comes off what is still unpaid on the sale and the rest is paid
+ * out as usual; a void takes back the whole charge, so anything already paid
+ * against the sale is left on the account as credit.
+ * @returns Amount taken off the account
+ */
+export async function creditSaleAccount(
+  tx: Prisma.TransactionClient,
+  params: {
+    saleId: string;
+    type: 'REFUND' | 'VOID';
+    amount?: number; // Refund amount; a void credits the whole charge
+    sourceId: string;
+    reference?: string | null;
+    description: string;
+    createdBy?: string | null;
+  }
+): Promise<number> {
+  const sale = await tx.sale.findUniqueOrThrow({
+    where: { id: params.saleId },
+    select: {
+      customerId: true,
+      branchId: true,
+      accountOutstanding: true,
+      payments: { where: { method: ACCOUNT_TENDER }, select: { amount: true } }
+    }
+  });
+  const charged = roundMoney(sale.payments.reduce((sum, payment) => sum + payment.amount, 0));
+  if (!sale.customerId || charged <= 0) {
+    return 0;
+  }
+
+  const credit = params.type === 'VOID'
+    ? charged
+    : roundMoney(Math.min(sale.accountOutstanding, Math.max(0, params.amount || 0)));
+  if (credit <= 0) {
+    return 0;
+  }
+
+  await tx.sale.update({
+    where: { id: params.saleId },
+    data: { accountOutstanding: params.type === 'VOID' ? 0 : Math.max(0, roundMoney(sale.accountOutstanding - credit)) }
+  });
+  await recordCustomerLedgerEntry(tx, {
+    customerId: sale.customerId,
+    branchId: sale.branchId,
+    type: params.type,
+    amount: -credit,
+    sourceType: params.type === 'VOID' ? 'SALE' : 'REFUND',
+    sourceId: params.sourceId,
+    reference: params.reference,
+    description: params.description,
+    createdBy: params.createdBy
+  });
+
+  return credit;
+}
@@ -0,0 +1,143 @@
+/**
+ * Expiry Helper - Quarantine, write-offs and returns to the supplier
+ *
+ * Near-expiry or expired stock is first quarantined: it leaves the batch's
+ * sellable quantity (with a ledger row) and is held in `quarantinedQuantity`.
+ * From there it is written off at purchase price, returned to the supplier,
+ * or released back to sale while it is still in date. Stock can also be
+ * written off or returned straight from the sellable quantity.
+ */
+
+import { Prisma } from '@prisma/client';
+import { createAppError } from '../middleware/error.middleware';
+import { StockMovementSource, moveBatchStock } from './stock-helper';
+import { batchUnitCost } from './costing-helper';
+
+export interface ExpiryLossEntry {
+  createdAt: Date;
+  branchId: string;
+  supplierId: string | null;
+  quantity: number;
+  totalValue: number;
+}
+
+export interface ExpiryLossRow {
+  month: string; // YYYY-MM
+  branchId: string;
+  supplierId: string | null;
+  writtenOffQuantity: number;
+  writtenOffValue: number;
+  returnedQuantity: number;
+  returnedValue: number; // Recovered from the supplier rather than lost
+}
+
+const roundMoney = (amount: number): number => Math.round(amount * 100) / 100;
+
+const monthOf = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+
+/**
+ * Split the value of returned stock into what comes off the amount still owed
+ * on the batch and what the supplier has to credit because it was already paid
+ */
+export function applySupplierCredit(outstanding: number, value: number): { outstandingReduced: number; creditAmount: number } {
+  const outstandingReduced = roundMoney(Math.min(Math.max(outstanding, 0), value));
+  return {
+    outstandingReduced,
+    creditAmount: roundMoney(value - outstandingReduced)
+  };
+}
+
+/**
+ * Write-offs and supplier returns per month, branch and supplier, oldest month first
+ */
+export function buildExpiryLossReport(writeOffs: ExpiryLossEntry[], returns: ExpiryLossEntry[]): ExpiryLossRow[] {
+  const rows = new Map<string, ExpiryLossRow>();
+
+  const rowFor = (entry: ExpiryLossEntry): ExpiryLossRow => {
+    const month = monthOf(entry.createdAt);
+    const key = `${month}|${entry.branchId}|${entry.supplierId || ''}`;
+    const row = rows.get(key) || {
+      month,
+      branchId: entry.branchId,
+      supplierId: entry.supplierId,
+      writtenOffQuantity: 0,
+      writtenOffValue: 0,
+      returnedQuantity: 0,
+      returnedValue: 0
+    };
+    rows.set(key, row);
+    return row;
+  };
+
+  writeOffs.forEach(entry => {
+    const row = rowFor(entry);
+    row.writtenOffQuantity += entry.quantity;
+    row.writtenOffValue = roundMoney(row.writtenOffValue + entry.totalValue);
+  });
+  returns.forEach(entry => {
+    const row = rowFor(entry);
+    row.returnedQuantity += entry.quantity;
+    row.returnedValue = roundMoney(row.returnedValue + entry.totalValue);
+  });
+
+  return Array.from(rows.values()).sort((a, b) =>
+    a.month.localeCompare(b.month) ||
+    a.branchId.localeCompare(b.branchId) ||
+    (a.supplierId || '').localeCompare(b.supplierId || '')
+  );
+}
+
+/**
+ * Take stock that is leaving the pharmacy (written off or returned) from the
+ * batch's quarantine or from its sellable quantity. Stock taken from quarantine
+ * still gets a ledger row; the sellable quantity before and after it is the same
+ * because the stock left it when it was quarantined.
+ * @throws AppError (400) when the batch does not hold that much
+ */
+export async function removeBatchStock(
+  tx: Prisma.TransactionClient,
+  batch: { id: string; batchNo: string },
+  quantity: number,
+  fromQuarantine: boolean,
+  movement: StockMovementSource
+): Promise<void> {
+  if (fromQuarantine) {
+    const taken = await tx.batch.updateMany({
+      where: { id: batch.id, quarantinedQuantity: { gte: quantity } },
+      data: { quarantinedQuantity: { decrement: quantity } }
+    });
+
+    if (taken.count === 0) {
+      throw createAppError(`Batch ${batch.batchNo} has fewer than ${quantity} unit(s) in quarantine`);
+    }
+
+    const current = await tx.batch.findUniqueOrThrow({
+      where: { id: batch.id },
+      select: { productId: true, branchId: true, quantity: true, purchasePrice: true, landedCost: true }
+    });
+    await tx.stockMovement.create({
+      data: {
+        productId: current.productId,
+        batchId: batch.id,
+        branchId: current.branchId,
+        type: movement.type,
+        quantity,
+        quantityBefore: current.quantity,
+        quantityAfter: current.quantity,
+        unitCost: batchUnitCost(current),
+        sourceType: movement.sourceType,
+        sourceId: movement.sourceId,
+        reason: movement.reason ? `${movement.reason} (from quarantine)` : 'From quarantine',
+        reference: movement.reference,
+        createdBy: movement.createdBy
+      }
+    });
+    return;
+  }
+
+  const taken = await moveBatchStock(tx, { ...movement, batchId: batch.id, change: -quantity });
+  if (!taken) {
+    throw createAppError(`Batch ${batch.batchNo} has fewer than ${quantity} unit(s) in stock`);
+  }
+}
@@ -0,0 +1,212 @@
+/**
+ * Interaction Helper - Drug interaction and duplicate-ingredient warnings
+ *
+ * Products are linked to active ingredients; products that have not been set
+ * up yet fall back to the ingredients named in their free-text formula. A
+ * basket is checked against the interaction rules and for the same ingredient
+ * in more than one product, optionally together with what the customer bought
+ * recently. Every warning has a stable code that the pharmacist acknowledges
+ * before the sale can go through.
+ */
+
+import { Prisma, PrismaClient } from '@prisma/client';
+import { EXCLUDED_SALE_STATUSES } from '../models/sale.model';
+
+export const INTERACTION_SEVERITIES = ['MINOR', 'MODERATE', 'MAJOR', 'CONTRAINDICATED'];
+
+export interface IngredientEntry {
+  productId: string;
+  productName: string;
+  ingredients: string[];
+  fromHistory: boolean; // Bought by the customer recently rather than in this basket
+}
+
+export interface InteractionRule {
+  ingredientA: string;
+  ingredientB: string;
+  severity: string;
+  description: string;
+  recommendation?: string | null;
+}
+
+export interface CheckoutWarning {
+  code: string; // Sent back in acknowledgedWarnings to accept the warning
+  type: 'INTERACTION' | 'DUPLICATE_INGREDIENT';
+  severity: string;
+  ingredients: string[];
+  productIds: string[];
+  message: string;
+  recommendation: string | null;
+  involvesHistory: boolean;
+}
+
+type InteractionClient = PrismaClient | Prisma.TransactionClient;
+
+export const normalizeIngredientName = (name: string): string =>
+  name.trim().replace(/\s+/g, ' ').toLowerCase();
+
+/**
+ * Ingredient names from a free-text formula such as "Paracetamol 500mg + Caffeine 65mg"
+ */
+export function parseFormulaIngredients(formula: string | null | undefined): string[] {
+  if (!formula) {
+    return [];
+  }
+
+  return formula
+    .split(/\s*(?:\+|,|;|\band\b)\s*/i)
+    .map(part => part
+      .replace(/\(.*?\)/g, '')
+      .replace(/\s+\d+(\.\d+)?\s*(mg|mcg|µg|g|ml|iu|%|units?)\b.*$/i, '')
+      .trim())
+    .filter(part => part.length > 0);
+}
+
+const severityRank = (severity: string): number => INTERACTION_SEVERITIES.indexOf(severity);
+
+/**
+ * Warnings for a basket: interaction rules that match two different products,
+ * and the same ingredient in more than one product. Combinations that only
+ * involve past purchases are not reported.
+ */
+export function findCheckoutWarnings(entries: IngredientEntry[], rules: InteractionRule[]): CheckoutWarning[] {
+  const warnings: CheckoutWarning[] = [];
+
+  // Products carrying each ingredient, keyed by normalized ingredient name
+  const carriers = new Map<string, { name: string; entries: IngredientEntry[] }>();
+  entries.forEach(entry => {
+    entry.ingredients.forEach(ingredient => {
+      const key = normalizeIngredientName(ingredient);
+      const carrier = carriers.get(key) || { name: ingredient, entries: [] };
+      if (!carrier.entries.some(existing => existing.productId === entry.productId)) {
+        carrier.entries.push(entry);
+      }
+      carriers.set(key, carrier);
+    });
+  });
+
+  carriers.forEach((carrier, key) => {
+    const inBasket = carrier.entries.filter(entry => !entry.fromHistory);
+    if (carrier.entries.length < 2 || inBasket.length === 0) {
+      return;
+    }
+
+    warnings.push({
+      code: `DUPLICATE:${key}`,
+      type: 'DUPLICATE_INGREDIENT',
+      severity: 'MODERATE',
+      ingredients: [carrier.name],
+      productIds: carrier.entries.map(entry => entry.productId),
+      message: `${carrier.name} is in more than one product: ${carrier.entries.map(entry => entry.productName).join(', ')}`,
+      recommendation: 'Check the combined dose before dispensing',
+      involvesHistory: carrier.entries.some(entry => entry.fromHistory)
+    });
+  });
+
+  rules.forEach(rule => {
+    const keyA = normalizeIngredientName(rule.ingredientA);
+    const keyB = normalizeIngredientName(rule.ingredientB);
+    const carriersA = carriers.get(keyA)?.entries || [];
+    const carriersB = carriers.get(keyB)?.entries || [];
+
+    // Two different products, at least one of them in this basket
+    const pairs = carriersA.flatMap(a => carriersB
+      .filter(b => b.productId !== a.productId && (!a.fromHistory || !b.fromHistory))
+      .map(b => [a, b]));
+
+    if (pairs.length === 0) {
+      return;
+    }
+
+    const products = Array.from(new Map(pairs.flat().map(entry => [entry.productId, entry])).values());
+    const ingredientKeys = [keyA, keyB].sort();
+
+    warnings.push({
+      code: `INTERACTION:${ingredientKeys.join('|')}`,
+      type: 'INTERACTION',
+      severity: rule.severity,
+      ingredients: [rule.ingredientA, rule.ingredientB],
+      productIds: products.map(entry => entry.productId),
+      message: `${rule.ingredientA} interacts with ${rule.ingredientB} (${products.map(entry => entry.productName).join(', ')}): ${rule.description}`,
+      recommendation: rule.recommendation || null,
+      involvesHistory: products.some(entry => entry.fromHistory)
+    });
+  });
+
+  return warnings.sort((a, b) => severityRank(b.severity) - severityRank(a.severity));
+}
+
+/**
+ * Warnings the pharmacist has not acknowledged yet
+ */
+export const getUnacknowledgedWarnings = (warnings: CheckoutWarning[], acknowledged: string[] = []): CheckoutWarning[] =>
+  warnings.filter(warning => !acknowledged.includes(warning.code));
+
+/**
+ * Check a basket (and the customer's purchases in the last `historyDays` days,
+ * when a customer is given) against the admin's interaction rules
+ */
+export async function evaluateCheckoutWarnings(
+  prisma: InteractionClient,
+  params: { productIds: string[]; customerId?: string | null; createdBy?: string | null; historyDays?: number }
+): Promise<CheckoutWarning[]> {
+  const historyProductIds: string[] = [];
+  if (params.customerId && params.historyDays && params.historyDays > 0) {
+    const since = new Date();
+    since.setDate(since.getDate() - params.historyDays);
+
+    const recentItems = await prisma.saleItem.findMany({
+      where: {
+        sale: {
+          customerId: params.customerId,
+          status: { notIn: [...EXCLUDED_SALE_STATUSES, 'REFUNDED'] },
+          createdAt: { gte: since }
+        }
+      },
+      select: { productId: true },
+      distinct: ['productId']
+    });
+    recentItems.forEach(item => historyProductIds.push(item.productId));
+  }
+
+  const allProductIds = Array.from(new Set([...params.productIds, ...historyProductIds]));
+  const products = await prisma.product.findMany({
+    where: { id: { in: allProductIds } },
+    select: {
+      id: true,
+      name: true,
+      formula: true,
+      ingredients: {
+        select: { ingredient: { select: { name: true } } }
+      }
+    }
+  });
+
+  const toEntry = (product: typeof products[number], fromHistory: boolean): IngredientEntry => ({
+    productId: product.id,
+    productName: product.name,
+    ingredients: product.ingredients.length > 0
+      ? product.ingredients.map(link => link.ingredient.name)
+      : parseFormulaIngredients(product.formula),
+    fromHistory
+  });
+
+  // A product that is in the basket and was also bought before counts as in the basket
+  const entries = products.map(product => toEntry(product, !params.productIds.includes(product.id)));
+
+  const interactionRules = await prisma.drugInteraction.findMany({
+    where: { createdBy: params.createdBy || undefined, isActive: true },
+    include: {
+      ingredientA: { select: { name: true } },
+      ingredientB: { select: { name: true } }
+    }
+  });
+
+  return findCheckoutWarnings(entries, interactionRules.map(rule => ({
+    ingredientA: rule.ingredientA.name,
+    ingredientB: rule.ingredientB.name,
+    severity: rule.severity,
+    description: rule.description,
+    recommendation: rule.recommendation
+  })));
+}
@@ -0,0 +1,464 @@
+/**
+ * Loyalty Helper - Earning, redeeming and expiring customer loyalty points
+ *
+ * Customers earn points on what they pay for each sale line, at the admin's
+ * earn rate per currency unit or at the rate set on the product's category,
+ * and can spend them as a LOYALTY_POINTS tender at the admin's point value.
+ * Every change to a balance is a LoyaltyTransaction. Points added keep what is
+ * left of them so that they expire, oldest first, after the set number of
+ * days. Tiers follow lifetime purchases, and a customer whose tier changes to
+ * or past the VIP tier is marked VIP.
+ */
+
+import { Prisma, PrismaClient } from '@prisma/client';
+import { createAppError } from '../middleware/error.middleware';
+import { getSettingValues } from './settings-helper';
+import { ResolvedTenders } from './payment-helper';
+
+export const LOYALTY_TENDER = 'LOYALTY_POINTS';
+
+export const LOYALTY_TRANSACTION_TYPES = ['EARN', 'REDEEM', 'EXPIRE', 'REVERSAL'];
+
+export interface LoyaltyTier {
+  name: string;
+  threshold: number; // Lifetime purchases needed to reach the tier
+}
+
+export interface LoyaltyRules {
+  earnRate: number; // Points per currency unit
+  pointValue: number; // Currency value of one point when redeemed
+  expiryDays: number; // 0 = points never expire
+  tiers: LoyaltyTier[];
+  vipTier: string | null;
+}
+
+export interface EarnLine {
+  amount: number; // What the customer paid for the line, before tax
+  earnRate: number | null; // Category rate, or null for the admin's rate
+}
+
+type LoyaltyClient = PrismaClient | Prisma.TransactionClient;
+
+/**
+ * Read tiers written as NAME:threshold pairs, e.g. "SILVER:25000,GOLD:50000",
+ * lowest first; pairs that do not read are skipped
+ */
+export function parseLoyaltyTiers(value: string | undefined): LoyaltyTier[] {
+  return (value || '')
+    .split(',')
+    .map(pair => {
+      const [name, threshold] = pair.split(':').map(part => part.trim());
+      return { name: (name || '').toUpperCase(), threshold: Number(threshold) };
+    })
+    .filter(tier => tier.name && !isNaN(tier.threshold) && tier.threshold >= 0)
+    .sort((a, b) => a.threshold - b.threshold);
+}
+
+/**
+ * Highest tier the lifetime purchases reach, or null below the first tier
+ */
+export function resolveLoyaltyTier(totalPurchases: number, tiers: LoyaltyTier[]): LoyaltyTier | null {
+  return tiers.filter(tier => totalPurchases >= tier.threshold).pop() || null;
+}
+
+/**
+ * Whether a tier is the VIP tier or above it
+ */
+export function isVipTier(tier: string | null, tiers: LoyaltyTier[], vipTier: string | null): boolean {
+  const vipIndex = tiers.findIndex(t => t.name === vipTier);
+  return vipIndex >= 0 && tier !== null && tiers.findIndex(t => t.name === tier) >= vipIndex;
+}
+
+/**
+ * Points earned on a sale's lines; the part of the sale paid with points earns none
+ */
+export function calculateEarnedPoints(lines: EarnLine[], defaultRate: number, redeemedShare: number = 0): number {
+  const points = lines.reduce((sum, line) => {
+    const rate = line.earnRate !== null && line.earnRate !== undefined ? line.earnRate : defaultRate;
+    return sum + Math.max(0, line.amount) * Math.max(0, rate);
+  }, 0);
+
+  // Small tolerance so that e.g. 300 x 0.01 is 3 points, not 2
+  return Math.max(0, Math.floor(points * (1 - Math.min(1, Math.max(0, redeemedShare))) + 1e-6));
+}
+
+/**
+ * Points needed to pay an amount with the LOYALTY_POINTS tender
+ * @throws AppError (400) when the amount is not a whole number of points
+ */
+export function pointsForAmount(amount: number, pointValue: number): number {
+  if (pointValue <= 0) {
+    throw createAppError('Loyalty points cannot be redeemed');
+  }
+
+  const points = Math.round(amount / pointValue);
+  if (Math.abs(points * pointValue - amount) > 0.005) {
+    throw createAppError(`Loyalty points are redeemed in steps of ${pointValue}`);
+  }
+  return points;
+}
+
+/**
+ * Take points from the oldest lots first; what the lots do not cover comes
+ * off the balance alone (points from before the ledger, or already spent)
+ */
+export function planPointDeduction(
+  lots: { id: string; remainingPoints: number }[],
+  points: number
+): { id: string; points: number }[] {
+  const plan: { id: string; points: number }[] = [];
+  let remaining = points;
+
+  for (const lot of lots) {
+    if (remaining <= 0) break;
+    const take = Math.min(lot.remainingPoints, remaining);
+    if (take > 0) {
+      plan.push({ id: lot.id, points: take });
+      remaining -= take;
+    }
+  }
+  return plan;
+}
+
+/**
+ * Share of a sale's points to reverse: all that is left when the sale is
+ * wholly refunded or voided, otherwise in proportion to the amount refunded
+ */
+export function pointsToReverse(points: number, alreadyReversed: number, share: number, complete: boolean): number {
+  const left = Math.max(0, points - alreadyReversed);
+  return complete ? left : Math.min(left, Math.round(points * Math.min(1, Math.max(0, share))));
+}
+
+/**
+ * Loyalty rules of an admin group
+ */
+export async function getLoyaltyRules(prisma: LoyaltyClient, createdBy: string | undefined): Promise<LoyaltyRules> {
+  const values = await getSettingValues(prisma, createdBy, [
+    'loyaltyEarnRate',
+    'loyaltyPointValue',
+    'loyaltyPointsExpiryDays',
+    'loyaltyTiers',
+    'loyaltyVipTier'
+  ]);
+  const numeric = (value: string | undefined) => {
+    const parsed = parseFloat(value || '');
+    return isNaN(parsed) || parsed < 0 ? 0 : parsed;
+  };
+
+  return {
+    earnRate: numeric(values.loyaltyEarnRate),
+    pointValue: numeric(values.loyaltyPointValue),
+    expiryDays: Math.floor(numeric(values.loyaltyPointsExpiryDays)),
+    tiers: parseLoyaltyTiers(values.loyaltyTiers),
+    vipTier: values.loyaltyVipTier ? values.loyaltyVipTier.trim().toUpperCase() : null
+  };
+}
+
+/**
+ * Add or take points and record it in the customer's ledger
+ */
+async function postLoyaltyTransaction(
+  tx: Prisma.TransactionClient,
+  entry: {
+    customerId: string;
+    type: string;
+    points: number;
+    saleId?: string | null;
+    refundId?: string | null;
+    expiryDays?: number;
+    note?: string | null;
+    createdBy?: string | null;
+  }
+) {
+  if (entry.points < 0) {
+    // Only taken while the balance covers it, so two sales cannot spend the same points
+    const taken = await tx.customer.updateMany({
+      where: { id: entry.customerId, loyaltyPoints: { gte: -entry.points } },
+      data: { loyaltyPoints: { decrement: -entry.points } }
+    });
+    if (taken.count === 0) {
+      throw createAppError('Customer no longer has enough loyalty points; try again', 409);
+    }
+
+    const lots = await tx.loyaltyTransaction.findMany({
+      where: { customerId: entry.customerId, remainingPoints: { gt: 0 } },
+      select: { id: true, remainingPoints: true, expiresAt: true, createdAt: true }
+    });
+    // Points closest to expiring go first, those that never expire last
+    lots.sort((a, b) =>
+      (a.expiresAt?.getTime() ?? Infinity) - (b.expiresAt?.getTime() ?? Infinity) ||
+      a.createdAt.getTime() - b.createdAt.getTime()
+    );
+    for (const take of planPointDeduction(lots, -entry.points)) {
+      await tx.loyaltyTransaction.update({
+        where: { id: take.id },
+        data: { remainingPoints: { decrement: take.points } }
+      });
+    }
+  }
+
+  const customer = entry.points < 0
+    ? await tx.customer.findUniqueOrThrow({ where: { id: entry.customerId }, select: { loyaltyPoints: true } })
+    : await tx.customer.update({
+      where: { id: entry.customerId },
+      data: { loyaltyPoints: { increment: entry.points } },
+      select: { loyaltyPoints: true }
+    });
+
+  const expiresAt = entry.points > 0 && entry.expiryDays
+    ? new Date(Date.now() + entry.expiryDays * 24 * 60 * 60 * 1000)
+    : null;
+
+  return tx.loyaltyTransaction.create({
+    data: {
+      customerId: entry.customerId,
+      saleId: entry.saleId || null,
+      refundId: entry.refundId || null,
+      type: entry.type,
+      points: entry.points,
+      remainingPoints: Math.max(0, entry.points),
+      expiresAt,
+      balanceAfter: customer.loyaltyPoints,
+      note: entry.note || null,
+      createdBy: entry.createdBy || null
+    }
+  });
+}
+
+/**
+ * Expire the customer's points that are past their expiry date
+ * @returns Points expired
+ */
+export async function expireLoyaltyPoints(
+  tx: Prisma.TransactionClient,
+  customerId: string,
+  createdBy?: string | null
+): Promise<number> {
+  const lots = await tx.loyaltyTransaction.findMany({
+    where: { customerId, remainingPoints: { gt: 0 }, expiresAt: { lt: new Date() } },
+    select: { id: true, remainingPoints: true }
+  });
+  const expired = lots.reduce((sum, lot) => sum + lot.remainingPoints, 0);
+  if (expired === 0) {
+    return 0;
+  }
+
+  await tx.loyaltyTransaction.updateMany({
+    where: { id: { in: lots.map(lot => lot.id) } },
+    data: { remainingPoints: 0 }
+  });
+  const customer = await tx.customer.update({
+    where: { id: customerId },
+    data: { loyaltyPoints: { decrement: expired } },
+    select: { loyaltyPoints: true }
+  });
+  await tx.loyaltyTransaction.create({
+    data: {
+      customerId,
+      type: 'EXPIRE',
+      points: -expired,
+      balanceAfter: customer.loyaltyPoints,
+      note: `${lots.length} expired lot(s)`,
+      createdBy: createdBy || null
+    }
+  });
+
+  return expired;
+}
+
+/**
+ * Move the customer to the tier their lifetime purchases reach; VIP follows
+ * the tier when it changes, so a VIP flag set by hand stays until then
+ */
+export async function updateLoyaltyTier(tx: Prisma.TransactionClient, customerId: string, rules: LoyaltyRules) {
+  if (rules.tiers.length === 0) {
+    return;
+  }
+
+  const customer = await tx.customer.findUniqueOrThrow({
+    where: { id: customerId },
+    select: { totalPurchases: true, loyaltyTier: true }
+  });
+  const tier = resolveLoyaltyTier(customer.totalPurchases, rules.tiers)?.name || null;
+  if (tier === customer.loyaltyTier) {
+    return;
+  }
+
+  await tx.customer.update({
+    where: { id: customerId },
+    data: {
+      loyaltyTier: tier,
+      ...(rules.vipTier ? { isVIP: isVipTier(tier, rules.tiers, rules.vipTier) } : {})
+    }
+  });
+}
+
+/**
+ * Redeem the points tendered on a sale and award the points it earns
+ * @throws AppError (400) when points are tendered without a customer or beyond the balance
+ * @throws AppError (409) when another sale spent the points first
+ */
+export async function settleSaleLoyalty(
+  tx: Prisma.TransactionClient,
+  params: {
+    saleId: string;
+    customerId?: string | null;
+    totalAmount: number;
+    tenders: ResolvedTenders;
+    createdBy: string;
+  }
+) {
+  const redeemedAmount = params.tenders.tenders
+    .filter(tender => tender.method === LOYALTY_TENDER)
+    .reduce((sum, tender) => sum + tender.amount, 0);
+
+  if (!params.customerId) {
+    if (redeemedAmount > 0) {
+      throw createAppError('Loyalty points can only be redeemed by a customer');
+    }
+    return { pointsRedeemed: 0, pointsEarned: 0 };
+  }
+
+  const rules = await getLoyaltyRules(tx, params.createdBy);
+  await expireLoyaltyPoints(tx, params.customerId, params.createdBy);
+
+  let pointsRedeemed = 0;
+  if (redeemedAmount > 0) {
+    pointsRedeemed = pointsForAmount(redeemedAmount, rules.pointValue);
+    const customer = await tx.customer.findUniqueOrThrow({
+      where: { id: params.customerId },
+      select: { loyaltyPoints: true }
+    });
+    if (pointsRedeemed > customer.loyaltyPoints) {
+      throw createAppError(`Customer has ${customer.loyaltyPoints} loyalty points; ${pointsRedeemed} needed`);
+    }
+
+    await postLoyaltyTransaction(tx, {
+      customerId: params.customerId,
+      saleId: params.saleId,
+      type: 'REDEEM',
+      points: -pointsRedeemed,
+      note: `Redeemed for ${redeemedAmount.toFixed(2)}`,
+      createdBy: params.createdBy
+    });
+  }
+
+  // Lines earn on what was paid for them, their share of the sale discount taken off
+  const sale = await tx.sale.findUniqueOrThrow({
+    where: { id: params.saleId },
+    select: {
+      subtotal: true,
+      discountAmount: true,
+      items: {
+        select: {
+          totalPrice: true,
+          discountAmount: true,
+          product: { select: { category: { select: { loyaltyEarnRate: true } } } }
+        }
+      }
+    }
+  });
+  const pointsEarned = calculateEarnedPoints(
+    sale.items.map(item => {
+      const lineNet = item.totalPrice - item.discountAmount;
+      const saleDiscountShare = sale.subtotal > 0 ? sale.discountAmount * (lineNet / sale.subtotal) : 0;
+      return { amount: lineNet - saleDiscountShare, earnRate: item.product.category.loyaltyEarnRate };
+    }),
+    rules.earnRate,
+    params.totalAmount > 0 ? redeemedAmount / params.totalAmount : 0
+  );
+
+  if (pointsEarned > 0) {
+    await postLoyaltyTransaction(tx, {
+      customerId: params.customerId,
+      saleId: params.saleId,
+      type: 'EARN',
+      points: pointsEarned,
+      expiryDays: rules.expiryDays,
+      createdBy: params.createdBy
+    });
+  }
+
+  await updateLoyaltyTier(tx, params.customerId, rules);
+
+  return { pointsRedeemed, pointsEarned };
+}
+
+/**
+ * Take back the points a sale earned and give back the points it was paid
+ * with, for the part of the sale refunded (or all of it when voided). Earned
+ * points the customer has already spent are not taken back below a zero balance.
+ * @returns Points taken back, points that could not be, points given back and
+ * the money value of the points given back
+ */
+export async function reverseSaleLoyalty(
+  tx: Prisma.TransactionClient,
+  params: {
+    saleId: string;
+    customerId: string;
+    share: number; // Part of the sale total being reversed
+    complete: boolean; // Nothing of the sale is left after this
+    refundId?: string | null;
+    note: string;
+    createdBy?: string | null;
+  }
+) {
+  const [entries, loyaltyTender] = await Promise.all([
+    tx.loyaltyTransaction.findMany({
+      where: { saleId: params.saleId },
+      select: { type: true, points: true }
+    }),
+    tx.salePayment.aggregate({
+      where: { saleId: params.saleId, method: LOYALTY_TENDER },
+      _sum: { amount: true }
+    })
+  ]);
+  const sum = (type: string, sign: number) => entries
+    .filter(entry => entry.type === type && Math.sign(entry.points) === sign)
+    .reduce((total, entry) => total + Math.abs(entry.points), 0);
+
+  // Reversals of earned points are negative, reversals of redeemed points positive
+  const earned = sum('EARN', 1);
+  const redeemed = sum('REDEEM', -1);
+  const pointsDue = pointsToReverse(earned, sum('REVERSAL', -1), params.share, params.complete);
+  const pointsGivenBack = pointsToReverse(redeemed, sum('REVERSAL', 1), params.share, params.complete);
+
+  const rules = await getLoyaltyRules(tx, params.createdBy || undefined);
+  const entry = {
+    customerId: params.customerId,
+    saleId: params.saleId,
+    refundId: params.refundId,
+    type: 'REVERSAL',
+    note: params.note,
+    createdBy: params.createdBy
+  };
+
+  if (pointsGivenBack > 0) {
+    await postLoyaltyTransaction(tx, { ...entry, points: pointsGivenBack, expiryDays: rules.expiryDays });
+  }
+
+  const customer = await tx.customer.findUniqueOrThrow({
+    where: { id: params.customerId },
+    select: { loyaltyPoints: true }
+  });
+  const pointsTakenBack = Math.min(pointsDue, Math.max(0, customer.loyaltyPoints));
+  const pointsShortfall = pointsDue - pointsTakenBack;
+  if (pointsTakenBack > 0) {
+    await postLoyaltyTransaction(tx, {
+      ...entry,
+      points: -pointsTakenBack,
+      note: pointsShortfall > 0 ? `${params.note} (${pointsShortfall} points already spent)` : params.note
+    });
+  }
+
+  await updateLoyaltyTier(tx, params.customerId, rules);
+
+  // Points given back are worth what they paid for at the time of the sale
+  const redeemedAmount = loyaltyTender._sum.amount || 0;
+  return {
+    pointsTakenBack,
+    pointsShortfall,
+    pointsGivenBack,
+    pointsValue: redeemed > 0 ? Math.round((redeemedAmount * pointsGivenBack / redeemed) * 100) / 100 : 0
+  };
+}
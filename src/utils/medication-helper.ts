@@ -0,0 +1,213 @@
+/**
+ * Medication Helper - What a customer has been dispensed and when refills fall due
+ *
+ * A customer's medication profile groups the lines of their sales by product,
+ * with the prescription and doctor each was dispensed against. A line lasts
+ * the days supply the cashier gave it, or its quantity over the units a day on
+ * the prescription line. Supply bought before the last lot ran out is added on
+ * to it, and the refill falls due the day the supply runs out.
+ */
+
+import { Prisma, PrismaClient } from '@prisma/client';
+import { EXCLUDED_SALE_STATUSES } from '../models/sale.model';
+
+export const REFILL_STATUSES = ['OVERDUE', 'DUE', 'NOT_DUE', 'UNKNOWN'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface DispensedLine {
+  saleItemId: string;
+  saleId: string;
+  customerId: string;
+  branchId: string;
+  dispensedAt: Date;
+  productId: string;
+  productName: string;
+  unitName: string; // Base unit the quantity is in
+  quantity: number; // Sold less refunded
+  daysSupply: number | null; // Given at the till
+  unitsPerDay: number | null; // From the prescription line
+  dosage: string | null;
+  prescription: {
+    id: string;
+    prescriptionNumber: string | null;
+    doctorName: string;
+    doctorRegistrationNumber: string;
+  } | null;
+}
+
+export interface MedicationProfileEntry {
+  product: { id: string; name: string; unitName: string };
+  firstDispensedAt: Date;
+  lastDispensedAt: Date;
+  timesDispensed: number;
+  totalQuantity: number;
+  lastQuantity: number;
+  dosage: string | null; // From the latest prescription with one
+  daysSupply: number | null; // Of the latest dispense
+  doctor: { name: string; registrationNumber: string } | null; // Latest prescribing doctor
+  refillDueDate: Date | null;
+  daysUntilRefill: number | null; // Negative once overdue
+  refillStatus: string;
+  dispenses: DispensedLine[]; // Newest first
+}
+
+const startOfDay = (date: Date): Date => {
+  const day = new Date(date);
+  day.setHours(0, 0, 0, 0);
+  return day;
+};
+
+/**
+ * Days a dispensed line lasts, or null when neither the cashier nor the prescription says
+ */
+export function lineDaysSupply(line: { quantity: number; daysSupply?: number | null; unitsPerDay?: number | null }): number | null {
+  if (line.daysSupply && line.daysSupply > 0) {
+    return line.daysSupply;
+  }
+  if (line.unitsPerDay && line.unitsPerDay > 0 && line.quantity > 0) {
+    return Math.max(1, Math.floor(line.quantity / line.unitsPerDay));
+  }
+  return null;
+}
+
+/**
+ * Day the supply of a product runs out, adding supply bought early on to what was left
+ */
+export function refillDueDate(dispenses: { dispensedAt: Date; daysSupply: number | null }[]): Date | null {
+  const ordered = [...dispenses].sort((a, b) => a.dispensedAt.getTime() - b.dispensedAt.getTime());
+
+  let coveredUntil: Date | null = null;
+  for (const dispense of ordered) {
+    if (!dispense.daysSupply) {
+      continue;
+    }
+    const dispensedOn = startOfDay(dispense.dispensedAt);
+    const from: Date = coveredUntil && coveredUntil > dispensedOn ? coveredUntil : dispensedOn;
+    coveredUntil = new Date(from.getTime() + dispense.daysSupply * DAY_MS);
+  }
+  return coveredUntil;
+}
+
+/**
+ * Whether a refill is overdue, due within `dueWithinDays` of `asOf`, or not due yet
+ */
+export function refillStatus(
+  dueDate: Date | null,
+  asOf: Date,
+  dueWithinDays: number
+): { status: string; daysUntilRefill: number | null } {
+  if (!dueDate) {
+    return { status: 'UNKNOWN', daysUntilRefill: null };
+  }
+
+  const daysUntilRefill = Math.round((startOfDay(dueDate).getTime() - startOfDay(asOf).getTime()) / DAY_MS);
+  if (daysUntilRefill < 0) {
+    return { status: 'OVERDUE', daysUntilRefill };
+  }
+  return { status: daysUntilRefill <= dueWithinDays ? 'DUE' : 'NOT_DUE', daysUntilRefill };
+}
+
+/**
+ * A customer's dispensed lines grouped by product, the most recently dispensed first
+ */
+export function buildMedicationProfile(
+  lines: DispensedLine[],
+  asOf: Date,
+  dueWithinDays: number
+): MedicationProfileEntry[] {
+  const byProduct = new Map<string, DispensedLine[]>();
+  for (const line of lines) {
+    if (line.quantity <= 0) {
+      continue; // Refunded in full
+    }
+    byProduct.set(line.productId, [...(byProduct.get(line.productId) || []), line]);
+  }
+
+  const entries = Array.from(byProduct.values()).map(productLines => {
+    const dispenses = [...productLines].sort((a, b) => b.dispensedAt.getTime() - a.dispensedAt.getTime());
+    const latest = dispenses[0];
+    const prescribed = dispenses.find(dispense => dispense.prescription);
+    const supplies = dispenses.map(dispense => ({ dispensedAt: dispense.dispensedAt, daysSupply: lineDaysSupply(dispense) }));
+    const dueDate = refillDueDate(supplies);
+    const { status, daysUntilRefill } = refillStatus(dueDate, asOf, dueWithinDays);
+
+    return {
+      product: { id: latest.productId, name: latest.productName, unitName: latest.unitName },
+      firstDispensedAt: dispenses[dispenses.length - 1].dispensedAt,
+      lastDispensedAt: latest.dispensedAt,
+      timesDispensed: dispenses.length,
+      totalQuantity: dispenses.reduce((sum, dispense) => sum + dispense.quantity, 0),
+      lastQuantity: latest.quantity,
+      dosage: dispenses.find(dispense => dispense.dosage)?.dosage || null,
+      daysSupply: supplies[0].daysSupply,
+      doctor: prescribed?.prescription
+        ? { name: prescribed.prescription.doctorName, registrationNumber: prescribed.prescription.doctorRegistrationNumber }
+        : null,
+      refillDueDate: dueDate,
+      daysUntilRefill,
+      refillStatus: status,
+      dispenses
+    };
+  });
+
+  return entries.sort((a, b) => b.lastDispensedAt.getTime() - a.lastDispensedAt.getTime());
+}
+
+/**
+ * Medications due or overdue for a refill; ones overdue by more than
+ * `overdueDays` are taken to have been stopped
+ */
+export const refillsDue = (profile: MedicationProfileEntry[], overdueDays: number): MedicationProfileEntry[] =>
+  profile.filter(entry =>
+    entry.refillStatus === 'DUE' ||
+    (entry.refillStatus === 'OVERDUE' && entry.daysUntilRefill !== null && -entry.daysUntilRefill <= overdueDays)
+  );
+
+/**
+ * Lines dispensed to customers on sales matching `saleWhere`, parked and voided sales left out
+ */
+export async function getDispensedLines(
+  prisma: PrismaClient | Prisma.TransactionClient,
+  saleWhere: Prisma.SaleWhereInput
+): Promise<DispensedLine[]> {
+  const items = await prisma.saleItem.findMany({
+    where: {
+      sale: { ...saleWhere, customerId: saleWhere.customerId || { not: null }, status: { notIn: EXCLUDED_SALE_STATUSES } }
+    },
+    select: {
+      id: true,
+      productId: true,
+      quantity: true,
+      refundedQuantity: true,
+      daysSupply: true,
+      sale: { select: { id: true, customerId: true, branchId: true, saleDate: true, createdAt: true } },
+      product: { select: { name: true, baseUnitName: true } },
+      prescriptionItem: {
+        select: {
+          dosage: true,
+          unitsPerDay: true,
+          prescription: {
+            select: { id: true, prescriptionNumber: true, doctorName: true, doctorRegistrationNumber: true }
+          }
+        }
+      }
+    }
+  });
+
+  return items.map(item => ({
+    saleItemId: item.id,
+    saleId: item.sale.id,
+    customerId: item.sale.customerId as string,
+    branchId: item.sale.branchId,
+    dispensedAt: item.sale.saleDate || item.sale.createdAt,
+    productId: item.productId,
+    productName: item.product.name,
+    unitName: item.product.baseUnitName,
+    quantity: Math.max(0, item.quantity - item.refundedQuantity),
+    daysSupply: item.daysSupply,
+    unitsPerDay: item.prescriptionItem?.unitsPerDay ?? null,
+    dosage: item.prescriptionItem?.dosage ?? null,
+    prescription: item.prescriptionItem?.prescription ?? null
+  }));
+}
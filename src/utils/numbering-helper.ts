@@ -0,0 +1,374 @@
+/**
+ * Numbering Helper - Gapless document numbers per branch and fiscal year
+ *
+ * Each branch has one sequence per document type and fiscal year. Online
+ * (PostgreSQL) servers issue numbers straight from the sequence counter.
+ * Offline (SQLite) terminals cannot see each other, so they issue numbers from
+ * a range reserved for their device while online; two terminals can then never
+ * hand out the same number, and the ranges are reconciled after sync. A
+ * terminal without a range issues a provisional number prefixed with its
+ * device, which is replaced from the shared counter the next time it syncs.
+ */
+
+import { randomUUID } from 'crypto';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { createAppError } from '../middleware/error.middleware';
+import { isSQLite } from './query-helper';
+import { getSettingValues, SETTING_DEFAULTS } from './settings-helper';
+
+export const DOCUMENT_TYPES = ['RECEIPT'];
+
+// Setting that holds the number format for each document type
+const FORMAT_SETTING_KEYS: { [documentType: string]: string } = {
+  RECEIPT: 'receiptNumberFormat'
+};
+
+// A format needs a counter and a year token so numbers never repeat across fiscal years
+export const SEQUENCE_TOKEN_PATTERN = /\{SEQ(:\d+)?\}/;
+export const YEAR_TOKEN_PATTERN = /\{(YYYY|YY|FY)\}/;
+
+// Start of numbers issued by a terminal without a reserved range, until they are renumbered on sync
+export const PROVISIONAL_NUMBER_PREFIX = 'PROV';
+
+export interface DocumentNumberParts {
+  branchCode: string;
+  fiscalYear: number; // Calendar year the fiscal year starts in
+  fiscalYearStartMonth: number; // 1-12
+  sequence: number;
+}
+
+export interface NumberRange {
+  from: number;
+  to: number;
+}
+
+export interface IssuedDocumentNumber {
+  documentNumber: string;
+  sequenceId: string | null; // Null for provisional numbers
+  sequenceNumber: number | null;
+  fiscalYear: number;
+  provisional: boolean;
+}
+
+// The part of the live database client renumbering needs (a pg Client)
+export interface LiveQueryClient {
+  query(text: string, values?: any[]): Promise<{ rows: any[] }>;
+}
+
+/**
+ * Fiscal year a date falls in, identified by the calendar year it starts in.
+ * With a July start, 15 March 2026 belongs to fiscal year 2025 (2025-26).
+ */
+export function getFiscalYear(date: Date, startMonth: number = 1): number {
+  const month = date.getMonth() + 1;
+  return startMonth > 1 && month < startMonth ? date.getFullYear() - 1 : date.getFullYear();
+}
+
+/**
+ * Render a document number from a format.
+ * Tokens: {BRANCH} branch code, {YYYY}/{YY} fiscal year start, {FY} fiscal year
+ * label (2526 for 2025-26, or 2026 when the fiscal year is the calendar year)
+ * and {SEQ:n} the counter padded to n digits.
+ */
+export function formatDocumentNumber(format: string, parts: DocumentNumberParts): string {
+  const startYear = String(parts.fiscalYear);
+  const endYear = String(parts.fiscalYear + 1);
+  const fiscalYearLabel = parts.fiscalYearStartMonth > 1
+    ? `${startYear.slice(-2)}${endYear.slice(-2)}`
+    : startYear;
+
+  return format
+    .replace(/\{BRANCH\}/g, parts.branchCode)
+    .replace(/\{YYYY\}/g, startYear)
+    .replace(/\{YY\}/g, startYear.slice(-2))
+    .replace(/\{FY\}/g, fiscalYearLabel)
+    .replace(/\{SEQ(?::(\d+))?\}/g, (_match, width) => String(parts.sequence).padStart(Number(width || 0), '0'));
+}
+
+/**
+ * Check a number format before it is saved
+ * @returns an error message, or null when the format is usable
+ */
+export function validateDocumentNumberFormat(format: string): string | null {
+  if (!SEQUENCE_TOKEN_PATTERN.test(format)) {
+    return 'Number format must contain a {SEQ} or {SEQ:n} token';
+  }
+  if (!YEAR_TOKEN_PATTERN.test(format)) {
+    return 'Number format must contain a {YYYY}, {YY} or {FY} token';
+  }
+  return null;
+}
+
+/**
+ * Numbers from 1 to `lastNumber` that were never issued. Numbers still waiting
+ * in an active reservation are not gaps yet and are skipped.
+ */
+export function findSequenceGaps(issuedNumbers: number[], lastNumber: number, pendingRanges: NumberRange[] = []): NumberRange[] {
+  const covered: NumberRange[] = [
+    ...issuedNumbers.map(number => ({ from: number, to: number })),
+    ...pendingRanges
+  ].sort((a, b) => a.from - b.from);
+
+  const gaps: NumberRange[] = [];
+  let next = 1;
+
+  for (const range of covered) {
+    if (next > lastNumber) {
+      break;
+    }
+    if (range.from > next) {
+      gaps.push({ from: next, to: Math.min(range.from - 1, lastNumber) });
+    }
+    next = Math.max(next, range.to + 1);
+  }
+
+  if (next <= lastNumber) {
+    gaps.push({ from: next, to: lastNumber });
+  }
+
+  return gaps;
+}
+
+/**
+ * Numbers that were issued more than once
+ */
+export function findDuplicateNumbers(issuedNumbers: number[]): number[] {
+  const seen = new Set<number>();
+  const duplicates = new Set<number>();
+
+  issuedNumbers.forEach(number => {
+    if (seen.has(number)) {
+      duplicates.add(number);
+    }
+    seen.add(number);
+  });
+
+  return Array.from(duplicates).sort((a, b) => a - b);
+}
+
+/**
+ * Provisional number for a terminal without a reserved range, e.g.
+ * PROV-A1B2C3-260315-0007 for the seventh one the device issued that day
+ */
+export function formatProvisionalNumber(deviceId: string | null | undefined, issuedAt: Date, counter: number): string {
+  const deviceTag = (deviceId || '').replace(/[^A-Za-z0-9]/g, '').slice(-6).toUpperCase() || 'LOCAL';
+  const day = [issuedAt.getFullYear() % 100, issuedAt.getMonth() + 1, issuedAt.getDate()]
+    .map(part => String(part).padStart(2, '0'))
+    .join('');
+  return `${PROVISIONAL_NUMBER_PREFIX}-${deviceTag}-${day}-${String(counter).padStart(4, '0')}`;
+}
+
+/**
+ * Code printed for a branch, falling back to the end of its id when no code is set
+ */
+export const getBranchCode = (branch: { id: string; code?: string | null }): string =>
+  branch.code || branch.id.slice(-4).toUpperCase();
+
+/**
+ * Find the sequence for a branch, document type and fiscal year, creating it
+ * with the admin's current format when it does not exist yet
+ */
+export async function getDocumentSequence(
+  tx: Prisma.TransactionClient,
+  params: { branchId: string; documentType: string; fiscalYear?: number; createdBy?: string | null; create?: boolean }
+) {
+  const formatKey = FORMAT_SETTING_KEYS[params.documentType];
+  const settings = await getSettingValues(tx, params.createdBy || undefined, ['fiscalYearStartMonth', formatKey]);
+  const fiscalYearStartMonth = parseInt(settings.fiscalYearStartMonth || '', 10) || 1;
+  const fiscalYear = params.fiscalYear || getFiscalYear(new Date(), fiscalYearStartMonth);
+  const key = { branchId: params.branchId, documentType: params.documentType, fiscalYear };
+
+  const sequence = params.create === false
+    ? await tx.documentSequence.findUnique({ where: { branchId_documentType_fiscalYear: key } })
+    : await tx.documentSequence.upsert({
+      where: { branchId_documentType_fiscalYear: key },
+      update: {},
+      create: {
+        ...key,
+        format: settings[formatKey] || SETTING_DEFAULTS[formatKey],
+        createdBy: params.createdBy
+      }
+    });
+
+  return { sequence, fiscalYear, fiscalYearStartMonth };
+}
+
+/**
+ * Issue the next number for a document inside the transaction that creates it.
+ * Offline terminals take it from their reserved range for the current sequence,
+ * or issue a provisional number when they have none.
+ */
+export async function issueDocumentNumber(
+  tx: Prisma.TransactionClient,
+  params: { branchId: string; documentType: string; deviceId?: string | null; createdBy?: string | null }
+): Promise<IssuedDocumentNumber> {
+  const offline = isSQLite();
+
+  const branch = await tx.branch.findUnique({
+    where: { id: params.branchId },
+    select: { id: true, code: true }
+  });
+  if (!branch) {
+    throw createAppError('Branch not found', 404);
+  }
+
+  // Offline terminals must not start sequences of their own: the server's copy would conflict on sync
+  const { sequence, fiscalYear, fiscalYearStartMonth } = await getDocumentSequence(tx, {
+    branchId: params.branchId,
+    documentType: params.documentType,
+    createdBy: params.createdBy,
+    create: !offline
+  });
+
+  const reservation = offline && sequence && params.deviceId
+    ? await tx.sequenceReservation.findFirst({
+      where: { sequenceId: sequence.id, deviceId: params.deviceId, status: 'ACTIVE' },
+      orderBy: { startNumber: 'asc' }
+    })
+    : null;
+
+  if (!sequence || (offline && !reservation)) {
+    return issueProvisionalNumber(tx, { branchId: params.branchId, deviceId: params.deviceId, fiscalYear });
+  }
+
+  let sequenceNumber: number;
+
+  if (reservation) {
+    sequenceNumber = reservation.nextNumber;
+    await tx.sequenceReservation.update({
+      where: { id: reservation.id },
+      data: {
+        nextNumber: sequenceNumber + 1,
+        status: sequenceNumber >= reservation.endNumber ? 'EXHAUSTED' : 'ACTIVE'
+      }
+    });
+  } else {
+    // The increment locks the sequence row, so concurrent sales get consecutive numbers
+    const updated = await tx.documentSequence.update({
+      where: { id: sequence.id },
+      data: { nextNumber: { increment: 1 } }
+    });
+    sequenceNumber = updated.nextNumber - 1;
+  }
+
+  return {
+    documentNumber: formatDocumentNumber(sequence.format, {
+      branchCode: getBranchCode(branch),
+      fiscalYear,
+      fiscalYearStartMonth,
+      sequence: sequenceNumber
+    }),
+    sequenceId: sequence.id,
+    sequenceNumber,
+    fiscalYear,
+    provisional: false
+  };
+}
+
+/**
+ * Provisional number for a terminal without a reserved range, counting on from
+ * the ones the device already issued on the branch that day
+ */
+async function issueProvisionalNumber(
+  tx: Prisma.TransactionClient,
+  params: { branchId: string; deviceId?: string | null; fiscalYear: number }
+): Promise<IssuedDocumentNumber> {
+  const prefix = formatProvisionalNumber(params.deviceId, new Date(), 0).slice(0, -4);
+  const issuedToday = await tx.receipt.count({
+    where: { branchId: params.branchId, receiptNumber: { startsWith: prefix } }
+  });
+
+  return {
+    documentNumber: formatProvisionalNumber(params.deviceId, new Date(), issuedToday + 1),
+    sequenceId: null,
+    sequenceNumber: null,
+    fiscalYear: params.fiscalYear,
+    provisional: true
+  };
+}
+
+/**
+ * Give receipts issued with a provisional number their real number. The
+ * numbers are claimed from the shared counter on the live database, starting
+ * the sequence there if no terminal has yet, and the receipts and the ledger
+ * rows that quote them are updated locally so the next sync pushes them.
+ * @returns number of receipts renumbered
+ */
+export async function renumberProvisionalReceipts(prisma: PrismaClient, live: LiveQueryClient): Promise<number> {
+  const receipts = await prisma.receipt.findMany({
+    where: { sequenceId: null, receiptNumber: { startsWith: `${PROVISIONAL_NUMBER_PREFIX}-` } },
+    include: { branch: { select: { id: true, code: true } } },
+    orderBy: { printedAt: 'asc' }
+  });
+
+  const groups = new Map<string, typeof receipts>();
+  receipts.forEach(receipt => {
+    const key = `${receipt.branchId}:${receipt.fiscalYear}`;
+    groups.set(key, [...(groups.get(key) || []), receipt]);
+  });
+
+  let renumbered = 0;
+  for (const group of Array.from(groups.values())) {
+    const { branchId, fiscalYear, createdBy } = group[0];
+    const settings = await getSettingValues(prisma, createdBy || undefined, ['fiscalYearStartMonth', 'receiptNumberFormat']);
+    const fiscalYearStartMonth = parseInt(settings.fiscalYearStartMonth || '', 10) || 1;
+    const year = fiscalYear || getFiscalYear(group[0].printedAt, fiscalYearStartMonth);
+
+    await live.query(
+      `INSERT INTO document_sequences (id, "branchId", "documentType", "fiscalYear", format, "nextNumber", "createdBy", "createdAt", "updatedAt")
+       VALUES ($1, $2, 'RECEIPT', $3, $4, 1, $5, NOW(), NOW())
+       ON CONFLICT ("branchId", "documentType", "fiscalYear") DO NOTHING`,
+      [randomUUID(), branchId, year, settings.receiptNumberFormat || SETTING_DEFAULTS.receiptNumberFormat, createdBy]
+    );
+    // The increment locks the live sequence row, so other terminals claim numbers after these
+    const { rows } = await live.query(
+      `UPDATE document_sequences SET "nextNumber" = "nextNumber" + $1, "updatedAt" = NOW()
+       WHERE "branchId" = $2 AND "documentType" = 'RECEIPT' AND "fiscalYear" = $3
+       RETURNING id, format, "nextNumber", "createdBy"`,
+      [group.length, branchId, year]
+    );
+    const sequence = rows[0];
+    const firstNumber = sequence.nextNumber - group.length;
+
+    await prisma.$transaction(async (tx) => {
+      await tx.documentSequence.upsert({
+        where: { id: sequence.id },
+        update: { nextNumber: sequence.nextNumber },
+        create: {
+          id: sequence.id,
+          branchId,
+          documentType: 'RECEIPT',
+          fiscalYear: year,
+          format: sequence.format,
+          nextNumber: sequence.nextNumber,
+          createdBy: sequence.createdBy
+        }
+      });
+
+      for (const [index, receipt] of group.entries()) {
+        const sequenceNumber = firstNumber + index;
+        const receiptNumber = formatDocumentNumber(sequence.format, {
+          branchCode: getBranchCode(receipt.branch),
+          fiscalYear: year,
+          fiscalYearStartMonth,
+          sequence: sequenceNumber
+        });
+
+        await tx.receipt.update({
+          where: { id: receipt.id },
+          data: { receiptNumber, sequenceId: sequence.id, sequenceNumber, fiscalYear: year }
+        });
+        await tx.customerLedgerEntry.updateMany({
+          where: { sourceType: 'SALE', sourceId: receipt.saleId, reference: receipt.receiptNumber },
+          data: { reference: receiptNumber }
+        });
+      }
+    }, {
+      timeout: 60000 // 60 seconds timeout for long-running transactions
+    });
+
+    renumbered += group.length;
+  }
+
+  return renumbered;
+}
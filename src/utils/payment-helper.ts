@@ -0,0 +1,139 @@
+/**
+ * Payment Helper - Split-tender handling for sales
+ *
+ * A sale can be settled with several tenders (e.g. part cash, part card).
+ * This helper validates that the tenders cover the sale total, works out the
+ * change due on cash and aggregates takings per tender for reports.
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { SalePaymentData } from '../models/sale.model';
+
+// Amounts are in currency units; anything below half a paisa/cent is rounding noise
+const AMOUNT_TOLERANCE = 0.005;
+
+export interface ResolvedTender {
+  method: string;
+  amount: number;
+  tenderedAmount: number | null;
+  changeAmount: number;
+  reference: string | null;
+}
+
+export interface ResolvedTenders {
+  tenders: ResolvedTender[];
+  changeDue: number;
+  paymentMethod: string; // Method stored on the sale itself (SPLIT for multiple methods)
+}
+
+export const roundAmount = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Validate tenders against the sale total and calculate change due.
+ * Only CASH tenders may exceed the amount due; the excess is returned as change
+ * and taken off the last cash tender so that applied amounts sum to the total.
+ *
+ * @throws Error when tenders do not cover the total or a non-cash tender overpays
+ */
+export function resolveTenders(totalAmount: number, payments: SalePaymentData[]): ResolvedTenders {
+  if (!payments || payments.length === 0) {
+    throw new Error('At least one payment is required');
+  }
+
+  const total = roundAmount(totalAmount);
+  const tendered = roundAmount(payments.reduce((sum, payment) => sum + payment.amount, 0));
+
+  if (tendered < total - AMOUNT_TOLERANCE) {
+    throw new Error(`Payments total ${tendered.toFixed(2)} does not cover sale total ${total.toFixed(2)}`);
+  }
+
+  const changeDue = roundAmount(Math.max(0, tendered - total));
+  const cashTendered = roundAmount(
+    payments.filter(payment => payment.method === 'CASH').reduce((sum, payment) => sum + payment.amount, 0)
+  );
+
+  if (changeDue > AMOUNT_TOLERANCE && changeDue > cashTendered + AMOUNT_TOLERANCE) {
+    throw new Error(`Payments exceed sale total by ${changeDue.toFixed(2)}; only cash tenders can be overpaid`);
+  }
+
+  const tenders: ResolvedTender[] = payments.map(payment => ({
+    method: payment.method,
+    amount: roundAmount(payment.amount),
+    tenderedAmount: payment.method === 'CASH' ? roundAmount(payment.amount) : null,
+    changeAmount: 0,
+    reference: payment.reference || null
+  }));
+
+  // Give change back from the last cash tender(s)
+  let remainingChange = changeDue;
+  for (let i = tenders.length - 1; i >= 0 && remainingChange > AMOUNT_TOLERANCE; i--) {
+    const tender = tenders[i];
+    if (tender.method !== 'CASH') continue;
+
+    const change = Math.min(tender.amount, remainingChange);
+    tender.changeAmount = roundAmount(change);
+    tender.amount = roundAmount(tender.amount - change);
+    remainingChange = roundAmount(remainingChange - change);
+  }
+
+  const methods = Array.from(new Set(tenders.map(tender => tender.method)));
+
+  return {
+    tenders: tenders.filter(tender => tender.amount > 0 || tender.changeAmount > 0),
+    changeDue,
+    paymentMethod: methods.length === 1 ? methods[0] : 'SPLIT'
+  };
+}
+
+/**
+ * Aggregate sale takings per tender method.
+ * Sales recorded before split tenders existed have no SalePayment rows, so they
+ * are counted by their own paymentMethod. The result keeps the groupBy shape
+ * ({ paymentMethod, _sum: { totalAmount }, _count: { id } }) used by the frontend.
+ */
+export async function getSalesByTender(prisma: PrismaClient, saleWhere: any) {
+  const [tenderTotals, legacyTotals] = await Promise.all([
+    prisma.salePayment.groupBy({
+      by: ['method'],
+      where: {
+        sale: saleWhere
+      },
+      _sum: {
+        amount: true
+      },
+      _count: {
+        id: true
+      }
+    }),
+    prisma.sale.groupBy({
+      by: ['paymentMethod'],
+      where: {
+        ...saleWhere,
+        payments: { none: {} }
+      },
+      _sum: {
+        totalAmount: true
+      },
+      _count: {
+        id: true
+      }
+    })
+  ]);
+
+  const byMethod = new Map<string, { total: number; count: number }>();
+  const add = (method: string, total: number, count: number) => {
+    const current = byMethod.get(method) || { total: 0, count: 0 };
+    byMethod.set(method, { total: current.total + total, count: current.count + count });
+  };
+
+  tenderTotals.forEach(item => add(item.method, item._sum.amount || 0, item._count.id));
+  legacyTotals.forEach(item => add(item.paymentMethod, item._sum.totalAmount || 0, item._count.id));
+
+  return Array.from(byMethod.entries())
+    .map(([paymentMethod, data]) => ({
+      paymentMethod,
+      _sum: { totalAmount: roundAmount(data.total) },
+      _count: { id: data.count }
+    }))
+    .sort((a, b) => b._sum.totalAmount - a._sum.totalAmount);
+}
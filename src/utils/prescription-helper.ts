@@ -0,0 +1,176 @@
+/**
+ * Prescription Helper - Dispense prescription-only products against a prescription
+ *
+ * Every sale line of a prescription-only or controlled product must point at a
+ * line of a valid prescription for that product. A prescription line can be
+ * filled over several sales until its allowed quantity is used up; once every
+ * line is used up the prescription is FULFILLED.
+ */
+
+import { Prisma } from '@prisma/client';
+import { createAppError } from '../middleware/error.middleware';
+
+export interface PrescriptionSaleLine {
+  productId: string;
+  quantity: number;
+  prescriptionItemId?: string | null;
+}
+
+export interface DispensablePrescriptionItem {
+  id: string;
+  prescriptionId: string;
+  productId: string;
+  allowedQuantity: number;
+  dispensedQuantity: number;
+  prescription: {
+    status: string;
+    expiryDate: Date;
+  };
+}
+
+export interface PrescriptionProduct {
+  id: string;
+  name: string;
+  requiresPrescription: boolean;
+  isControlled: boolean;
+}
+
+/**
+ * Expiry date of a prescription issued on `issueDate` that is valid for `validityDays`
+ */
+export function getPrescriptionExpiry(issueDate: Date, validityDays: number): Date {
+  const expiry = new Date(issueDate);
+  expiry.setDate(expiry.getDate() + validityDays);
+  return expiry;
+}
+
+/**
+ * Check a cart against the prescriptions it references
+ * @returns quantity to dispense per prescription item
+ * @throws AppError (400) when a line needs a prescription it does not have, or the prescription cannot cover it
+ */
+export function checkPrescriptionLines(
+  lines: PrescriptionSaleLine[],
+  products: PrescriptionProduct[],
+  prescriptionItems: DispensablePrescriptionItem[],
+  now: Date = new Date()
+): Map<string, number> {
+  const toDispense = new Map<string, number>();
+
+  for (const line of lines) {
+    const product = products.find(p => p.id === line.productId);
+    const productName = product ? product.name : line.productId;
+
+    if (!line.prescriptionItemId) {
+      if (product && (product.requiresPrescription || product.isControlled)) {
+        throw createAppError(`${productName} can only be sold against a prescription`);
+      }
+      continue;
+    }
+
+    const item = prescriptionItems.find(prescriptionItem => prescriptionItem.id === line.prescriptionItemId);
+    if (!item || item.productId !== line.productId) {
+      throw createAppError(`The prescription does not cover ${productName}`);
+    }
+
+    if (item.prescription.status !== 'ACTIVE') {
+      throw createAppError(`The prescription for ${productName} is ${item.prescription.status.toLowerCase()}`);
+    }
+
+    if (item.prescription.expiryDate.getTime() < now.getTime()) {
+      throw createAppError(`The prescription for ${productName} has expired`);
+    }
+
+    const quantity = (toDispense.get(item.id) || 0) + line.quantity;
+    const remaining = item.allowedQuantity - item.dispensedQuantity;
+    if (quantity > remaining) {
+      throw createAppError(`Only ${Math.max(0, remaining)} unit(s) of ${productName} remain on the prescription`);
+    }
+
+    toDispense.set(item.id, quantity);
+  }
+
+  return toDispense;
+}
+
+/**
+ * Validate a cart's prescription lines and record what is dispensed from each
+ * prescription, inside the transaction that completes the sale
+ */
+export async function dispensePrescriptionLines(tx: Prisma.TransactionClient, lines: PrescriptionSaleLine[]): Promise<void> {
+  const productIds = Array.from(new Set(lines.map(line => line.productId)));
+  const prescriptionItemIds = Array.from(new Set(lines.map(line => line.prescriptionItemId).filter((id): id is string => !!id)));
+
+  const [products, prescriptionItems] = await Promise.all([
+    tx.product.findMany({
+      where: { id: { in: productIds } },
+      select: { id: true, name: true, requiresPrescription: true, isControlled: true }
+    }),
+    prescriptionItemIds.length > 0
+      ? tx.prescriptionItem.findMany({
+        where: { id: { in: prescriptionItemIds } },
+        include: { prescription: { select: { status: true, expiryDate: true } } }
+      })
+      : Promise.resolve([])
+  ]);
+
+  const toDispense = checkPrescriptionLines(lines, products, prescriptionItems);
+
+  for (const [itemId, quantity] of Array.from(toDispense.entries())) {
+    const item = prescriptionItems.find(prescriptionItem => prescriptionItem.id === itemId)!;
+
+    // Only succeeds if no other sale dispensed from this line in the meantime
+    const claimed = await tx.prescriptionItem.updateMany({
+      where: { id: itemId, dispensedQuantity: { lte: item.allowedQuantity - quantity } },
+      data: { dispensedQuantity: { increment: quantity } }
+    });
+
+    if (claimed.count === 0) {
+      throw createAppError('The prescription was dispensed from by another sale; please try again', 409);
+    }
+  }
+
+  await updatePrescriptionStatuses(tx, prescriptionItems.map(item => item.prescriptionId));
+}
+
+/**
+ * Give back what voided sale lines dispensed from their prescriptions
+ */
+export async function reversePrescriptionLines(
+  tx: Prisma.TransactionClient,
+  lines: { prescriptionItemId: string | null; quantity: number }[]
+): Promise<void> {
+  const prescriptionIds: string[] = [];
+
+  for (const line of lines) {
+    if (!line.prescriptionItemId || line.quantity <= 0) {
+      continue;
+    }
+
+    const item = await tx.prescriptionItem.update({
+      where: { id: line.prescriptionItemId },
+      data: { dispensedQuantity: { decrement: line.quantity } }
+    });
+    prescriptionIds.push(item.prescriptionId);
+  }
+
+  await updatePrescriptionStatuses(tx, prescriptionIds);
+}
+
+/**
+ * Mark prescriptions FULFILLED when every line is used up, and back to ACTIVE when not
+ */
+async function updatePrescriptionStatuses(tx: Prisma.TransactionClient, prescriptionIds: string[]): Promise<void> {
+  for (const prescriptionId of Array.from(new Set(prescriptionIds))) {
+    const items = await tx.prescriptionItem.findMany({
+      where: { prescriptionId },
+      select: { allowedQuantity: true, dispensedQuantity: true }
+    });
+    const fulfilled = items.every(item => item.dispensedQuantity >= item.allowedQuantity);
+
+    await tx.prescription.updateMany({
+      where: { id: prescriptionId, status: fulfilled ? 'ACTIVE' : 'FULFILLED' },
+      data: { status: fulfilled ? 'FULFILLED' : 'ACTIVE' }
+    });
+  }
+}
@@ -0,0 +1,116 @@
+/**
+ * Profit Helper - Gross profit and margin of sale lines
+ *
+ * Each sale line keeps the cost of what it sold as it stood at checkout, so
+ * later purchases do not change the profit of past sales. A line's revenue
+ * is what was charged for it before tax: its own discount and its share of
+ * the sale-level discount are taken off. Refunded units are netted out of
+ * both revenue and cost.
+ */
+
+export const PROFIT_GROUPINGS = ['product', 'category', 'supplier', 'cashier', 'branch'];
+
+export interface ProfitLine {
+  quantity: number;
+  refundedQuantity: number;
+  unitPrice: number;
+  discountAmount: number; // Item-level discount for the whole line
+  unitCost: number; // Cost of one unit at checkout
+  sale: { subtotal: number; discountAmount: number };
+}
+
+export interface LineProfit {
+  quantitySold: number; // Less refunded
+  quantityReturned: number;
+  revenue: number;
+  cost: number;
+  grossProfit: number;
+}
+
+export interface ProfitRow extends LineProfit {
+  key: string | null;
+  name: string;
+  marginPercent: number; // Gross profit as a percentage of revenue
+}
+
+const roundMoney = (value: number): number => Math.round(value * 100) / 100;
+
+export const calculateMarginPercent = (grossProfit: number, revenue: number): number =>
+  revenue > 0 ? Math.round((grossProfit / revenue) * 10000) / 100 : 0;
+
+/**
+ * Revenue, cost and gross profit of the units of a sale line that were kept
+ */
+export function calculateLineProfit(line: ProfitLine): LineProfit {
+  if (line.quantity <= 0) {
+    return { quantitySold: 0, quantityReturned: 0, revenue: 0, cost: 0, grossProfit: 0 };
+  }
+
+  const quantitySold = Math.max(0, line.quantity - line.refundedQuantity);
+  const lineNet = line.quantity * line.unitPrice - (line.discountAmount || 0);
+  const saleDiscountShare = line.sale.subtotal > 0 ? (line.sale.discountAmount || 0) * (lineNet / line.sale.subtotal) : 0;
+  const revenue = roundMoney(((lineNet - saleDiscountShare) / line.quantity) * quantitySold);
+  const cost = roundMoney(quantitySold * line.unitCost);
+
+  return {
+    quantitySold,
+    quantityReturned: line.quantity - quantitySold,
+    revenue,
+    cost,
+    grossProfit: roundMoney(revenue - cost)
+  };
+}
+
+/**
+ * Add up line profits per group, most profitable first
+ */
+export function groupProfit<T extends ProfitLine>(
+  lines: T[],
+  groupOf: (line: T) => { key: string | null; name: string }
+): ProfitRow[] {
+  const rows = new Map<string | null, ProfitRow>();
+
+  lines.forEach(line => {
+    const group = groupOf(line);
+    const profit = calculateLineProfit(line);
+    const row = rows.get(group.key) || {
+      key: group.key,
+      name: group.name,
+      quantitySold: 0,
+      quantityReturned: 0,
+      revenue: 0,
+      cost: 0,
+      grossProfit: 0,
+      marginPercent: 0
+    };
+
+    row.quantitySold += profit.quantitySold;
+    row.quantityReturned += profit.quantityReturned;
+    row.revenue = roundMoney(row.revenue + profit.revenue);
+    row.cost = roundMoney(row.cost + profit.cost);
+    row.grossProfit = roundMoney(row.revenue - row.cost);
+    rows.set(group.key, row);
+  });
+
+  return Array.from(rows.values())
+    .map(row => ({ ...row, marginPercent: calculateMarginPercent(row.grossProfit, row.revenue) }))
+    .sort((a, b) => b.grossProfit - a.grossProfit);
+}
+
+/**
+ * Totals over all report rows
+ */
+export function summarizeProfit(rows: ProfitRow[]) {
+  const revenue = roundMoney(rows.reduce((sum, row) => sum + row.revenue, 0));
+  const cost = roundMoney(rows.reduce((sum, row) => sum + row.cost, 0));
+  const grossProfit = roundMoney(revenue - cost);
+
+  return {
+    quantitySold: rows.reduce((sum, row) => sum + row.quantitySold, 0),
+    quantityReturned: rows.reduce((sum, row) => sum + row.quantityReturned, 0),
+    revenue,
+    cost,
+    grossProfit,
+    marginPercent: calculateMarginPercent(grossProfit, revenue)
+  };
+}
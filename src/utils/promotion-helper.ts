@@ -0,0 +1,246 @@
+/**
+ * Promotion Helper - Server-side promotion pricing at checkout
+ *
+ * Promotions are scoped to listed products or a category, optionally to one
+ * branch, to VIP customers and to a date range, days of the week and a time
+ * of day. Active promotions are applied in priority order and each cart line
+ * takes part in at most one promotion; the promotion's discount replaces any
+ * manual discount on that line.
+ */
+
+import { Prisma, PrismaClient } from '@prisma/client';
+
+export const PROMOTION_TYPES = ['BUY_X_GET_Y', 'BUNDLE_PRICE', 'PERCENTAGE_OFF'];
+
+export interface PromotionLine {
+  productId: string;
+  categoryId?: string | null;
+  quantity: number;
+  unitPrice: number;
+}
+
+export interface PromotionRule {
+  id: string;
+  name: string;
+  type: string;
+  categoryId?: string | null;
+  productIds: string[];
+  buyQuantity?: number | null;
+  getQuantity?: number | null;
+  discountPercentage?: number | null;
+  bundlePrice?: number | null;
+  priority: number;
+}
+
+export interface PromotionSchedule {
+  isActive: boolean;
+  startDate?: Date | null;
+  endDate?: Date | null;
+  daysOfWeek?: string | null;
+  startTime?: string | null;
+  endTime?: string | null;
+}
+
+export interface AppliedPromotion {
+  promotionId: string;
+  promotionName: string;
+  discount: number;
+}
+
+type PromotionClient = PrismaClient | Prisma.TransactionClient;
+
+const roundMoney = (amount: number): number => Math.round(amount * 100) / 100;
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+/**
+ * Whether a promotion's schedule covers `now` (server local time)
+ */
+export function isPromotionActive(promotion: PromotionSchedule, now: Date = new Date()): boolean {
+  if (!promotion.isActive) {
+    return false;
+  }
+
+  if (promotion.startDate && now.getTime() < promotion.startDate.getTime()) {
+    return false;
+  }
+  if (promotion.endDate && now.getTime() > promotion.endDate.getTime()) {
+    return false;
+  }
+
+  if (promotion.daysOfWeek) {
+    const days = promotion.daysOfWeek.split(',').map(day => Number(day.trim()));
+    if (!days.includes(now.getDay())) {
+      return false;
+    }
+  }
+
+  if (promotion.startTime && promotion.endTime) {
+    const minute = now.getHours() * 60 + now.getMinutes();
+    const start = toMinutes(promotion.startTime);
+    const end = toMinutes(promotion.endTime);
+
+    // A window such as 22:00-02:00 runs past midnight
+    const inWindow = start <= end
+      ? minute >= start && minute < end
+      : minute >= start || minute < end;
+    if (!inWindow) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Price a cart against promotions that are already known to be active
+ * @returns the promotion applied to each line (null when none), in cart order
+ */
+export function applyPromotions(lines: PromotionLine[], rules: PromotionRule[]): (AppliedPromotion | null)[] {
+  const applied: (AppliedPromotion | null)[] = lines.map(() => null);
+  const sortedRules = [...rules].sort((a, b) => b.priority - a.priority);
+
+  for (const rule of sortedRules) {
+    const eligible = lines
+      .map((line, index) => ({ line, index }))
+      .filter(({ line, index }) => {
+        if (applied[index]) {
+          return false;
+        }
+        if (rule.productIds.length > 0) {
+          return rule.productIds.includes(line.productId);
+        }
+        return !rule.categoryId || rule.categoryId === line.categoryId;
+      });
+
+    if (eligible.length === 0) {
+      continue;
+    }
+
+    const discounts = new Map<number, number>();
+
+    if (rule.type === 'PERCENTAGE_OFF') {
+      eligible.forEach(({ line, index }) => {
+        discounts.set(index, line.quantity * line.unitPrice * ((rule.discountPercentage || 0) / 100));
+      });
+    } else if (rule.type === 'BUY_X_GET_Y') {
+      const buy = rule.buyQuantity || 0;
+      const get = rule.getQuantity || 0;
+      const units = eligible.reduce((sum, { line }) => sum + line.quantity, 0);
+      let freeUnits = buy > 0 && get > 0 ? Math.floor(units / (buy + get)) * get : 0;
+      if (freeUnits === 0) {
+        continue;
+      }
+
+      // The cheapest units go free
+      [...eligible]
+        .sort((a, b) => a.line.unitPrice - b.line.unitPrice)
+        .forEach(({ line, index }) => {
+          const free = Math.min(freeUnits, line.quantity);
+          freeUnits -= free;
+          discounts.set(index, free * line.unitPrice);
+        });
+    } else if (rule.type === 'BUNDLE_PRICE') {
+      if (rule.productIds.length < 2 || rule.bundlePrice === null || rule.bundlePrice === undefined) {
+        continue;
+      }
+
+      // A bundle is one of each listed product
+      const quantityOf = (productId: string) => eligible
+        .filter(({ line }) => line.productId === productId)
+        .reduce((sum, { line }) => sum + line.quantity, 0);
+      const priceOf = (productId: string) => eligible.find(({ line }) => line.productId === productId)?.line.unitPrice || 0;
+
+      const bundles = Math.min(...rule.productIds.map(quantityOf));
+      const regularPrice = rule.productIds.reduce((sum, productId) => sum + priceOf(productId), 0);
+      if (bundles === 0 || regularPrice <= rule.bundlePrice) {
+        continue;
+      }
+
+      // Each bundled unit is discounted in proportion to its price
+      const ratio = 1 - rule.bundlePrice / regularPrice;
+      const remaining = new Map(rule.productIds.map(productId => [productId, bundles]));
+      eligible.forEach(({ line, index }) => {
+        const bundled = Math.min(remaining.get(line.productId) || 0, line.quantity);
+        remaining.set(line.productId, (remaining.get(line.productId) || 0) - bundled);
+        if (bundled > 0) {
+          discounts.set(index, bundled * line.unitPrice * ratio);
+        }
+      });
+    }
+
+    if (Array.from(discounts.values()).every(discount => discount <= 0)) {
+      continue;
+    }
+
+    // Every line that took part is used up, even when it got no discount itself
+    eligible.forEach(({ line, index }) => {
+      if (rule.type === 'BUNDLE_PRICE' && !discounts.has(index)) {
+        return;
+      }
+      applied[index] = {
+        promotionId: rule.id,
+        promotionName: rule.name,
+        discount: roundMoney(Math.min(discounts.get(index) || 0, line.quantity * line.unitPrice))
+      };
+    });
+  }
+
+  return applied;
+}
+
+/**
+ * Promotions that apply to a cart in a branch right now
+ */
+export async function evaluatePromotions(
+  prisma: PromotionClient,
+  params: {
+    items: { productId: string; quantity: number; unitPrice: number }[];
+    branchId?: string | null;
+    customerId?: string | null;
+    createdBy?: string | null;
+    now?: Date;
+  }
+): Promise<(AppliedPromotion | null)[]> {
+  const now = params.now || new Date();
+
+  const [promotions, products, customer] = await Promise.all([
+    prisma.promotion.findMany({
+      where: {
+        createdBy: params.createdBy || undefined,
+        isActive: true,
+        OR: [{ branchId: null }, ...(params.branchId ? [{ branchId: params.branchId }] : [])]
+      },
+      include: {
+        products: { select: { productId: true } }
+      }
+    }),
+    prisma.product.findMany({
+      where: { id: { in: Array.from(new Set(params.items.map(item => item.productId))) } },
+      select: { id: true, categoryId: true }
+    }),
+    params.customerId
+      ? prisma.customer.findUnique({ where: { id: params.customerId }, select: { isVIP: true } })
+      : Promise.resolve(null)
+  ]);
+
+  const rules = promotions
+    .filter(promotion => isPromotionActive(promotion, now))
+    .filter(promotion => !promotion.vipOnly || !!customer?.isVIP)
+    .map(promotion => ({
+      ...promotion,
+      productIds: promotion.products.map(product => product.productId)
+    }));
+
+  if (rules.length === 0) {
+    return params.items.map(() => null);
+  }
+
+  return applyPromotions(params.items.map(item => ({
+    ...item,
+    categoryId: products.find(product => product.id === item.productId)?.categoryId || null
+  })), rules);
+}
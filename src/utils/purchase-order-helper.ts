@@ -0,0 +1,196 @@
+/**
+ * Purchase Order Helper - Receive ordered stock against purchase orders
+ *
+ * A purchase order lists what was ordered from a supplier and at what price.
+ * Goods-received notes record each delivery: every line goes into a new or
+ * existing batch of the branch. Deliveries may go over the ordered quantity
+ * only within the over-delivery tolerance; an order that is delivered short
+ * stays partially received until it is closed. The order's status always
+ * follows from what has been received.
+ */
+
+import { Prisma } from '@prisma/client';
+import { createAppError } from '../middleware/error.middleware';
+import { StockMovementSource, moveBatchStock } from './stock-helper';
+
+export const PURCHASE_ORDER_STATUSES = ['DRAFT', 'ORDERED', 'PARTIALLY_RECEIVED', 'RECEIVED', 'CLOSED', 'CANCELLED'];
+
+// Orders that can still receive goods
+export const RECEIVABLE_ORDER_STATUSES = ['ORDERED', 'PARTIALLY_RECEIVED'];
+
+export interface OrderLine {
+  id: string;
+  orderedQuantity: number;
+  receivedQuantity: number;
+}
+
+export interface PlannedReceiptLine {
+  orderItemId: string;
+  quantity: number;
+  overReceived: number; // Part of the quantity that goes beyond what was ordered
+}
+
+export interface DeliveryVariance {
+  orderItemId: string;
+  shortQuantity: number;
+  overQuantity: number;
+}
+
+/**
+ * Most units that can be received on a line, ordered quantity plus tolerance
+ */
+export const maxReceivableQuantity = (orderedQuantity: number, tolerancePercent: number): number =>
+  Math.floor(orderedQuantity * (1 + Math.max(0, tolerancePercent) / 100));
+
+/**
+ * Status of an open purchase order from what its lines have received
+ */
+export function derivePurchaseOrderStatus(lines: OrderLine[]): string {
+  if (lines.every(line => line.receivedQuantity === 0)) {
+    return 'ORDERED';
+  }
+  return lines.every(line => line.receivedQuantity >= line.orderedQuantity) ? 'RECEIVED' : 'PARTIALLY_RECEIVED';
+}
+
+/**
+ * Check a delivery against the order lines and the over-delivery tolerance
+ * @returns the delivery's entries, each with the part that goes beyond what was ordered
+ * @throws AppError (400) when a line is unknown or would go over its tolerance
+ */
+export function planGoodsReceipt(
+  lines: OrderLine[],
+  received: { orderItemId: string; quantity: number }[],
+  tolerancePercent: number
+): PlannedReceiptLine[] {
+  const receivedSoFar = new Map(lines.map(line => [line.id, line.receivedQuantity]));
+
+  return received.map(entry => {
+    const line = lines.find(l => l.id === entry.orderItemId);
+    if (!line) {
+      throw createAppError('Purchase order line not found');
+    }
+
+    const before = receivedSoFar.get(line.id)!;
+    const receivable = maxReceivableQuantity(line.orderedQuantity, tolerancePercent) - before;
+    if (entry.quantity > receivable) {
+      throw createAppError(
+        `Only ${Math.max(0, receivable)} more unit(s) can be received on this line ` +
+        `(ordered ${line.orderedQuantity}, received ${line.receivedQuantity})`
+      );
+    }
+
+    const after = before + entry.quantity;
+    receivedSoFar.set(line.id, after);
+    return {
+      orderItemId: line.id,
+      quantity: entry.quantity,
+      overReceived: Math.max(0, after - line.orderedQuantity) - Math.max(0, before - line.orderedQuantity)
+    };
+  });
+}
+
+/**
+ * Lines that were delivered short or over, e.g. when an order is closed
+ */
+export const getDeliveryVariances = (lines: OrderLine[]): DeliveryVariance[] => lines
+  .map(line => ({
+    orderItemId: line.id,
+    shortQuantity: Math.max(0, line.orderedQuantity - line.receivedQuantity),
+    overQuantity: Math.max(0, line.receivedQuantity - line.orderedQuantity)
+  }))
+  .filter(variance => variance.shortQuantity > 0 || variance.overQuantity > 0);
+
+/**
+ * Put received stock into the given batch, or into the branch's batch with the
+ * same number (created when missing), write the ledger row and add the value
+ * to what is owed to the supplier for the batch
+ * @returns the batch the stock went into
+ * @throws AppError (400) when the batch does not match the product or branch
+ */
+export async function receivePurchasedStock(
+  tx: Prisma.TransactionClient,
+  params: {
+    productId: string;
+    branchId: string;
+    companyId: string;
+    supplierId: string;
+    supplierName: string;
+    batchId?: string | null;
+    batchNo?: string | null;
+    expireDate?: Date | null;
+    productionDate?: Date | null;
+    sellingPrice?: number | null;
+    unitPrice: number;
+    quantity: number;
+    supplierInvoiceNo?: string | null;
+    createdBy?: string | null;
+    movement: StockMovementSource;
+  }
+) {
+  let batch = params.batchId
+    ? await tx.batch.findUnique({ where: { id: params.batchId } })
+    : await tx.batch.findUnique({
+      where: {
+        batchNo_productId_branchId: {
+          batchNo: params.batchNo!,
+          productId: params.productId,
+          branchId: params.branchId
+        }
+      }
+    });
+
+  if (params.batchId && (!batch || batch.productId !== params.productId || batch.branchId !== params.branchId)) {
+    throw createAppError('The selected batch is not a batch of this product in this branch');
+  }
+
+  if (batch && params.expireDate && batch.expireDate && batch.expireDate.getTime() !== params.expireDate.getTime()) {
+    throw createAppError(`Batch ${batch.batchNo} already exists with a different expiry date`);
+  }
+
+  if (!batch) {
+    // New batches are priced like the product's latest batch unless a selling price is given
+    const latestBatch = await tx.batch.findFirst({
+      where: { productId: params.productId },
+      orderBy: { createdAt: 'desc' },
+      select: { sellingPrice: true }
+    });
+    const sellingPrice = params.sellingPrice ?? latestBatch?.sellingPrice;
+    if (sellingPrice === undefined || sellingPrice === null) {
+      throw createAppError(`A selling price is needed for the new batch ${params.batchNo}`);
+    }
+
+    // New batches start empty so that the receipt is their first ledger row
+    batch = await tx.batch.create({
+      data: {
+        batchNo: params.batchNo!,
+        productId: params.productId,
+        branchId: params.branchId,
+        companyId: params.companyId,
+        supplierId: params.supplierId,
+        supplierName: params.supplierName,
+        supplierInvoiceNo: params.supplierInvoiceNo,
+        quantity: 0,
+        purchasePrice: params.unitPrice,
+        sellingPrice,
+        expireDate: params.expireDate,
+        productionDate: params.productionDate,
+        createdBy: params.createdBy
+      }
+    });
+  }
+
+  await moveBatchStock(tx, {
+    ...params.movement,
+    batchId: batch.id,
+    change: params.quantity,
+    unitCost: params.unitPrice
+  });
+
+  return tx.batch.update({
+    where: { id: batch.id },
+    data: {
+      isActive: true,
+      supplierOutstanding: { increment: Math.round(params.quantity * params.unitPrice * 100) / 100 }
+    }
+  });
+}
@@ -0,0 +1,376 @@
+/**
+ * Receipt Renderer - Lay out sale receipts for printing
+ *
+ * Renders a sale receipt as plain text, ESC/POS bytes for thermal printers,
+ * HTML for browser printing or a single-page PDF, so that clients no longer
+ * need their own receipt layout. Layout targets 80mm paper (42 columns).
+ */
+
+export type ReceiptFormat = 'text' | 'html' | 'escpos' | 'pdf';
+
+export const RECEIPT_FORMATS: ReceiptFormat[] = ['text', 'html', 'escpos', 'pdf'];
+
+export interface ReceiptItem {
+  name: string;
+  quantity: number;
+  unitPrice: number;
+  discountAmount: number; // Item-level discount for the line
+  batchNumber?: string | null;
+  expiryDate?: Date | null;
+}
+
+// Part of a line taken from one batch, in base units
+export interface ReceiptBatchAllocation {
+  quantity: number;
+  batchNumber?: string | null;
+  expiryDate?: Date | null;
+}
+
+export interface ReceiptPayment {
+  method: string;
+  amount: number;
+  tenderedAmount?: number | null;
+  changeAmount?: number;
+}
+
+export interface ReceiptData {
+  pharmacy: {
+    name: string;
+    address?: string;
+    phone?: string;
+    license?: string;
+    taxNumber?: string;
+  };
+  receiptNumber: string;
+  date: Date;
+  branchName?: string;
+  cashierName?: string;
+  customerName?: string;
+  items: ReceiptItem[];
+  subtotal: number; // After item discounts
+  discountAmount: number; // Sale-level discount
+  taxAmount: number;
+  totalAmount: number;
+  payments: ReceiptPayment[];
+  changeDue: number;
+  reprintCount: number; // 0 for the original print
+}
+
+interface ReceiptLine {
+  text: string;
+  align?: 'left' | 'center';
+  bold?: boolean;
+  large?: boolean;
+}
+
+const RECEIPT_WIDTH = 42;
+
+export const formatAmount = (value: number): string => (Math.round(value * 100) / 100).toFixed(2);
+
+const pad2 = (value: number): string => String(value).padStart(2, '0');
+
+const formatDateTime = (date: Date): string =>
+  `${pad2(date.getDate())}/${pad2(date.getMonth() + 1)}/${date.getFullYear()} ${pad2(date.getHours())}:${pad2(date.getMinutes())}`;
+
+const formatExpiry = (date: Date): string => `${pad2(date.getMonth() + 1)}/${date.getFullYear()}`;
+
+// Thermal printers and the built-in PDF font only cover plain ASCII
+const toAscii = (text: string): string => text.replace(/[^\x20-\x7E]/g, '?');
+
+/**
+ * Left text and right-aligned value on one line, truncating the left text if needed
+ */
+const columns = (left: string, right: string, width: number = RECEIPT_WIDTH): string => {
+  const space = width - right.length - 1;
+  const leftText = left.length > space ? left.substring(0, space) : left;
+  return leftText + ' '.repeat(width - leftText.length - right.length) + right;
+};
+
+const divider = (): ReceiptLine => ({ text: '-'.repeat(RECEIPT_WIDTH) });
+
+const itemLineTotal = (item: ReceiptItem): number => item.quantity * item.unitPrice - (item.discountAmount || 0);
+
+/**
+ * One receipt row per batch a line was sold from. `item` is in base units;
+ * the line's discount is shared out by quantity, the last row taking what is
+ * left over so the rows add up to the line.
+ */
+export function splitReceiptItemByBatch(item: ReceiptItem, allocations: ReceiptBatchAllocation[]): ReceiptItem[] {
+  if (allocations.length <= 1) {
+    return [{
+      ...item,
+      batchNumber: allocations[0]?.batchNumber ?? item.batchNumber,
+      expiryDate: allocations[0]?.expiryDate ?? item.expiryDate
+    }];
+  }
+
+  const totalQuantity = allocations.reduce((sum, allocation) => sum + allocation.quantity, 0);
+  const discountCents = Math.round((item.discountAmount || 0) * 100);
+  let sharedCents = 0;
+
+  return allocations.map((allocation, index) => {
+    const cents = index === allocations.length - 1
+      ? discountCents - sharedCents
+      : Math.round(discountCents * allocation.quantity / totalQuantity);
+    sharedCents += cents;
+    return {
+      name: item.name,
+      quantity: allocation.quantity,
+      unitPrice: item.unitPrice,
+      discountAmount: cents / 100,
+      batchNumber: allocation.batchNumber ?? null,
+      expiryDate: allocation.expiryDate ?? null
+    };
+  });
+}
+
+/**
+ * Build the receipt as lines shared by the text, ESC/POS and PDF renderers
+ */
+export function buildReceiptLines(data: ReceiptData): ReceiptLine[] {
+  const lines: ReceiptLine[] = [];
+  const center = (text: string, bold: boolean = false): void => {
+    lines.push({ text, align: 'center', bold });
+  };
+
+  lines.push({ text: data.pharmacy.name, align: 'center', bold: true, large: true });
+  if (data.pharmacy.address) center(data.pharmacy.address);
+  if (data.pharmacy.phone) center(`Tel: ${data.pharmacy.phone}`);
+  if (data.pharmacy.license) center(`License: ${data.pharmacy.license}`);
+  if (data.pharmacy.taxNumber) center(`Tax No: ${data.pharmacy.taxNumber}`);
+  if (data.reprintCount > 0) center(`*** REPRINT #${data.reprintCount} ***`, true);
+
+  lines.push(divider());
+  lines.push({ text: columns('Receipt:', data.receiptNumber) });
+  lines.push({ text: columns('Date:', formatDateTime(data.date)) });
+  if (data.branchName) lines.push({ text: columns('Branch:', data.branchName) });
+  if (data.cashierName) lines.push({ text: columns('Cashier:', data.cashierName) });
+  if (data.customerName) lines.push({ text: columns('Customer:', data.customerName) });
+  lines.push(divider());
+
+  data.items.forEach(item => {
+    lines.push({ text: item.name, bold: true });
+    lines.push({ text: columns(`  ${item.quantity} x ${formatAmount(item.unitPrice)}`, formatAmount(item.quantity * item.unitPrice)) });
+    if (item.discountAmount > 0) {
+      lines.push({ text: columns('  Item discount', `-${formatAmount(item.discountAmount)}`) });
+    }
+
+    const batchDetails = [
+      item.batchNumber ? `Batch: ${item.batchNumber}` : '',
+      item.expiryDate ? `Exp: ${formatExpiry(item.expiryDate)}` : ''
+    ].filter(Boolean).join('  ');
+    if (batchDetails) {
+      lines.push({ text: `  ${batchDetails}` });
+    }
+  });
+
+  lines.push(divider());
+
+  const itemDiscounts = data.items.reduce((sum, item) => sum + (item.discountAmount || 0), 0);
+  if (itemDiscounts > 0) {
+    lines.push({ text: columns('Item discounts', `-${formatAmount(itemDiscounts)}`) });
+  }
+  lines.push({ text: columns('Subtotal', formatAmount(data.subtotal)) });
+  if (data.discountAmount > 0) {
+    lines.push({ text: columns('Discount', `-${formatAmount(data.discountAmount)}`) });
+  }
+  if (data.taxAmount > 0) {
+    lines.push({ text: columns('Tax', formatAmount(data.taxAmount)) });
+  }
+  lines.push({ text: columns('TOTAL', formatAmount(data.totalAmount)), bold: true });
+
+  if (data.payments.length > 0) {
+    lines.push(divider());
+    data.payments.forEach(payment => {
+      const tendered = payment.tenderedAmount ?? payment.amount;
+      lines.push({ text: columns(payment.method.replace(/_/g, ' '), formatAmount(tendered)) });
+    });
+  }
+  if (data.changeDue > 0) {
+    lines.push({ text: columns('Change', formatAmount(data.changeDue)), bold: true });
+  }
+
+  lines.push(divider());
+  center('Thank you for your visit');
+  center('Please check medicines before leaving');
+
+  return lines.map(line => ({ ...line, text: toAscii(line.text) }));
+}
+
+/**
+ * Plain text receipt (also used for previews and logs)
+ */
+export function renderReceiptText(data: ReceiptData): string {
+  return buildReceiptLines(data)
+    .map(line => {
+      if (line.align !== 'center' || line.text.length >= RECEIPT_WIDTH) {
+        return line.text;
+      }
+      return ' '.repeat(Math.floor((RECEIPT_WIDTH - line.text.length) / 2)) + line.text;
+    })
+    .join('\n') + '\n';
+}
+
+// ESC/POS command bytes
+const ESC = 0x1b;
+const GS = 0x1d;
+const LF = 0x0a;
+
+/**
+ * ESC/POS byte stream for thermal receipt printers (initialise, print, feed and cut)
+ */
+export function renderReceiptEscPos(data: ReceiptData): Buffer {
+  const bytes: number[] = [ESC, 0x40]; // Initialise printer
+
+  buildReceiptLines(data).forEach(line => {
+    bytes.push(ESC, 0x61, line.align === 'center' ? 1 : 0); // Alignment
+    bytes.push(ESC, 0x45, line.bold ? 1 : 0); // Emphasis
+    bytes.push(GS, 0x21, line.large ? 0x11 : 0x00); // Character size
+    bytes.push(...Buffer.from(line.text, 'ascii'), LF);
+  });
+
+  bytes.push(ESC, 0x64, 4); // Feed 4 lines
+  bytes.push(GS, 0x56, 0x42, 0x00); // Partial cut
+
+  return Buffer.from(bytes);
+}
+
+export const escapeHtml = (text: string): string => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&#39;');
+
+/**
+ * Printable HTML page sized for 80mm receipt paper
+ */
+export function renderReceiptHtml(data: ReceiptData): string {
+  const row = (label: string, value: string, className: string = ''): string =>
+    `<tr${className ? ` class="${className}"` : ''}><td>${escapeHtml(label)}</td><td class="amount">${escapeHtml(value)}</td></tr>`;
+
+  const header = [
+    `<h1>${escapeHtml(data.pharmacy.name)}</h1>`,
+    data.pharmacy.address ? `<div>${escapeHtml(data.pharmacy.address)}</div>` : '',
+    data.pharmacy.phone ? `<div>Tel: ${escapeHtml(data.pharmacy.phone)}</div>` : '',
+    data.pharmacy.license ? `<div>License: ${escapeHtml(data.pharmacy.license)}</div>` : '',
+    data.pharmacy.taxNumber ? `<div>Tax No: ${escapeHtml(data.pharmacy.taxNumber)}</div>` : '',
+    data.reprintCount > 0 ? `<div class="reprint">REPRINT #${data.reprintCount}</div>` : ''
+  ].filter(Boolean).join('\n      ');
+
+  const details = [
+    row('Receipt', data.receiptNumber),
+    row('Date', formatDateTime(data.date)),
+    data.branchName ? row('Branch', data.branchName) : '',
+    data.cashierName ? row('Cashier', data.cashierName) : '',
+    data.customerName ? row('Customer', data.customerName) : ''
+  ].filter(Boolean).join('\n        ');
+
+  const items = data.items.map(item => {
+    const batchDetails = [
+      item.batchNumber ? `Batch: ${escapeHtml(item.batchNumber)}` : '',
+      item.expiryDate ? `Exp: ${formatExpiry(item.expiryDate)}` : ''
+    ].filter(Boolean).join(' &middot; ');
+
+    return [
+      '<tr>',
+      `<td>${escapeHtml(item.name)}`,
+      `<div class="muted">${item.quantity} x ${formatAmount(item.unitPrice)}${item.discountAmount > 0 ? ` (-${formatAmount(item.discountAmount)})` : ''}</div>`,
+      batchDetails ? `<div class="muted">${batchDetails}</div>` : '',
+      '</td>',
+      `<td class="amount">${formatAmount(itemLineTotal(item))}</td>`,
+      '</tr>'
+    ].join('');
+  }).join('\n        ');
+
+  const totals = [
+    row('Subtotal', formatAmount(data.subtotal)),
+    data.discountAmount > 0 ? row('Discount', `-${formatAmount(data.discountAmount)}`) : '',
+    data.taxAmount > 0 ? row('Tax', formatAmount(data.taxAmount)) : '',
+    row('TOTAL', formatAmount(data.totalAmount), 'total'),
+    ...data.payments.map(payment => row(payment.method.replace(/_/g, ' '), formatAmount(payment.tenderedAmount ?? payment.amount))),
+    data.changeDue > 0 ? row('Change', formatAmount(data.changeDue), 'total') : ''
+  ].filter(Boolean).join('\n        ');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <title>Receipt ${escapeHtml(data.receiptNumber)}</title>
+  <style>
+    @page { size: 80mm auto; margin: 4mm; }
+    body { font-family: monospace; font-size: 12px; width: 72mm; margin: 0 auto; }
+    .header { text-align: center; }
+    h1 { font-size: 16px; margin: 0 0 4px; }
+    table { width: 100%; border-collapse: collapse; border-top: 1px dashed #000; margin-top: 6px; }
+    td { padding: 2px 0; vertical-align: top; }
+    .amount { text-align: right; white-space: nowrap; }
+    .muted { color: #555; font-size: 11px; }
+    .total td { font-weight: bold; }
+    .reprint { font-weight: bold; margin-top: 4px; }
+    .footer { text-align: center; border-top: 1px dashed #000; margin-top: 6px; padding-top: 6px; }
+  </style>
+</head>
+<body>
+  <div class="header">
+      ${header}
+  </div>
+  <table>
+        ${details}
+  </table>
+  <table>
+        ${items}
+  </table>
+  <table>
+        ${totals}
+  </table>
+  <div class="footer">Thank you for your visit</div>
+</body>
+</html>
+`;
+}
+
+const escapePdfText = (text: string): string => text.replace(/\\/g, '\\\\').replace(/\(/g, '\\(').replace(/\)/g, '\\)');
+
+/**
+ * Single-page PDF on 80mm wide paper using the built-in Courier font
+ */
+export function renderReceiptPdf(data: ReceiptData): Buffer {
+  const lines = renderReceiptText(data).trimEnd().split('\n');
+  const fontSize = 8;
+  const leading = 10;
+  const margin = 12;
+  const pageWidth = 227; // 80mm in points
+  const pageHeight = lines.length * leading + margin * 2;
+
+  const content = [
+    'BT',
+    `/F1 ${fontSize} Tf`,
+    `${leading} TL`,
+    `${margin} ${pageHeight - margin - fontSize} Td`,
+    ...lines.map(line => `(${escapePdfText(line)}) Tj T*`),
+    'ET'
+  ].join('\n');
+
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+    `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${pageWidth} ${pageHeight}] /Resources << /Font << /F1 4 0 R >> >> /Contents 5 0 R >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Courier >>',
+    `<< /Length ${Buffer.byteLength(content, 'ascii')} >>\nstream\n${content}\nendstream`
+  ];
+
+  let pdf = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  objects.forEach((object, index) => {
+    offsets.push(Buffer.byteLength(pdf, 'ascii'));
+    pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+  });
+
+  const xrefOffset = Buffer.byteLength(pdf, 'ascii');
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(pdf, 'ascii');
+}
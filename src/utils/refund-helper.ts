@@ -0,0 +1,176 @@
+/**
+ * Refund Helper - Work out what a refund is worth
+ *
+ * Refunds are valued from the original sale line, not from prices sent by the
+ * till: the line's own discount, its share of the sale-level discount and its
+ * share of the tax are all carried over pro rata. Each sale line can only be
+ * refunded up to the quantity that has not been refunded already.
+ */
+
+import { roundAmount } from './payment-helper';
+import { createAppError } from '../middleware/error.middleware';
+
+export interface RefundableSale {
+  subtotal: number; // After item-level discounts
+  discountAmount: number; // Sale-level discount
+  taxAmount: number;
+  totalAmount: number;
+}
+
+export interface RefundableSaleItem {
+  id: string;
+  productId: string;
+  quantity: number;
+  refundedQuantity: number;
+  unitPrice: number;
+  discountAmount: number; // Item-level discount for the whole line
+}
+
+export interface RefundRequestLine {
+  productId: string;
+  quantity: number;
+  saleItemId?: string | null;
+}
+
+export interface RefundLine {
+  saleItemId: string;
+  productId: string;
+  quantity: number;
+  unitPrice: number;
+  amount: number;
+}
+
+export interface RefundPlan {
+  lines: RefundLine[];
+  refundAmount: number;
+  fullyRefunded: boolean; // Every unit of the sale has now been refunded
+}
+
+export interface RefundApprovalRules {
+  amountThreshold: number; // 0 disables the amount rule
+  saleAgeDays: number; // 0 disables the sale age rule
+}
+
+// Roles whose refunds never wait for approval (they are the approvers)
+export const REFUND_APPROVER_ROLES = ['MANAGER', 'ADMIN', 'SUPERADMIN'];
+
+export const getRefundableQuantity = (item: RefundableSaleItem): number =>
+  Math.max(0, item.quantity - item.refundedQuantity);
+
+/**
+ * Value of refunding `quantity` units of a sale line, including its share of
+ * the sale-level discount and tax
+ */
+export function calculateRefundLineAmount(sale: RefundableSale, item: RefundableSaleItem, quantity: number): number {
+  if (item.quantity <= 0 || quantity <= 0) {
+    return 0;
+  }
+
+  const lineNet = item.quantity * item.unitPrice - (item.discountAmount || 0);
+  const refundNet = (lineNet / item.quantity) * quantity;
+
+  const discountShare = sale.subtotal > 0 ? (sale.discountAmount || 0) * (refundNet / sale.subtotal) : 0;
+  const taxableBase = sale.subtotal - (sale.discountAmount || 0);
+  const taxShare = taxableBase > 0 ? (sale.taxAmount || 0) * ((refundNet - discountShare) / taxableBase) : 0;
+
+  return roundAmount(Math.max(0, refundNet - discountShare + taxShare));
+}
+
+/**
+ * Whether a refund has to wait for a manager before stock and the sale change.
+ * Refunds raised by a manager or admin are approved by their own authority.
+ */
+export function requiresRefundApproval(
+  refundAmount: number,
+  saleDate: Date,
+  role: string | undefined,
+  rules: RefundApprovalRules,
+  now: Date = new Date()
+): boolean {
+  if (role && REFUND_APPROVER_ROLES.includes(role.toUpperCase())) {
+    return false;
+  }
+
+  if (rules.amountThreshold > 0 && refundAmount > rules.amountThreshold) {
+    return true;
+  }
+
+  const saleAgeDays = (now.getTime() - saleDate.getTime()) / (24 * 60 * 60 * 1000);
+  return rules.saleAgeDays > 0 && saleAgeDays > rules.saleAgeDays;
+}
+
+/**
+ * Match requested refund lines to sale lines and value them.
+ * A line without saleItemId is spread over the sale lines for that product.
+ *
+ * @param alreadyRefunded amount refunded against this sale by earlier refunds
+ * @throws AppError (400) when a line does not belong to the sale or exceeds what is left to refund
+ */
+export function planRefund(
+  sale: RefundableSale,
+  saleItems: RefundableSaleItem[],
+  requested: RefundRequestLine[],
+  alreadyRefunded: number = 0
+): RefundPlan {
+  // Remaining quantity per sale line, reduced as this request consumes it
+  const remaining = new Map(saleItems.map(item => [item.id, getRefundableQuantity(item)]));
+  const lines: RefundLine[] = [];
+
+  const take = (item: RefundableSaleItem, quantity: number) => {
+    remaining.set(item.id, (remaining.get(item.id) || 0) - quantity);
+    lines.push({
+      saleItemId: item.id,
+      productId: item.productId,
+      quantity,
+      unitPrice: item.unitPrice,
+      amount: calculateRefundLineAmount(sale, item, quantity)
+    });
+  };
+
+  for (const request of requested) {
+    if (request.saleItemId) {
+      const item = saleItems.find(saleItem => saleItem.id === request.saleItemId);
+      if (!item || item.productId !== request.productId) {
+        throw createAppError(`Sale item ${request.saleItemId} does not belong to this sale`);
+      }
+
+      const available = remaining.get(item.id) || 0;
+      if (request.quantity > available) {
+        throw createAppError(`Only ${available} unit(s) of product ${request.productId} remain refundable on this sale`);
+      }
+
+      take(item, request.quantity);
+      continue;
+    }
+
+    const candidates = saleItems.filter(item => item.productId === request.productId);
+    if (candidates.length === 0) {
+      throw createAppError(`Product ${request.productId} was not sold on this sale`);
+    }
+
+    const available = candidates.reduce((sum, item) => sum + (remaining.get(item.id) || 0), 0);
+    if (request.quantity > available) {
+      throw createAppError(`Only ${available} unit(s) of product ${request.productId} remain refundable on this sale`);
+    }
+
+    let toRefund = request.quantity;
+    for (const item of candidates) {
+      const quantity = Math.min(toRefund, remaining.get(item.id) || 0);
+      if (quantity > 0) {
+        take(item, quantity);
+        toRefund -= quantity;
+      }
+    }
+  }
+
+  const fullyRefunded = Array.from(remaining.values()).every(quantity => quantity <= 0);
+  const refundableAmount = roundAmount(Math.max(0, sale.totalAmount - alreadyRefunded));
+  const linesTotal = roundAmount(lines.reduce((sum, line) => sum + line.amount, 0));
+
+  return {
+    lines,
+    // The last refund on a sale settles any rounding left over from earlier ones
+    refundAmount: fullyRefunded ? refundableAmount : Math.min(linesTotal, refundableAmount),
+    fullyRefunded
+  };
+}
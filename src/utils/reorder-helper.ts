@@ -0,0 +1,228 @@
+/**
+ * Reorder Helper - Suggest what to order from suppliers
+ *
+ * Average daily sales come from the branch's sales over a recent window, net
+ * of refunds. A product needs reordering once its stock plus what is already
+ * on order falls to its reorder point: the minimum stock plus what is expected
+ * to sell during the supplier's lead time. The suggestion then orders up to the
+ * product's maximum stock, or enough to cover the reorder point plus a number
+ * of days of sales when no maximum is set.
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { EXCLUDED_SALE_STATUSES } from '../models/sale.model';
+import { RECEIVABLE_ORDER_STATUSES } from './purchase-order-helper';
+
+// Lead time used for products without a known supplier
+export const DEFAULT_LEAD_TIME_DAYS = 7;
+
+export interface ReorderInput {
+  currentStock: number;
+  onOrder: number;
+  averageDailySales: number;
+  leadTimeDays: number;
+  minStock: number;
+  maxStock?: number | null;
+  coverageDays: number;
+}
+
+export interface ReorderCalculation {
+  reorderPoint: number;
+  targetStock: number;
+  suggestedQuantity: number;
+}
+
+export interface ReorderSuggestion extends ReorderCalculation {
+  productId: string;
+  productName: string;
+  sku: string;
+  supplierId: string | null;
+  supplierName: string | null;
+  leadTimeDays: number;
+  currentStock: number;
+  onOrder: number;
+  averageDailySales: number;
+  unitPrice: number; // Purchase price of the product's latest batch
+  estimatedCost: number;
+}
+
+export interface SupplierReorderGroup {
+  supplierId: string | null; // null for products without a supplier
+  supplierName: string | null;
+  leadTimeDays: number;
+  items: ReorderSuggestion[];
+  totalEstimatedCost: number;
+}
+
+/**
+ * Units sold per day over the window
+ */
+export const calculateAverageDailySales = (unitsSold: number, windowDays: number): number =>
+  windowDays > 0 ? Math.max(0, unitsSold) / windowDays : 0;
+
+/**
+ * Reorder point, stock to order up to and the quantity to order now (0 when
+ * stock plus what is on order is still above the reorder point)
+ */
+export function calculateReorderQuantity(input: ReorderInput): ReorderCalculation {
+  const reorderPoint = Math.ceil(input.minStock + input.averageDailySales * input.leadTimeDays);
+  const targetStock = input.maxStock !== null && input.maxStock !== undefined
+    ? input.maxStock
+    : Math.ceil(reorderPoint + input.averageDailySales * input.coverageDays);
+
+  const available = input.currentStock + input.onOrder;
+  const suggestedQuantity = available <= reorderPoint ? Math.max(0, targetStock - available) : 0;
+
+  return { reorderPoint, targetStock, suggestedQuantity };
+}
+
+/**
+ * Group suggestions by supplier, suppliers with the largest order first and
+ * products without a supplier last
+ */
+export function groupSuggestionsBySupplier(suggestions: ReorderSuggestion[]): SupplierReorderGroup[] {
+  const groups = new Map<string, SupplierReorderGroup>();
+
+  suggestions.forEach(suggestion => {
+    const key = suggestion.supplierId || '';
+    let group = groups.get(key);
+    if (!group) {
+      group = {
+        supplierId: suggestion.supplierId,
+        supplierName: suggestion.supplierName,
+        leadTimeDays: suggestion.leadTimeDays,
+        items: [],
+        totalEstimatedCost: 0
+      };
+      groups.set(key, group);
+    }
+    group.items.push(suggestion);
+    group.totalEstimatedCost = Math.round((group.totalEstimatedCost + suggestion.estimatedCost) * 100) / 100;
+  });
+
+  return Array.from(groups.values()).sort((a, b) => {
+    if (!a.supplierId || !b.supplierId) {
+      return a.supplierId ? -1 : b.supplierId ? 1 : 0;
+    }
+    return b.totalEstimatedCost - a.totalEstimatedCost;
+  });
+}
+
+/**
+ * Work out reorder suggestions for the active products of a branch. A product's
+ * supplier is the one set on the product, otherwise the supplier of its latest batch.
+ */
+export async function buildReorderSuggestions(
+  prisma: PrismaClient,
+  params: {
+    branchId: string;
+    salesWindowDays: number;
+    coverageDays: number;
+    supplierId?: string;
+    now?: Date;
+  }
+): Promise<ReorderSuggestion[]> {
+  const now = params.now || new Date();
+  const since = new Date(now.getTime() - params.salesWindowDays * 24 * 60 * 60 * 1000);
+  const supplierSelect = { select: { id: true, name: true, leadTimeDays: true } };
+
+  const [products, batches, sales, openOrderItems] = await Promise.all([
+    prisma.product.findMany({
+      where: { branchId: params.branchId, isActive: true },
+      select: {
+        id: true,
+        name: true,
+        sku: true,
+        minStock: true,
+        maxStock: true,
+        supplier: supplierSelect
+      }
+    }),
+    prisma.batch.findMany({
+      where: { branchId: params.branchId },
+      select: {
+        productId: true,
+        quantity: true,
+        isActive: true,
+        expireDate: true,
+        purchasePrice: true,
+        supplier: supplierSelect
+      },
+      orderBy: { createdAt: 'desc' }
+    }),
+    prisma.saleItem.groupBy({
+      by: ['productId'],
+      where: {
+        sale: {
+          branchId: params.branchId,
+          status: { notIn: EXCLUDED_SALE_STATUSES },
+          createdAt: { gte: since }
+        }
+      },
+      _sum: { quantity: true, refundedQuantity: true }
+    }),
+    prisma.purchaseOrderItem.findMany({
+      where: { order: { branchId: params.branchId, status: { in: RECEIVABLE_ORDER_STATUSES } } },
+      select: { productId: true, orderedQuantity: true, receivedQuantity: true }
+    })
+  ]);
+
+  const unitsSold = new Map(sales.map(row => [
+    row.productId,
+    (row._sum.quantity || 0) - (row._sum.refundedQuantity || 0)
+  ]));
+
+  const onOrder = new Map<string, number>();
+  openOrderItems.forEach(item => {
+    const outstanding = Math.max(0, item.orderedQuantity - item.receivedQuantity);
+    onOrder.set(item.productId, (onOrder.get(item.productId) || 0) + outstanding);
+  });
+
+  const suggestions: ReorderSuggestion[] = [];
+  products.forEach(product => {
+    const productBatches = batches.filter(batch => batch.productId === product.id);
+    const latestBatch = productBatches[0];
+    const supplier = product.supplier || productBatches.find(batch => batch.supplier)?.supplier || null;
+    if (params.supplierId && supplier?.id !== params.supplierId) {
+      return;
+    }
+
+    // Expired stock cannot be sold, so it does not count towards what is in stock
+    const currentStock = productBatches
+      .filter(batch => batch.isActive && (!batch.expireDate || batch.expireDate > now))
+      .reduce((sum, batch) => sum + batch.quantity, 0);
+    const averageDailySales = calculateAverageDailySales(unitsSold.get(product.id) || 0, params.salesWindowDays);
+    const leadTimeDays = supplier ? supplier.leadTimeDays : DEFAULT_LEAD_TIME_DAYS;
+
+    const calculation = calculateReorderQuantity({
+      currentStock,
+      onOrder: onOrder.get(product.id) || 0,
+      averageDailySales,
+      leadTimeDays,
+      minStock: product.minStock,
+      maxStock: product.maxStock,
+      coverageDays: params.coverageDays
+    });
+    if (calculation.suggestedQuantity <= 0) {
+      return;
+    }
+
+    const unitPrice = latestBatch ? latestBatch.purchasePrice : 0;
+    suggestions.push({
+      productId: product.id,
+      productName: product.name,
+      sku: product.sku,
+      supplierId: supplier ? supplier.id : null,
+      supplierName: supplier ? supplier.name : null,
+      leadTimeDays,
+      currentStock,
+      onOrder: onOrder.get(product.id) || 0,
+      averageDailySales: Math.round(averageDailySales * 100) / 100,
+      unitPrice,
+      estimatedCost: Math.round(calculation.suggestedQuantity * unitPrice * 100) / 100,
+      ...calculation
+    });
+  });
+
+  return suggestions;
+}
@@ -0,0 +1,110 @@
+/**
+ * Settings Helper - Read admin settings from controllers
+ *
+ * Settings are stored per admin as key/value strings. This helper resolves a
+ * single setting for the current admin group, falling back to the defaults
+ * below when the admin has never saved it.
+ */
+
+import { Prisma, PrismaClient } from '@prisma/client';
+
+// Defaults for settings that drive business rules or documents outside the settings screen.
+// Pharmacy details are getters so environment overrides are read when used, not at import.
+export const SETTING_DEFAULTS: { [key: string]: string } = {
+  get pharmacyName() { return process.env.DEFAULT_PHARMACY_NAME || 'MediBill Pulse Pharmacy'; },
+  pharmacyAddress: 'Block A, Gulberg III, Lahore',
+  get pharmacyPhone() { return process.env.DEFAULT_PHARMACY_PHONE || '+92 42 1234567'; },
+  get pharmacyEmail() { return process.env.DEFAULT_PHARMACY_EMAIL || 'info@medibillpulse.com'; },
+  get pharmacyLicense() { return process.env.DEFAULT_PHARMACY_LICENSE || 'PHR-LHR-2024-001'; },
+  pharmacyTaxNumber: '1234567890123',
+  heldSaleExpiryMinutes: '240', // Parked carts expire after 4 hours
+  refundApprovalAmount: '5000', // Refunds above this amount need approval (0 = never)
+  refundApprovalSaleAgeDays: '7', // Refunds on sales older than this need approval (0 = never)
+  fiscalYearStartMonth: '7', // Fiscal year runs July to June
+  receiptNumberFormat: '{BRANCH}-{FY}-{SEQ:6}',
+  receiptReservationSize: '500', // Receipt numbers reserved per offline terminal at a time
+  prescriptionValidityDays: '30', // Prescriptions without an expiry date are valid this long after issue
+  interactionHistoryDays: '30', // Customer purchases this recent are checked for interactions (0 = basket only)
+  expiryBlockDays: '0', // Batches expiring within this many days cannot be sold (0 = only expired batches)
+  overDeliveryTolerancePercent: '0', // How far a goods receipt may go over the ordered quantity
+  reorderSalesWindowDays: '30', // Days of sales used for the average daily sales in reorder suggestions
+  reorderCoverageDays: '14', // Days of sales a reorder should cover when a product has no maximum stock
+  loyaltyEarnRate: '0.01', // Loyalty points per currency unit spent (1 point per 100)
+  loyaltyPointValue: '1', // Amount one loyalty point pays for when redeemed
+  loyaltyPointsExpiryDays: '365', // Points expire this long after they are earned (0 = never)
+  loyaltyTiers: 'SILVER:25000,GOLD:50000,PLATINUM:100000', // Tiers by lifetime purchases
+  loyaltyVipTier: 'GOLD', // Customers reaching this tier or above are VIP (blank = VIP is set by hand)
+  refillReminderDays: '3' // Refills falling due within this many days are on the refill list
+};
+
+type SettingsClient = PrismaClient | Prisma.TransactionClient;
+
+/**
+ * Get a setting value for an admin, or its default when not set
+ */
+export async function getSettingValue(
+  prisma: SettingsClient,
+  createdBy: string | undefined,
+  key: string
+): Promise<string | undefined> {
+  if (createdBy) {
+    const setting = await prisma.settings.findUnique({
+      where: {
+        createdBy_key: {
+          createdBy,
+          key
+        }
+      }
+    });
+
+    if (setting) {
+      return setting.value;
+    }
+  }
+
+  return SETTING_DEFAULTS[key];
+}
+
+/**
+ * Get several settings for an admin at once, with defaults for the ones not set
+ */
+export async function getSettingValues(
+  prisma: SettingsClient,
+  createdBy: string | undefined,
+  keys: string[]
+): Promise<{ [key: string]: string | undefined }> {
+  const settings = createdBy
+    ? await prisma.settings.findMany({
+      where: { createdBy, key: { in: keys } },
+      select: { key: true, value: true }
+    })
+    : [];
+
+  const values: { [key: string]: string | undefined } = {};
+  keys.forEach(key => {
+    const setting = settings.find(s => s.key === key);
+    values[key] = setting ? setting.value : SETTING_DEFAULTS[key];
+  });
+
+  return values;
+}
+
+/**
+ * Get a numeric setting, falling back to the default when missing or invalid
+ */
+export async function getNumericSetting(
+  prisma: SettingsClient,
+  createdBy: string | undefined,
+  key: string,
+  fallback: number = 0
+): Promise<number> {
+  const value = await getSettingValue(prisma, createdBy, key);
+  const parsed = value !== undefined ? parseFloat(value) : NaN;
+
+  if (!isNaN(parsed)) {
+    return parsed;
+  }
+
+  const defaultValue = parseFloat(SETTING_DEFAULTS[key]);
+  return isNaN(defaultValue) ? fallback : defaultValue;
+}
@@ -0,0 +1,132 @@
+/**
+ * Stock Count Helper - Variances for physical stock counts
+ *
+ * A count snapshots the quantity of every batch in the branch (or on one
+ * shelf) when it starts. Counters record what is on the shelf; the variance
+ * is counted minus expected, valued at the batch's purchase price. When a
+ * manager approves the count the variance is added to the batch, so sales made
+ * while the count was running are not lost.
+ */
+
+import { createAppError } from '../middleware/error.middleware';
+import { gtinCandidates, isGs1String, parseGs1 } from './barcode-helper';
+
+export const STOCK_COUNT_STATUSES = ['OPEN', 'SUBMITTED', 'APPROVED', 'CANCELLED'];
+
+export interface CountLine {
+  id: string;
+  batchId: string;
+  expectedQuantity: number;
+  countedQuantity: number | null;
+  purchasePrice: number;
+}
+
+export interface CountLineVariance {
+  lineId: string;
+  batchId: string;
+  expectedQuantity: number;
+  countedQuantity: number;
+  variance: number; // Positive when more was found than expected
+  varianceValue: number;
+}
+
+export interface CountVarianceSummary {
+  linesTotal: number;
+  linesCounted: number;
+  linesWithVariance: number;
+  gainQuantity: number;
+  lossQuantity: number;
+  gainValue: number;
+  lossValue: number;
+  netValue: number;
+}
+
+export interface CountEntryBatch {
+  id: string;
+  batchNo: string;
+  barcode: string | null;
+  product: { barcode: string | null; barcodes?: { code: string }[] };
+}
+
+const roundMoney = (amount: number): number => Math.round(amount * 100) / 100;
+
+/**
+ * Variances of the counted lines of a stock count; lines not counted yet are
+ * left out, or treated as counted at zero when `uncountedAsZero` is set
+ */
+export function calculateCountVariances(
+  lines: CountLine[],
+  uncountedAsZero: boolean = false
+): { variances: CountLineVariance[]; summary: CountVarianceSummary } {
+  const variances = lines
+    .filter(line => line.countedQuantity !== null || uncountedAsZero)
+    .map(line => {
+      const countedQuantity = line.countedQuantity ?? 0;
+      const variance = countedQuantity - line.expectedQuantity;
+      return {
+        lineId: line.id,
+        batchId: line.batchId,
+        expectedQuantity: line.expectedQuantity,
+        countedQuantity,
+        variance,
+        varianceValue: roundMoney(variance * line.purchasePrice)
+      };
+    });
+
+  const gains = variances.filter(line => line.variance > 0);
+  const losses = variances.filter(line => line.variance < 0);
+
+  return {
+    variances,
+    summary: {
+      linesTotal: lines.length,
+      linesCounted: lines.filter(line => line.countedQuantity !== null).length,
+      linesWithVariance: gains.length + losses.length,
+      gainQuantity: gains.reduce((sum, line) => sum + line.variance, 0),
+      lossQuantity: -losses.reduce((sum, line) => sum + line.variance, 0),
+      gainValue: roundMoney(gains.reduce((sum, line) => sum + line.varianceValue, 0)),
+      lossValue: roundMoney(-losses.reduce((sum, line) => sum + line.varianceValue, 0)),
+      netValue: roundMoney(variances.reduce((sum, line) => sum + line.varianceValue, 0))
+    }
+  };
+}
+
+/**
+ * Find the batch a count entry is for: by batch ID, or by a scanned barcode
+ * (batch barcode first, then product barcode narrowed down by batch number).
+ * A GS1 code gives both the product's GTIN and the batch number.
+ * @throws AppError (400) when the entry does not identify exactly one batch
+ */
+export function resolveCountEntryBatch<T extends CountEntryBatch>(
+  batches: T[],
+  entry: { batchId?: string | null; barcode?: string | null; batchNo?: string | null }
+): T {
+  if (entry.batchId) {
+    const batch = batches.find(b => b.id === entry.batchId);
+    if (!batch) {
+      throw createAppError('Batch was not found where this count is taken');
+    }
+    return batch;
+  }
+
+  const gs1 = entry.barcode && isGs1String(entry.barcode) ? parseGs1(entry.barcode) : null;
+  const codes = gtinCandidates(gs1?.gtin || entry.barcode || '');
+  const batchNo = entry.batchNo || gs1?.batchNo;
+
+  const byBatchBarcode = gs1 ? [] : batches.filter(b => b.barcode && b.barcode === entry.barcode);
+  const candidates = byBatchBarcode.length > 0
+    ? byBatchBarcode
+    : batches.filter(b =>
+      (b.product.barcode && codes.includes(b.product.barcode)) ||
+      (b.product.barcodes || []).some(barcode => codes.includes(barcode.code)));
+  const matches = batchNo ? candidates.filter(b => b.batchNo === batchNo) : candidates;
+
+  if (matches.length === 0) {
+    throw createAppError(`No batch where this count is taken matches barcode ${entry.barcode}${batchNo ? ` and batch ${batchNo}` : ''}`);
+  }
+  if (matches.length > 1) {
+    throw createAppError(`Barcode ${entry.barcode} matches ${matches.length} batches; give the batch number as well`);
+  }
+
+  return matches[0];
+}
@@ -0,0 +1,405 @@
+/**
+ * Stock Helper - Take stock from batches and put it back
+ *
+ * Stock lives on batches. A sale line takes its stock from one or more batches
+ * according to the branch's allocation policy (earliest expiry first, oldest
+ * first, or the batches the cashier picked), never from expired batches or
+ * ones too close to expiry, and each allocation is recorded against the sale
+ * line. When goods come back (refunds, voids) they are returned to the batches
+ * they were sold from so that expiry tracking stays correct.
+ *
+ * Every change to a batch's quantity is written to the stock movement ledger
+ * with the quantity before and after, the unit cost and the document that
+ * caused it, so the history of a batch can be replayed and checked against
+ * what the batch holds now.
+ */
+
+import { Prisma } from '@prisma/client';
+import { createAppError } from '../middleware/error.middleware';
+import { COSTED_RECEIPT_TYPES, batchUnitCost, updateAverageCost } from './costing-helper';
+
+export const BATCH_ALLOCATION_POLICIES = ['FEFO', 'FIFO', 'MANUAL'];
+
+export const STOCK_SOURCE_TYPES = ['SALE', 'REFUND', 'PURCHASE', 'TRANSFER', 'ADJUSTMENT', 'WRITE_OFF', 'SUPPLIER_RETURN'];
+
+export interface StockMovementSource {
+  type: string; // Stock movement type, e.g. IN, OUT, RETURN, ADJUSTMENT, QUARANTINE
+  sourceType: string; // Kind of document that moved the stock
+  sourceId?: string | null;
+  reason?: string | null;
+  reference?: string | null;
+  createdBy?: string | null;
+}
+
+export interface BatchMovementParams extends StockMovementSource {
+  batchId: string;
+  change: number; // Signed: positive puts stock on the batch
+  unitCost?: number | null; // The batch's landed cost (or purchase price) by default
+}
+
+export interface LedgerMovement {
+  id: string;
+  quantityBefore: number | null;
+  quantityAfter: number | null;
+}
+
+export interface LedgerReplay {
+  openingQuantity: number;
+  replayedQuantity: number; // What the batch should hold according to its ledger
+  currentQuantity: number;
+  difference: number; // Current minus replayed
+  gaps: { movementId: string; expectedBefore: number; recordedBefore: number }[]; // Changes made outside the ledger
+  balanced: boolean;
+}
+
+export interface AllocatableBatch {
+  id: string;
+  batchNo: string;
+  quantity: number;
+  expireDate: Date | null;
+  createdAt: Date;
+}
+
+export interface BatchAllocation {
+  batchId: string;
+  batchNo: string;
+  quantity: number;
+}
+
+export interface AllocateSaleStockParams {
+  productId: string;
+  branchId: string;
+  quantity: number;
+  policy: string;
+  expiryBlockDays: number; // Batches expiring within this many days cannot be sold
+  requested?: { batchId?: string | null; batchNumber?: string | null; quantity: number }[]; // Batches the cashier picked (MANUAL only)
+  movement: StockMovementSource;
+}
+
+export interface ReturnStockParams {
+  productId: string;
+  branchId: string;
+  batchId?: string | null; // Batch the stock originally came from
+  quantity: number;
+  type?: string; // Stock movement type, RETURN by default
+  sourceType: string;
+  sourceId?: string | null;
+  reason: string;
+  reference: string;
+  createdBy?: string | null;
+}
+
+/**
+ * Last expiry date that can still be sold today: batches expiring before it are blocked
+ */
+export function getExpiryCutoff(expiryBlockDays: number, now: Date = new Date()): Date {
+  const cutoff = new Date(now);
+  cutoff.setDate(cutoff.getDate() + Math.max(0, expiryBlockDays));
+  return cutoff;
+}
+
+/**
+ * Whether a batch can be sold from (batches without an expiry date always can)
+ */
+export const isBatchSellable = (batch: { expireDate: Date | null }, cutoff: Date): boolean =>
+  !batch.expireDate || batch.expireDate.getTime() > cutoff.getTime();
+
+/**
+ * Split a quantity across sellable batches: earliest expiry first (FEFO, batches
+ * without an expiry date last) or oldest stock first (FIFO)
+ * @returns the allocations, which cover less than `quantity` when stock runs out
+ */
+export function allocateBatches(batches: AllocatableBatch[], quantity: number, policy: string, cutoff: Date): BatchAllocation[] {
+  const ordered = batches
+    .filter(batch => batch.quantity > 0 && isBatchSellable(batch, cutoff))
+    .sort((a, b) => {
+      if (policy === 'FIFO') {
+        return a.createdAt.getTime() - b.createdAt.getTime();
+      }
+      const aExpiry = a.expireDate ? a.expireDate.getTime() : Number.MAX_SAFE_INTEGER;
+      const bExpiry = b.expireDate ? b.expireDate.getTime() : Number.MAX_SAFE_INTEGER;
+      return aExpiry - bExpiry || a.createdAt.getTime() - b.createdAt.getTime();
+    });
+
+  const allocations: BatchAllocation[] = [];
+  let remaining = quantity;
+  for (const batch of ordered) {
+    if (remaining <= 0) {
+      break;
+    }
+    const taken = Math.min(batch.quantity, remaining);
+    allocations.push({ batchId: batch.id, batchNo: batch.batchNo, quantity: taken });
+    remaining -= taken;
+  }
+
+  return allocations;
+}
+
+/**
+ * Change a batch's quantity and write the ledger row for it. Taking stock only
+ * succeeds while the batch still holds enough.
+ * @returns the ledger row, or null when the batch does not hold enough stock
+ */
+export async function moveBatchStock(tx: Prisma.TransactionClient, params: BatchMovementParams) {
+  const moved = await tx.batch.updateMany({
+    where: {
+      id: params.batchId,
+      ...(params.change < 0 && { quantity: { gte: -params.change } })
+    },
+    data: { quantity: { increment: params.change } }
+  });
+
+  if (moved.count === 0) {
+    return null;
+  }
+
+  const batch = await tx.batch.findUniqueOrThrow({
+    where: { id: params.batchId },
+    select: { productId: true, branchId: true, quantity: true, purchasePrice: true, landedCost: true }
+  });
+  const unitCost = params.unitCost ?? batchUnitCost(batch);
+
+  // Bought or transferred stock moves the product's average cost
+  if (params.change > 0 && COSTED_RECEIPT_TYPES.includes(params.type)) {
+    await updateAverageCost(tx, batch.productId, params.change, unitCost);
+  }
+
+  return tx.stockMovement.create({
+    data: {
+      productId: batch.productId,
+      batchId: params.batchId,
+      branchId: batch.branchId,
+      type: params.type,
+      // Adjustments keep their sign; other movement types say the direction themselves
+      quantity: params.type === 'ADJUSTMENT' ? params.change : Math.abs(params.change),
+      quantityBefore: batch.quantity - params.change,
+      quantityAfter: batch.quantity,
+      unitCost,
+      sourceType: params.sourceType,
+      sourceId: params.sourceId,
+      reason: params.reason,
+      reference: params.reference,
+      createdBy: params.createdBy
+    }
+  });
+}
+
+/**
+ * Replay a batch's ledger, oldest movement first, from the quantity before the
+ * first movement. A movement that does not start where the previous one ended
+ * means the batch was changed without a ledger row.
+ */
+export function replayBatchLedger(movements: LedgerMovement[], currentQuantity: number): LedgerReplay {
+  const recorded = movements.filter(movement => movement.quantityBefore !== null && movement.quantityAfter !== null);
+  const openingQuantity = recorded.length > 0 ? recorded[0].quantityBefore! : currentQuantity;
+
+  const gaps: LedgerReplay['gaps'] = [];
+  let replayedQuantity = openingQuantity;
+  for (const movement of recorded) {
+    if (movement.quantityBefore !== replayedQuantity) {
+      gaps.push({ movementId: movement.id, expectedBefore: replayedQuantity, recordedBefore: movement.quantityBefore! });
+    }
+    replayedQuantity = movement.quantityAfter!;
+  }
+
+  const difference = currentQuantity - replayedQuantity;
+  return {
+    openingQuantity,
+    replayedQuantity,
+    currentQuantity,
+    difference,
+    gaps,
+    balanced: difference === 0 && gaps.length === 0
+  };
+}
+
+/**
+ * Take a sale line's stock from its batches
+ * @returns the allocations made, in the order they were taken
+ * @throws AppError (400) when there is not enough sellable stock or a picked batch cannot be sold
+ */
+export async function allocateSaleStock(
+  tx: Prisma.TransactionClient,
+  productName: string,
+  params: AllocateSaleStockParams
+): Promise<BatchAllocation[]> {
+  const cutoff = getExpiryCutoff(params.expiryBlockDays);
+  const batches = await tx.batch.findMany({
+    where: {
+      productId: params.productId,
+      branchId: params.branchId,
+      quantity: { gt: 0 },
+      isActive: true
+    },
+    select: { id: true, batchNo: true, quantity: true, expireDate: true, createdAt: true }
+  });
+
+  let allocations: BatchAllocation[];
+  const requested = (params.requested || []).filter(request => request.batchId || request.batchNumber);
+
+  if (params.policy === 'MANUAL') {
+    if (requested.length === 0) {
+      throw createAppError(`Select the batch to sell ${productName} from`);
+    }
+
+    // The cashier picked the batches; they must still be in stock and in date
+    allocations = requested.map(request => {
+      const batch = batches.find(b => (request.batchId ? b.id === request.batchId : b.batchNo === request.batchNumber));
+      const label = request.batchId ? 'selected batch' : `batch ${request.batchNumber}`;
+
+      if (!batch) {
+        throw createAppError(`Insufficient stock for ${productName}: the ${label} has no stock in this branch`);
+      }
+      if (!isBatchSellable(batch, cutoff)) {
+        throw createAppError(`Batch ${batch.batchNo} of ${productName} is expired or too close to expiry to sell`);
+      }
+      return { batchId: batch.id, batchNo: batch.batchNo, quantity: request.quantity };
+    });
+
+    const allocated = allocations.reduce((sum, allocation) => sum + allocation.quantity, 0);
+    if (allocated !== params.quantity) {
+      throw createAppError(`Batch quantities for ${productName} add up to ${allocated}, not ${params.quantity}`);
+    }
+  } else {
+    allocations = allocateBatches(batches, params.quantity, params.policy, cutoff);
+  }
+
+  const sellable = batches.filter(batch => isBatchSellable(batch, cutoff)).reduce((sum, batch) => sum + batch.quantity, 0);
+  const allocated = allocations.reduce((sum, allocation) => sum + allocation.quantity, 0);
+  if (allocated < params.quantity) {
+    const blocked = batches.reduce((sum, batch) => sum + batch.quantity, 0) - sellable;
+    throw createAppError(
+      `Insufficient stock for ${productName}. Available: ${sellable}, Required: ${params.quantity}` +
+      (blocked > 0 ? ` (${blocked} more unit(s) are expired or too close to expiry)` : '')
+    );
+  }
+
+  for (const allocation of allocations) {
+    // Only succeeds if another sale has not taken the stock in the meantime
+    const taken = await moveBatchStock(tx, {
+      ...params.movement,
+      batchId: allocation.batchId,
+      change: -allocation.quantity
+    });
+
+    if (!taken) {
+      throw createAppError(`Insufficient stock for ${productName} in batch ${allocation.batchNo}`);
+    }
+  }
+
+  return allocations;
+}
+
+/**
+ * Add stock back to its original batch, or to the earliest-expiring active batch
+ * of the product when the original batch is unknown
+ * @returns the batch the stock was returned to, or null if the product has no batch
+ */
+export async function returnStockToBatch(tx: Prisma.TransactionClient, params: ReturnStockParams): Promise<string | null> {
+  let batchId = params.batchId || null;
+
+  if (batchId) {
+    const batch = await tx.batch.findUnique({
+      where: { id: batchId },
+      select: { id: true }
+    });
+    batchId = batch ? batch.id : null;
+  }
+
+  if (!batchId) {
+    const activeBatch = await tx.batch.findFirst({
+      where: {
+        productId: params.productId,
+        branchId: params.branchId,
+        isActive: true
+      },
+      orderBy: { expireDate: 'asc' }
+    });
+    batchId = activeBatch ? activeBatch.id : null;
+  }
+
+  const movement = {
+    type: params.type || 'RETURN',
+    sourceType: params.sourceType,
+    sourceId: params.sourceId,
+    reason: params.reason,
+    reference: params.reference,
+    createdBy: params.createdBy
+  };
+
+  if (batchId) {
+    await moveBatchStock(tx, { ...movement, batchId, change: params.quantity });
+  } else {
+    console.warn('⚠️ No batch found to return stock to for product:', params.productId);
+    await tx.stockMovement.create({
+      data: {
+        ...movement,
+        productId: params.productId,
+        branchId: params.branchId,
+        quantity: params.quantity
+      }
+    });
+  }
+
+  return batchId;
+}
+
+/**
+ * Return units of a sale line to the batches they were allocated from, oldest
+ * allocation first; lines sold before allocations were recorded go back to
+ * their single batch
+ * @returns the first batch the stock was returned to
+ */
+export async function returnSaleItemStock(
+  tx: Prisma.TransactionClient,
+  saleItem: { id: string; productId: string; batchId: string | null },
+  params: Omit<ReturnStockParams, 'productId' | 'batchId'>
+): Promise<string | null> {
+  const allocations = await tx.saleItemBatch.findMany({
+    where: { saleItemId: saleItem.id },
+    orderBy: { createdAt: 'asc' }
+  });
+
+  if (allocations.length === 0) {
+    return returnStockToBatch(tx, { ...params, productId: saleItem.productId, batchId: saleItem.batchId });
+  }
+
+  let firstBatchId: string | null = null;
+  let remaining = params.quantity;
+  for (const allocation of allocations) {
+    const quantity = Math.min(remaining, allocation.quantity - allocation.returnedQuantity);
+    if (quantity <= 0) {
+      continue;
+    }
+
+    const batchId = await returnStockToBatch(tx, {
+      ...params,
+      productId: saleItem.productId,
+      batchId: allocation.batchId,
+      quantity
+    });
+    await tx.saleItemBatch.update({
+      where: { id: allocation.id },
+      data: { returnedQuantity: { increment: quantity } }
+    });
+
+    firstBatchId = firstBatchId || batchId;
+    remaining -= quantity;
+    if (remaining <= 0) {
+      break;
+    }
+  }
+
+  // More units than were allocated (should not happen) go to the line's batch
+  if (remaining > 0) {
+    const batchId = await returnStockToBatch(tx, {
+      ...params,
+      productId: saleItem.productId,
+      batchId: saleItem.batchId,
+      quantity: remaining
+    });
+    firstBatchId = firstBatchId || batchId;
+  }
+
+  return firstBatchId;
+}
@@ -0,0 +1,345 @@
+/**
+ * Supplier Ledger Helper - What is owed to each supplier
+ *
+ * Every purchase, goods receipt, supplier return and payment writes a row to
+ * the supplier's ledger; the balance is the sum of the rows. Payments are set
+ * against specific purchases or goods receipts, which keeps the documents'
+ * paid and outstanding amounts, and what is owed on the batches they brought
+ * in, in step with the ledger. Aging buckets the unpaid documents by how long
+ * ago they were bought.
+ */
+
+import { Prisma } from '@prisma/client';
+import { createAppError } from '../middleware/error.middleware';
+
+export const SUPPLIER_PAYMENT_METHODS = ['CASH', 'CHEQUE', 'BANK_TRANSFER'];
+
+export const SUPPLIER_LEDGER_ENTRY_TYPES = ['PURCHASE', 'GOODS_RECEIPT', 'PAYMENT', 'RETURN', 'ADJUSTMENT'];
+
+export type PayableDocumentType = 'PURCHASE' | 'GOODS_RECEIPT';
+
+export interface PayableDocument {
+  id: string;
+  type: PayableDocumentType;
+  reference: string | null;
+  date: Date;
+  totalAmount: number;
+  outstanding: number;
+}
+
+export interface AllocationPlan {
+  allocations: { id: string; amount: number }[];
+  remaining: number;
+}
+
+export interface AgingBuckets {
+  current: number; // 0-30 days
+  days31To60: number;
+  days61To90: number;
+  over90: number;
+  total: number;
+}
+
+export interface LedgerEntryLike {
+  entryDate: Date;
+  type: string;
+  amount: number;
+  reference?: string | null;
+  description?: string | null;
+}
+
+export interface StatementLine extends LedgerEntryLike {
+  debit: number; // Adds to what is owed
+  credit: number; // Takes off what is owed
+  balance: number;
+}
+
+export interface SupplierStatement {
+  supplier: { id: string; name: string };
+  from: Date | null;
+  to: Date;
+  openingBalance: number;
+  lines: StatementLine[];
+  closingBalance: number;
+  aging: AgingBuckets;
+}
+
+const roundMoney = (value: number): number => Math.round(value * 100) / 100;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Spread an amount over items in the given order, never more than an item's outstanding
+ */
+export function allocateInOrder(items: { id: string; outstanding: number }[], amount: number): AllocationPlan {
+  let remaining = roundMoney(amount);
+  const allocations: { id: string; amount: number }[] = [];
+
+  for (const item of items) {
+    if (remaining <= 0) {
+      break;
+    }
+    const allocated = roundMoney(Math.min(Math.max(item.outstanding, 0), remaining));
+    if (allocated > 0) {
+      allocations.push({ id: item.id, amount: allocated });
+      remaining = roundMoney(remaining - allocated);
+    }
+  }
+
+  return { allocations, remaining };
+}
+
+/**
+ * Put unpaid documents in 30/60/90-day buckets by their age on the given date
+ */
+export function buildAgingBuckets(documents: { date: Date; outstanding: number }[], asOf: Date): AgingBuckets {
+  const buckets: AgingBuckets = { current: 0, days31To60: 0, days61To90: 0, over90: 0, total: 0 };
+
+  documents.forEach(document => {
+    if (document.outstanding <= 0) {
+      return;
+    }
+    const age = Math.floor((asOf.getTime() - document.date.getTime()) / DAY_MS);
+    if (age <= 30) {
+      buckets.current += document.outstanding;
+    } else if (age <= 60) {
+      buckets.days31To60 += document.outstanding;
+    } else if (age <= 90) {
+      buckets.days61To90 += document.outstanding;
+    } else {
+      buckets.over90 += document.outstanding;
+    }
+    buckets.total += document.outstanding;
+  });
+
+  return {
+    current: roundMoney(buckets.current),
+    days31To60: roundMoney(buckets.days31To60),
+    days61To90: roundMoney(buckets.days61To90),
+    over90: roundMoney(buckets.over90),
+    total: roundMoney(buckets.total)
+  };
+}
+
+/**
+ * Add up the aging of several suppliers
+ */
+export const sumAgingBuckets = (agings: AgingBuckets[]): AgingBuckets => agings.reduce(
+  (sum, aging) => ({
+    current: roundMoney(sum.current + aging.current),
+    days31To60: roundMoney(sum.days31To60 + aging.days31To60),
+    days61To90: roundMoney(sum.days61To90 + aging.days61To90),
+    over90: roundMoney(sum.over90 + aging.over90),
+    total: roundMoney(sum.total + aging.total)
+  }),
+  { current: 0, days31To60: 0, days61To90: 0, over90: 0, total: 0 }
+);
+
+/**
+ * Statement lines in date order with the running balance after each one
+ */
+export function buildStatementLines(entries: LedgerEntryLike[], openingBalance: number): StatementLine[] {
+  let balance = openingBalance;
+
+  return [...entries]
+    .sort((a, b) => a.entryDate.getTime() - b.entryDate.getTime())
+    .map(entry => {
+      balance = roundMoney(balance + entry.amount);
+      return {
+        entryDate: entry.entryDate,
+        type: entry.type,
+        reference: entry.reference || null,
+        description: entry.description || null,
+        amount: entry.amount,
+        debit: entry.amount > 0 ? roundMoney(entry.amount) : 0,
+        credit: entry.amount < 0 ? roundMoney(-entry.amount) : 0,
+        balance
+      };
+    });
+}
+
+const csvCell = (value: string | number | null | undefined): string => {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Supplier statement as CSV, one row per ledger entry between the opening and closing balances
+ */
+export function renderStatementCsv(statement: SupplierStatement): string {
+  const rows: (string | number | null)[][] = [
+    ['Supplier', statement.supplier.name],
+    ['From', statement.from ? statement.from.toISOString().slice(0, 10) : ''],
+    ['To', statement.to.toISOString().slice(0, 10)],
+    [],
+    ['Date', 'Type', 'Reference', 'Description', 'Debit', 'Credit', 'Balance'],
+    ['', 'OPENING', '', 'Opening balance', '', '', statement.openingBalance],
+    ...statement.lines.map(line => [
+      line.entryDate.toISOString().slice(0, 10),
+      line.type,
+      line.reference || '',
+      line.description || '',
+      line.debit || '',
+      line.credit || '',
+      line.balance
+    ]),
+    ['', 'CLOSING', '', 'Closing balance', '', '', statement.closingBalance],
+    [],
+    ['Aging', '0-30 days', '31-60 days', '61-90 days', 'Over 90 days', 'Total'],
+    [
+      '',
+      statement.aging.current,
+      statement.aging.days31To60,
+      statement.aging.days61To90,
+      statement.aging.over90,
+      statement.aging.total
+    ]
+  ];
+
+  return rows.map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * Write a row to a supplier's ledger
+ */
+export async function recordSupplierLedgerEntry(
+  tx: Prisma.TransactionClient,
+  data: {
+    supplierId: string;
+    branchId?: string | null;
+    type: string;
+    amount: number;
+    sourceType?: string;
+    sourceId?: string;
+    reference?: string | null;
+    description?: string;
+    entryDate?: Date;
+    createdBy?: string | null;
+  }
+) {
+  return tx.supplierLedgerEntry.create({
+    data: { ...data, amount: roundMoney(data.amount) }
+  });
+}
+
+/**
+ * Unpaid purchases and goods receipts of a supplier, oldest first
+ */
+export async function getPayableDocuments(
+  tx: Prisma.TransactionClient,
+  supplierId: string
+): Promise<PayableDocument[]> {
+  const [purchases, receipts] = await Promise.all([
+    tx.purchase.findMany({
+      where: { supplierId, status: { not: 'CANCELLED' }, outstanding: { gt: 0 } },
+      select: { id: true, invoiceNo: true, purchaseDate: true, totalAmount: true, outstanding: true }
+    }),
+    tx.goodsReceipt.findMany({
+      where: { order: { supplierId } },
+      select: { id: true, supplierInvoiceNo: true, receivedAt: true, totalAmount: true, paidAmount: true }
+    })
+  ]);
+
+  const documents: PayableDocument[] = [
+    ...purchases.map(purchase => ({
+      id: purchase.id,
+      type: 'PURCHASE' as PayableDocumentType,
+      reference: purchase.invoiceNo,
+      date: purchase.purchaseDate,
+      totalAmount: purchase.totalAmount,
+      outstanding: roundMoney(purchase.outstanding)
+    })),
+    ...receipts.map(receipt => ({
+      id: receipt.id,
+      type: 'GOODS_RECEIPT' as PayableDocumentType,
+      reference: receipt.supplierInvoiceNo,
+      date: receipt.receivedAt,
+      totalAmount: receipt.totalAmount,
+      outstanding: roundMoney(receipt.totalAmount - receipt.paidAmount)
+    }))
+  ];
+
+  return documents
+    .filter(document => document.outstanding > 0)
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+}
+
+/**
+ * Set part of a payment against a purchase or goods receipt: mark the document
+ * paid and take the amount off what is owed on the batches it brought in
+ * @throws AppError (400) when the amount is more than the document's outstanding
+ */
+export async function allocateSupplierPayment(
+  tx: Prisma.TransactionClient,
+  params: {
+    paymentId: string;
+    documentType: PayableDocumentType;
+    documentId: string;
+    amount: number;
+    createdBy?: string | null;
+  }
+) {
+  const amount = roundMoney(params.amount);
+  let batchLines: { batchId: string | null }[];
+
+  if (params.documentType === 'PURCHASE') {
+    const purchase = await tx.purchase.findUnique({
+      where: { id: params.documentId },
+      include: { purchaseItems: { select: { batchId: true } } }
+    });
+    if (!purchase || purchase.outstanding + 0.005 < amount) {
+      throw createAppError(`Only ${roundMoney(purchase?.outstanding || 0)} is outstanding on this purchase`);
+    }
+    const paidAmount = roundMoney(purchase.paidAmount + amount);
+    const outstanding = roundMoney(purchase.totalAmount - paidAmount);
+    await tx.purchase.update({
+      where: { id: purchase.id },
+      data: { paidAmount, outstanding, status: outstanding <= 0 ? 'COMPLETED' : 'PARTIAL' }
+    });
+    batchLines = purchase.purchaseItems;
+  } else {
+    const receipt = await tx.goodsReceipt.findUnique({
+      where: { id: params.documentId },
+      include: { items: { select: { batchId: true } } }
+    });
+    if (!receipt || receipt.totalAmount - receipt.paidAmount + 0.005 < amount) {
+      const outstanding = receipt ? receipt.totalAmount - receipt.paidAmount : 0;
+      throw createAppError(`Only ${roundMoney(outstanding)} is outstanding on this goods receipt`);
+    }
+    await tx.goodsReceipt.update({
+      where: { id: receipt.id },
+      data: { paidAmount: roundMoney(receipt.paidAmount + amount) }
+    });
+    batchLines = receipt.items;
+  }
+
+  // What is owed on the batches comes down with the document
+  const batchIds = Array.from(new Set(batchLines.map(line => line.batchId).filter((id): id is string => !!id)));
+  const batches = await tx.batch.findMany({
+    where: { id: { in: batchIds } },
+    select: { id: true, supplierOutstanding: true }
+  });
+  const batchPlan = allocateInOrder(
+    batchIds.map(id => ({ id, outstanding: batches.find(batch => batch.id === id)?.supplierOutstanding || 0 })),
+    amount
+  );
+  for (const allocation of batchPlan.allocations) {
+    await tx.batch.update({
+      where: { id: allocation.id },
+      data: {
+        paidAmount: { increment: allocation.amount },
+        supplierOutstanding: { decrement: allocation.amount }
+      }
+    });
+  }
+
+  return tx.supplierPaymentAllocation.create({
+    data: {
+      paymentId: params.paymentId,
+      purchaseId: params.documentType === 'PURCHASE' ? params.documentId : null,
+      goodsReceiptId: params.documentType === 'GOODS_RECEIPT' ? params.documentId : null,
+      amount,
+      createdBy: params.createdBy
+    }
+  });
+}
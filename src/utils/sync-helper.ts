@@ -35,16 +35,47 @@ const TABLE_MAPPINGS: Record<string, string> = {
   'branch': 'branches',
   'employee': 'employees',
   'product': 'products',
+  'activeIngredient': 'active_ingredients',
+  'productIngredient': 'product_ingredients',
+  'drugInteraction': 'drug_interactions',
+  'promotion': 'promotions',
+  'promotionProduct': 'promotion_products',
   'batch': 'batches',
+  'stockTransfer': 'stock_transfers',
+  'stockTransferItem': 'stock_transfer_items',
+  'stockCount': 'stock_counts',
+  'stockCountLine': 'stock_count_lines',
+  'supplierReturn': 'supplier_returns',
+  'supplierReturnItem': 'supplier_return_items',
+  'batchWriteOff': 'batch_write_offs',
   'stockMovement': 'stock_movements',
   'customer': 'customers',
+  'prescription': 'prescriptions',
+  'prescriptionItem': 'prescription_items',
   'sale': 'sales',
   'saleItem': 'sale_items',
+  'saleItemBatch': 'sale_item_batches',
+  'salePayment': 'sale_payments',
+  'documentSequence': 'document_sequences',
+  'sequenceReservation': 'sequence_reservations',
   'receipt': 'receipts',
   'purchase': 'purchases',
   'purchaseItem': 'purchase_items',
+  'purchaseOrder': 'purchase_orders',
+  'purchaseOrderItem': 'purchase_order_items',
+  'goodsReceipt': 'goods_receipts',
+  'goodsReceiptItem': 'goods_receipt_items',
+  'supplierPayment': 'supplier_payments',
+  'supplierPaymentAllocation': 'supplier_payment_allocations',
+  'supplierLedgerEntry': 'supplier_ledger_entries',
+  'productUnit': 'product_units',
+  'productBarcode': 'product_barcodes',
   'refund': 'refunds',
   'refundItem': 'refund_items',
+  'loyaltyTransaction': 'loyalty_transactions',
+  'customerPayment': 'customer_payments',
+  'customerPaymentAllocation': 'customer_payment_allocations',
+  'customerLedgerEntry': 'customer_ledger_entries',
   'attendance': 'attendance',
   'shift': 'shifts',
   'scheduledShift': 'scheduled_shifts',
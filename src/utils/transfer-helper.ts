@@ -0,0 +1,140 @@
+/**
+ * Transfer Helper - Move stock between branches of a company
+ *
+ * A transfer is drafted in the sending branch, dispatched (stock leaves the
+ * sending batches) and received in the receiving branch, possibly in several
+ * deliveries. Received stock goes into a batch with the same batch number,
+ * expiry and cost in the receiving branch, which is created when missing.
+ */
+
+import { Prisma } from '@prisma/client';
+import { createAppError } from '../middleware/error.middleware';
+import { StockMovementSource, moveBatchStock } from './stock-helper';
+import { batchUnitCost } from './costing-helper';
+
+export const TRANSFER_STATUSES = ['DRAFT', 'DISPATCHED', 'RECEIVED', 'CANCELLED'];
+
+export interface TransferLine {
+  id: string;
+  quantity: number;
+  receivedQuantity: number;
+}
+
+export interface TransferReceiptPlan {
+  receipts: Map<string, number>; // Quantity received now per transfer line
+  fullyReceived: boolean; // Every line has arrived in full
+  shortages: { itemId: string; quantity: number }[]; // What will never arrive when the transfer is closed short
+}
+
+/**
+ * Check a delivery against what is still outstanding on a dispatched transfer
+ * @param complete close the transfer even if some units did not arrive
+ * @throws AppError (400) when a line is unknown or more arrives than is outstanding
+ */
+export function planTransferReceipt(
+  lines: TransferLine[],
+  received: { itemId: string; quantity: number }[],
+  complete: boolean = false
+): TransferReceiptPlan {
+  const receipts = new Map<string, number>();
+
+  for (const entry of received) {
+    const line = lines.find(l => l.id === entry.itemId);
+    if (!line) {
+      throw createAppError('Transfer line not found');
+    }
+
+    const quantity = (receipts.get(line.id) || 0) + entry.quantity;
+    const outstanding = line.quantity - line.receivedQuantity;
+    if (quantity > outstanding) {
+      throw createAppError(`Only ${outstanding} unit(s) are outstanding on this transfer line`);
+    }
+
+    receipts.set(line.id, quantity);
+  }
+
+  const remaining = lines.map(line => ({
+    itemId: line.id,
+    quantity: line.quantity - line.receivedQuantity - (receipts.get(line.id) || 0)
+  }));
+  const fullyReceived = remaining.every(line => line.quantity === 0);
+
+  return {
+    receipts,
+    fullyReceived,
+    shortages: complete ? remaining.filter(line => line.quantity > 0) : []
+  };
+}
+
+/**
+ * Add received stock to the receiving branch's batch with the same batch
+ * number, creating it with the sending batch's expiry, cost and supplier, and
+ * write the ledger row for the receiving batch
+ * @returns the receiving batch
+ */
+export async function receiveIntoBatch(
+  tx: Prisma.TransactionClient,
+  params: {
+    sourceBatch: {
+      batchNo: string;
+      supplierId: string | null;
+      supplierName: string | null;
+      expireDate: Date | null;
+      productionDate: Date | null;
+      purchasePrice: number;
+      landedCost?: number | null;
+      sellingPrice: number;
+    };
+    productId: string;
+    branchId: string;
+    companyId: string;
+    quantity: number;
+    createdBy?: string | null;
+    movement: StockMovementSource;
+  }
+) {
+  let batch = await tx.batch.findUnique({
+    where: {
+      batchNo_productId_branchId: {
+        batchNo: params.sourceBatch.batchNo,
+        productId: params.productId,
+        branchId: params.branchId
+      }
+    }
+  });
+
+  if (batch && !batch.isActive) {
+    batch = await tx.batch.update({
+      where: { id: batch.id },
+      data: { isActive: true }
+    });
+  }
+
+  // New batches start empty so that the receipt is their first ledger row
+  batch = batch || await tx.batch.create({
+    data: {
+      batchNo: params.sourceBatch.batchNo,
+      productId: params.productId,
+      branchId: params.branchId,
+      companyId: params.companyId,
+      supplierId: params.sourceBatch.supplierId,
+      supplierName: params.sourceBatch.supplierName,
+      quantity: 0,
+      purchasePrice: params.sourceBatch.purchasePrice,
+      landedCost: params.sourceBatch.landedCost,
+      sellingPrice: params.sourceBatch.sellingPrice,
+      expireDate: params.sourceBatch.expireDate,
+      productionDate: params.sourceBatch.productionDate,
+      createdBy: params.createdBy
+    }
+  });
+
+  await moveBatchStock(tx, {
+    ...params.movement,
+    batchId: batch.id,
+    change: params.quantity,
+    unitCost: batchUnitCost(params.sourceBatch)
+  });
+
+  return tx.batch.findUniqueOrThrow({ where: { id: batch.id } });
+}
@@ -0,0 +1,201 @@
+/**
+ * Unit Helper - Sell and show stock in packs, strips and loose units
+ *
+ * Batch quantities are always kept in a product's base unit (e.g. tablets).
+ * A product can also be sold in larger units, each holding a whole number of
+ * base units and optionally having its own price. Lines entered in a unit are
+ * converted to base units before any stock moves, and the unit they were
+ * entered in is kept on the line for receipts.
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { createAppError } from '../middleware/error.middleware';
+
+export interface SellingUnit {
+  id: string;
+  productId: string;
+  name: string;
+  conversionFactor: number;
+  sellingPrice: number | null;
+  isActive: boolean;
+}
+
+export interface UnitQuantity {
+  unit: string;
+  quantity: number;
+}
+
+// What is kept on a sale or refund line about the unit it was entered in
+export interface LineUnitFields {
+  unitId: string | null;
+  unitName: string | null;
+  unitQuantity: number | null;
+  unitFactor: number;
+}
+
+export interface UnitLine {
+  productId: string;
+  quantity: number;
+  unitId?: string | null;
+}
+
+const BASE_UNIT_FIELDS: LineUnitFields = { unitId: null, unitName: null, unitQuantity: null, unitFactor: 1 };
+
+/**
+ * Find the unit a line was entered in
+ * @throws AppError (400) when the unit is unknown, inactive or belongs to another product
+ */
+export function findLineUnit(line: UnitLine, units: SellingUnit[]): SellingUnit | null {
+  if (!line.unitId) {
+    return null;
+  }
+
+  const unit = units.find(u => u.id === line.unitId);
+  if (!unit || unit.productId !== line.productId || !unit.isActive) {
+    throw createAppError(`Unit ${line.unitId} is not a selling unit of product ${line.productId}`);
+  }
+  if (!Number.isInteger(line.quantity)) {
+    throw createAppError(`Quantities sold by the ${unit.name.toLowerCase()} must be whole numbers`);
+  }
+  return unit;
+}
+
+/**
+ * Convert a line entered in a unit to base units
+ * @returns the quantity in base units and the unit fields to keep on the line
+ */
+export function toBaseQuantity(line: UnitLine, units: SellingUnit[]): { quantity: number; unitFields: LineUnitFields } {
+  const unit = findLineUnit(line, units);
+  if (!unit) {
+    return { quantity: line.quantity, unitFields: BASE_UNIT_FIELDS };
+  }
+
+  return {
+    quantity: line.quantity * unit.conversionFactor,
+    unitFields: {
+      unitId: unit.id,
+      unitName: unit.name,
+      unitQuantity: line.quantity,
+      unitFactor: unit.conversionFactor
+    }
+  };
+}
+
+/**
+ * Convert sale lines entered in units to base units: the quantity and any
+ * cashier-picked batch split are multiplied out and the price becomes a price
+ * per base unit. The unit's own price is used when the till sends none.
+ * @throws AppError (400) when a unit is not valid for its line or has no price
+ */
+export function convertSaleItemUnits<T extends UnitLine & { unitPrice?: number; batchAllocations?: { batchId: string; quantity: number }[] }>(
+  items: T[],
+  units: SellingUnit[]
+): (T & LineUnitFields & { unitPrice: number })[] {
+  return items.map(item => {
+    const unit = findLineUnit(item, units);
+    if (!unit) {
+      return { ...item, ...BASE_UNIT_FIELDS, unitPrice: item.unitPrice as number };
+    }
+
+    const unitPrice = item.unitPrice ?? unit.sellingPrice;
+    if (unitPrice === undefined || unitPrice === null) {
+      throw createAppError(`No selling price is set for the ${unit.name.toLowerCase()} of product ${item.productId}`);
+    }
+
+    const { quantity, unitFields } = toBaseQuantity(item, units);
+    return {
+      ...item,
+      ...unitFields,
+      quantity,
+      unitPrice: unitPrice / unit.conversionFactor,
+      ...(item.batchAllocations && {
+        batchAllocations: item.batchAllocations.map(allocation => ({
+          ...allocation,
+          quantity: allocation.quantity * unit.conversionFactor
+        }))
+      })
+    };
+  });
+}
+
+/**
+ * Split a base-unit quantity into the largest units first, e.g. 2 Box + 3 Strip + 4 Tablet
+ */
+export function splitIntoUnits(
+  baseQuantity: number,
+  units: { name: string; conversionFactor: number }[],
+  baseUnitName: string
+): UnitQuantity[] {
+  const parts: UnitQuantity[] = [];
+  let remaining = Math.max(0, Math.floor(baseQuantity));
+
+  [...units]
+    .filter(unit => unit.conversionFactor > 1)
+    .sort((a, b) => b.conversionFactor - a.conversionFactor)
+    .forEach(unit => {
+      const quantity = Math.floor(remaining / unit.conversionFactor);
+      if (quantity > 0) {
+        parts.push({ unit: unit.name, quantity });
+        remaining -= quantity * unit.conversionFactor;
+      }
+    });
+
+  if (remaining > 0 || parts.length === 0) {
+    parts.push({ unit: baseUnitName, quantity: remaining });
+  }
+  return parts;
+}
+
+export const formatUnitQuantities = (parts: UnitQuantity[]): string =>
+  parts.map(part => `${part.quantity} ${part.unit}`).join(' + ');
+
+/**
+ * Units used to show a product's stock: its selling units, or a pack of
+ * unitsPerPack when it has none
+ */
+export const getDisplayUnits = (product: {
+  unitsPerPack: number;
+  units?: { name: string; conversionFactor: number; isActive?: boolean }[];
+}): { name: string; conversionFactor: number }[] => {
+  const active = (product.units || []).filter(unit => unit.isActive !== false);
+  if (active.length > 0) {
+    return active;
+  }
+  return product.unitsPerPack > 1 ? [{ name: 'Pack', conversionFactor: product.unitsPerPack }] : [];
+};
+
+/**
+ * Stock of a product in mixed units for inventory screens
+ */
+export const describeStock = (
+  baseQuantity: number,
+  product: { baseUnitName: string; unitsPerPack: number; units?: { name: string; conversionFactor: number; isActive?: boolean }[] }
+) => {
+  const parts = splitIntoUnits(baseQuantity, getDisplayUnits(product), product.baseUnitName);
+  return { units: parts, display: formatUnitQuantities(parts) };
+};
+
+/**
+ * Load the units referenced by a set of lines and convert the lines to base units
+ */
+export async function resolveSaleItemUnits<T extends UnitLine & { unitPrice?: number; batchAllocations?: { batchId: string; quantity: number }[] }>(
+  prisma: PrismaClient,
+  items: T[]
+) {
+  const unitIds = Array.from(new Set(items.map(item => item.unitId).filter((id): id is string => !!id)));
+  const units = unitIds.length > 0
+    ? await prisma.productUnit.findMany({ where: { id: { in: unitIds } } })
+    : [];
+
+  return convertSaleItemUnits(items, units);
+}
+
+/**
+ * Unit fields to store on a sale or refund line
+ */
+export const lineUnitData = (line: Partial<LineUnitFields>): LineUnitFields => ({
+  unitId: line.unitId || null,
+  unitName: line.unitName || null,
+  unitQuantity: line.unitQuantity ?? null,
+  unitFactor: line.unitFactor || 1
+});
@@ -0,0 +1,76 @@
+/**
+ * Barcode Helper Tests
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  gtinCandidates,
+  isGs1String,
+  isValidGtin,
+  parseGs1,
+  parseGs1Date
+} from '../src/utils/barcode-helper';
+
+const GS = '\x1d';
+
+describe('Barcode Helper', () => {
+  describe('isValidGtin', () => {
+    it('should check the GTIN check digit', () => {
+      expect(isValidGtin('09501101530003')).toBe(true);
+      expect(isValidGtin('9501101530003')).toBe(true);
+      expect(isValidGtin('96385074')).toBe(true);
+      expect(isValidGtin('9501101530004')).toBe(false);
+      expect(isValidGtin('ABC123')).toBe(false);
+    });
+  });
+
+  describe('gtinCandidates', () => {
+    it('should list the shorter forms a GTIN-14 can be stored in', () => {
+      expect(gtinCandidates('09501101530003')).toEqual(['09501101530003', '9501101530003']);
+      expect(gtinCandidates('9501101530003')).toEqual(['9501101530003', '09501101530003']);
+    });
+
+    it('should leave other codes as they are', () => {
+      expect(gtinCandidates(' INT-0042 ')).toEqual(['INT-0042']);
+    });
+  });
+
+  describe('isGs1String', () => {
+    it('should tell GS1 strings from plain barcodes', () => {
+      expect(isGs1String(']d20109501101530003')).toBe(true);
+      expect(isGs1String('(01)09501101530003(10)AB1')).toBe(true);
+      expect(isGs1String('010950110153000310AB1')).toBe(true);
+      expect(isGs1String('9501101530003')).toBe(false);
+    });
+  });
+
+  describe('parseGs1Date', () => {
+    it('should read YYMMDD with day 00 as the end of the month', () => {
+      expect(parseGs1Date('270315').toISOString()).toBe('2027-03-15T00:00:00.000Z');
+      expect(parseGs1Date('280200').toISOString()).toBe('2028-02-29T00:00:00.000Z');
+      expect(() => parseGs1Date('271315')).toThrow();
+    });
+  });
+
+  describe('parseGs1', () => {
+    it('should read a DataMatrix string with group separators', () => {
+      const data = parseGs1(`]d2010950110153000317270331` + `10LOT-42${GS}21SN0001`);
+      expect(data.gtin).toBe('09501101530003');
+      expect(data.expiryDate?.toISOString()).toBe('2027-03-31T00:00:00.000Z');
+      expect(data.batchNo).toBe('LOT-42');
+      expect(data.serialNumber).toBe('SN0001');
+    });
+
+    it('should read the human-readable form', () => {
+      const data = parseGs1('(01)09501101530003(11)250101(10)B7(17)270100');
+      expect(data.batchNo).toBe('B7');
+      expect(data.productionDate?.toISOString()).toBe('2025-01-01T00:00:00.000Z');
+      expect(data.expiryDate?.toISOString()).toBe('2027-01-31T00:00:00.000Z');
+    });
+
+    it('should reject unknown identifiers and bad GTINs', () => {
+      expect(() => parseGs1('0109501101530003' + '99ABC')).toThrow();
+      expect(() => parseGs1('(01)09501101530004(10)B7')).toThrow();
+    });
+  });
+});
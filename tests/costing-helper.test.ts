@@ -0,0 +1,139 @@
+/**
+ * Costing Helper Tests
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  allocateLandedCost,
+  batchUnitCost,
+  calculateSaleCogs,
+  costSaleAllocations,
+  movingAverageCost,
+  valueBatches,
+  CogsLine
+} from '../src/utils/costing-helper';
+
+const charges = { freightAmount: 30, dutyAmount: 20, otherCharges: 0, discountAmount: 0 };
+
+const cogsLine = (overrides: Partial<CogsLine>): CogsLine => ({
+  saleItemId: 'item-1',
+  productId: 'product-1',
+  quantity: 10,
+  refundedQuantity: 0,
+  averageCost: 0,
+  batch: null,
+  allocations: [],
+  ...overrides
+});
+
+describe('Costing Helper', () => {
+  describe('allocateLandedCost', () => {
+    const lines = [
+      { quantity: 100, totalPrice: 300 },
+      { quantity: 50, totalPrice: 700 }
+    ];
+
+    it('should spread charges by line value', () => {
+      const shares = allocateLandedCost(lines, charges, 'VALUE');
+      expect(shares.map(share => share.landedCost)).toEqual([15, 35]);
+      expect(shares.map(share => share.landedUnitCost)).toEqual([3.15, 14.7]);
+    });
+
+    it('should spread charges by quantity', () => {
+      const shares = allocateLandedCost(lines, charges, 'QUANTITY');
+      expect(shares.map(share => share.chargesAmount)).toEqual([33.33, 16.67]);
+    });
+
+    it('should take the discount off by value and keep the cents', () => {
+      const shares = allocateLandedCost(
+        [{ quantity: 3, totalPrice: 10 }, { quantity: 3, totalPrice: 10 }, { quantity: 3, totalPrice: 10 }],
+        { freightAmount: 0, dutyAmount: 0, otherCharges: 0, discountAmount: 10 }
+      );
+      expect(shares.reduce((sum, share) => sum + share.discountAmount, 0)).toBeCloseTo(10, 10);
+      expect(shares[1].landedCost).toBe(-3.33);
+    });
+  });
+
+  describe('movingAverageCost', () => {
+    it('should weight the received cost by quantity', () => {
+      expect(movingAverageCost(100, 2, 50, 5)).toBe(3);
+    });
+
+    it('should take the received cost when nothing is on hand', () => {
+      expect(movingAverageCost(0, 2, 10, 4.5)).toBe(4.5);
+      expect(movingAverageCost(-3, 2, 10, 4.5)).toBe(4.5);
+    });
+  });
+
+  describe('valueBatches', () => {
+    const batches = [
+      { quantity: 10, purchasePrice: 2, landedCost: 2.5 },
+      { quantity: 5, purchasePrice: 4, landedCost: null }
+    ];
+
+    it('should value each batch at its landed cost', () => {
+      expect(batchUnitCost(batches[1])).toBe(4);
+      expect(valueBatches(batches, 'BATCH_COST', 3)).toBe(45);
+    });
+
+    it('should value all stock at the average cost', () => {
+      expect(valueBatches(batches, 'WEIGHTED_AVERAGE', 3)).toBe(45);
+      expect(valueBatches(batches, 'WEIGHTED_AVERAGE', 2)).toBe(30);
+    });
+  });
+
+  describe('costSaleAllocations', () => {
+    const allocations = [
+      { quantity: 3, batch: { purchasePrice: 1, landedCost: 1.2 } },
+      { quantity: 1, batch: { purchasePrice: 2 } }
+    ];
+
+    it('should cost a line at the batches it was sold from', () => {
+      expect(costSaleAllocations(allocations, 'BATCH_COST', 1.5)).toEqual({
+        allocationUnitCosts: [1.2, 2],
+        unitCost: 1.4,
+        costAmount: 5.6
+      });
+    });
+
+    it('should cost a line at the average cost when the company uses it', () => {
+      const cost = costSaleAllocations(allocations, 'WEIGHTED_AVERAGE', 1.5);
+      expect(cost.allocationUnitCosts).toEqual([1.2, 2]);
+      expect(cost.unitCost).toBe(1.5);
+      expect(cost.costAmount).toBe(6);
+    });
+  });
+
+  describe('calculateSaleCogs', () => {
+    it('should cost sold units at the batches they came from, less returns', () => {
+      const { lines, totalCost } = calculateSaleCogs([
+        cogsLine({
+          refundedQuantity: 2,
+          allocations: [
+            { quantity: 6, returnedQuantity: 2, batch: { purchasePrice: 1, landedCost: 1.2 } },
+            { quantity: 4, returnedQuantity: 0, batch: { purchasePrice: 2 } }
+          ]
+        }),
+        cogsLine({ saleItemId: 'item-2', quantity: 3, batch: { purchasePrice: 5 } })
+      ], 'BATCH_COST');
+
+      expect(lines[0]).toEqual({ saleItemId: 'item-1', productId: 'product-1', quantity: 8, unitCost: 1.6, cost: 12.8 });
+      expect(lines[1].cost).toBe(15);
+      expect(totalCost).toBe(27.8);
+    });
+
+    it('should cost at the average cost when the company uses it', () => {
+      const { totalCost } = calculateSaleCogs([
+        cogsLine({ averageCost: 1.75, batch: { purchasePrice: 5 } })
+      ], 'WEIGHTED_AVERAGE');
+      expect(totalCost).toBe(17.5);
+    });
+
+    it('should prefer the cost kept on the line at checkout', () => {
+      const { totalCost } = calculateSaleCogs([
+        cogsLine({ refundedQuantity: 4, unitCost: 1.25, averageCost: 3, batch: { purchasePrice: 5 } })
+      ], 'WEIGHTED_AVERAGE');
+      expect(totalCost).toBe(7.5);
+    });
+  });
+});
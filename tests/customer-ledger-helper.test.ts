@@ -0,0 +1,61 @@
+/**
+ * Customer Ledger Helper Tests
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { availableCredit, renderCustomerStatementHtml, CustomerStatement } from '../src/utils/customer-ledger-helper';
+import { buildStatementLines } from '../src/utils/supplier-ledger-helper';
+
+const statement = (overrides: Partial<CustomerStatement> = {}): CustomerStatement => ({
+  pharmacy: { name: 'Care Pharmacy', address: 'Mall Road', phone: '042-111' },
+  customer: { id: 'customer-1', name: 'Ali & Sons', phone: '0300-1234567' },
+  from: new Date('2026-01-01T00:00:00Z'),
+  to: new Date('2026-01-31T00:00:00Z'),
+  openingBalance: 500,
+  lines: buildStatementLines([
+    { entryDate: new Date('2026-01-05T00:00:00Z'), type: 'SALE', amount: 1200, reference: 'LHR-26-000001' },
+    { entryDate: new Date('2026-01-20T00:00:00Z'), type: 'PAYMENT', amount: -700, description: '<cash>' }
+  ], 500),
+  closingBalance: 1000,
+  creditLimit: 5000,
+  availableCredit: 4000,
+  aging: { current: 1000, days31To60: 0, days61To90: 0, over90: 0, total: 1000 },
+  ...overrides
+});
+
+describe('Customer Ledger Helper', () => {
+  describe('availableCredit', () => {
+    it('should give what is left of the credit limit', () => {
+      expect(availableCredit(5000, 1250.5)).toBe(3749.5);
+      expect(availableCredit(5000, -200)).toBe(5200);
+    });
+
+    it('should never be below zero', () => {
+      expect(availableCredit(1000, 1500)).toBe(0);
+      expect(availableCredit(0, 0)).toBe(0);
+    });
+  });
+
+  describe('renderCustomerStatementHtml', () => {
+    it('should list each line with its running balance', () => {
+      const html = renderCustomerStatementHtml(statement());
+
+      expect(html).toContain('Statement of account');
+      expect(html).toContain('2026-01-01 to 2026-01-31');
+      expect(html).toContain('LHR-26-000001');
+      expect(html).toContain('<td class="amount">1200.00</td><td class="amount"></td><td class="amount">1700.00</td>');
+      expect(html).toContain('<td class="amount"></td><td class="amount">700.00</td><td class="amount">1000.00</td>');
+      expect(html).toContain('Credit limit: 5000.00');
+    });
+
+    it('should escape names and descriptions', () => {
+      const html = renderCustomerStatementHtml(statement());
+      expect(html).toContain('Ali &amp; Sons');
+      expect(html).toContain('&lt;cash&gt;');
+    });
+
+    it('should show statements without a start date as up to the end date', () => {
+      expect(renderCustomerStatementHtml(statement({ from: null }))).toContain('Up to 2026-01-31');
+    });
+  });
+});
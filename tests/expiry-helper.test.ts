@@ -0,0 +1,39 @@
+/**
+ * Expiry Helper Tests
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { applySupplierCredit, buildExpiryLossReport } from '../src/utils/expiry-helper';
+
+describe('Expiry Helper', () => {
+  describe('applySupplierCredit', () => {
+    it('should take the whole return off what is still owed', () => {
+      expect(applySupplierCredit(500, 120)).toEqual({ outstandingReduced: 120, creditAmount: 0 });
+    });
+
+    it('should leave a credit when the batch was already paid for', () => {
+      expect(applySupplierCredit(50, 120)).toEqual({ outstandingReduced: 50, creditAmount: 70 });
+      expect(applySupplierCredit(0, 120)).toEqual({ outstandingReduced: 0, creditAmount: 120 });
+    });
+  });
+
+  describe('buildExpiryLossReport', () => {
+    it('should group write-offs and returns by month, branch and supplier', () => {
+      const rows = buildExpiryLossReport(
+        [
+          { createdAt: new Date(2026, 4, 3), branchId: 'b1', supplierId: 's1', quantity: 4, totalValue: 40 },
+          { createdAt: new Date(2026, 4, 20), branchId: 'b1', supplierId: 's1', quantity: 1, totalValue: 10.5 },
+          { createdAt: new Date(2026, 3, 9), branchId: 'b1', supplierId: null, quantity: 2, totalValue: 6 }
+        ],
+        [
+          { createdAt: new Date(2026, 4, 15), branchId: 'b1', supplierId: 's1', quantity: 10, totalValue: 100 }
+        ]
+      );
+
+      expect(rows).toEqual([
+        { month: '2026-04', branchId: 'b1', supplierId: null, writtenOffQuantity: 2, writtenOffValue: 6, returnedQuantity: 0, returnedValue: 0 },
+        { month: '2026-05', branchId: 'b1', supplierId: 's1', writtenOffQuantity: 5, writtenOffValue: 50.5, returnedQuantity: 10, returnedValue: 100 }
+      ]);
+    });
+  });
+});
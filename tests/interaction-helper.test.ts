@@ -0,0 +1,87 @@
+/**
+ * Interaction Helper Tests
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { parseFormulaIngredients, findCheckoutWarnings, getUnacknowledgedWarnings, IngredientEntry, InteractionRule } from '../src/utils/interaction-helper';
+
+const entry = (productId: string, ingredients: string[], fromHistory = false): IngredientEntry => ({
+  productId,
+  productName: productId.toUpperCase(),
+  ingredients,
+  fromHistory
+});
+
+const rules: InteractionRule[] = [
+  { ingredientA: 'Warfarin', ingredientB: 'Aspirin', severity: 'MAJOR', description: 'Increased bleeding risk', recommendation: 'Avoid combination' }
+];
+
+describe('Interaction Helper', () => {
+  describe('parseFormulaIngredients', () => {
+    it('should split a combination formula and drop strengths', () => {
+      expect(parseFormulaIngredients('Paracetamol 500mg + Caffeine 65 mg')).toEqual(['Paracetamol', 'Caffeine']);
+      expect(parseFormulaIngredients('Amoxicillin (as trihydrate) 250mg, Clavulanic Acid 125mg')).toEqual(['Amoxicillin', 'Clavulanic Acid']);
+    });
+
+    it('should return nothing for an empty formula', () => {
+      expect(parseFormulaIngredients(null)).toEqual([]);
+      expect(parseFormulaIngredients('')).toEqual([]);
+    });
+  });
+
+  describe('findCheckoutWarnings', () => {
+    it('should warn about the same ingredient in two products', () => {
+      const warnings = findCheckoutWarnings([
+        entry('panadol', ['Paracetamol']),
+        entry('flu-relief', ['paracetamol', 'Pseudoephedrine'])
+      ], []);
+
+      expect(warnings).toHaveLength(1);
+      expect(warnings[0].code).toBe('DUPLICATE:paracetamol');
+      expect(warnings[0].productIds).toEqual(['panadol', 'flu-relief']);
+    });
+
+    it('should match interaction rules in either order and include recent purchases', () => {
+      const warnings = findCheckoutWarnings([
+        entry('disprin', ['aspirin']),
+        entry('coumadin', ['warfarin'], true)
+      ], rules);
+
+      expect(warnings).toHaveLength(1);
+      expect(warnings[0]).toMatchObject({
+        code: 'INTERACTION:aspirin|warfarin',
+        type: 'INTERACTION',
+        severity: 'MAJOR',
+        involvesHistory: true
+      });
+    });
+
+    it('should ignore combinations made up only of past purchases', () => {
+      const warnings = findCheckoutWarnings([
+        entry('panadol', ['paracetamol']),
+        entry('disprin', ['aspirin'], true),
+        entry('coumadin', ['warfarin'], true)
+      ], rules);
+
+      expect(warnings).toEqual([]);
+    });
+
+    it('should not warn about a single product containing both ingredients', () => {
+      expect(findCheckoutWarnings([entry('combo', ['Warfarin', 'Aspirin'])], rules)).toEqual([]);
+    });
+  });
+
+  describe('getUnacknowledgedWarnings', () => {
+    it('should drop warnings whose codes were acknowledged', () => {
+      const warnings = findCheckoutWarnings([
+        entry('disprin', ['aspirin', 'paracetamol']),
+        entry('coumadin', ['warfarin']),
+        entry('panadol', ['paracetamol'])
+      ], rules);
+
+      expect(warnings.map(warning => warning.code)).toEqual(['INTERACTION:aspirin|warfarin', 'DUPLICATE:paracetamol']);
+      expect(getUnacknowledgedWarnings(warnings, ['INTERACTION:aspirin|warfarin']).map(warning => warning.code))
+        .toEqual(['DUPLICATE:paracetamol']);
+    });
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Loyalty Helper Tests
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  calculateEarnedPoints,
+  isVipTier,
+  parseLoyaltyTiers,
+  planPointDeduction,
+  pointsForAmount,
+  pointsToReverse,
+  resolveLoyaltyTier
+} from '../src/utils/loyalty-helper';
+
+const tiers = parseLoyaltyTiers('gold:50000, SILVER:25000,PLATINUM:100000');
+
+describe('Loyalty Helper', () => {
+  describe('parseLoyaltyTiers', () => {
+    it('should read tiers lowest first', () => {
+      expect(tiers).toEqual([
+        { name: 'SILVER', threshold: 25000 },
+        { name: 'GOLD', threshold: 50000 },
+        { name: 'PLATINUM', threshold: 100000 }
+      ]);
+    });
+
+    it('should skip pairs that do not read', () => {
+      expect(parseLoyaltyTiers('SILVER,GOLD:abc,:100,BRONZE:10')).toEqual([{ name: 'BRONZE', threshold: 10 }]);
+      expect(parseLoyaltyTiers('')).toEqual([]);
+    });
+  });
+
+  describe('resolveLoyaltyTier', () => {
+    it('should give the highest tier reached', () => {
+      expect(resolveLoyaltyTier(24999, tiers)).toBeNull();
+      expect(resolveLoyaltyTier(50000, tiers)?.name).toBe('GOLD');
+      expect(resolveLoyaltyTier(250000, tiers)?.name).toBe('PLATINUM');
+    });
+  });
+
+  describe('isVipTier', () => {
+    it('should be VIP at or above the VIP tier', () => {
+      expect(isVipTier('SILVER', tiers, 'GOLD')).toBe(false);
+      expect(isVipTier('GOLD', tiers, 'GOLD')).toBe(true);
+      expect(isVipTier('PLATINUM', tiers, 'GOLD')).toBe(true);
+      expect(isVipTier(null, tiers, 'GOLD')).toBe(false);
+    });
+
+    it('should never be VIP when the VIP tier is not one of the tiers', () => {
+      expect(isVipTier('PLATINUM', tiers, null)).toBe(false);
+      expect(isVipTier('PLATINUM', tiers, 'DIAMOND')).toBe(false);
+    });
+  });
+
+  describe('calculateEarnedPoints', () => {
+    it('should earn at the category rate, or the default rate when it has none', () => {
+      const points = calculateEarnedPoints([
+        { amount: 300, earnRate: null },
+        { amount: 1000, earnRate: 0.02 },
+        { amount: 5000, earnRate: 0 }
+      ], 0.01);
+      expect(points).toBe(23);
+    });
+
+    it('should not earn on the part of the sale paid with points', () => {
+      expect(calculateEarnedPoints([{ amount: 1000, earnRate: null }], 0.01, 0.25)).toBe(7);
+    });
+  });
+
+  describe('pointsForAmount', () => {
+    it('should give the points an amount takes', () => {
+      expect(pointsForAmount(150, 1)).toBe(150);
+      expect(pointsForAmount(7.5, 0.25)).toBe(30);
+    });
+
+    it('should reject amounts that are not whole points', () => {
+      expect(() => pointsForAmount(10.1, 0.5)).toThrow('steps of 0.5');
+      expect(() => pointsForAmount(10, 0)).toThrow('cannot be redeemed');
+    });
+  });
+
+  describe('planPointDeduction', () => {
+    it('should take from the lots in order and leave the rest to the balance', () => {
+      const lots = [{ id: 'a', remainingPoints: 5 }, { id: 'b', remainingPoints: 0 }, { id: 'c', remainingPoints: 10 }];
+      expect(planPointDeduction(lots, 8)).toEqual([{ id: 'a', points: 5 }, { id: 'c', points: 3 }]);
+      expect(planPointDeduction(lots, 20)).toEqual([{ id: 'a', points: 5 }, { id: 'c', points: 10 }]);
+    });
+  });
+
+  describe('pointsToReverse', () => {
+    it('should reverse in proportion to the part refunded', () => {
+      expect(pointsToReverse(100, 0, 0.3, false)).toBe(30);
+      expect(pointsToReverse(100, 90, 0.3, false)).toBe(10);
+    });
+
+    it('should reverse all that is left once nothing of the sale remains', () => {
+      expect(pointsToReverse(100, 33, 0.33, true)).toBe(67);
+    });
+  });
+});
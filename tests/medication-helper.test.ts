@@ -0,0 +1,160 @@
+/**
+ * Medication Helper Tests
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  lineDaysSupply,
+  refillDueDate,
+  refillStatus,
+  buildMedicationProfile,
+  refillsDue,
+  DispensedLine
+} from '../src/utils/medication-helper';
+
+const line = (overrides: Partial<DispensedLine> = {}): DispensedLine => ({
+  saleItemId: 'item-1',
+  saleId: 'sale-1',
+  customerId: 'customer-1',
+  branchId: 'branch-1',
+  dispensedAt: new Date(2026, 0, 1, 10),
+  productId: 'metformin',
+  productName: 'Metformin 500mg',
+  unitName: 'Tablet',
+  quantity: 60,
+  daysSupply: null,
+  unitsPerDay: 2,
+  dosage: '1 tablet twice a day',
+  prescription: {
+    id: 'rx-1',
+    prescriptionNumber: 'RX-100',
+    doctorName: 'Dr. Ahmed',
+    doctorRegistrationNumber: 'PMDC-123'
+  },
+  ...overrides
+});
+
+describe('Medication Helper', () => {
+  describe('lineDaysSupply', () => {
+    it('should prefer the days supply given at the till', () => {
+      expect(lineDaysSupply({ quantity: 60, daysSupply: 45, unitsPerDay: 2 })).toBe(45);
+    });
+
+    it('should work out the days from the units taken a day', () => {
+      expect(lineDaysSupply({ quantity: 60, unitsPerDay: 2 })).toBe(30);
+      expect(lineDaysSupply({ quantity: 10, unitsPerDay: 3 })).toBe(3);
+      expect(lineDaysSupply({ quantity: 1, unitsPerDay: 3 })).toBe(1);
+    });
+
+    it('should be unknown without either', () => {
+      expect(lineDaysSupply({ quantity: 60 })).toBeNull();
+      expect(lineDaysSupply({ quantity: 0, unitsPerDay: 2 })).toBeNull();
+    });
+  });
+
+  describe('refillDueDate', () => {
+    it('should fall due when the supply runs out', () => {
+      expect(refillDueDate([{ dispensedAt: new Date(2026, 0, 1, 10), daysSupply: 30 }])).toEqual(new Date(2026, 0, 31));
+    });
+
+    it('should add supply bought early on to what was left', () => {
+      const due = refillDueDate([
+        { dispensedAt: new Date(2026, 0, 1), daysSupply: 30 },
+        { dispensedAt: new Date(2026, 0, 26), daysSupply: 30 }
+      ]);
+      expect(due).toEqual(new Date(2026, 2, 2));
+    });
+
+    it('should start again after a gap', () => {
+      const due = refillDueDate([
+        { dispensedAt: new Date(2026, 0, 1), daysSupply: 10 },
+        { dispensedAt: new Date(2026, 1, 1), daysSupply: 10 }
+      ]);
+      expect(due).toEqual(new Date(2026, 1, 11));
+    });
+
+    it('should skip dispenses of unknown supply', () => {
+      expect(refillDueDate([{ dispensedAt: new Date(2026, 0, 1), daysSupply: null }])).toBeNull();
+    });
+  });
+
+  describe('refillStatus', () => {
+    const asOf = new Date(2026, 0, 28, 15);
+
+    it('should be due within the reminder days', () => {
+      expect(refillStatus(new Date(2026, 0, 31), asOf, 3)).toEqual({ status: 'DUE', daysUntilRefill: 3 });
+      expect(refillStatus(new Date(2026, 0, 28), asOf, 0)).toEqual({ status: 'DUE', daysUntilRefill: 0 });
+    });
+
+    it('should not be due further ahead', () => {
+      expect(refillStatus(new Date(2026, 1, 1), asOf, 3)).toEqual({ status: 'NOT_DUE', daysUntilRefill: 4 });
+    });
+
+    it('should be overdue once the day has passed', () => {
+      expect(refillStatus(new Date(2026, 0, 20), asOf, 3)).toEqual({ status: 'OVERDUE', daysUntilRefill: -8 });
+    });
+
+    it('should be unknown without a due date', () => {
+      expect(refillStatus(null, asOf, 3)).toEqual({ status: 'UNKNOWN', daysUntilRefill: null });
+    });
+  });
+
+  describe('buildMedicationProfile', () => {
+    const asOf = new Date(2026, 1, 10);
+
+    it('should group dispenses by product with the latest doctor and refill', () => {
+      const profile = buildMedicationProfile([
+        line(),
+        line({ saleItemId: 'item-2', saleId: 'sale-2', dispensedAt: new Date(2026, 0, 29), quantity: 40 }),
+        line({
+          saleItemId: 'item-3',
+          productId: 'vitamin-c',
+          productName: 'Vitamin C',
+          quantity: 1,
+          unitsPerDay: null,
+          dosage: null,
+          prescription: null,
+          dispensedAt: new Date(2026, 1, 5)
+        })
+      ], asOf, 3);
+
+      expect(profile.map(entry => entry.product.id)).toEqual(['vitamin-c', 'metformin']);
+
+      const metformin = profile[1];
+      expect(metformin.timesDispensed).toBe(2);
+      expect(metformin.totalQuantity).toBe(100);
+      expect(metformin.lastQuantity).toBe(40);
+      expect(metformin.daysSupply).toBe(20);
+      expect(metformin.firstDispensedAt).toEqual(new Date(2026, 0, 1, 10));
+      expect(metformin.doctor).toEqual({ name: 'Dr. Ahmed', registrationNumber: 'PMDC-123' });
+      expect(metformin.dosage).toBe('1 tablet twice a day');
+      expect(metformin.refillDueDate).toEqual(new Date(2026, 1, 20));
+      expect(metformin.refillStatus).toBe('NOT_DUE');
+      expect(metformin.dispenses.map(dispense => dispense.saleItemId)).toEqual(['item-2', 'item-1']);
+
+      expect(profile[0].refillStatus).toBe('UNKNOWN');
+      expect(profile[0].doctor).toBeNull();
+    });
+
+    it('should leave out lines refunded in full', () => {
+      expect(buildMedicationProfile([line({ quantity: 0 })], asOf, 3)).toEqual([]);
+    });
+  });
+
+  describe('refillsDue', () => {
+    const asOf = new Date(2026, 0, 28);
+
+    it('should list refills due and recently overdue', () => {
+      const profile = buildMedicationProfile([
+        line({ productId: 'due', dispensedAt: new Date(2026, 0, 1) }), // Due Jan 31
+        line({ productId: 'overdue', dispensedAt: new Date(2025, 11, 20) }), // Due Jan 19
+        line({ productId: 'stopped', dispensedAt: new Date(2025, 8, 1) }), // Due Oct 1
+        line({ productId: 'later', dispensedAt: new Date(2026, 0, 20) }), // Due Feb 19
+        line({ productId: 'unknown', unitsPerDay: null })
+      ], asOf, 3);
+
+      expect(refillsDue(profile, 30).map(entry => entry.product.id).sort()).toEqual(['due', 'overdue']);
+      expect(refillsDue(profile, 365).map(entry => entry.product.id).sort()).toEqual(['due', 'overdue', 'stopped']);
+    });
+  });
+});
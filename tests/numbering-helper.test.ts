@@ -0,0 +1,145 @@
+/**
+ * Numbering Helper Tests
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { Prisma } from '@prisma/client';
+import {
+  getFiscalYear,
+  formatDocumentNumber,
+  validateDocumentNumberFormat,
+  findSequenceGaps,
+  findDuplicateNumbers,
+  formatProvisionalNumber,
+  issueDocumentNumber
+} from '../src/utils/numbering-helper';
+
+// Just enough of a transaction for a terminal (tests run on SQLite) to issue a number
+const terminalTx = (options: { sequence?: any; reservation?: any; issuedToday?: number } = {}) => ({
+  branch: { findUnique: async () => ({ id: 'branch-1', code: 'LHR' }) },
+  settings: { findMany: async () => [] },
+  documentSequence: { findUnique: async () => options.sequence || null },
+  sequenceReservation: {
+    findFirst: async () => options.reservation || null,
+    update: async () => options.reservation
+  },
+  receipt: { count: async () => options.issuedToday || 0 }
+}) as unknown as Prisma.TransactionClient;
+
+describe('Numbering Helper', () => {
+  describe('getFiscalYear', () => {
+    it('should use the calendar year when the fiscal year starts in January', () => {
+      expect(getFiscalYear(new Date(2026, 0, 1), 1)).toBe(2026);
+      expect(getFiscalYear(new Date(2026, 11, 31), 1)).toBe(2026);
+    });
+
+    it('should roll over on the configured start month', () => {
+      expect(getFiscalYear(new Date(2026, 5, 30), 7)).toBe(2025);
+      expect(getFiscalYear(new Date(2026, 6, 1), 7)).toBe(2026);
+    });
+  });
+
+  describe('formatDocumentNumber', () => {
+    it('should fill in branch, fiscal year and padded counter', () => {
+      const number = formatDocumentNumber('{BRANCH}-{FY}-{SEQ:6}', {
+        branchCode: 'LHR1',
+        fiscalYear: 2025,
+        fiscalYearStartMonth: 7,
+        sequence: 42
+      });
+
+      expect(number).toBe('LHR1-2526-000042');
+    });
+
+    it('should support calendar year tokens and an unpadded counter', () => {
+      const number = formatDocumentNumber('INV/{YYYY}/{YY}/{FY}/{SEQ}', {
+        branchCode: 'KHI',
+        fiscalYear: 2026,
+        fiscalYearStartMonth: 1,
+        sequence: 7
+      });
+
+      expect(number).toBe('INV/2026/26/2026/7');
+    });
+  });
+
+  describe('validateDocumentNumberFormat', () => {
+    it('should require a counter and a year token', () => {
+      expect(validateDocumentNumberFormat('{BRANCH}-{FY}-{SEQ:6}')).toBeNull();
+      expect(validateDocumentNumberFormat('{BRANCH}-{FY}')).toContain('{SEQ}');
+      expect(validateDocumentNumberFormat('{BRANCH}-{SEQ:6}')).toContain('{YYYY}');
+    });
+  });
+
+  describe('findSequenceGaps', () => {
+    it('should report no gaps for a complete sequence', () => {
+      expect(findSequenceGaps([3, 1, 2], 3)).toEqual([]);
+    });
+
+    it('should group missing numbers into ranges', () => {
+      expect(findSequenceGaps([1, 2, 5, 9], 10)).toEqual([
+        { from: 3, to: 4 },
+        { from: 6, to: 8 },
+        { from: 10, to: 10 }
+      ]);
+    });
+
+    it('should not treat numbers still reserved by a terminal as gaps', () => {
+      expect(findSequenceGaps([1, 2, 101], 200, [{ from: 102, to: 200 }])).toEqual([
+        { from: 3, to: 100 }
+      ]);
+    });
+  });
+
+  describe('findDuplicateNumbers', () => {
+    it('should list numbers issued more than once', () => {
+      expect(findDuplicateNumbers([4, 1, 2, 4, 2, 3])).toEqual([2, 4]);
+    });
+  });
+
+  describe('formatProvisionalNumber', () => {
+    it('should prefix the number with the device and day', () => {
+      expect(formatProvisionalNumber('device-a1b2c3', new Date(2026, 2, 15), 7)).toBe('PROV-A1B2C3-260315-0007');
+    });
+
+    it('should fall back to LOCAL without a device ID', () => {
+      expect(formatProvisionalNumber(null, new Date(2026, 2, 15), 1)).toBe('PROV-LOCAL-260315-0001');
+    });
+  });
+
+  describe('issueDocumentNumber on a terminal', () => {
+    const sequence = { id: 'sequence-1', format: '{BRANCH}-{YY}-{SEQ:6}', nextNumber: 1 };
+
+    it('should issue a provisional number when there is no sequence or reservation', async () => {
+      const issued = await issueDocumentNumber(terminalTx({ issuedToday: 2 }), {
+        branchId: 'branch-1',
+        documentType: 'RECEIPT',
+        deviceId: 'device-a1b2c3'
+      });
+
+      expect(issued.provisional).toBe(true);
+      expect(issued.sequenceId).toBeNull();
+      expect(issued.sequenceNumber).toBeNull();
+      expect(issued.documentNumber).toMatch(/^PROV-A1B2C3-\d{6}-0003$/);
+      expect(issued.fiscalYear).toBe(new Date().getFullYear());
+    });
+
+    it('should issue a provisional number without a device ID', async () => {
+      const issued = await issueDocumentNumber(terminalTx({ sequence }), { branchId: 'branch-1', documentType: 'RECEIPT' });
+      expect(issued.documentNumber).toMatch(/^PROV-LOCAL-\d{6}-0001$/);
+    });
+
+    it('should issue from the reserved range when there is one', async () => {
+      const reservation = { id: 'reservation-1', nextNumber: 41, endNumber: 50 };
+      const issued = await issueDocumentNumber(terminalTx({ sequence, reservation }), {
+        branchId: 'branch-1',
+        documentType: 'RECEIPT',
+        deviceId: 'device-a1b2c3'
+      });
+
+      expect(issued.provisional).toBe(false);
+      expect(issued.sequenceNumber).toBe(41);
+      expect(issued.documentNumber).toBe(`LHR-${String(new Date().getFullYear()).slice(-2)}-000041`);
+    });
+  });
+});
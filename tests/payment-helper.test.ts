@@ -0,0 +1,67 @@
+/**
+ * Payment Helper Tests
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { resolveTenders } from '../src/utils/payment-helper';
+
+describe('Payment Helper', () => {
+  describe('resolveTenders', () => {
+    it('should accept a single tender that matches the total', () => {
+      const result = resolveTenders(250, [{ method: 'CARD', amount: 250 }]);
+
+      expect(result.paymentMethod).toBe('CARD');
+      expect(result.changeDue).toBe(0);
+      expect(result.tenders).toHaveLength(1);
+      expect(result.tenders[0].amount).toBe(250);
+    });
+
+    it('should split a sale across cash and card', () => {
+      const result = resolveTenders(1000, [
+        { method: 'CASH', amount: 400 },
+        { method: 'CARD', amount: 600, reference: 'AUTH-123' }
+      ]);
+
+      expect(result.paymentMethod).toBe('SPLIT');
+      expect(result.changeDue).toBe(0);
+      expect(result.tenders.map(t => t.amount)).toEqual([400, 600]);
+      expect(result.tenders[1].reference).toBe('AUTH-123');
+    });
+
+    it('should calculate change due from cash', () => {
+      const result = resolveTenders(730, [
+        { method: 'CARD', amount: 230 },
+        { method: 'CASH', amount: 1000 }
+      ]);
+
+      expect(result.changeDue).toBe(500);
+      const cash = result.tenders.find(t => t.method === 'CASH')!;
+      expect(cash.tenderedAmount).toBe(1000);
+      expect(cash.amount).toBe(500);
+      expect(cash.changeAmount).toBe(500);
+      expect(result.tenders.reduce((sum, t) => sum + t.amount, 0)).toBe(730);
+    });
+
+    it('should reject tenders that do not cover the total', () => {
+      expect(() => resolveTenders(500, [
+        { method: 'CASH', amount: 200 },
+        { method: 'CARD', amount: 200 }
+      ])).toThrow('does not cover');
+    });
+
+    it('should reject overpayment on non-cash tenders', () => {
+      expect(() => resolveTenders(500, [
+        { method: 'CARD', amount: 600 }
+      ])).toThrow('only cash tenders');
+    });
+
+    it('should tolerate floating point rounding', () => {
+      const result = resolveTenders(0.3, [
+        { method: 'CASH', amount: 0.1 },
+        { method: 'CARD', amount: 0.2 }
+      ]);
+
+      expect(result.changeDue).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Prescription Helper Tests
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { checkPrescriptionLines, getPrescriptionExpiry, DispensablePrescriptionItem, PrescriptionProduct } from '../src/utils/prescription-helper';
+
+const now = new Date('2026-03-10T10:00:00Z');
+
+const products: PrescriptionProduct[] = [
+  { id: 'p-otc', name: 'Paracetamol', requiresPrescription: false, isControlled: false },
+  { id: 'p-rx', name: 'Amoxicillin', requiresPrescription: true, isControlled: false },
+  { id: 'p-cd', name: 'Tramadol', requiresPrescription: false, isControlled: true }
+];
+
+const prescriptionItem = (overrides: Partial<DispensablePrescriptionItem> = {}): DispensablePrescriptionItem => ({
+  id: 'rx-1',
+  prescriptionId: 'pr-1',
+  productId: 'p-rx',
+  allowedQuantity: 20,
+  dispensedQuantity: 0,
+  prescription: { status: 'ACTIVE', expiryDate: new Date('2026-04-01T00:00:00Z') },
+  ...overrides
+});
+
+describe('Prescription Helper', () => {
+  describe('getPrescriptionExpiry', () => {
+    it('should add the validity period to the issue date', () => {
+      const expiry = getPrescriptionExpiry(new Date(2026, 0, 15), 30);
+      expect(expiry.getFullYear()).toBe(2026);
+      expect(expiry.getMonth()).toBe(1);
+      expect(expiry.getDate()).toBe(14);
+    });
+  });
+
+  describe('checkPrescriptionLines', () => {
+    it('should let over-the-counter products through without a prescription', () => {
+      const toDispense = checkPrescriptionLines([{ productId: 'p-otc', quantity: 2 }], products, [], now);
+      expect(toDispense.size).toBe(0);
+    });
+
+    it('should require a prescription for prescription-only and controlled products', () => {
+      expect(() => checkPrescriptionLines([{ productId: 'p-rx', quantity: 1 }], products, [], now))
+        .toThrow('Amoxicillin can only be sold against a prescription');
+      expect(() => checkPrescriptionLines([{ productId: 'p-cd', quantity: 1 }], products, [], now))
+        .toThrow('Tramadol can only be sold against a prescription');
+    });
+
+    it('should allow a partial fill and add up lines for the same prescription item', () => {
+      const toDispense = checkPrescriptionLines([
+        { productId: 'p-rx', quantity: 5, prescriptionItemId: 'rx-1' },
+        { productId: 'p-rx', quantity: 3, prescriptionItemId: 'rx-1' }
+      ], products, [prescriptionItem({ dispensedQuantity: 10 })], now);
+
+      expect(toDispense.get('rx-1')).toBe(8);
+    });
+
+    it('should reject more than what remains on the prescription', () => {
+      expect(() => checkPrescriptionLines(
+        [{ productId: 'p-rx', quantity: 6, prescriptionItemId: 'rx-1' }],
+        products,
+        [prescriptionItem({ dispensedQuantity: 15 })],
+        now
+      )).toThrow('Only 5 unit(s) of Amoxicillin remain on the prescription');
+    });
+
+    it('should reject a prescription line for a different product', () => {
+      expect(() => checkPrescriptionLines(
+        [{ productId: 'p-cd', quantity: 1, prescriptionItemId: 'rx-1' }],
+        products,
+        [prescriptionItem()],
+        now
+      )).toThrow('does not cover Tramadol');
+    });
+
+    it('should reject expired or cancelled prescriptions', () => {
+      const line = [{ productId: 'p-rx', quantity: 1, prescriptionItemId: 'rx-1' }];
+
+      expect(() => checkPrescriptionLines(line, products, [
+        prescriptionItem({ prescription: { status: 'ACTIVE', expiryDate: new Date('2026-03-01T00:00:00Z') } })
+      ], now)).toThrow('has expired');
+      expect(() => checkPrescriptionLines(line, products, [
+        prescriptionItem({ prescription: { status: 'CANCELLED', expiryDate: new Date('2026-04-01T00:00:00Z') } })
+      ], now)).toThrow('is cancelled');
+    });
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * Profit Helper Tests
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  calculateLineProfit,
+  calculateMarginPercent,
+  groupProfit,
+  summarizeProfit,
+  ProfitLine
+} from '../src/utils/profit-helper';
+
+const profitLine = (overrides: Partial<ProfitLine> & { group?: string }): ProfitLine & { group: string } => ({
+  group: 'A',
+  quantity: 10,
+  refundedQuantity: 0,
+  unitPrice: 2,
+  discountAmount: 0,
+  unitCost: 1,
+  sale: { subtotal: 20, discountAmount: 0 },
+  ...overrides
+});
+
+describe('Profit Helper', () => {
+  describe('calculateMarginPercent', () => {
+    it('should give gross profit as a percentage of revenue', () => {
+      expect(calculateMarginPercent(25, 100)).toBe(25);
+      expect(calculateMarginPercent(1, 3)).toBe(33.33);
+    });
+
+    it('should give no margin without revenue', () => {
+      expect(calculateMarginPercent(-5, 0)).toBe(0);
+    });
+  });
+
+  describe('calculateLineProfit', () => {
+    it('should take the line and sale discounts off revenue', () => {
+      // Line net 18 of a 36 subtotal carries half of the 4 sale discount
+      const profit = calculateLineProfit(profitLine({
+        discountAmount: 2,
+        sale: { subtotal: 36, discountAmount: 4 }
+      }));
+      expect(profit).toEqual({ quantitySold: 10, quantityReturned: 0, revenue: 16, cost: 10, grossProfit: 6 });
+    });
+
+    it('should net refunded units out of revenue and cost', () => {
+      const profit = calculateLineProfit(profitLine({ refundedQuantity: 4 }));
+      expect(profit).toEqual({ quantitySold: 6, quantityReturned: 4, revenue: 12, cost: 6, grossProfit: 6 });
+    });
+  });
+
+  describe('groupProfit', () => {
+    it('should add lines up per group, most profitable first', () => {
+      const rows = groupProfit(
+        [
+          profitLine({ group: 'A' }),
+          profitLine({ group: 'B', unitPrice: 5, sale: { subtotal: 50, discountAmount: 0 } }),
+          profitLine({ group: 'A', refundedQuantity: 10 })
+        ],
+        line => ({ key: line.group, name: `Group ${line.group}` })
+      );
+
+      expect(rows.map(row => row.key)).toEqual(['B', 'A']);
+      expect(rows[1]).toEqual({
+        key: 'A',
+        name: 'Group A',
+        quantitySold: 10,
+        quantityReturned: 10,
+        revenue: 20,
+        cost: 10,
+        grossProfit: 10,
+        marginPercent: 50
+      });
+    });
+  });
+
+  describe('summarizeProfit', () => {
+    it('should total the rows and work out the overall margin', () => {
+      const rows = groupProfit(
+        [profitLine({ group: 'A' }), profitLine({ group: 'B', unitCost: 1.5 })],
+        line => ({ key: line.group, name: line.group })
+      );
+      expect(summarizeProfit(rows)).toEqual({
+        quantitySold: 20,
+        quantityReturned: 0,
+        revenue: 40,
+        cost: 25,
+        grossProfit: 15,
+        marginPercent: 37.5
+      });
+    });
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Promotion Helper Tests
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { applyPromotions, isPromotionActive, PromotionRule } from '../src/utils/promotion-helper';
+
+const rule = (overrides: Partial<PromotionRule>): PromotionRule => ({
+  id: 'promo-1',
+  name: 'Promotion',
+  type: 'PERCENTAGE_OFF',
+  categoryId: null,
+  productIds: [],
+  priority: 0,
+  ...overrides
+});
+
+describe('Promotion Helper', () => {
+  describe('isPromotionActive', () => {
+    // Tuesday 2026-03-10, 17:30 local time
+    const now = new Date(2026, 2, 10, 17, 30);
+
+    it('should respect the date range and the active flag', () => {
+      expect(isPromotionActive({ isActive: true, startDate: new Date(2026, 2, 1), endDate: new Date(2026, 2, 31) }, now)).toBe(true);
+      expect(isPromotionActive({ isActive: true, endDate: new Date(2026, 2, 9) }, now)).toBe(false);
+      expect(isPromotionActive({ isActive: false }, now)).toBe(false);
+    });
+
+    it('should limit a promotion to its days of the week', () => {
+      expect(isPromotionActive({ isActive: true, daysOfWeek: '1,2,3' }, now)).toBe(true);
+      expect(isPromotionActive({ isActive: true, daysOfWeek: '0,6' }, now)).toBe(false);
+    });
+
+    it('should handle happy-hour windows, including ones past midnight', () => {
+      expect(isPromotionActive({ isActive: true, startTime: '17:00', endTime: '19:00' }, now)).toBe(true);
+      expect(isPromotionActive({ isActive: true, startTime: '09:00', endTime: '12:00' }, now)).toBe(false);
+      expect(isPromotionActive({ isActive: true, startTime: '22:00', endTime: '02:00' }, new Date(2026, 2, 10, 1, 0))).toBe(true);
+    });
+  });
+
+  describe('applyPromotions', () => {
+    it('should take a percentage off every line in the category', () => {
+      const applied = applyPromotions([
+        { productId: 'p1', categoryId: 'vitamins', quantity: 2, unitPrice: 100 },
+        { productId: 'p2', categoryId: 'analgesics', quantity: 1, unitPrice: 50 }
+      ], [rule({ categoryId: 'vitamins', discountPercentage: 10 })]);
+
+      expect(applied[0]).toEqual({ promotionId: 'promo-1', promotionName: 'Promotion', discount: 20 });
+      expect(applied[1]).toBeNull();
+    });
+
+    it('should give the cheapest units free on buy X get Y', () => {
+      const applied = applyPromotions([
+        { productId: 'p1', quantity: 2, unitPrice: 120 },
+        { productId: 'p2', quantity: 2, unitPrice: 80 }
+      ], [rule({ type: 'BUY_X_GET_Y', productIds: ['p1', 'p2'], buyQuantity: 1, getQuantity: 1 })]);
+
+      expect(applied.map(promotion => promotion?.discount)).toEqual([0, 160]);
+    });
+
+    it('should not apply buy X get Y until enough units are in the cart', () => {
+      const applied = applyPromotions([
+        { productId: 'p1', quantity: 2, unitPrice: 120 }
+      ], [rule({ type: 'BUY_X_GET_Y', productIds: ['p1'], buyQuantity: 2, getQuantity: 1 })]);
+
+      expect(applied).toEqual([null]);
+    });
+
+    it('should price complete bundles and leave extra units alone', () => {
+      const applied = applyPromotions([
+        { productId: 'shampoo', quantity: 2, unitPrice: 300 },
+        { productId: 'conditioner', quantity: 1, unitPrice: 200 }
+      ], [rule({ type: 'BUNDLE_PRICE', productIds: ['shampoo', 'conditioner'], bundlePrice: 400 })]);
+
+      // One bundle: 500 regular, 400 bundle price, so 20% off one of each
+      expect(applied.map(promotion => promotion?.discount)).toEqual([60, 40]);
+    });
+
+    it('should give each line to the highest priority promotion only', () => {
+      const applied = applyPromotions([
+        { productId: 'p1', categoryId: 'vitamins', quantity: 1, unitPrice: 100 }
+      ], [
+        rule({ id: 'low', categoryId: 'vitamins', discountPercentage: 50, priority: 1 }),
+        rule({ id: 'high', productIds: ['p1'], discountPercentage: 10, priority: 5 })
+      ]);
+
+      expect(applied[0]?.promotionId).toBe('high');
+      expect(applied[0]?.discount).toBe(10);
+    });
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * Purchase Order Helper Tests
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  derivePurchaseOrderStatus,
+  getDeliveryVariances,
+  maxReceivableQuantity,
+  planGoodsReceipt,
+  OrderLine
+} from '../src/utils/purchase-order-helper';
+
+const lines: OrderLine[] = [
+  { id: 'line-1', orderedQuantity: 100, receivedQuantity: 0 },
+  { id: 'line-2', orderedQuantity: 20, receivedQuantity: 20 }
+];
+
+describe('Purchase Order Helper', () => {
+  describe('derivePurchaseOrderStatus', () => {
+    it('should follow the received quantities', () => {
+      expect(derivePurchaseOrderStatus([{ id: 'a', orderedQuantity: 5, receivedQuantity: 0 }])).toBe('ORDERED');
+      expect(derivePurchaseOrderStatus(lines)).toBe('PARTIALLY_RECEIVED');
+      expect(derivePurchaseOrderStatus([{ id: 'a', orderedQuantity: 5, receivedQuantity: 6 }])).toBe('RECEIVED');
+    });
+  });
+
+  describe('maxReceivableQuantity', () => {
+    it('should add the over-delivery tolerance to the ordered quantity', () => {
+      expect(maxReceivableQuantity(100, 0)).toBe(100);
+      expect(maxReceivableQuantity(100, 5)).toBe(105);
+      expect(maxReceivableQuantity(10, 5)).toBe(10);
+    });
+  });
+
+  describe('planGoodsReceipt', () => {
+    it('should accept a partial delivery', () => {
+      expect(planGoodsReceipt(lines, [{ orderItemId: 'line-1', quantity: 40 }], 0)).toEqual([
+        { orderItemId: 'line-1', quantity: 40, overReceived: 0 }
+      ]);
+    });
+
+    it('should record over-delivery within the tolerance, across entries for the same line', () => {
+      const plan = planGoodsReceipt(lines, [
+        { orderItemId: 'line-1', quantity: 98 },
+        { orderItemId: 'line-1', quantity: 5 }
+      ], 5);
+
+      expect(plan.map(entry => entry.overReceived)).toEqual([0, 3]);
+    });
+
+    it('should reject deliveries beyond the tolerance', () => {
+      expect(() => planGoodsReceipt(lines, [{ orderItemId: 'line-2', quantity: 1 }], 0))
+        .toThrow('Only 0 more unit(s) can be received');
+    });
+
+    it('should reject unknown lines', () => {
+      expect(() => planGoodsReceipt(lines, [{ orderItemId: 'line-9', quantity: 1 }], 0))
+        .toThrow('Purchase order line not found');
+    });
+  });
+
+  describe('getDeliveryVariances', () => {
+    it('should list short and over-delivered lines only', () => {
+      expect(getDeliveryVariances([
+        { id: 'a', orderedQuantity: 10, receivedQuantity: 7 },
+        { id: 'b', orderedQuantity: 10, receivedQuantity: 10 },
+        { id: 'c', orderedQuantity: 10, receivedQuantity: 12 }
+      ])).toEqual([
+        { orderItemId: 'a', shortQuantity: 3, overQuantity: 0 },
+        { orderItemId: 'c', shortQuantity: 0, overQuantity: 2 }
+      ]);
+    });
+  });
+});
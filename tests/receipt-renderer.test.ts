@@ -0,0 +1,125 @@
+/**
+ * Receipt Renderer Tests
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  ReceiptData,
+  renderReceiptText,
+  renderReceiptHtml,
+  renderReceiptEscPos,
+  renderReceiptPdf,
+  splitReceiptItemByBatch
+} from '../src/utils/receipt-renderer';
+
+const receipt = (overrides: Partial<ReceiptData> = {}): ReceiptData => ({
+  pharmacy: {
+    name: 'City Pharmacy',
+    address: 'Main Boulevard, Lahore',
+    license: 'PHR-LHR-001',
+    taxNumber: '9876543'
+  },
+  receiptNumber: 'RCP-20260310-001',
+  date: new Date(2026, 2, 10, 14, 5),
+  cashierName: 'Ali',
+  items: [
+    { name: 'Panadol 500mg', quantity: 2, unitPrice: 50, discountAmount: 10, batchNumber: 'B-123', expiryDate: new Date(2027, 5, 1) },
+    { name: 'ORS Sachet', quantity: 1, unitPrice: 30, discountAmount: 0 }
+  ],
+  subtotal: 120,
+  discountAmount: 12,
+  taxAmount: 18.36,
+  totalAmount: 126.36,
+  payments: [{ method: 'CASH', amount: 126.36, tenderedAmount: 200, changeAmount: 73.64 }],
+  changeDue: 73.64,
+  reprintCount: 0,
+  ...overrides
+});
+
+describe('Receipt Renderer', () => {
+  describe('renderReceiptText', () => {
+    it('should include pharmacy details, batch and expiry per item', () => {
+      const text = renderReceiptText(receipt());
+
+      expect(text).toContain('City Pharmacy');
+      expect(text).toContain('License: PHR-LHR-001');
+      expect(text).toContain('Tax No: 9876543');
+      expect(text).toContain('Batch: B-123  Exp: 06/2027');
+      expect(text).toContain('Item discount');
+      expect(text).toMatch(/TOTAL\s+126\.36/);
+      expect(text).toMatch(/Change\s+73\.64/);
+      expect(text).not.toContain('REPRINT');
+    });
+
+    it('should keep lines within the paper width', () => {
+      const text = renderReceiptText(receipt({ items: [{ name: 'A'.repeat(60), quantity: 1, unitPrice: 5, discountAmount: 0 }] }));
+      const longest = Math.max(...text.split('\n').filter(line => !line.startsWith('AAAA')).map(line => line.length));
+
+      expect(longest).toBeLessThanOrEqual(42);
+    });
+
+    it('should mark reprints', () => {
+      expect(renderReceiptText(receipt({ reprintCount: 2 }))).toContain('REPRINT #2');
+    });
+  });
+
+  describe('renderReceiptHtml', () => {
+    it('should escape text from the database', () => {
+      const html = renderReceiptHtml(receipt({ customerName: '<script>alert(1)</script>' }));
+
+      expect(html).toContain('&lt;script&gt;');
+      expect(html).not.toContain('<script>');
+    });
+  });
+
+  describe('renderReceiptEscPos', () => {
+    it('should initialise the printer and end with a cut', () => {
+      const bytes = renderReceiptEscPos(receipt());
+
+      expect(Array.from(bytes.subarray(0, 2))).toEqual([0x1b, 0x40]);
+      expect(Array.from(bytes.subarray(bytes.length - 4))).toEqual([0x1d, 0x56, 0x42, 0x00]);
+      expect(bytes.toString('ascii')).toContain('City Pharmacy');
+    });
+  });
+
+  describe('renderReceiptPdf', () => {
+    it('should produce a PDF whose xref points at its objects', () => {
+      const pdf = renderReceiptPdf(receipt()).toString('ascii');
+
+      expect(pdf.startsWith('%PDF-1.4')).toBe(true);
+      expect(pdf.trimEnd().endsWith('%%EOF')).toBe(true);
+
+      const offsets = pdf.split('xref\n')[1].split('\n').slice(2, 7).map(line => parseInt(line.substring(0, 10), 10));
+      offsets.forEach((offset, index) => {
+        expect(pdf.substring(offset).startsWith(`${index + 1} 0 obj`)).toBe(true);
+      });
+    });
+  });
+
+  describe('splitReceiptItemByBatch', () => {
+    const line = { name: 'Panadol 500mg', quantity: 30, unitPrice: 5, discountAmount: 10 };
+
+    it('should keep a line from one batch as one row with that batch', () => {
+      const rows = splitReceiptItemByBatch(
+        { ...line, batchNumber: 'TILL' },
+        [{ quantity: 30, batchNumber: 'B-1', expiryDate: new Date(2027, 0, 1) }]
+      );
+
+      expect(rows).toHaveLength(1);
+      expect(rows[0]).toMatchObject({ quantity: 30, discountAmount: 10, batchNumber: 'B-1' });
+    });
+
+    it('should print one row per batch with the discount shared out to the cent', () => {
+      const rows = splitReceiptItemByBatch(line, [
+        { quantity: 10, batchNumber: 'B-1', expiryDate: new Date(2026, 11, 1) },
+        { quantity: 10, batchNumber: 'B-2', expiryDate: new Date(2027, 2, 1) },
+        { quantity: 10, batchNumber: 'B-3', expiryDate: new Date(2027, 5, 1) }
+      ]);
+
+      expect(rows.map(row => row.batchNumber)).toEqual(['B-1', 'B-2', 'B-3']);
+      expect(rows.map(row => row.quantity)).toEqual([10, 10, 10]);
+      expect(rows.map(row => row.discountAmount)).toEqual([3.33, 3.33, 3.34]);
+      expect(renderReceiptText(receipt({ items: rows }))).toContain('Batch: B-2  Exp: 03/2027');
+    });
+  });
+});
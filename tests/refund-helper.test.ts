@@ -0,0 +1,95 @@
+/**
+ * Refund Helper Tests
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { calculateRefundLineAmount, planRefund, requiresRefundApproval, RefundableSaleItem } from '../src/utils/refund-helper';
+
+// Two lines: 2 x 100 with a 20 item discount, 1 x 50; 10% sale discount, 17% tax
+const sale = {
+  subtotal: 230,
+  discountAmount: 23,
+  taxAmount: 35.19,
+  totalAmount: 242.19
+};
+
+const saleItems = (): RefundableSaleItem[] => [
+  { id: 'item-1', productId: 'prod-1', quantity: 2, refundedQuantity: 0, unitPrice: 100, discountAmount: 20 },
+  { id: 'item-2', productId: 'prod-2', quantity: 1, refundedQuantity: 0, unitPrice: 50, discountAmount: 0 }
+];
+
+describe('Refund Helper', () => {
+  describe('calculateRefundLineAmount', () => {
+    it('should carry item discount, sale discount and tax into the refund', () => {
+      // 90 net per unit, less 10% sale discount = 81, plus 17% tax = 94.77
+      expect(calculateRefundLineAmount(sale, saleItems()[0], 1)).toBe(94.77);
+    });
+
+    it('should return the plain line price when there is no discount or tax', () => {
+      const plainSale = { subtotal: 150, discountAmount: 0, taxAmount: 0, totalAmount: 150 };
+      expect(calculateRefundLineAmount(plainSale, saleItems()[1], 1)).toBe(50);
+    });
+  });
+
+  describe('planRefund', () => {
+    it('should refund part of a sale', () => {
+      const plan = planRefund(sale, saleItems(), [{ productId: 'prod-1', quantity: 1, saleItemId: 'item-1' }]);
+
+      expect(plan.fullyRefunded).toBe(false);
+      expect(plan.lines).toHaveLength(1);
+      expect(plan.refundAmount).toBe(94.77);
+    });
+
+    it('should reject refunding more than what is left on the line', () => {
+      const items = saleItems();
+      items[0].refundedQuantity = 2;
+
+      expect(() => planRefund(sale, items, [{ productId: 'prod-1', quantity: 1, saleItemId: 'item-1' }]))
+        .toThrow('Only 0 unit(s)');
+    });
+
+    it('should reject products that were not on the sale', () => {
+      expect(() => planRefund(sale, saleItems(), [{ productId: 'prod-9', quantity: 1 }]))
+        .toThrow('was not sold');
+    });
+
+    it('should settle the remaining amount on the final refund', () => {
+      const items = saleItems();
+      items[0].refundedQuantity = 1;
+
+      const plan = planRefund(sale, items, [
+        { productId: 'prod-1', quantity: 1 },
+        { productId: 'prod-2', quantity: 1 }
+      ], 94.77);
+
+      expect(plan.fullyRefunded).toBe(true);
+      expect(plan.refundAmount).toBe(147.42);
+    });
+  });
+
+  describe('requiresRefundApproval', () => {
+    const rules = { amountThreshold: 5000, saleAgeDays: 7 };
+    const now = new Date('2026-03-10T12:00:00Z');
+
+    it('should not need approval for a small refund on a recent sale', () => {
+      expect(requiresRefundApproval(1200, new Date('2026-03-09T12:00:00Z'), 'CASHIER', rules, now)).toBe(false);
+    });
+
+    it('should need approval above the amount threshold', () => {
+      expect(requiresRefundApproval(6000, new Date('2026-03-09T12:00:00Z'), 'CASHIER', rules, now)).toBe(true);
+    });
+
+    it('should need approval for sales older than the age limit', () => {
+      expect(requiresRefundApproval(100, new Date('2026-02-20T12:00:00Z'), 'CASHIER', rules, now)).toBe(true);
+    });
+
+    it('should let managers refund without approval', () => {
+      expect(requiresRefundApproval(6000, new Date('2026-02-20T12:00:00Z'), 'MANAGER', rules, now)).toBe(false);
+    });
+
+    it('should ignore rules set to 0', () => {
+      const disabled = { amountThreshold: 0, saleAgeDays: 0 };
+      expect(requiresRefundApproval(99999, new Date('2025-01-01T00:00:00Z'), 'CASHIER', disabled, now)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * Reorder Helper Tests
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  calculateAverageDailySales,
+  calculateReorderQuantity,
+  groupSuggestionsBySupplier,
+  ReorderSuggestion
+} from '../src/utils/reorder-helper';
+
+const suggestion = (overrides: Partial<ReorderSuggestion>): ReorderSuggestion => ({
+  productId: 'product-1',
+  productName: 'Paracetamol 500mg',
+  sku: 'PARA-500',
+  supplierId: 'supplier-1',
+  supplierName: 'Alpha Pharma',
+  leadTimeDays: 7,
+  currentStock: 0,
+  onOrder: 0,
+  averageDailySales: 1,
+  unitPrice: 10,
+  estimatedCost: 100,
+  reorderPoint: 10,
+  targetStock: 10,
+  suggestedQuantity: 10,
+  ...overrides
+});
+
+describe('Reorder Helper', () => {
+  describe('calculateAverageDailySales', () => {
+    it('should spread the units sold over the window', () => {
+      expect(calculateAverageDailySales(60, 30)).toBe(2);
+      expect(calculateAverageDailySales(-5, 30)).toBe(0);
+      expect(calculateAverageDailySales(10, 0)).toBe(0);
+    });
+  });
+
+  describe('calculateReorderQuantity', () => {
+    const input = {
+      currentStock: 20,
+      onOrder: 0,
+      averageDailySales: 4,
+      leadTimeDays: 5,
+      minStock: 10,
+      maxStock: 100,
+      coverageDays: 14
+    };
+
+    it('should order up to the maximum stock at the reorder point', () => {
+      expect(calculateReorderQuantity(input)).toEqual({ reorderPoint: 30, targetStock: 100, suggestedQuantity: 80 });
+    });
+
+    it('should not order while stock is above the reorder point', () => {
+      expect(calculateReorderQuantity({ ...input, currentStock: 31 }).suggestedQuantity).toBe(0);
+    });
+
+    it('should count what is already on order', () => {
+      expect(calculateReorderQuantity({ ...input, currentStock: 10, onOrder: 25 }).suggestedQuantity).toBe(0);
+      expect(calculateReorderQuantity({ ...input, currentStock: 5, onOrder: 15 }).suggestedQuantity).toBe(80);
+    });
+
+    it('should cover days of sales when there is no maximum stock', () => {
+      expect(calculateReorderQuantity({ ...input, maxStock: null })).toEqual({
+        reorderPoint: 30,
+        targetStock: 86,
+        suggestedQuantity: 66
+      });
+    });
+
+    it('should top up to the minimum stock for products that do not sell', () => {
+      expect(calculateReorderQuantity({ ...input, currentStock: 4, averageDailySales: 0, maxStock: null }))
+        .toEqual({ reorderPoint: 10, targetStock: 10, suggestedQuantity: 6 });
+    });
+  });
+
+  describe('groupSuggestionsBySupplier', () => {
+    it('should group by supplier with the largest order first and no supplier last', () => {
+      const groups = groupSuggestionsBySupplier([
+        suggestion({ productId: 'p1', supplierId: null, supplierName: null, estimatedCost: 500 }),
+        suggestion({ productId: 'p2', estimatedCost: 50 }),
+        suggestion({ productId: 'p3', supplierId: 'supplier-2', supplierName: 'Beta Meds', estimatedCost: 120 }),
+        suggestion({ productId: 'p4', estimatedCost: 25.5 })
+      ]);
+
+      expect(groups.map(group => group.supplierId)).toEqual(['supplier-2', 'supplier-1', null]);
+      expect(groups[1].items.map(item => item.productId)).toEqual(['p2', 'p4']);
+      expect(groups[1].totalEstimatedCost).toBe(75.5);
+    });
+  });
+});
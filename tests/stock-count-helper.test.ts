@@ -0,0 +1,68 @@
+/**
+ * Stock Count Helper Tests
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { calculateCountVariances, resolveCountEntryBatch, CountLine } from '../src/utils/stock-count-helper';
+
+const lines: CountLine[] = [
+  { id: 'line-1', batchId: 'batch-1', expectedQuantity: 10, countedQuantity: 8, purchasePrice: 2.5 },
+  { id: 'line-2', batchId: 'batch-2', expectedQuantity: 4, countedQuantity: 5, purchasePrice: 1.2 },
+  { id: 'line-3', batchId: 'batch-3', expectedQuantity: 6, countedQuantity: 6, purchasePrice: 3 },
+  { id: 'line-4', batchId: 'batch-4', expectedQuantity: 3, countedQuantity: null, purchasePrice: 4 }
+];
+
+const batches = [
+  { id: 'batch-1', batchNo: 'A1', barcode: 'B-001', product: { barcode: '111' } },
+  { id: 'batch-2', batchNo: 'A2', barcode: null, product: { barcode: '222' } },
+  { id: 'batch-3', batchNo: 'A3', barcode: null, product: { barcode: '222' } },
+  { id: 'batch-4', batchNo: 'L7', barcode: null, product: { barcode: null, barcodes: [{ code: '9501101530003' }] } }
+];
+
+describe('Stock Count Helper', () => {
+  describe('calculateCountVariances', () => {
+    it('should value gains and losses at purchase price and skip uncounted lines', () => {
+      const { variances, summary } = calculateCountVariances(lines);
+
+      expect(variances.map(line => line.variance)).toEqual([-2, 1, 0]);
+      expect(summary.linesTotal).toBe(4);
+      expect(summary.linesCounted).toBe(3);
+      expect(summary.linesWithVariance).toBe(2);
+      expect(summary.lossValue).toBe(5);
+      expect(summary.gainValue).toBe(1.2);
+      expect(summary.netValue).toBe(-3.8);
+    });
+
+    it('should treat uncounted lines as missing when asked to', () => {
+      const { variances, summary } = calculateCountVariances(lines, true);
+
+      expect(variances.find(line => line.lineId === 'line-4')?.variance).toBe(-3);
+      expect(summary.lossQuantity).toBe(5);
+      expect(summary.lossValue).toBe(17);
+    });
+  });
+
+  describe('resolveCountEntryBatch', () => {
+    it('should find a batch by ID or by its own barcode', () => {
+      expect(resolveCountEntryBatch(batches, { batchId: 'batch-2' }).id).toBe('batch-2');
+      expect(resolveCountEntryBatch(batches, { barcode: 'B-001' }).id).toBe('batch-1');
+    });
+
+    it('should narrow a product barcode down by batch number', () => {
+      expect(resolveCountEntryBatch(batches, { barcode: '222', batchNo: 'A3' }).id).toBe('batch-3');
+    });
+
+    it('should find a batch from a GS1 code by GTIN and lot', () => {
+      expect(resolveCountEntryBatch(batches, { barcode: '(01)09501101530003(10)L7' }).id).toBe('batch-4');
+    });
+
+    it('should reject a product barcode that matches several batches', () => {
+      expect(() => resolveCountEntryBatch(batches, { barcode: '222' })).toThrow('give the batch number');
+    });
+
+    it('should reject unknown batches and barcodes', () => {
+      expect(() => resolveCountEntryBatch(batches, { batchId: 'batch-9' })).toThrow('Batch was not found');
+      expect(() => resolveCountEntryBatch(batches, { barcode: '999' })).toThrow('No batch');
+    });
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * Stock Helper Tests
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { allocateBatches, getExpiryCutoff, isBatchSellable, replayBatchLedger, AllocatableBatch } from '../src/utils/stock-helper';
+
+const now = new Date(2026, 2, 10);
+
+const batch = (id: string, quantity: number, expireDate: Date | null, createdAt: Date): AllocatableBatch => ({
+  id,
+  batchNo: id.toUpperCase(),
+  quantity,
+  expireDate,
+  createdAt
+});
+
+const batches = [
+  batch('b-late', 10, new Date(2027, 0, 1), new Date(2025, 0, 1)),
+  batch('b-soon', 5, new Date(2026, 3, 1), new Date(2025, 6, 1)),
+  batch('b-expired', 20, new Date(2026, 1, 1), new Date(2024, 0, 1)),
+  batch('b-none', 8, null, new Date(2025, 3, 1))
+];
+
+describe('Stock Helper', () => {
+  describe('isBatchSellable', () => {
+    it('should block expired batches and ones inside the block period', () => {
+      expect(isBatchSellable(batches[2], getExpiryCutoff(0, now))).toBe(false);
+      expect(isBatchSellable(batches[1], getExpiryCutoff(0, now))).toBe(true);
+      expect(isBatchSellable(batches[1], getExpiryCutoff(30, now))).toBe(false);
+      expect(isBatchSellable(batches[3], getExpiryCutoff(365, now))).toBe(true);
+    });
+  });
+
+  describe('allocateBatches', () => {
+    it('should take the earliest expiry first and split across batches (FEFO)', () => {
+      expect(allocateBatches(batches, 12, 'FEFO', getExpiryCutoff(0, now))).toEqual([
+        { batchId: 'b-soon', batchNo: 'B-SOON', quantity: 5 },
+        { batchId: 'b-late', batchNo: 'B-LATE', quantity: 7 }
+      ]);
+    });
+
+    it('should take the oldest stock first (FIFO)', () => {
+      expect(allocateBatches(batches, 12, 'FIFO', getExpiryCutoff(0, now))).toEqual([
+        { batchId: 'b-late', batchNo: 'B-LATE', quantity: 10 },
+        { batchId: 'b-none', batchNo: 'B-NONE', quantity: 2 }
+      ]);
+    });
+
+    it('should never allocate from blocked batches', () => {
+      const allocations = allocateBatches(batches, 30, 'FEFO', getExpiryCutoff(30, now));
+      expect(allocations.map(allocation => allocation.batchId)).toEqual(['b-late', 'b-none']);
+      expect(allocations.reduce((sum, allocation) => sum + allocation.quantity, 0)).toBe(18);
+    });
+  });
+
+  describe('replayBatchLedger', () => {
+    const ledger = [
+      { id: 'm-1', quantityBefore: 0, quantityAfter: 20 },
+      { id: 'm-2', quantityBefore: 20, quantityAfter: 15 },
+      { id: 'm-3', quantityBefore: 15, quantityAfter: 17 }
+    ];
+
+    it('should balance when the ledger explains the current quantity', () => {
+      const replay = replayBatchLedger(ledger, 17);
+
+      expect(replay.openingQuantity).toBe(0);
+      expect(replay.replayedQuantity).toBe(17);
+      expect(replay.balanced).toBe(true);
+    });
+
+    it('should report changes made after the last ledger row', () => {
+      const replay = replayBatchLedger(ledger, 12);
+
+      expect(replay.difference).toBe(-5);
+      expect(replay.balanced).toBe(false);
+    });
+
+    it('should report gaps between ledger rows', () => {
+      const replay = replayBatchLedger([ledger[0], { id: 'm-2', quantityBefore: 18, quantityAfter: 13 }], 13);
+
+      expect(replay.gaps).toEqual([{ movementId: 'm-2', expectedBefore: 20, recordedBefore: 18 }]);
+      expect(replay.difference).toBe(0);
+      expect(replay.balanced).toBe(false);
+    });
+
+    it('should skip rows written before the ledger recorded quantities', () => {
+      const replay = replayBatchLedger([{ id: 'old', quantityBefore: null, quantityAfter: null }], 8);
+
+      expect(replay.openingQuantity).toBe(8);
+      expect(replay.balanced).toBe(true);
+    });
+  });
+});
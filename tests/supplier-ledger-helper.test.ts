@@ -0,0 +1,104 @@
+/**
+ * Supplier Ledger Helper Tests
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  allocateInOrder,
+  buildAgingBuckets,
+  buildStatementLines,
+  renderStatementCsv,
+  sumAgingBuckets
+} from '../src/utils/supplier-ledger-helper';
+
+const asOf = new Date('2026-06-30T12:00:00Z');
+const daysAgo = (days: number) => new Date(asOf.getTime() - days * 24 * 60 * 60 * 1000);
+
+describe('Supplier Ledger Helper', () => {
+  describe('allocateInOrder', () => {
+    it('should pay the items in order up to their outstanding', () => {
+      const plan = allocateInOrder([
+        { id: 'p1', outstanding: 100 },
+        { id: 'p2', outstanding: 0 },
+        { id: 'p3', outstanding: 250.5 },
+        { id: 'p4', outstanding: 80 }
+      ], 300);
+
+      expect(plan.allocations).toEqual([
+        { id: 'p1', amount: 100 },
+        { id: 'p3', amount: 200 }
+      ]);
+      expect(plan.remaining).toBe(0);
+    });
+
+    it('should leave what cannot be set against anything', () => {
+      const plan = allocateInOrder([{ id: 'p1', outstanding: 40.25 }], 100);
+      expect(plan.allocations).toEqual([{ id: 'p1', amount: 40.25 }]);
+      expect(plan.remaining).toBe(59.75);
+    });
+  });
+
+  describe('buildAgingBuckets', () => {
+    it('should bucket unpaid documents by age', () => {
+      expect(buildAgingBuckets([
+        { date: daysAgo(5), outstanding: 100 },
+        { date: daysAgo(30), outstanding: 50 },
+        { date: daysAgo(45), outstanding: 20 },
+        { date: daysAgo(75), outstanding: 10.5 },
+        { date: daysAgo(120), outstanding: 300 },
+        { date: daysAgo(200), outstanding: 0 }
+      ], asOf)).toEqual({
+        current: 150,
+        days31To60: 20,
+        days61To90: 10.5,
+        over90: 300,
+        total: 480.5
+      });
+    });
+
+    it('should add up the aging of several suppliers', () => {
+      const aging = buildAgingBuckets([{ date: daysAgo(1), outstanding: 10.1 }], asOf);
+      expect(sumAgingBuckets([aging, aging]).current).toBe(20.2);
+      expect(sumAgingBuckets([]).total).toBe(0);
+    });
+  });
+
+  describe('buildStatementLines', () => {
+    it('should keep a running balance from the opening balance', () => {
+      const lines = buildStatementLines([
+        { entryDate: daysAgo(1), type: 'PAYMENT', amount: -400, reference: 'CHQ-1' },
+        { entryDate: daysAgo(10), type: 'PURCHASE', amount: 1000, reference: 'INV-1' },
+        { entryDate: daysAgo(5), type: 'RETURN', amount: -50 }
+      ], 200);
+
+      expect(lines.map(line => [line.type, line.debit, line.credit, line.balance])).toEqual([
+        ['PURCHASE', 1000, 0, 1200],
+        ['RETURN', 0, 50, 1150],
+        ['PAYMENT', 0, 400, 750]
+      ]);
+    });
+  });
+
+  describe('renderStatementCsv', () => {
+    it('should quote cells with commas or quotes', () => {
+      const lines = buildStatementLines([
+        { entryDate: new Date('2026-06-01T00:00:00Z'), type: 'PURCHASE', amount: 500, reference: 'INV "A", 1' }
+      ], 0);
+      const csv = renderStatementCsv({
+        supplier: { id: 's1', name: 'Alpha, Pharma' },
+        from: null,
+        to: asOf,
+        openingBalance: 0,
+        lines,
+        closingBalance: 500,
+        aging: buildAgingBuckets([{ date: daysAgo(29), outstanding: 500 }], asOf)
+      });
+
+      const rows = csv.split('\r\n');
+      expect(rows[0]).toBe('Supplier,"Alpha, Pharma"');
+      expect(rows).toContain('2026-06-01,PURCHASE,"INV ""A"", 1",,500,,500');
+      expect(rows).toContain(',CLOSING,,Closing balance,,,500');
+      expect(rows).toContain(',500,0,0,0,500');
+    });
+  });
+});
@@ -0,0 +1,48 @@
+/**
+ * Transfer Helper Tests
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { planTransferReceipt, TransferLine } from '../src/utils/transfer-helper';
+
+const lines: TransferLine[] = [
+  { id: 'line-1', quantity: 10, receivedQuantity: 0 },
+  { id: 'line-2', quantity: 5, receivedQuantity: 3 }
+];
+
+describe('Transfer Helper', () => {
+  describe('planTransferReceipt', () => {
+    it('should accept a partial delivery and keep the transfer open', () => {
+      const plan = planTransferReceipt(lines, [{ itemId: 'line-1', quantity: 4 }]);
+
+      expect(plan.receipts.get('line-1')).toBe(4);
+      expect(plan.fullyReceived).toBe(false);
+      expect(plan.shortages).toEqual([]);
+    });
+
+    it('should report the transfer fully received once everything outstanding arrives', () => {
+      const plan = planTransferReceipt(lines, [
+        { itemId: 'line-1', quantity: 10 },
+        { itemId: 'line-2', quantity: 2 }
+      ]);
+
+      expect(plan.fullyReceived).toBe(true);
+    });
+
+    it('should list what never arrived when the transfer is closed short', () => {
+      const plan = planTransferReceipt(lines, [{ itemId: 'line-1', quantity: 8 }], true);
+
+      expect(plan.shortages).toEqual([
+        { itemId: 'line-1', quantity: 2 },
+        { itemId: 'line-2', quantity: 2 }
+      ]);
+    });
+
+    it('should reject more than is outstanding and unknown lines', () => {
+      expect(() => planTransferReceipt(lines, [{ itemId: 'line-2', quantity: 3 }]))
+        .toThrow('Only 2 unit(s) are outstanding on this transfer line');
+      expect(() => planTransferReceipt(lines, [{ itemId: 'line-3', quantity: 1 }]))
+        .toThrow('Transfer line not found');
+    });
+  });
+});
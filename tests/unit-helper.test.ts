@@ -0,0 +1,101 @@
+/**
+ * Unit Helper Tests
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  SellingUnit,
+  convertSaleItemUnits,
+  describeStock,
+  lineUnitData,
+  splitIntoUnits,
+  toBaseQuantity
+} from '../src/utils/unit-helper';
+
+const unit = (overrides: Partial<SellingUnit>): SellingUnit => ({
+  id: 'strip',
+  productId: 'product-1',
+  name: 'Strip',
+  conversionFactor: 10,
+  sellingPrice: 45,
+  isActive: true,
+  ...overrides
+});
+
+const units = [
+  unit({}),
+  unit({ id: 'box', name: 'Box', conversionFactor: 100, sellingPrice: null }),
+  unit({ id: 'old', name: 'Pack', conversionFactor: 20, isActive: false })
+];
+
+describe('Unit Helper', () => {
+  describe('toBaseQuantity', () => {
+    it('should multiply by the unit conversion factor', () => {
+      expect(toBaseQuantity({ productId: 'product-1', quantity: 3, unitId: 'strip' }, units)).toEqual({
+        quantity: 30,
+        unitFields: { unitId: 'strip', unitName: 'Strip', unitQuantity: 3, unitFactor: 10 }
+      });
+    });
+
+    it('should leave base-unit lines as they are', () => {
+      expect(toBaseQuantity({ productId: 'product-1', quantity: 7 }, units).quantity).toBe(7);
+    });
+
+    it('should reject units of other products, inactive units and part units', () => {
+      expect(() => toBaseQuantity({ productId: 'product-2', quantity: 1, unitId: 'strip' }, units)).toThrow();
+      expect(() => toBaseQuantity({ productId: 'product-1', quantity: 1, unitId: 'old' }, units)).toThrow();
+      expect(() => toBaseQuantity({ productId: 'product-1', quantity: 1.5, unitId: 'strip' }, units)).toThrow();
+    });
+  });
+
+  describe('convertSaleItemUnits', () => {
+    it('should price per base unit and use the unit price when none is sent', () => {
+      const [line] = convertSaleItemUnits([{ productId: 'product-1', quantity: 2, unitId: 'strip' }], units);
+      expect(line.quantity).toBe(20);
+      expect(line.unitPrice).toBe(4.5);
+      expect(line.unitQuantity).toBe(2);
+    });
+
+    it('should scale a batch split to base units', () => {
+      const [line] = convertSaleItemUnits([{
+        productId: 'product-1',
+        quantity: 2,
+        unitId: 'box',
+        unitPrice: 400,
+        batchAllocations: [{ batchId: 'b1', quantity: 1 }, { batchId: 'b2', quantity: 1 }]
+      }], units);
+      expect(line.unitPrice).toBe(4);
+      expect(line.batchAllocations).toEqual([{ batchId: 'b1', quantity: 100 }, { batchId: 'b2', quantity: 100 }]);
+    });
+
+    it('should need a price for a unit without its own', () => {
+      expect(() => convertSaleItemUnits([{ productId: 'product-1', quantity: 1, unitId: 'box' }], units)).toThrow();
+    });
+  });
+
+  describe('splitIntoUnits', () => {
+    it('should use the largest units first', () => {
+      expect(splitIntoUnits(234, units, 'Tablet')).toEqual([
+        { unit: 'Box', quantity: 2 },
+        { unit: 'Pack', quantity: 1 },
+        { unit: 'Strip', quantity: 1 },
+        { unit: 'Tablet', quantity: 4 }
+      ]);
+      expect(splitIntoUnits(0, units, 'Tablet')).toEqual([{ unit: 'Tablet', quantity: 0 }]);
+    });
+  });
+
+  describe('describeStock', () => {
+    it('should show stock in active units or packs', () => {
+      expect(describeStock(125, { baseUnitName: 'Tablet', unitsPerPack: 1, units }).display)
+        .toBe('1 Box + 2 Strip + 5 Tablet');
+      expect(describeStock(25, { baseUnitName: 'Unit', unitsPerPack: 12 }).display).toBe('2 Pack + 1 Unit');
+    });
+  });
+
+  describe('lineUnitData', () => {
+    it('should default to the base unit', () => {
+      expect(lineUnitData({})).toEqual({ unitId: null, unitName: null, unitQuantity: null, unitFactor: 1 });
+    });
+  });
+});